@@ -41,4 +41,9 @@ document.createRange = () => {
         },
     });
     return range;
-};
\ No newline at end of file
+};
+/**
+ * fix: jsdom does not implement `scrollIntoView`.
+ * @see https://github.com/jsdom/jsdom/issues/1695
+ */
+window.Element.prototype.scrollIntoView = () => {};
@@ -15,6 +15,16 @@ export function getFormatCurrTimeStamp(): string {
     return getCurrTimeStamp().replace(/:| |\./g, '-');
 }
 
+/**
+ * @description Returns the date of the given time (by default now) in the 
+ * local time zone.
+ * @example 2022-08-04
+ */
+export function getDateStamp(time: number = Date.now()): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
 export const enum TimeUnit {
     Milliseconds = 'ms',
     Seconds      = 'sec',
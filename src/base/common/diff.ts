@@ -0,0 +1,158 @@
+import { panic } from 'src/base/common/utilities/panic';
+
+export const enum LineDiffType {
+    Equal,
+    Insert,
+    Delete,
+}
+
+export interface ILineDiff {
+    readonly type: LineDiffType;
+    readonly text: string;
+}
+
+/**
+ * @description Computes the shortest line-based edit script that turns the
+ * original text into the modified text (Myers' algorithm).
+ * @returns Every line of both texts in order. Equal lines appear once,
+ *          deleted lines come from the original and inserted lines come from
+ *          the modified text.
+ *
+ * @note The common prefix and suffix are trimmed before diffing, so the cost
+ *       mostly depends on the size of the changed region.
+ */
+export function diffLines(original: string, modified: string): ILineDiff[] {
+    const a = original.split('\n');
+    const b = modified.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const prefix = a.slice(0, start).map(text => ({ type: LineDiffType.Equal, text: text }));
+    const suffix = a.slice(endA).map(text => ({ type: LineDiffType.Equal, text: text }));
+    const middle = __myers(a.slice(start, endA), b.slice(start, endB));
+    return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * @description The linear-space variant of Myers' algorithm: the middle snake
+ * of an optimal edit script is found by searching from both ends at the same
+ * time, then both halves around it are diffed recursively. The memory is
+ * linear to the size of the texts instead of the edit distance times it.
+ */
+function __myers(a: string[], b: string[]): ILineDiff[] {
+    const result: ILineDiff[] = [];
+    const offset = a.length + b.length + 1;
+    const forward = new Int32Array(2 * offset + 1);
+    const backward = new Int32Array(2 * offset + 1);
+    __diffRange(a, 0, a.length, b, 0, b.length, forward, backward, offset, result);
+    return result;
+}
+
+function __diffRange(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, forward: Int32Array, backward: Int32Array, offset: number, result: ILineDiff[]): void {
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        result.push({ type: LineDiffType.Equal, text: a[aStart]! });
+        aStart++;
+        bStart++;
+    }
+
+    const suffixEnd = aEnd;
+    while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+        aEnd--;
+        bEnd--;
+    }
+
+    if (aStart === aEnd) {
+        for (let y = bStart; y < bEnd; y++) {
+            result.push({ type: LineDiffType.Insert, text: b[y]! });
+        }
+    } else if (bStart === bEnd) {
+        for (let x = aStart; x < aEnd; x++) {
+            result.push({ type: LineDiffType.Delete, text: a[x]! });
+        }
+    } else {
+        const snake = __middleSnake(a, aStart, aEnd, b, bStart, bEnd, forward, backward, offset);
+        __diffRange(a, aStart, snake.startX, b, bStart, snake.startY, forward, backward, offset, result);
+        for (let x = snake.startX; x < snake.endX; x++) {
+            result.push({ type: LineDiffType.Equal, text: a[x]! });
+        }
+        __diffRange(a, snake.endX, aEnd, b, snake.endY, bEnd, forward, backward, offset, result);
+    }
+
+    for (let x = aEnd; x < suffixEnd; x++) {
+        result.push({ type: LineDiffType.Equal, text: a[x]! });
+    }
+}
+
+/**
+ * @description Returns the snake in the middle of an optimal edit script of
+ * the given ranges in absolute positions. The ranges must be non-empty.
+ * @note The forward search stores the furthest reaching x of each diagonal
+ *       `k = x - y`, the backward one stores the number of lines consumed
+ *       from the end of `a` on each reversed diagonal.
+ */
+function __middleSnake(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, forward: Int32Array, backward: Int32Array, offset: number): { startX: number, startY: number, endX: number, endY: number } {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    const max = Math.ceil((n + m) / 2);
+
+    forward[1 + offset] = 0;
+    backward[1 + offset] = 0;
+
+    for (let d = 0; d <= max; d++) {
+
+        // forward search
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && forward[k - 1 + offset]! < forward[k + 1 + offset]!))
+                ? forward[k + 1 + offset]!
+                : forward[k - 1 + offset]! + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            forward[k + offset] = x;
+
+            const reversedK = delta - k;
+            if (odd && reversedK >= -(d - 1) && reversedK <= d - 1 && x + backward[reversedK + offset]! >= n) {
+                return { startX: aStart + startX, startY: bStart + startY, endX: aStart + x, endY: bStart + y };
+            }
+        }
+
+        // backward search
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && backward[k - 1 + offset]! < backward[k + 1 + offset]!))
+                ? backward[k + 1 + offset]!
+                : backward[k - 1 + offset]! + 1;
+            let y = x - k;
+            const endX = x;
+            const endY = y;
+            while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+                x++;
+                y++;
+            }
+            backward[k + offset] = x;
+
+            const forwardK = delta - k;
+            if (!odd && forwardK >= -d && forwardK <= d && x + forward[forwardK + offset]! >= n) {
+                return { startX: aEnd - x, startY: bEnd - y, endX: aEnd - endX, endY: bEnd - endY };
+            }
+        }
+    }
+
+    // unreachable: the searches always meet within half of the edit distance.
+    return panic('[diffLines] The middle snake is not found.');
+}
@@ -338,6 +338,7 @@ export class AIError extends Error {
         | 'Auth'
         | 'Client'
         | 'Internal'
+        | 'Budget'
         | 'Unknown';
 
     /** HTTP status code (if applicable) */
@@ -355,6 +356,9 @@ export class AIError extends Error {
     /** Request ID from response headers (if available) */
     public readonly requestId?: string;
 
+    /** The error code when the user-configured token budget is exceeded */
+    public static readonly BUDGET_EXCEEDED = 'budget_exceeded';
+
     // [constructor]
 
     constructor(modelName: string | null, rawError: unknown) {
@@ -448,6 +452,7 @@ export class AIError extends Error {
 
         // OpenAI-style error codes
         if (code) {
+            if (code === AIError.BUDGET_EXCEEDED) return 'Budget';
             if (code.includes('invalid_api')) return 'Auth';
             if (code.includes('rate_limit')) return 'API';
         }
@@ -118,6 +118,9 @@ export const enum FileSystemProviderCapability {
 
 	/** Provider only supports reading. */
 	Readonly = 1 << 6,
+
+	/** Provider supports atomic writing through {@link IWriteFileOptions.atomic}. */
+	FileAtomicWrite = 1 << 7,
 }
 
 /*******************************************************************************
@@ -171,6 +174,10 @@ export function hasReadFileStreamCapability(provider: IFileSystemProvider): prov
 	return !!(provider.capabilities & FileSystemProviderCapability.ReadFileStream);
 }
 
+export function hasAtomicWriteCapability(provider: IFileSystemProvider): provider is IFileSystemProviderWithFileReadWrite {
+	return hasReadWriteCapability(provider) && !!(provider.capabilities & FileSystemProviderCapability.FileAtomicWrite);
+}
+
 /*******************************************************************************
  * Options
  ******************************************************************************/
@@ -236,6 +243,16 @@ export interface IWriteFileOptions extends IOverwriteFileOptions {
 	 * attempt to write to unless `unlock: true` is provided.
 	 */
 	readonly unlock?: boolean;
+
+	/**
+	 * Set to `true` to write the content into a temporary file next to the
+	 * target first, then rename it over the target. The target is either
+	 * untouched or completely written even if the process crashes midway.
+	 *
+	 * @note Ignored if the provider does not support
+	 * 		 {@link FileSystemProviderCapability.FileAtomicWrite}.
+	 */
+	readonly atomic?: boolean;
 }
 
 export interface IDeleteFileOptions {
@@ -25,4 +25,160 @@ export function isFiltered(str: string, filters: IFilterOpts): boolean {
     return false;
 }
 
-export type FuzzyScore = void;
\ No newline at end of file
+/**
+ * The result of {@link fuzzyScore}. A higher score indicates a better match.
+ */
+export type FuzzyScore = {
+    readonly score: number;
+
+    /**
+     * The indice of the characters in the target that are matched by the
+     * pattern, in ascending order.
+     */
+    readonly matches: readonly number[];
+};
+
+/**
+ * The scores used by {@link fuzzyScore} for each matched character.
+ */
+const FuzzyBonus = {
+    Match       : 1,
+    SameCase    : 1,
+    Consecutive : 5,
+    Start       : 8,
+    Separator   : 6,
+    CamelCase   : 5,
+    MaxGap      : 3,
+} as const;
+
+/**
+ * @description Matches the pattern against the target as a subsequence
+ * (case-insensitive) and scores the best match.
+ *
+ * Matches that are consecutive, at the start of the target, after a separator
+ * (`/`, `\`, `_`, `-`, `.` and space) or at a camel-case boundary are scored
+ * higher. Gaps between the matched characters are slightly penalized.
+ *
+ * @param pattern The pattern typed by the user.
+ * @param target The string to be matched.
+ * @returns The score, or `undefined` if the pattern does not match. An empty
+ *          pattern always matches with a score of 0.
+ *
+ * @example
+ * fuzzyScore('fb', 'fooBar'); // { score: ..., matches: [0, 3] }
+ * fuzzyScore('xyz', 'fooBar'); // undefined
+ */
+export function fuzzyScore(pattern: string, target: string): FuzzyScore | undefined {
+    const patternLen = pattern.length;
+    const targetLen = target.length;
+
+    if (patternLen === 0) {
+        return { score: 0, matches: [] };
+    }
+    if (patternLen > targetLen) {
+        return undefined;
+    }
+
+    const patternLow = pattern.toLowerCase();
+    const targetLow = target.toLowerCase();
+
+    /**
+     * `scores[i][j]` is the best score when the i-th character of the pattern
+     * is matched at the j-th character of the target. `prevs[i][j]` is where
+     * the (i-1)-th character is matched for that best score.
+     */
+    const scores: number[][] = [];
+    const prevs: number[][] = [];
+
+    for (let i = 0; i < patternLen; i++) {
+        const row = new Array<number>(targetLen).fill(-Infinity);
+        const prev = new Array<number>(targetLen).fill(-1);
+
+        // the best score of the previous row before `j - 1` and its index
+        let bestBefore = -Infinity;
+        let bestBeforeIdx = -1;
+
+        for (let j = i; j < targetLen; j++) {
+            if (i > 0 && j >= 2 && scores[i - 1]![j - 2]! > bestBefore) {
+                bestBefore = scores[i - 1]![j - 2]!;
+                bestBeforeIdx = j - 2;
+            }
+
+            if (patternLow[i] !== targetLow[j]) {
+                continue;
+            }
+
+            const charScore = __charScore(pattern, target, i, j);
+
+            if (i === 0) {
+                row[j] = charScore - Math.min(j, FuzzyBonus.MaxGap);
+                continue;
+            }
+
+            const consecutive = scores[i - 1]![j - 1]! + FuzzyBonus.Consecutive;
+            const gap = bestBefore - Math.min(j - bestBeforeIdx - 1, FuzzyBonus.MaxGap);
+            if (consecutive >= gap && consecutive > -Infinity) {
+                row[j] = consecutive + charScore;
+                prev[j] = j - 1;
+            } else if (gap > -Infinity) {
+                row[j] = gap + charScore;
+                prev[j] = bestBeforeIdx;
+            }
+        }
+
+        scores.push(row);
+        prevs.push(prev);
+    }
+
+    // find the best end
+    const lastRow = scores[patternLen - 1]!;
+    let end = -1;
+    for (let j = 0; j < targetLen; j++) {
+        if (lastRow[j]! > -Infinity && (end === -1 || lastRow[j]! > lastRow[end]!)) {
+            end = j;
+        }
+    }
+    if (end === -1) {
+        return undefined;
+    }
+
+    // backtrack the matches
+    const matches = new Array<number>(patternLen);
+    let j = end;
+    for (let i = patternLen - 1; i >= 0; i--) {
+        matches[i] = j;
+        j = prevs[i]![j]!;
+    }
+
+    return { score: lastRow[end]!, matches: matches };
+}
+
+function __charScore(pattern: string, target: string, patternIdx: number, targetIdx: number): number {
+    let score = FuzzyBonus.Match;
+
+    if (pattern[patternIdx] === target[targetIdx]) {
+        score += FuzzyBonus.SameCase;
+    }
+
+    if (targetIdx === 0) {
+        score += FuzzyBonus.Start;
+    } else {
+        const prevChar = target[targetIdx - 1]!;
+        const char = target[targetIdx]!;
+        if (__isSeparator(prevChar)) {
+            score += FuzzyBonus.Separator;
+        } else if (__isUpperCase(char) && !__isUpperCase(prevChar)) {
+            score += FuzzyBonus.CamelCase;
+        }
+    }
+
+    return score;
+}
+
+function __isSeparator(char: string): boolean {
+    return char === '/' || char === '\\' || char === '_' || char === '-' || char === '.' || char === ' ';
+}
+
+function __isUpperCase(char: string): boolean {
+    return char !== char.toLowerCase();
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Result } from "src/base/common/result";
+
+export interface ITextSearchQuery {
+
+    /**
+     * The raw text (or regular expression) typed by the user.
+     */
+    readonly pattern: string;
+    readonly isRegExp?: boolean;
+    readonly isCaseSensitive?: boolean;
+    readonly isWholeWord?: boolean;
+}
+
+/**
+ * The part of a match that is required to expand a replace pattern.
+ */
+export interface ISearchReplaceMatch {
+    readonly text: string;
+    readonly captures: readonly (string | undefined)[];
+    readonly namedCaptures?: Readonly<Record<string, string>>;
+}
+
+/**
+ * @description Converts the given query into a global regular expression that
+ * can be used to match line by line.
+ * @returns A {@link SyntaxError} if the pattern is an invalid regular
+ * expression.
+ */
+export function createSearchRegExp(query: ITextSearchQuery): Result<RegExp, SyntaxError> {
+    return Result.fromThrowable(
+        () => {
+            let source = query.isRegExp ? query.pattern : __escapeRegExp(query.pattern);
+            if (query.isWholeWord) {
+                source = `(?<!\\w)(?:${source})(?!\\w)`;
+            }
+            const flags = query.isCaseSensitive ? 'g' : 'gi';
+            return new RegExp(source, flags);
+        },
+        error => <SyntaxError>error,
+    );
+}
+
+/**
+ * @description Expands the replace pattern for the given match. In regular
+ * expression mode, the following patterns are supported: `$$`, `$&`, `$n` and
+ * `$<name>`.
+ */
+export function expandReplacement(pattern: string, match: ISearchReplaceMatch, isRegExp?: boolean): string {
+    if (!isRegExp) {
+        return pattern;
+    }
+
+    return pattern.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (raw, token: string, name?: string) => {
+        if (token === '$') {
+            return '$';
+        }
+        if (token === '&') {
+            return match.text;
+        }
+        if (name !== undefined) {
+            return match.namedCaptures ? (match.namedCaptures[name] ?? '') : raw;
+        }
+
+        // prefer the two-digit group if exists
+        const index = Number(token);
+        if (index >= 1 && index <= match.captures.length) {
+            return match.captures[index - 1] ?? '';
+        }
+        const single = Number(token[0]);
+        if (token.length === 2 && single >= 1 && single <= match.captures.length) {
+            return (match.captures[single - 1] ?? '') + token[1];
+        }
+        return raw;
+    });
+}
+
+function __escapeRegExp(value: string): string {
+    return value.replace(/[\\^$.*+?()[\]{}|-]/g, '\\$&');
+}
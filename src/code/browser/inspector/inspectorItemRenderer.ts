@@ -5,7 +5,6 @@ import { IListViewMetadata, RendererType } from "src/base/browser/secondary/list
 import { ITreeNode } from "src/base/browser/secondary/tree/tree";
 import { ITreeListRenderer } from "src/base/browser/secondary/tree/treeListRenderer";
 import { Color } from "src/base/common/color";
-import { FuzzyScore } from "src/base/common/fuzzy";
 import { isBoolean, isNullable, isNumber, isString } from "src/base/common/utilities/type";
 import { InspectorItem } from "src/code/browser/inspector/inspectorTree";
 import { IConfigurationService, ConfigurationModuleType } from "src/platform/configuration/common/configuration";
@@ -20,7 +19,7 @@ interface IInspectorItemMetadata extends IListViewMetadata {
 }
 const InspectorRendererType = 'inspector-renderer';
 
-export class InspectorItemRenderer implements ITreeListRenderer<InspectorItem, FuzzyScore, IInspectorItemMetadata> {
+export class InspectorItemRenderer implements ITreeListRenderer<InspectorItem, void, IInspectorItemMetadata> {
 
     public readonly type: RendererType = InspectorRendererType;
 
@@ -138,7 +137,7 @@ export class InspectorItemRenderer implements ITreeListRenderer<InspectorItem, F
         valuePart.defaultValue = textContent;
     }
 
-    public updateIndent(item: ITreeNode<InspectorItem, FuzzyScore>, indentElement: HTMLElement): void {
+    public updateIndent(item: ITreeNode<InspectorItem, void>, indentElement: HTMLElement): void {
         if (item.collapsible) {
             indentElement.classList.add(...getIconClass(Icons.ArrowRight));
         } else {
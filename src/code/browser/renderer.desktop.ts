@@ -38,6 +38,16 @@ import { IDialogService, BrowserDialogService } from "src/platform/dialog/browse
 import { Workspace } from "src/workbench/parts/workspace/workspace";
 import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
 import { IContextMenuService, ContextMenuService } from "src/workbench/services/contextMenu/contextMenuService";
+import { IFileOperationService, FileOperationService } from "src/workbench/services/fileOperation/fileOperationService";
+import { IEditorModelService, EditorModelService } from "src/workbench/services/editorModel/editorModelService";
+import { IBackupService, BackupService } from "src/workbench/services/backup/backupService";
+import { IFileHistoryService, FileHistoryService } from "src/workbench/services/history/fileHistoryService";
+import { IFileHistoryViewService } from "src/workbench/contrib/fileHistory/fileHistoryViewService";
+import { FileHistoryViewService } from "src/workbench/contrib/fileHistory/fileHistory";
+import { ICommandPaletteService } from "src/workbench/contrib/commandPalette/commandPaletteService";
+import { CommandPaletteService } from "src/workbench/contrib/commandPalette/commandPalette";
+import { IQuickOpenService } from "src/workbench/contrib/quickOpen/quickOpenService";
+import { QuickOpenService } from "src/workbench/contrib/quickOpen/quickOpen";
 import { IKeyboardScreenCastService, KeyboardScreenCastService } from "src/workbench/services/keyboard/keyboardScreenCastService";
 import { IKeyboardService, KeyboardService } from "src/workbench/services/keyboard/keyboardService";
 import { ILayoutService, LayoutService } from "src/workbench/services/layout/layoutService";
@@ -272,6 +282,13 @@ const renderer = new class extends class RendererInstance extends Disposable {
         registerService(IFileTreeService          , new ServiceDescriptor(FileTreeService          , []));
         registerService(IFileTreeMetadataService  , new ServiceDescriptor(FileTreeService          , []));
         registerService(IContextMenuService       , new ServiceDescriptor(ContextMenuService       , []));
+        registerService(IFileOperationService     , new ServiceDescriptor(FileOperationService     , []));
+        registerService(IEditorModelService       , new ServiceDescriptor(EditorModelService       , []));
+        registerService(IBackupService            , new ServiceDescriptor(BackupService            , []));
+        registerService(IQuickOpenService         , new ServiceDescriptor(QuickOpenService         , []));
+        registerService(IFileHistoryService       , new ServiceDescriptor(FileHistoryService       , []));
+        registerService(IFileHistoryViewService   , new ServiceDescriptor(FileHistoryViewService   , []));
+        registerService(ICommandPaletteService    , new ServiceDescriptor(CommandPaletteService    , []));
     
         // utilities && tools
         registerService(INotificationService      , new ServiceDescriptor(NotificationService      , []));
@@ -0,0 +1,158 @@
+import { javascript } from "@codemirror/lang-javascript";
+import { python } from "@codemirror/lang-python";
+import { json } from "@codemirror/lang-json";
+import { markdown } from "@codemirror/lang-markdown";
+import { cpp } from "@codemirror/lang-cpp";
+import { shell } from "@codemirror/legacy-modes/mode/shell";
+import { CodeCompartment, CodeDecoration, CodeDecorationSet, CodeEditorView, CodeExtension, CodeStateEffect, CodeStateField, CodeStreamLanguage, minimalSetup } from "src/editor/common/codeMirror";
+
+/**
+ * A language that can be highlighted in a code block.
+ */
+export interface ICodeBlockLanguage {
+
+    /**
+     * The name that will be written after the opening fence.
+     */
+    readonly id: string;
+
+    /**
+     * The name that is displayed to the user.
+     */
+    readonly name: string;
+
+    /**
+     * Other names (case-insensitive) that also refer to this language.
+     */
+    readonly aliases: readonly string[];
+}
+
+interface ICodeBlockLanguageEntry extends ICodeBlockLanguage {
+    readonly load: () => CodeExtension;
+}
+
+const LANGUAGES: readonly ICodeBlockLanguageEntry[] = [
+    { id: 'javascript', name: 'JavaScript', aliases: ['js', 'jsx', 'mjs', 'cjs'], load: () => javascript({ jsx: true }) },
+    { id: 'typescript', name: 'TypeScript', aliases: ['ts', 'tsx', 'mts', 'cts'], load: () => javascript({ jsx: true, typescript: true }) },
+    { id: 'python',     name: 'Python',     aliases: ['py'],                      load: () => python() },
+    { id: 'json',       name: 'JSON',       aliases: ['jsonc', 'json5'],          load: () => json() },
+    { id: 'shell',      name: 'Shell',      aliases: ['sh', 'bash', 'zsh'],       load: () => CodeStreamLanguage.define(shell) },
+    { id: 'markdown',   name: 'Markdown',   aliases: ['md'],                      load: () => markdown() },
+    { id: 'c',          name: 'C',          aliases: ['h'],                       load: () => cpp() },
+    { id: 'cpp',        name: 'C++',        aliases: ['c++', 'cc', 'cxx', 'hpp'], load: () => cpp() },
+];
+
+/**
+ * The language supports are only loaded once they are required.
+ */
+const loaded = new Map<string, CodeExtension>();
+
+/**
+ * Every code block view stores its language support within this compartment,
+ * so that the language can be reconfigured without recreating the view.
+ */
+const languageCompartment = new CodeCompartment();
+
+/**
+ * A range within the content of a code block that is highlighted by
+ * {@link setCodeBlockHighlights}.
+ */
+export interface ICodeBlockHighlight {
+    readonly start: number;
+    readonly end: number;
+    readonly className: string;
+}
+
+const setHighlightsEffect = CodeStateEffect.define<readonly ICodeBlockHighlight[]>();
+
+/**
+ * Every code block view keeps its highlights within this field. The
+ * highlights are mapped through the changes made inside the code block.
+ */
+const highlightField = CodeStateField.define<CodeDecorationSet>({
+    create: () => CodeDecoration.none,
+    update: (highlights, tr) => {
+        for (const effect of tr.effects) {
+            if (effect.is(setHighlightsEffect)) {
+                const ranges = effect.value.map(each => CodeDecoration.mark({ class: each.className }).range(each.start, each.end));
+                return CodeDecoration.set(ranges, true);
+            }
+        }
+        return highlights.map(tr.changes);
+    },
+    provide: field => CodeEditorView.decorations.from(field),
+});
+
+/**
+ * All the languages that are supported by the code block.
+ */
+export const CODE_BLOCK_LANGUAGES: readonly ICodeBlockLanguage[] = LANGUAGES;
+
+/**
+ * @description Finds the supported language by the given name (case-insensitive).
+ * Returns `undefined` if the language is not supported.
+ */
+export function resolveCodeBlockLanguage(lang: string): ICodeBlockLanguage | undefined {
+    const name = lang.trim().toLowerCase();
+    if (name === '') {
+        return undefined;
+    }
+    return LANGUAGES.find(each => each.id === name || each.aliases.includes(name));
+}
+
+/**
+ * @description Creates a view that renders a code block.
+ * @param doc The content of the code block.
+ * @param lang The language of the code block. Empty string means plain text.
+ */
+export function createCodeBlockView(doc: string, lang: string): CodeEditorView {
+    return new CodeEditorView({
+        doc: doc,
+        extensions: [
+            minimalSetup,
+            languageCompartment.of(__getLanguageSupport(lang)),
+            highlightField,
+        ],
+    });
+}
+
+/**
+ * @description Reconfigures the language of the given code block view which
+ * is created by {@link createCodeBlockView}. Empty string means no language
+ * (no highlighting).
+ */
+export function setCodeBlockLanguage(view: CodeEditorView, lang: string): void {
+    view.dispatch({
+        effects: languageCompartment.reconfigure(__getLanguageSupport(lang)),
+    });
+}
+
+/**
+ * @description Replaces the highlights of the given code block view which is
+ * created by {@link createCodeBlockView}. Ranges that are out of the content
+ * are ignored.
+ * @param reveal If provided, the position will be scrolled into view.
+ */
+export function setCodeBlockHighlights(view: CodeEditorView, highlights: readonly ICodeBlockHighlight[], reveal?: number): void {
+    const length = view.state.doc.length;
+    const valid = highlights.filter(each => each.start < each.end && each.end <= length);
+    view.dispatch({
+        effects: reveal !== undefined && reveal <= length
+            ? [setHighlightsEffect.of(valid), CodeEditorView.scrollIntoView(reveal, { y: 'center' })]
+            : setHighlightsEffect.of(valid),
+    });
+}
+
+function __getLanguageSupport(lang: string): CodeExtension {
+    const language = <ICodeBlockLanguageEntry | undefined>resolveCodeBlockLanguage(lang);
+    if (!language) {
+        return [];
+    }
+
+    let support = loaded.get(language.id);
+    if (!support) {
+        support = language.load();
+        loaded.set(language.id, support);
+    }
+    return support;
+}
@@ -1 +1,5 @@
 export { EditorView as CodeEditorView, minimalSetup } from "codemirror";
+export { EditorState as CodeEditorState, Annotation as CodeAnnotation, EditorSelection as CodeEditorSelection, Prec as codePrec, Compartment as CodeCompartment, StateField as CodeStateField, StateEffect as CodeStateEffect, type Extension as CodeExtension } from "@codemirror/state";
+export { ViewUpdate as CodeViewUpdate, keymap as codeKeymap, drawSelection as codeDrawSelection, Decoration as CodeDecoration, type DecorationSet as CodeDecorationSet } from "@codemirror/view";
+export { defaultKeymap as codeDefaultKeymap } from "@codemirror/commands";
+export { StreamLanguage as CodeStreamLanguage } from "@codemirror/language";
@@ -0,0 +1,165 @@
+import { TokenEnum } from "src/editor/common/markdown";
+import { ProseEditorState, ProseNode, ProseTextSelection, ProseTransaction } from "src/editor/common/proseMirror";
+
+/**
+ * A section of a document is a heading together with all of its subordinate
+ * content: every following sibling block until the next heading with the same
+ * or a higher level (smaller number), or the end of the parent.
+ */
+export interface IHeadingSection {
+
+    /**
+     * The position right before the heading node.
+     */
+    readonly from: number;
+
+    /**
+     * The position right after the last block of the section.
+     */
+    readonly to: number;
+
+    /**
+     * The level of the heading of the section.
+     * @range [1, 6]
+     */
+    readonly level: number;
+}
+
+/**
+ * @description Returns the section of the heading at the given position.
+ * Returns `undefined` if there is no heading at the position.
+ */
+export function getHeadingSection(doc: ProseNode, position: number): IHeadingSection | undefined {
+    const heading = doc.nodeAt(position);
+    if (!heading || heading.type.name !== TokenEnum.Heading) {
+        return undefined;
+    }
+
+    const $pos = doc.resolve(position);
+    const parent = $pos.parent;
+    const level = <number>heading.attrs['level'];
+
+    let to = position + heading.nodeSize;
+    for (let i = $pos.index() + 1; i < parent.childCount; i++) {
+        const child = parent.child(i);
+        if (child.type.name === TokenEnum.Heading && <number>child.attrs['level'] <= level) {
+            break;
+        }
+        to += child.nodeSize;
+    }
+
+    return { from: position, to: to, level: level };
+}
+
+/**
+ * @description Returns the position of the heading whose section contains the
+ * given position (usually the cursor). Returns `undefined` if the position is
+ * not within any section.
+ */
+export function findHeadingSectionAt(doc: ProseNode, position: number): number | undefined {
+    const candidates: number[] = [];
+    doc.descendants((node, pos) => {
+        if (pos > position) {
+            return false;
+        }
+        if (node.type.name === TokenEnum.Heading) {
+            candidates.push(pos);
+            return false;
+        }
+        return !node.isTextblock;
+    });
+
+    // the closest section that contains the position
+    for (let i = candidates.length - 1; i >= 0; i--) {
+        const section = getHeadingSection(doc, candidates[i]!)!;
+        if (position < section.to) {
+            return section.from;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * @description Moves the section of the heading at the given position to the
+ * target position as one single transaction.
+ * @param position The position right before the heading.
+ * @param target The position between two blocks that shares the same parent
+ *               with the heading.
+ * @param dispatch If not provided, only checks if the move is applicable.
+ * @returns Returns false if the move is not applicable, such as moving into
+ *          the section itself or into another parent.
+ *
+ * @note The cursor is placed at the end of the moved heading.
+ */
+export function moveHeadingSection(state: ProseEditorState, position: number, target: number, dispatch?: (tr: ProseTransaction) => void): boolean {
+    const doc = state.doc;
+    const section = getHeadingSection(doc, position);
+    if (!section || target < 0 || target > doc.content.size) {
+        return false;
+    }
+
+    // moving onto itself makes no difference
+    if (section.from <= target && target <= section.to) {
+        return false;
+    }
+
+    // the target must be a block boundary within the same parent
+    const $pos = doc.resolve(position);
+    const $target = doc.resolve(target);
+    if ($target.parent !== $pos.parent || $target.textOffset !== 0 || $target.parent.isTextblock) {
+        return false;
+    }
+
+    if (dispatch) {
+        const heading = doc.nodeAt(position)!;
+        const content = doc.slice(section.from, section.to).content;
+        const tr = state.tr.delete(section.from, section.to);
+
+        const insertAt = tr.mapping.map(target);
+        tr.insert(insertAt, content);
+        tr.setSelection(ProseTextSelection.create(tr.doc, insertAt + heading.nodeSize - 1));
+        dispatch(tr.scrollIntoView());
+    }
+
+    return true;
+}
+
+/**
+ * @description Shifts the levels of every heading within the section of the
+ * heading at the given position as one single transaction.
+ * @param position The position right before the heading.
+ * @param delta Negative number promotes the section (e.g. `h2` to `h1`),
+ *              positive number demotes the section.
+ * @param dispatch If not provided, only checks if the shift is applicable.
+ * @returns Returns false if there is no heading at the position, or any of
+ *          the headings would be out of the range [1, 6].
+ */
+export function shiftHeadingSection(state: ProseEditorState, position: number, delta: number, dispatch?: (tr: ProseTransaction) => void): boolean {
+    const section = getHeadingSection(state.doc, position);
+    if (!section || delta === 0) {
+        return false;
+    }
+
+    const headings: { node: ProseNode, pos: number, level: number }[] = [];
+    state.doc.nodesBetween(section.from, section.to, (node, pos) => {
+        if (node.type.name === TokenEnum.Heading) {
+            headings.push({ node: node, pos: pos, level: <number>node.attrs['level'] + delta });
+            return false;
+        }
+        return !node.isTextblock;
+    });
+
+    if (headings.some(heading => heading.level < 1 || heading.level > 6)) {
+        return false;
+    }
+
+    if (dispatch) {
+        const tr = state.tr;
+        for (const { node, pos, level } of headings) {
+            tr.setNodeMarkup(pos, undefined, { ...node.attrs, level: level });
+        }
+        dispatch(tr);
+    }
+
+    return true;
+}
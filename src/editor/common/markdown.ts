@@ -5,7 +5,10 @@ export const enum TokenEnum {
     Space = 'space',
     CodeBlock = 'code',
     Heading = 'heading',
-    Table = 'table', // TODO
+    Table = 'table',
+    TableRow = 'table_row',
+    TableHeader = 'table_header',
+    TableCell = 'table_cell',
     HorizontalRule = 'hr',
     Blockquote = 'blockquote',
     List = 'list',
@@ -14,7 +17,7 @@ export const enum TokenEnum {
     HTML = 'html',
     InlineHTML = 'inline_html',
     Text = 'text',
-    Def = 'def', // TODO
+    Def = 'def',
     Escape = 'escape',
     Image = 'image',
     LineBreak = 'br',
@@ -28,5 +31,5 @@ export const enum MarkEnum {
     Em = 'em',
     Codespan = 'codespan',
     // marked.Tokens.Tag // TODO
-    Del = 'del', // TODO
+    Del = 'del',
 }
\ No newline at end of file
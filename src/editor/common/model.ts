@@ -2,7 +2,7 @@ import * as marked from "marked";
 import { IDisposable } from "src/base/common/dispose";
 import { Register } from "src/base/common/event";
 import { URI } from "src/base/common/files/uri";
-import { ProseEditorState, ProseTransaction } from "src/editor/common/proseMirror";
+import { ProseEditorState, ProseNode, ProseTransaction } from "src/editor/common/proseMirror";
 import { AsyncResult } from "src/base/common/result";
 import { IEditorExtension } from "src/editor/common/editorExtension";
 import { EditorSchema } from "src/editor/model/schema";
@@ -47,8 +47,48 @@ export namespace EditorTokens {
         raw: string,
         text: string,
     };
+
+    /**
+     * Tokens synthesized from {@link Table} since marked does not produce 
+     * tokens for table rows and table cells.
+     */
+    export type TableRow = {
+        type: 'table_row',
+        raw: string,
+        cells: TableRowCell[],
+    };
+    export type TableRowCell = marked.Tokens.TableCell & {
+        type: 'table_header' | 'table_cell',
+        raw: string,
+        implicit: boolean,
+    };
+}
+
+export interface IEditorModelSaveOptions {
+
+    /**
+     * Overwrites the file even if it is modified by others on the disk.
+     * @default false
+     */
+    readonly force?: boolean;
+}
+
+/**
+ * Returned by {@link IEditorModel.save} when the file on the disk is newer
+ * than the one the model is based on.
+ */
+export class FileConflictError extends Error {
+    constructor(public readonly source: URI) {
+        super(`The file is modified on the disk (${URI.toString(source)}).`);
+    }
 }
 
+/**
+ * The meta key of a transaction that is applied to every view of the same
+ * {@link IEditorModel} already, thus the other views should not follow it.
+ */
+export const SYNCED_TRANSACTION_META = 'editorModelSynced';
+
 /**
  * An interface only for {@link EditorModel}.
  */
@@ -74,6 +114,18 @@ export interface IEditorModel extends IDisposable {
      */
     readonly state?: ProseEditorState;
 
+    /**
+     * Indicates if the model is in conflict with its source file and the 
+     * conflict is not resolved yet. See {@link onDidConflict}.
+     */
+    readonly conflicted: boolean;
+
+    /**
+     * The modify time of the source file when the model read or saved it the
+     * last time. Returns undefined if the model is not built yet.
+     */
+    readonly diskModifyTime?: number;
+
     /** 
      * Fires when the model is built for the first time.
      */
@@ -90,6 +142,18 @@ export interface IEditorModel extends IDisposable {
      */
     readonly onDidSaveError: Register<unknown>;
 
+    /**
+     * Fires whenever the source file is modified by others while the model has
+     * unsaved changes, or a save is refused because the file on the disk is
+     * newer than the model. The model keeps the unsaved changes until the
+     * client resolves the conflict by either `save({ force: true })` or
+     * `reload()`.
+     *
+     * @note The model reloads silently if it has no unsaved changes.
+     * @note Fires only once until the conflict is resolved.
+     */
+    readonly onDidConflict: Register<void>;
+
     /**
      * Fires whenever the working file is dirty or not. True means the file is 
      * turning to dirty, false if not.
@@ -107,9 +171,19 @@ export interface IEditorModel extends IDisposable {
      */
     readonly onDidStateChange: Register<void>;
 
+    /**
+     * Fires whenever the document is changed by one of the views of the model.
+     * A model can be opened by multiple views, the other views follow the 
+     * change by the steps of the transaction.
+     */
+    readonly onDidViewChange: Register<IOnDidContentChangeEvent>;
+
     /**
      * @description Start building the model.
      * @note This will trigger `onDidBuild` event.
+     * @note If the model is already built, the current document is returned
+     *       as a new state with the given extensions without reading the file
+     *       again, so that the model can be opened by another view.
      */
     build(extensions: IEditorExtension[]): AsyncResult<ProseEditorState, Error>;
 
@@ -139,6 +213,44 @@ export interface IEditorModel extends IDisposable {
      */
     getRawContent(): string;
 
+    /**
+     * @description Returns the raw content of the model along with the end 
+     * offset of every top-level block of the document in the raw content.
+     */
+    getRawContentWithBlockOffsets(): { readonly content: string, readonly blockOffsets: number[] };
+
+    /**
+     * @description Replaces the content of the model with the given raw text.
+     * Only the part of the document that actually changes is replaced.
+     * @param text The new raw text.
+     */
+    setRawContent(text: string): void;
+
+    /**
+     * @description Replaces the content of the built model with the unsaved
+     * content of a backup. The model becomes dirty.
+     * @param text The backup content.
+     * @param modifyTime The modify time of the source file when the backup is
+     *                   taken. The model is in conflict if the source file is
+     *                   modified since then.
+     * @note Applied to the model directly if the model is not opened by any
+     *       views yet.
+     */
+    restoreBackup(text: string, modifyTime: number | undefined): void;
+
+    /**
+     * @description Serializes the given document into raw text without
+     * touching the model.
+     * @param doc The document, or a part of it (see `ProseNode.cut`).
+     */
+    serialize(doc: ProseNode): string;
+
+    /**
+     * @description Parses the given raw text into a document without touching
+     * the model.
+     */
+    parse(text: string): ProseNode;
+
     /**
      * @description Returns the line string of the corresponding line number (
      * not include line breaking).
@@ -202,8 +314,23 @@ export interface IEditorModel extends IDisposable {
 
     /**
      * @description Save the text model into the disk.
+     * @note Returns a {@link FileConflictError} if the file on the disk is
+     *       modified by others since the last time the model read or saved it,
+     *       unless the save is forced.
+     */
+    save(options?: IEditorModelSaveOptions): AsyncResult<void, Error>;
+
+    /**
+     * @description Discards the unsaved changes and re-reads the content from
+     * the disk.
+     */
+    reload(): AsyncResult<void, Error>;
+
+    /**
+     * @description Binds the model to the new source once the source file is
+     * renamed or moved. The content and the unsaved changes are kept.
      */
-    save(): AsyncResult<void, Error>;
+    rebind(source: URI): void;
 
     // internal
 
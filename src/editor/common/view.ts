@@ -1,6 +1,7 @@
+import { Register } from "src/base/common/event";
 import { IProseEventBroadcaster } from "src/editor/view/proseEventBroadcaster";
-import { EditorBase } from "src/editor/view/editorBase";
 import { RichtextEditor } from "src/editor/view/richtextEditor";
+import { IPlaintextEditor } from "src/editor/view/plaintextEditor";
 
 export const enum EditorType {
     Plain = 'plain-text',
@@ -8,10 +9,7 @@ export const enum EditorType {
     Rich = 'rich-text'
 }
 
-export type PlaintextEditor = {} & EditorBase; // TEST
-export type SplitViewEditor = {} & EditorBase; // TEST
-
-export type EditorWindow = RichtextEditor | PlaintextEditor | SplitViewEditor;
+export type EditorWindow = RichtextEditor;
 
 /**
  * An interface only for {@link EditorView}.
@@ -20,6 +18,38 @@ export interface IEditorView extends IProseEventBroadcaster {
 
     /**
      * The actual editor instance.
+     * 
+     * @note The rich text editor always exists regardless of the render mode
+     * since it owns the document state and the undo history. It is only hidden
+     * in {@link EditorType.Plain} mode.
      */
     readonly editor: EditorWindow;
+
+    /**
+     * The raw markdown editor. Only created once the render mode has ever been
+     * switched to {@link EditorType.Plain} or {@link EditorType.Split}.
+     */
+    readonly plaintext: IPlaintextEditor | null;
+
+    /**
+     * The current render mode of the view.
+     */
+    readonly renderMode: EditorType;
+
+    /**
+     * Fires when the render mode of the view has changed.
+     */
+    readonly onDidRenderModeChange: Register<EditorType>;
+
+    /**
+     * @description Switches the render mode of the view. The content, the 
+     * cursor and the undo history are preserved.
+     */
+    setRenderMode(mode: EditorType): void;
+
+    /**
+     * @description Applies the `writable` option to the view after it has
+     * been updated.
+     */
+    setWritable(writable: boolean): void;
 }
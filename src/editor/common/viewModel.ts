@@ -8,6 +8,23 @@ export interface IEditorViewModel extends Disposable {
     readonly onDidChangeModelState: Register<ProseTransaction>;
     readonly onDidBuild: Register<ProseEditorState>;
 
+    /**
+     * Fires whenever the document of the model is changed by another view of
+     * the same model.
+     */
+    readonly onDidChangeModelContent: Register<IOnDidContentChangeEvent>;
+
 
     onDidChangeViewState(e: IOnDidContentChangeEvent): void;
+
+    /**
+     * @description Returns the raw content of the model along with the end 
+     * offset of every top-level block of the document in the raw content.
+     */
+    getRawContentWithBlockOffsets(): { readonly content: string, readonly blockOffsets: number[] };
+
+    /**
+     * @description Replaces the content of the model with the given raw text.
+     */
+    setRawContent(text: string): void;
 }
\ No newline at end of file
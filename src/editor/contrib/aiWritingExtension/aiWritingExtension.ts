@@ -0,0 +1,442 @@
+import "src/editor/contrib/aiWritingExtension/aiWritingExtension.scss";
+import { EditorExtension, IEditorExtension } from "src/editor/common/editorExtension";
+import { ProseDecoration, ProseDecorationSet, ProseDecorationSource, ProseEditorState, ProseEditorView, ProseNode, ProseSlice, ProseTransaction } from "src/editor/common/proseMirror";
+import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
+import { IEditorWidget } from "src/editor/editorWidget";
+import { TokenEnum } from "src/editor/common/markdown";
+import { nullable } from "src/base/common/utilities/type";
+import { Result } from "src/base/common/result";
+import { CancellationToken, ICancellationToken } from "src/base/common/utilities/cancellation";
+import { errorToMessage } from "src/base/common/utilities/panic";
+import { AI } from "src/platform/ai/common/ai";
+import { IAITextService } from "src/platform/ai/common/aiText";
+import { IConfigurationService } from "src/platform/configuration/common/configuration";
+import { INotificationService } from "src/workbench/services/notification/notification";
+import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
+
+/**
+ * The actions that the AI writing assistant supports.
+ */
+export const enum AIWritingAction {
+    /** Continues writing from the cursor. */
+    Continue = 'continue',
+    /** Rewrites the selected text. */
+    Rewrite = 'rewrite',
+    /** Summarizes the whole document, the summary is inserted at the cursor. */
+    Summarize = 'summarize',
+    /** Translates the selected text (or the current block). */
+    Translate = 'translate',
+}
+
+export const enum AIWritingStatus {
+    Streaming = 'streaming',
+    Finished = 'finished',
+}
+
+export interface IAIWritingStartOptions {
+    /**
+     * The target language, only used by {@link AIWritingAction.Translate}.
+     * @default 'English'
+     */
+    readonly targetLanguage?: string;
+}
+
+/**
+ * An interface only for {@link EditorAIWritingExtension}.
+ */
+export interface IEditorAIWritingExtension extends IEditorExtension {
+
+    readonly id: EditorExtensionIDs.AIWriting;
+
+    /**
+     * If there is a generated result (or a generating one) waiting to be
+     * accepted or discarded.
+     */
+    readonly hasPreview: boolean;
+
+    /**
+     * If the preview is still being generated. The preview cannot be accepted
+     * until the generation finishes.
+     */
+    readonly isGenerating: boolean;
+
+    /**
+     * @description Starts generating with the given action. The streamed
+     * result is only rendered as a preview, the document is not touched until
+     * {@link accept} is invoked.
+     * @returns Returns false if the action cannot be applied to the current
+     * state (e.g. rewriting with an empty selection).
+     *
+     * @note Any existing preview will be discarded.
+     */
+    start(action: AIWritingAction, options?: IAIWritingStartOptions): boolean;
+
+    /**
+     * @description Applies the preview to the document as a single undoable
+     * transaction.
+     * @returns Returns false if there is no preview or it is still being
+     * generated.
+     */
+    accept(): boolean;
+
+    /**
+     * @description Discards the preview. The rest of the streaming result (if
+     * any) will be ignored.
+     * @returns Returns false if there is no preview.
+     */
+    discard(): boolean;
+}
+
+interface IAIWritingSession {
+    readonly id: number;
+    readonly action: AIWritingAction;
+
+    /**
+     * The range that the result will replace. `from` equals `to` when the
+     * result is an insertion.
+     */
+    readonly from: number;
+    readonly to: number;
+
+    text: string;
+    status: AIWritingStatus;
+
+    /**
+     * Cancelled once the session is dropped, which stops the stream.
+     */
+    readonly token: ICancellationToken;
+}
+
+interface IAIWritingRequest {
+    readonly from: number;
+    readonly to: number;
+    readonly templateID: string;
+    readonly variables: AI.Text.PromptVariables;
+}
+
+/**
+ * The maximum number of characters sent as the context of the request.
+ */
+const MAX_CONTEXT_LENGTH = 6000;
+
+/**
+ * The prompt template used by each action. These are the built-in templates
+ * (see `aiPromptTemplate.ts`) that may be overridden by the user.
+ */
+const PROMPT_TEMPLATE_IDS: { readonly [action in AIWritingAction]: string } = {
+    [AIWritingAction.Continue]: 'continue-writing',
+    [AIWritingAction.Rewrite]: 'rewrite-selection',
+    [AIWritingAction.Summarize]: 'summarize-document',
+    [AIWritingAction.Translate]: 'translate',
+};
+
+/**
+ * The configuration of the model ID that is sent with the requests of each
+ * model.
+ */
+const MODEL_ID_CONFIGURATIONS: { readonly [name in AI.ModelName]: WorkbenchConfiguration } = {
+    [AI.ModelName.ChatGPT]: WorkbenchConfiguration.AiChatGPTModel,
+    [AI.ModelName.DeepSeek]: WorkbenchConfiguration.AiDeepSeekModel,
+    [AI.ModelName.Custom]: WorkbenchConfiguration.AiCustomModel,
+};
+
+/**
+ * @class An AI writing assistant that streams the result of {@link IAITextService}
+ * into a preview decoration. The user may accept the result which replaces
+ * the target range within a single transaction, or discard it.
+ *
+ * @note The document is sent as markdown and the result is parsed as markdown
+ * so that the formatting survives the round trip.
+ */
+export class EditorAIWritingExtension extends EditorExtension implements IEditorAIWritingExtension {
+
+    // [fields]
+
+    public readonly id = EditorExtensionIDs.AIWriting;
+
+    private _view?: ProseEditorView;
+    private _session?: IAIWritingSession;
+    private _sessionCount: number;
+
+    // [constructor]
+
+    constructor(
+        editorWidget: IEditorWidget,
+        @IAITextService private readonly aiTextService: IAITextService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @INotificationService private readonly notificationService: INotificationService,
+    ) {
+        super(editorWidget);
+        this._sessionCount = 0;
+    }
+
+    // [getter]
+
+    get hasPreview(): boolean { return !!this._session; }
+    get isGenerating(): boolean { return this._session?.status === AIWritingStatus.Streaming; }
+
+    // [protected override methods]
+
+    protected override onViewInit(view: ProseEditorView): void {
+        this._view = view;
+    }
+
+    protected override onViewDestroy(view: ProseEditorView): void {
+        this.__dropSession();
+        this._view = undefined;
+    }
+
+    protected override onStateTransaction(transaction: ProseTransaction, oldState: ProseEditorState, newState: ProseEditorState): void {
+        // the target range is no longer reliable once the document changes.
+        if (this._session && transaction.docChanged) {
+            this.__dropSession();
+        }
+    }
+
+    protected override onDecoration(state: ProseEditorState): ProseDecorationSource | nullable {
+        const session = this._session;
+        if (!session) {
+            return null;
+        }
+
+        const decorations: ProseDecoration[] = [];
+        if (session.from < session.to) {
+            decorations.push(ProseDecoration.inline(session.from, session.to, { class: 'ai-writing-replaced' }));
+        }
+        decorations.push(ProseDecoration.widget(session.to, () => this.__createPreviewElement(session), {
+            side: 1,
+            key: `ai-writing-${session.id}-${session.status}-${session.text.length}`,
+        }));
+        return ProseDecorationSet.create(state.doc, decorations);
+    }
+
+    // [public methods]
+
+    public start(action: AIWritingAction, options?: IAIWritingStartOptions): boolean {
+        const view = this._view;
+        if (!view || !view.editable) {
+            return false;
+        }
+
+        const request = this.__resolveRequest(view.state, action, options);
+        if (!request) {
+            return false;
+        }
+
+        this.__dropSession();
+        const session: IAIWritingSession = {
+            id: ++this._sessionCount,
+            action: action,
+            from: request.from,
+            to: request.to,
+            text: '',
+            status: AIWritingStatus.Streaming,
+            token: new CancellationToken(),
+        };
+        this._session = session;
+        this.__rerender();
+
+        Result.fromPromise(
+            () => this.aiTextService.applyPromptTemplate(request.templateID, request.variables),
+            error => new Error(errorToMessage(error, false)),
+        )
+        .andThen(messages => this.aiTextService.sendRequestStream(
+            {
+                model: this.__getModelID(),
+                stream: true,
+                messages: messages,
+            },
+            chunk => {
+                // discarded or replaced by another session, ignore the rest.
+                if (session.token.isCancelled()) {
+                    return;
+                }
+
+                session.text += chunk.primaryMessage.content ?? '';
+                if (chunk.primaryMessage.finishReason !== null) {
+                    session.status = AIWritingStatus.Finished;
+                }
+                this.__rerender();
+            },
+            session.token,
+        ))
+        .match<void>(
+            () => {
+                if (!session.token.isCancelled() && session.status !== AIWritingStatus.Finished) {
+                    session.status = AIWritingStatus.Finished;
+                    this.__rerender();
+                }
+            },
+            error => {
+                // the session is already dropped, nobody is waiting for it.
+                if (session.token.isCancelled()) {
+                    return;
+                }
+                this.discard();
+                this.notificationService.error(
+                    `AI writing failed: ${error.message}`,
+                    { actions: [ { label: 'Close', run: 'noop' } ] }
+                );
+            }
+        );
+
+        return true;
+    }
+
+    public accept(): boolean {
+        const view = this._view;
+        const session = this._session;
+        if (!view || !session || session.status !== AIWritingStatus.Finished) {
+            return false;
+        }
+
+        this.__dropSession();
+        const text = session.text.trim();
+        if (text.length === 0) {
+            this.__rerender();
+            return true;
+        }
+
+        const tr = view.state.tr;
+        const slice = this.__createSlice(text);
+        tr.replaceRange(session.from, session.to, slice);
+        view.dispatch(tr.scrollIntoView());
+        return true;
+    }
+
+    public discard(): boolean {
+        if (!this._session) {
+            return false;
+        }
+        this.__dropSession();
+        this.__rerender();
+        return true;
+    }
+
+    // [private helper methods]
+
+    private __resolveRequest(state: ProseEditorState, action: AIWritingAction, options?: IAIWritingStartOptions): IAIWritingRequest | null {
+        const { from, to, empty, $from } = state.selection;
+        const doc = state.doc;
+        const templateID = PROMPT_TEMPLATE_IDS[action];
+
+        switch (action) {
+            case AIWritingAction.Continue: {
+                const before = this.__serialize(doc, 0, to);
+                return {
+                    from: to, to: to, templateID,
+                    variables: { document: before.slice(-MAX_CONTEXT_LENGTH) },
+                };
+            }
+            case AIWritingAction.Rewrite: {
+                if (empty) {
+                    return null;
+                }
+                return {
+                    from: from, to: to, templateID,
+                    variables: { selection: this.__serialize(doc, from, to) },
+                };
+            }
+            case AIWritingAction.Summarize: {
+                const content = this.__serialize(doc, 0, doc.content.size);
+                if (content.trim().length === 0) {
+                    return null;
+                }
+                return {
+                    from: to, to: to, templateID,
+                    variables: { document: content.slice(0, MAX_CONTEXT_LENGTH) },
+                };
+            }
+            case AIWritingAction.Translate: {
+                const language = options?.targetLanguage ?? 'English';
+
+                // translate the current text block if nothing is selected.
+                if (empty && !$from.parent.isTextblock) {
+                    return null;
+                }
+                const start = empty ? $from.start() : from;
+                const end = empty ? $from.end() : to;
+                if (start === end) {
+                    return null;
+                }
+                return {
+                    from: start, to: end, templateID,
+                    variables: { selection: this.__serialize(doc, start, end), language: language },
+                };
+            }
+        }
+    }
+
+    /**
+     * @description Serializes the given range of the document into markdown.
+     */
+    private __serialize(doc: ProseNode, from: number, to: number): string {
+        return this._editorWidget.model.serialize(doc.cut(from, to));
+    }
+
+    private __getModelID(): string {
+        const modelName = this.configurationService.get<AI.ModelName>(WorkbenchConfiguration.AiTextModel, AI.ModelName.DeepSeek);
+        const configuration = MODEL_ID_CONFIGURATIONS[modelName] ?? WorkbenchConfiguration.AiDeepSeekModel;
+        return this.configurationService.get<string>(configuration, '');
+    }
+
+    /**
+     * @description Drops the current session and cancels its stream, the rest
+     * of its chunks and its error are ignored.
+     */
+    private __dropSession(): void {
+        this._session?.token.cancel();
+        this._session = undefined;
+    }
+
+    /**
+     * @description Parses the generated markdown into a slice. The slice is
+     * open on the sides where the result starts or ends with a paragraph, so
+     * that the paragraph is joined with the surrounding text block.
+     */
+    private __createSlice(text: string): ProseSlice {
+        const doc = this._editorWidget.model.parse(text);
+        const first = doc.firstChild;
+        const last = doc.lastChild;
+        if (!first || !last) {
+            return ProseSlice.empty;
+        }
+
+        // a single paragraph is inserted as inline content.
+        if (doc.childCount === 1 && first.type.name === TokenEnum.Paragraph) {
+            return new ProseSlice(first.content, 0, 0);
+        }
+
+        const openStart = first.type.name === TokenEnum.Paragraph ? 1 : 0;
+        const openEnd = last.type.name === TokenEnum.Paragraph ? 1 : 0;
+        return new ProseSlice(doc.content, openStart, openEnd);
+    }
+
+    private __createPreviewElement(session: IAIWritingSession): HTMLElement {
+        const element = document.createElement('span');
+        element.className = 'ai-writing-preview';
+        element.classList.toggle('streaming', session.status === AIWritingStatus.Streaming);
+        element.contentEditable = 'false';
+
+        const text = document.createElement('span');
+        text.className = 'ai-writing-text';
+        text.textContent = session.text;
+        element.appendChild(text);
+
+        const hint = document.createElement('span');
+        hint.className = 'ai-writing-hint';
+        hint.textContent = session.status === AIWritingStatus.Streaming
+            ? 'Generating... (Esc to discard)'
+            : 'Enter to accept, Esc to discard';
+        element.appendChild(hint);
+
+        return element;
+    }
+
+    private __rerender(): void {
+        const view = this._view;
+        if (view && !view.isDestroyed) {
+            view.updateState(view.state);
+        }
+    }
+}
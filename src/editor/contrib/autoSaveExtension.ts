@@ -2,6 +2,7 @@ import { EditorView } from "prosemirror-view";
 import { Time } from "src/base/common/date";
 import { UnbufferedScheduler } from "src/base/common/utilities/async";
 import { EditorExtension, IEditorExtension } from "src/editor/common/editorExtension";
+import { FileConflictError } from "src/editor/common/model";
 import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
 import { IEditorWidget } from "src/editor/editorWidget";
 import { IConfigurationService } from "src/platform/configuration/common/configuration";
@@ -114,7 +115,8 @@ export class EditorAutoSaveExtension extends EditorExtension implements IEditorA
     private async __saveEditorContent(): Promise<void> {
         this._editorWidget.save().match<void>(
             () => {},
-            (error) => this.notificationService.error(
+            // conflicts are reported through `onDidConflict`.
+            (error) => error instanceof FileConflictError ? undefined : this.notificationService.error(
                 `Failed to save file: ${error.message}`,
                 {
                     actions: [
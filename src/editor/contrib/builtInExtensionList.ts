@@ -5,6 +5,9 @@ import { EditorAutoSaveExtension } from "src/editor/contrib/autoSaveExtension";
 import { EditorInputRuleExtension } from "src/editor/contrib/inputRuleExtension/inputRuleExtension";
 import { EditorDragAndDropExtension } from "src/editor/contrib/dragAndDropExtension/dragAndDropExtension";
 import { EditorBlockHandleExtension } from "src/editor/contrib/blockHandleExtension/blockHandleExtension";
+import { EditorAIWritingExtension } from "src/editor/contrib/aiWritingExtension/aiWritingExtension";
+import { EditorCodeBlockExtension } from "src/editor/contrib/codeBlockExtension/codeBlockExtension";
+import { EditorFindExtension } from "src/editor/contrib/findExtension/findExtension";
 // import { EditorHistoryExtension } from "src/editor/contrib/historyExtension/historyExtension";
 
 export const enum EditorExtensionIDs {
@@ -14,6 +17,9 @@ export const enum EditorExtensionIDs {
     History   = 'editor-history-extension',
     DragAndDrop = 'editor-drag-and-drop-extension',
     BlockHandle = 'editor-block-handle-extension',
+    AIWriting = 'editor-ai-writing-extension',
+    CodeBlock = 'editor-code-block-extension',
+    Find = 'editor-find-extension',
 }
 
 /**
@@ -26,6 +32,9 @@ export function getBuiltInExtension(): { id: string, ctor: Constructor<EditorExt
         { id: EditorExtensionIDs.Command, ctor: EditorCommandExtension },
         { id: EditorExtensionIDs.DragAndDrop, ctor: EditorDragAndDropExtension },
         { id: EditorExtensionIDs.BlockHandle, ctor: EditorBlockHandleExtension },
+        { id: EditorExtensionIDs.AIWriting, ctor: EditorAIWritingExtension },
+        { id: EditorExtensionIDs.CodeBlock, ctor: EditorCodeBlockExtension },
+        { id: EditorExtensionIDs.Find, ctor: EditorFindExtension },
         // { id: EditorExtensionIDs.History, ctor: EditorHistoryExtension }, // TODO: unfinished (shit mountain)
     ];
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+import "src/editor/contrib/codeBlockExtension/codeBlockExtension.scss";
+import { EditorExtension, IEditorExtension } from "src/editor/common/editorExtension";
+import { ProseDecoration, ProseDecorationSet, ProseDecorationSource, ProseEditorState, ProseEditorView, ProseNode } from "src/editor/common/proseMirror";
+import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
+import { IEditorWidget } from "src/editor/editorWidget";
+import { TokenEnum } from "src/editor/common/markdown";
+import { CodeEditorView } from "src/editor/common/codeMirror";
+import { CODE_BLOCK_LANGUAGES, resolveCodeBlockLanguage, setCodeBlockLanguage } from "src/editor/common/codeBlock";
+import { nullable } from "src/base/common/utilities/type";
+
+/**
+ * An interface only for {@link EditorCodeBlockExtension}.
+ */
+export interface IEditorCodeBlockExtension extends IEditorExtension {
+
+    readonly id: EditorExtensionIDs.CodeBlock;
+
+    /**
+     * @description Changes the language of the code block at the given
+     * position within a single undoable transaction.
+     * @param pos The position right before the code block.
+     * @param lang The new language. Empty string means plain text.
+     * @returns Returns false if there is no code block at the position.
+     */
+    setLanguage(pos: number, lang: string): boolean;
+}
+
+/**
+ * @class Keeps the syntax highlighting of every code block consistent with its
+ * `lang` attribute and the `codeblockHighlight` editor option. Also renders a
+ * language picker on each code block.
+ */
+export class EditorCodeBlockExtension extends EditorExtension implements IEditorCodeBlockExtension {
+
+    // [fields]
+
+    public readonly id = EditorExtensionIDs.CodeBlock;
+
+    private _view?: ProseEditorView;
+
+    /**
+     * The language that is currently applied to each code block view. Empty
+     * string means no highlighting.
+     */
+    private _applied = new WeakMap<CodeEditorView, string>();
+
+    /**
+     * Caches the picker decorations, rebuilt only when the document changes.
+     */
+    private _decorationCache?: { readonly doc: ProseNode, readonly decorations: ProseDecorationSet };
+
+    // [constructor]
+
+    constructor(editorWidget: IEditorWidget) {
+        super(editorWidget);
+        this.__register(editorWidget.onDidUpdateOptions(options => {
+            if (options.codeblockHighlight !== undefined && this._view) {
+                this.__syncLanguages(this._view.state.doc);
+            }
+        }));
+    }
+
+    // [protected override methods]
+
+    protected override onViewInit(view: ProseEditorView): void {
+        this._view = view;
+        this._applied = new WeakMap();
+        this.__syncLanguages(view.state.doc);
+    }
+
+    protected override onViewUpdate(view: ProseEditorView, prevState: ProseEditorState): void {
+        if (view.state.doc !== prevState.doc) {
+            this.__syncLanguages(view.state.doc);
+        }
+    }
+
+    protected override onViewDestroy(view: ProseEditorView): void {
+        this._view = undefined;
+        this._decorationCache = undefined;
+    }
+
+    protected override onDecoration(state: ProseEditorState): ProseDecorationSource | nullable {
+        if (this._decorationCache?.doc === state.doc) {
+            return this._decorationCache.decorations;
+        }
+
+        const decorations: ProseDecoration[] = [];
+        state.doc.descendants((node, pos) => {
+            if (node.type.name !== TokenEnum.CodeBlock) {
+                return true;
+            }
+            const lang = <string>node.attrs['lang'];
+            decorations.push(ProseDecoration.widget(pos, (view, getPos) => this.__createPicker(lang, getPos), {
+                side: -1,
+                key: `code-block-language-${lang}`,
+                ignoreSelection: true,
+                stopEvent: () => true,
+            }));
+            return false;
+        });
+
+        const decorationSet = ProseDecorationSet.create(state.doc, decorations);
+        this._decorationCache = { doc: state.doc, decorations: decorationSet };
+        return decorationSet;
+    }
+
+    // [public methods]
+
+    public setLanguage(pos: number, lang: string): boolean {
+        const view = this._view;
+        const node = view?.state.doc.nodeAt(pos);
+        if (!view || !node || node.type.name !== TokenEnum.CodeBlock) {
+            return false;
+        }
+
+        if (node.attrs['lang'] !== lang) {
+            view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, lang: lang }));
+        }
+        return true;
+    }
+
+    // [private helper methods]
+
+    private __syncLanguages(doc: ProseNode): void {
+        const highlight = this._editorWidget.getOptions().codeblockHighlight.value;
+
+        doc.descendants(node => {
+            if (node.type.name !== TokenEnum.CodeBlock) {
+                return true;
+            }
+
+            const view = <CodeEditorView>node.attrs['view'];
+            const lang = highlight ? <string>node.attrs['lang'] : '';
+            if (this._applied.get(view) !== lang) {
+                setCodeBlockLanguage(view, lang);
+                this._applied.set(view, lang);
+            }
+            return false;
+        });
+    }
+
+    private __createPicker(lang: string, getPos: () => number | undefined): HTMLElement {
+        const container = document.createElement('div');
+        container.className = 'code-block-language-picker';
+        container.contentEditable = 'false';
+
+        const select = document.createElement('select');
+        select.title = 'Language';
+
+        const options: [value: string, label: string][] = [['', 'Plain Text']];
+        for (const language of CODE_BLOCK_LANGUAGES) {
+            options.push([language.id, language.name]);
+        }
+
+        // keep the written name (e.g. an alias or an unsupported language).
+        if (lang !== '' && !CODE_BLOCK_LANGUAGES.some(language => language.id === lang)) {
+            const resolved = resolveCodeBlockLanguage(lang);
+            options.push([lang, resolved ? `${resolved.name} (${lang})` : lang]);
+        }
+
+        for (const [value, label] of options) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            select.appendChild(option);
+        }
+        select.value = lang;
+
+        select.addEventListener('change', () => {
+            const pos = getPos();
+            if (pos !== undefined) {
+                this.setLanguage(pos, select.value);
+            }
+        });
+
+        container.appendChild(select);
+        return container;
+    }
+}
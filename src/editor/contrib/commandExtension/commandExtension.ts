@@ -7,6 +7,8 @@ import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
 import { EditorExtension, IEditorExtension } from "src/editor/common/editorExtension";
 import { IEditorWidget } from "src/editor/editorWidget";
 import { registerBasicEditorCommands } from "src/editor/contrib/commandExtension/editorCommands";
+import { TokenEnum } from "src/editor/common/markdown";
+import { TASK_CHECKBOX_CLASS_NAME } from "src/editor/model/documentNode/node/list";
 import { Command } from "src/platform/command/common/command";
 import { ICommandService } from "src/platform/command/common/commandService";
 import { RegistrantType } from "src/platform/registrant/common/registrant";
@@ -88,6 +90,28 @@ export class EditorCommandExtension extends EditorExtension implements IEditorCo
                 }
             );
         }));
+
+        /**
+         * Click: clicking on the checkbox of a task list item toggles its
+         * checked state through the corresponding editor command.
+         *
+         * @note The click is fired for every ancestor of the clicked position,
+         * only the list item that owns the checkbox is toggled (not the outer
+         * ones of a nested list).
+         */
+        this.__register(this.onClick(event => {
+            const target = event.browserEvent.target;
+            const view = event.view;
+            if (!(target instanceof HTMLElement)
+                || !target.classList.contains(TASK_CHECKBOX_CLASS_NAME)
+                || event.node.type.name !== TokenEnum.ListItem
+                || target.parentElement !== view.nodeDOM(event.nodePosition)
+            ) {
+                return;
+            }
+
+            commandService.executeCommand('editor-toggle-task-list-item', editorWidget, view.state, view.dispatch, view, event.nodePosition);
+        }));
     }
 
     // [protected override methods]
@@ -1,10 +1,14 @@
 import type { IEditorCommandExtension } from "src/editor/contrib/commandExtension/commandExtension";
 import type { IEditorWidget } from "src/editor/editorWidget";
+import type { EditorAIWritingExtension } from "src/editor/contrib/aiWritingExtension/aiWritingExtension";
+import type { EditorFindExtension } from "src/editor/contrib/findExtension/findExtension";
 import { ReplaceAroundStep, canJoin, canSplit, liftTarget, replaceStep } from "prosemirror-transform";
 import { ILogService } from "src/base/common/logger";
 import { MarkEnum, TokenEnum } from "src/editor/common/markdown";
+import { FileConflictError } from "src/editor/common/model";
 import { ProseEditorState, ProseTransaction, ProseAllSelection, ProseTextSelection, ProseNodeSelection, ProseEditorView, ProseReplaceStep, ProseSlice, ProseFragment, ProseNode, ProseSelection, ProseContentMatch, ProseMarkType, ProseAttrs, ProseSelectionRange, ProseNodeType, ProseResolvedPos } from "src/editor/common/proseMirror";
 import { ProseUtils } from "src/editor/common/proseUtility";
+import { findHeadingSectionAt, shiftHeadingSection } from "src/editor/common/headingSection";
 import { EditorSchema } from "src/editor/model/schema";
 import { Command, ICommandSchema, buildChainCommand } from "src/platform/command/common/command";
 import { ICommandService } from "src/platform/command/common/commandService";
@@ -14,6 +18,8 @@ import { EditorContextKeys } from "src/editor/common/editorContextKeys";
 import { IS_MAC } from "src/base/common/platform";
 import { redo, undo } from "prosemirror-history";
 import { INotificationService } from "src/workbench/services/notification/notification";
+import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
+import { AIWritingAction, IAIWritingStartOptions } from "src/editor/contrib/aiWritingExtension/aiWritingExtension";
 
 /**
  * [FILE OUTLINE]
@@ -33,6 +39,8 @@ export function registerBasicEditorCommands(extension: IEditorCommandExtension,
     __registerToggleMarkCommands(extension, logService);
     __registerHeadingCommands(extension, logService);
     __registerOtherCommands(extension);
+    __registerAIWritingCommands(extension);
+    __registerFindCommands(extension);
 }
 
 function getPlatformShortcut(ctrl: string, meta: string): string {
@@ -50,6 +58,7 @@ function __registerToggleMarkCommands(extension: IEditorCommandExtension, logSer
         [MarkEnum.Strong,   'Ctrl+B', 'Meta+B'],
         [MarkEnum.Em,       'Ctrl+I', 'Meta+I'],
         [MarkEnum.Codespan, 'Ctrl+`', 'Meta+`'],
+        [MarkEnum.Del,      'Ctrl+Shift+X', 'Meta+Shift+X'],
     ];
     for (const [markID, ctrl, meta] of toggleMarkConfigs) {
         const toggleCmdID = `editor-toggle-mark-${markID}`;
@@ -102,16 +111,27 @@ function __registerHeadingCommands(extension: IEditorCommandExtension, logServic
             [getPlatformShortcut(`Ctrl+${level}`, `Meta+${level}`)]
         );
     }
+
+    extension.registerCommand(
+        new EditorCommands.PromoteHeadingSection({ id: 'editor-promote-heading-section', when: whenEditorWritable }),
+        [getPlatformShortcut('Ctrl+Shift+[', 'Meta+Shift+[')]
+    );
+    extension.registerCommand(
+        new EditorCommands.DemoteHeadingSection({ id: 'editor-demote-heading-section', when: whenEditorWritable }),
+        [getPlatformShortcut('Ctrl+Shift+]', 'Meta+Shift+]')]
+    );
 }
 
 function __registerOtherCommands(extension: IEditorCommandExtension): void {
     extension.registerCommand(__buildEditorCommand(
             { 
                 id: 'editor-esc', 
-                when: whenEditorReadonly,
+                when: EditorContextKeys.editorFocusedContext,
             }, 
             [
-                EditorCommands.Unselect
+                EditorCommands.CloseFind,
+                EditorCommands.DiscardAIWriting,
+                EditorCommands.Unselect,
             ],
         ), 
         ['Escape']
@@ -123,6 +143,7 @@ function __registerOtherCommands(extension: IEditorCommandExtension): void {
                 when: whenEditorWritable,
             }, 
             [
+                EditorCommands.AcceptAIWriting,
                 EditorCommands.InsertNewLineInCodeBlock,
                 EditorCommands.InsertEmptyParagraphAdjacentToBlock,
                 EditorCommands.LiftEmptyTextBlock,
@@ -184,6 +205,18 @@ function __registerOtherCommands(extension: IEditorCommandExtension): void {
         [getPlatformShortcut('Ctrl+Shift+A', 'Meta+Shift+A')]
     );
 
+    extension.registerCommand(__buildEditorCommand(
+            {
+                id: 'editor-toggle-task-list-item',
+                when: whenEditorWritable,
+            },
+            [
+                EditorCommands.ToggleTaskListItem
+            ]
+        ),
+        [getPlatformShortcut('Ctrl+Shift+Enter', 'Meta+Shift+Enter')]
+    );
+
     // @fix Doesn't work with CM, guess bcz CM is focused but PM is not.
     extension.registerCommand(__buildEditorCommand(
             {
@@ -247,6 +280,55 @@ function __registerOtherCommands(extension: IEditorCommandExtension): void {
     );
 }
 
+/**
+ * @description Register the commands of the AI writing assistant. The preview
+ * is accepted by `Enter` or `Tab` and discarded by `Escape` (see 
+ * {@link __registerOtherCommands}).
+ */
+function __registerAIWritingCommands(extension: IEditorCommandExtension): void {
+    const aiWritingConfigs: [AIWritingAction, string, string[]][] = [
+        [AIWritingAction.Continue,  'editor-ai-continue-writing', [getPlatformShortcut('Ctrl+J', 'Meta+J')]],
+        [AIWritingAction.Rewrite,   'editor-ai-rewrite-selection', []],
+        [AIWritingAction.Summarize, 'editor-ai-summarize-document', []],
+        [AIWritingAction.Translate, 'editor-ai-translate', []],
+    ];
+    for (const [action, cmdID, shortcuts] of aiWritingConfigs) {
+        extension.registerCommand(
+            EditorCommands.createAIWritingCommand({ id: cmdID, when: whenEditorWritable }, action),
+            shortcuts
+        );
+    }
+
+    extension.registerCommand(__buildEditorCommand(
+            {
+                id: 'editor-ai-accept',
+                when: whenEditorWritable,
+            },
+            [
+                EditorCommands.AcceptAIWriting,
+            ]
+        ),
+        ['Tab']
+    );
+}
+
+/**
+ * @description Register the commands of the find bar. Navigating and replacing
+ * are handled by the find bar itself (see {@link EditorFindExtension}).
+ */
+function __registerFindCommands(extension: IEditorCommandExtension): void {
+    const whenRendered = CreateContextKeyExpr.Or(EditorContextKeys.richtextEditorMode, EditorContextKeys.splitViewEditorMode);
+
+    extension.registerCommand(
+        EditorCommands.createFindCommand({ id: 'editor-find', when: CreateContextKeyExpr.And(EditorContextKeys.editorFocusedContext, whenRendered) }, false),
+        [getPlatformShortcut('Ctrl+F', 'Meta+F')]
+    );
+    extension.registerCommand(
+        EditorCommands.createFindCommand({ id: 'editor-replace', when: CreateContextKeyExpr.And(whenEditorWritable, whenRendered) }, true),
+        [getPlatformShortcut('Ctrl+H', 'Meta+Alt+F')]
+    );
+}
+
 function __buildEditorCommand(schema: ICommandSchema, ctors: (typeof Command<any>)[]): Command {
     if (ctors.length === 1) {
         const command = ctors[0]!;
@@ -1002,6 +1084,125 @@ export namespace EditorCommands {
         }
     }
 
+    /**
+     * @description Toggles the task state of the list item under the cursor.
+     * A checked task item becomes unchecked and vice versa, a normal list item
+     * becomes an unchecked task item.
+     *
+     * @note When `position` is provided (the absolute position right before a
+     * list item), the item at that position is toggled instead of the one
+     * under the cursor.
+     */
+    export class ToggleTaskListItem extends EditorCommandBase {
+
+        public run(provider: IServiceProvider, editor: IEditorWidget, state: ProseEditorState, dispatch?: (tr: ProseTransaction) => void, view?: ProseEditorView, position?: number): boolean {
+            const target = __findListItem(state, position);
+            if (!target) {
+                return false;
+            }
+
+            if (dispatch) {
+                const { node, pos } = target;
+                const isTask = node.attrs['task'] as boolean;
+                const checked = node.attrs['checked'] as boolean;
+                const tr = state.tr.setNodeMarkup(pos, undefined, {
+                    ...node.attrs,
+                    task: true,
+                    checked: isTask ? !checked : false,
+                });
+                dispatch(tr);
+            }
+
+            return true;
+        }
+    }
+
+    /**
+     * @description Promotes the section of the heading (e.g. `h2` to `h1`),
+     * including every subordinate heading, as one single transaction.
+     *
+     * @note When `position` is provided (the absolute position right before a
+     * heading), the section of that heading is promoted instead of the one
+     * under the cursor.
+     */
+    export class PromoteHeadingSection extends EditorCommandBase {
+
+        public run(provider: IServiceProvider, editor: IEditorWidget, state: ProseEditorState, dispatch?: (tr: ProseTransaction) => void, view?: ProseEditorView, position?: number): boolean {
+            return __shiftHeadingSection(state, -1, dispatch, position);
+        }
+    }
+
+    /**
+     * @description Demotes the section of the heading (e.g. `h1` to `h2`),
+     * including every subordinate heading, as one single transaction.
+     *
+     * @note See {@link PromoteHeadingSection} for the `position` argument.
+     */
+    export class DemoteHeadingSection extends EditorCommandBase {
+
+        public run(provider: IServiceProvider, editor: IEditorWidget, state: ProseEditorState, dispatch?: (tr: ProseTransaction) => void, view?: ProseEditorView, position?: number): boolean {
+            return __shiftHeadingSection(state, 1, dispatch, position);
+        }
+    }
+
+    /**
+     * @description Starts the AI writing assistant with the given action. The
+     * options can be provided through the extra argument (e.g. the target 
+     * language of the translation).
+     */
+    export function createAIWritingCommand(schema: ICommandSchema, action: AIWritingAction): Command {
+        return new class extends EditorCommandBase {
+            public run(provider: IServiceProvider, editor: IEditorWidget, state: ProseEditorState, dispatch?: (tr: ProseTransaction) => void, view?: ProseEditorView, options?: IAIWritingStartOptions): boolean {
+                const extension = editor.getExtension<EditorAIWritingExtension>(EditorExtensionIDs.AIWriting);
+                if (!extension || !dispatch) {
+                    return false;
+                }
+                return extension.start(action, options);
+            }
+        }(schema);
+    }
+
+    /**
+     * @description Accepts the AI writing preview once it is generated. While
+     * generating, the key is swallowed so that the preview is not dropped by
+     * an accidental edit.
+     */
+    export class AcceptAIWriting extends EditorCommandBase {
+        public run(provider: IServiceProvider, editor: IEditorWidget, state: ProseEditorState, dispatch?: (tr: ProseTransaction) => void): boolean {
+            const extension = editor.getExtension<EditorAIWritingExtension>(EditorExtensionIDs.AIWriting);
+            if (!extension?.hasPreview || !dispatch) {
+                return false;
+            }
+            if (extension.isGenerating) {
+                return true;
+            }
+            return extension.accept();
+        }
+    }
+
+    export class DiscardAIWriting extends EditorCommandBase {
+        public run(provider: IServiceProvider, editor: IEditorWidget): boolean {
+            const extension = editor.getExtension<EditorAIWritingExtension>(EditorExtensionIDs.AIWriting);
+            return !!extension?.discard();
+        }
+    }
+
+    export function createFindCommand(schema: ICommandSchema, replaceMode: boolean): Command {
+        return new class extends EditorCommandBase {
+            public run(provider: IServiceProvider, editor: IEditorWidget): boolean {
+                const extension = editor.getExtension<EditorFindExtension>(EditorExtensionIDs.Find);
+                return !!extension?.open(replaceMode);
+            }
+        }(schema);
+    }
+
+    export class CloseFind extends EditorCommandBase {
+        public run(provider: IServiceProvider, editor: IEditorWidget): boolean {
+            const extension = editor.getExtension<EditorFindExtension>(EditorExtensionIDs.Find);
+            return !!extension?.close();
+        }
+    }
+
     export class FileSave extends EditorCommandBase {
 
         public run(provider: IServiceProvider, editor: IEditorWidget): boolean {
@@ -1009,6 +1210,10 @@ export namespace EditorCommands {
                 .match(
                     () => {},
                     error => {
+                        // conflicts are reported through `onDidConflict`.
+                        if (error instanceof FileConflictError) {
+                            return;
+                        }
                         const notificationService = provider.getOrCreateService(INotificationService);
                         notificationService.error(
                             `Failed to save file: ${error.message}`,
@@ -1037,6 +1242,14 @@ export namespace EditorCommands {
     }
 }
 
+function __shiftHeadingSection(state: ProseEditorState, delta: number, dispatch?: (tr: ProseTransaction) => void, position?: number): boolean {
+    const heading = position ?? findHeadingSectionAt(state.doc, state.selection.from);
+    if (heading === undefined) {
+        return false;
+    }
+    return shiftHeadingSection(state, heading, delta, dispatch);
+}
+
 function __atBlockStart(state: ProseEditorState, view?: ProseEditorView): ProseResolvedPos | null {
     const { $cursor } = <ProseTextSelection>state.selection;
     if (!$cursor || (view ? !view.endOfTextblock("backward", state) : $cursor.parentOffset > 0)) {
@@ -1268,4 +1481,20 @@ function __removeInlineAtoms(ranges: readonly ProseSelectionRange[]): readonly P
     }
 
     return result;
-}
\ No newline at end of file
+}
+function __findListItem(state: ProseEditorState, position?: number): { node: ProseNode, pos: number } | null {
+    if (position !== undefined) {
+        const node = state.doc.nodeAt(position);
+        return (node?.type.name === TokenEnum.ListItem) ? { node, pos: position } : null;
+    }
+
+    const { $from } = state.selection;
+    for (let depth = $from.depth; depth > 0; depth--) {
+        const node = $from.node(depth);
+        if (node.type.name === TokenEnum.ListItem) {
+            return { node, pos: $from.before(depth) };
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,206 @@
+import { TokenEnum } from "src/editor/common/markdown";
+import { CodeEditorView } from "src/editor/common/codeMirror";
+import { createCodeBlockView } from "src/editor/common/codeBlock";
+import { ProseNode, ProseTransaction } from "src/editor/common/proseMirror";
+import { expandReplacement } from "src/base/common/search";
+
+/**
+ * Every inline node that is not a text is represented by this character when
+ * matching, so that a match never crosses it.
+ */
+const INLINE_NODE_PLACEHOLDER = '\ufffc';
+
+export const enum FindMatchType {
+    /** A match within the text of a textblock. */
+    Text = 'text',
+    /** A match within the content of a code block. */
+    CodeBlock = 'codeBlock',
+    /** A match within the equation of an inline or block math. */
+    Math = 'math',
+}
+
+export interface IFindMatch {
+    readonly type: FindMatchType;
+
+    /**
+     * The range of the match in the document. For {@link FindMatchType.CodeBlock}
+     * and {@link FindMatchType.Math}, the content is not a part of the
+     * document, thus the range covers the whole node.
+     */
+    readonly from: number;
+    readonly to: number;
+
+    /**
+     * The range within the content of the node. Only defined for
+     * {@link FindMatchType.CodeBlock} and {@link FindMatchType.Math}.
+     */
+    readonly inner?: { readonly start: number, readonly end: number };
+
+    /**
+     * The actual matched text.
+     */
+    readonly text: string;
+    readonly captures: readonly (string | undefined)[];
+    readonly namedCaptures?: Readonly<Record<string, string>>;
+}
+
+/**
+ * @description Finds every match of the regular expression in the document in
+ * document order. Other than the text, the content of the code blocks and the
+ * equations of the math are also matched.
+ *
+ * @note Empty matches are skipped.
+ */
+export function findMatches(doc: ProseNode, regexp: RegExp): IFindMatch[] {
+    const matches: IFindMatch[] = [];
+
+    const matchNode = (type: FindMatchType, content: string, from: number, to: number): void => {
+        __matchAll(regexp, content, match => {
+            const start = match.index;
+            const end = start + match[0].length;
+            matches.push({ type: type, from: from, to: to, inner: { start, end }, ...__toMatchInfo(match) });
+        });
+    };
+
+    doc.descendants((node, pos) => {
+        const name = node.type.name;
+
+        if (name === TokenEnum.CodeBlock) {
+            const view = <CodeEditorView>node.attrs['view'];
+            matchNode(FindMatchType.CodeBlock, view.state.doc.toString(), pos, pos + node.nodeSize);
+            return false;
+        }
+
+        if (name === TokenEnum.MathBlock) {
+            matchNode(FindMatchType.Math, <string>node.attrs['text'], pos, pos + node.nodeSize);
+            return false;
+        }
+
+        if (!node.isTextblock) {
+            return true;
+        }
+
+        // every inline node takes exactly the same size as its placeholder, thus
+        // an offset of the content can be converted into a position directly.
+        let content = '';
+        const inlineMatches: IFindMatch[] = [];
+        node.forEach((child, offset) => {
+            if (child.isText) {
+                content += child.text;
+                return;
+            }
+
+            content += INLINE_NODE_PLACEHOLDER.repeat(child.nodeSize);
+            if (child.type.name === TokenEnum.MathInline) {
+                const childPos = pos + 1 + offset;
+                __matchAll(regexp, <string>child.attrs['text'], match => {
+                    const start = match.index;
+                    const end = start + match[0].length;
+                    inlineMatches.push({ type: FindMatchType.Math, from: childPos, to: childPos + child.nodeSize, inner: { start, end }, ...__toMatchInfo(match) });
+                });
+            }
+        });
+
+        const textMatches: IFindMatch[] = [];
+        __matchAll(regexp, content, match => {
+            const from = pos + 1 + match.index;
+            textMatches.push({ type: FindMatchType.Text, from: from, to: from + match[0].length, ...__toMatchInfo(match) });
+        });
+
+        // merge both in document order
+        matches.push(...[...textMatches, ...inlineMatches].sort((a, b) => a.from - b.from));
+        return false;
+    });
+
+    return matches;
+}
+
+/**
+ * @description Replaces the given matches within the transaction. Matches
+ * within the same code block or math are replaced by updating the node once.
+ * @param pattern The replace pattern. In regular expression mode, it is
+ *                expanded by {@link expandReplacement}.
+ * @returns The number of replaced matches.
+ *
+ * @note The matches must be found from the document of the transaction.
+ */
+export function replaceMatches(tr: ProseTransaction, matches: readonly IFindMatch[], pattern: string, isRegExp?: boolean): number {
+    const sorted = [...matches].sort((a, b) => a.from - b.from || (a.inner?.start ?? 0) - (b.inner?.start ?? 0));
+
+    // replace backwards so that the positions of the rest are not affected.
+    let index = sorted.length - 1;
+    while (index >= 0) {
+        const match = sorted[index]!;
+
+        if (match.type === FindMatchType.Text) {
+            const replacement = expandReplacement(pattern, match, isRegExp);
+            if (replacement.length === 0) {
+                tr.delete(match.from, match.to);
+            } else {
+                tr.insertText(replacement, match.from, match.to);
+            }
+            index--;
+            continue;
+        }
+
+        // collects every match within the same node
+        const group: IFindMatch[] = [];
+        while (index >= 0 && sorted[index]!.type === match.type && sorted[index]!.from === match.from) {
+            group.unshift(sorted[index]!);
+            index--;
+        }
+        __replaceInNode(tr, match.from, group, pattern, isRegExp);
+    }
+
+    return matches.length;
+}
+
+function __replaceInNode(tr: ProseTransaction, pos: number, matches: readonly IFindMatch[], pattern: string, isRegExp?: boolean): void {
+    const node = tr.doc.nodeAt(pos);
+    if (!node) {
+        return;
+    }
+
+    const isCodeBlock = node.type.name === TokenEnum.CodeBlock;
+    const content = isCodeBlock
+        ? (<CodeEditorView>node.attrs['view']).state.doc.toString()
+        : <string>node.attrs['text'];
+
+    let result = '';
+    let last = 0;
+    for (const match of matches) {
+        const { start, end } = match.inner!;
+        result += content.slice(last, start) + expandReplacement(pattern, match, isRegExp);
+        last = end;
+    }
+    result += content.slice(last);
+
+    // the old view is kept untouched so that the change can be undone.
+    const attrs = isCodeBlock
+        ? { ...node.attrs, view: createCodeBlockView(result, <string>node.attrs['lang']) }
+        : { ...node.attrs, text: result };
+    tr.setNodeMarkup(pos, undefined, attrs);
+}
+
+function __matchAll(regexp: RegExp, content: string, onMatch: (match: RegExpExecArray) => void): void {
+    const global = regexp.global ? regexp : new RegExp(regexp.source, regexp.flags + 'g');
+    global.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(content))) {
+        // avoid infinite loop on empty matches
+        if (match[0].length === 0) {
+            global.lastIndex++;
+            continue;
+        }
+        onMatch(match);
+    }
+}
+
+function __toMatchInfo(match: RegExpExecArray): Pick<IFindMatch, 'text' | 'captures' | 'namedCaptures'> {
+    return {
+        text: match[0],
+        captures: match.slice(1),
+        namedCaptures: match.groups,
+    };
+}
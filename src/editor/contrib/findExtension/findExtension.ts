@@ -0,0 +1,450 @@
+import "src/editor/contrib/findExtension/findExtension.scss";
+import { EditorExtension, IEditorExtension } from "src/editor/common/editorExtension";
+import { ProseDecoration, ProseDecorationSet, ProseDecorationSource, ProseEditorState, ProseEditorView, ProseNode, ProseNodeSelection, ProseTextSelection, ProseTransaction } from "src/editor/common/proseMirror";
+import { EditorExtensionIDs } from "src/editor/contrib/builtInExtensionList";
+import { IEditorWidget } from "src/editor/editorWidget";
+import { EditorType } from "src/editor/common/view";
+import { CodeEditorView } from "src/editor/common/codeMirror";
+import { ICodeBlockHighlight, setCodeBlockHighlights } from "src/editor/common/codeBlock";
+import { FindMatchType, IFindMatch, findMatches, replaceMatches } from "src/editor/contrib/findExtension/editorFind";
+import { EditorFindWidget } from "src/editor/contrib/findExtension/findWidget";
+import { nullable } from "src/base/common/utilities/type";
+import { createSearchRegExp, expandReplacement } from "src/base/common/search";
+
+/**
+ * An interface only for {@link EditorFindExtension}.
+ */
+export interface IEditorFindExtension extends IEditorExtension {
+
+    readonly id: EditorExtensionIDs.Find;
+
+    /**
+     * If the find bar is opened.
+     */
+    readonly isOpen: boolean;
+
+    /**
+     * The matches of the current query in document order.
+     */
+    readonly matches: readonly IFindMatch[];
+
+    /**
+     * @description Opens (or focuses) the find bar. The selected text will be
+     * used as the query if it is within a single line.
+     * @param replaceMode Shows the replace input if the editor is writable.
+     * @returns Returns false if the editor is not rendered in rich mode.
+     */
+    open(replaceMode: boolean): boolean;
+
+    /**
+     * @description Closes the find bar and removes all the highlights.
+     * @returns Returns false if the find bar is not opened.
+     */
+    close(): boolean;
+
+    /**
+     * @description Selects and reveals the next (or previous) match. Wraps
+     * around at the end (or start) of the document.
+     * @returns Returns false if there is no match.
+     */
+    next(): boolean;
+    previous(): boolean;
+
+    /**
+     * @description Replaces the current match and moves to the next one.
+     * @returns Returns false if there is no match or the editor is readonly.
+     */
+    replace(): boolean;
+
+    /**
+     * @description Replaces every match within a single undoable transaction.
+     * @returns The number of replaced matches.
+     */
+    replaceAll(): number;
+}
+
+/**
+ * The position where the next match is looked up from. Matches within the
+ * same code block (or math) share the same position, thus the offset within
+ * the node is also required.
+ */
+interface IFindAnchor {
+    readonly pos: number;
+    readonly offset: number;
+}
+
+/**
+ * @class Finds and replaces text in the rich-text editor. All the matches are
+ * highlighted as decorations, matches within the code blocks are highlighted
+ * by the code block view itself and matches within the math equations
+ * highlight the whole equation.
+ */
+export class EditorFindExtension extends EditorExtension implements IEditorFindExtension {
+
+    // [fields]
+
+    public readonly id = EditorExtensionIDs.Find;
+
+    private _view?: ProseEditorView;
+    private _widget?: EditorFindWidget;
+    private _widgetContainer?: HTMLElement;
+
+    /** `undefined` if the query is empty or invalid. */
+    private _regexp?: RegExp;
+    private _error?: string;
+
+    private _matches: IFindMatch[];
+    /** The document where {@link _matches} are found. */
+    private _matchesDoc?: ProseNode;
+    private _current: number;
+    private _anchor: IFindAnchor;
+
+    /** The code block views that are currently highlighted. */
+    private _highlighted: Set<CodeEditorView>;
+
+    private _decorationCache?: { readonly doc: ProseNode, readonly current: number, readonly decorations: ProseDecorationSet };
+
+    // [constructor]
+
+    constructor(editorWidget: IEditorWidget) {
+        super(editorWidget);
+        this._matches = [];
+        this._current = -1;
+        this._anchor = { pos: 0, offset: 0 };
+        this._highlighted = new Set();
+    }
+
+    // [getter]
+
+    get isOpen(): boolean { return !!this._widget; }
+
+    get matches(): readonly IFindMatch[] {
+        const state = this._view?.state;
+        if (state) {
+            this.__ensureMatches(state);
+        }
+        return this._matches;
+    }
+
+    // [protected override methods]
+
+    protected override onViewInit(view: ProseEditorView): void {
+        this._view = view;
+    }
+
+    protected override onViewDestroy(view: ProseEditorView): void {
+        this._view = undefined;
+        this.close();
+    }
+
+    protected override onStateTransaction(transaction: ProseTransaction, oldState: ProseEditorState, newState: ProseEditorState): void {
+        if (this._widget && transaction.docChanged) {
+            this._anchor = { pos: transaction.mapping.map(this._anchor.pos), offset: this._anchor.offset };
+        }
+    }
+
+    protected override onViewUpdate(view: ProseEditorView, prevState: ProseEditorState): void {
+        if (this._widget && view.state.doc !== prevState.doc) {
+            this.__ensureMatches(view.state);
+            this.__syncCodeBlocks(false);
+            this.__updateResult();
+        }
+    }
+
+    protected override onDecoration(state: ProseEditorState): ProseDecorationSource | nullable {
+        if (!this._widget) {
+            return null;
+        }
+
+        this.__ensureMatches(state);
+        const cache = this._decorationCache;
+        if (cache?.doc === state.doc && cache.current === this._current) {
+            return cache.decorations;
+        }
+
+        const decorations: ProseDecoration[] = [];
+        this._matches.forEach((match, index) => {
+            const className = index === this._current ? 'editor-find-match current' : 'editor-find-match';
+            if (match.type === FindMatchType.Text) {
+                decorations.push(ProseDecoration.inline(match.from, match.to, { class: className }));
+            }
+            // the whole equation is highlighted once
+            else if (match.type === FindMatchType.Math) {
+                const previous = this._matches[index - 1];
+                if (previous?.from !== match.from) {
+                    decorations.push(ProseDecoration.node(match.from, match.to, { class: 'editor-find-match' }));
+                }
+                if (index === this._current) {
+                    decorations.push(ProseDecoration.node(match.from, match.to, { class: 'current' }));
+                }
+            }
+        });
+
+        const decorationSet = ProseDecorationSet.create(state.doc, decorations);
+        this._decorationCache = { doc: state.doc, current: this._current, decorations: decorationSet };
+        return decorationSet;
+    }
+
+    // [public methods]
+
+    public open(replaceMode: boolean): boolean {
+        const view = this._view;
+        if (!view || this._editorWidget.renderMode === EditorType.Plain) {
+            return false;
+        }
+
+        const widget = this._widget ?? this.__createWidget();
+
+        const { from, to, empty } = view.state.selection;
+        const selected = empty ? '' : view.state.doc.textBetween(from, to, '\n');
+        if (selected.length > 0 && !selected.includes('\n')) {
+            widget.setText(selected);
+        }
+
+        widget.setReplaceMode(replaceMode && view.editable);
+        widget.focus();
+        this.__search();
+        return true;
+    }
+
+    public close(): boolean {
+        if (!this._widget) {
+            return false;
+        }
+
+        this._widget.dispose();
+        this._widget = undefined;
+        this._widgetContainer?.remove();
+        this._widgetContainer = undefined;
+
+        this._regexp = undefined;
+        this._error = undefined;
+        this._matches = [];
+        this._matchesDoc = undefined;
+        this._current = -1;
+        this._decorationCache = undefined;
+
+        this.__syncCodeBlocks(false);
+        this.__rerender();
+        this._view?.focus();
+        return true;
+    }
+
+    public next(): boolean {
+        return this.__move(1);
+    }
+
+    public previous(): boolean {
+        return this.__move(-1);
+    }
+
+    public replace(): boolean {
+        const view = this._view;
+        const widget = this._widget;
+        if (!view || !widget || !view.editable) {
+            return false;
+        }
+
+        this.__ensureMatches(view.state);
+        const match = this._matches[this._current];
+        if (!match) {
+            return false;
+        }
+
+        const { isRegExp } = widget.query;
+        const replacement = expandReplacement(widget.replacePattern, match, isRegExp);
+        const tr = view.state.tr;
+        replaceMatches(tr, [match], widget.replacePattern, isRegExp);
+
+        // continue from the end of the replacement (the anchor will be mapped
+        // through the transaction).
+        this._anchor = match.inner
+            ? { pos: match.from, offset: match.inner.start + replacement.length }
+            : { pos: match.to, offset: 0 };
+        view.dispatch(tr);
+
+        this.__reveal();
+        return true;
+    }
+
+    public replaceAll(): number {
+        const view = this._view;
+        const widget = this._widget;
+        if (!view || !widget || !view.editable) {
+            return 0;
+        }
+
+        this.__ensureMatches(view.state);
+        if (this._matches.length === 0) {
+            return 0;
+        }
+
+        const tr = view.state.tr;
+        const replaced = replaceMatches(tr, this._matches, widget.replacePattern, widget.query.isRegExp);
+        view.dispatch(tr);
+        return replaced;
+    }
+
+    // [private helper methods]
+
+    private __createWidget(): EditorFindWidget {
+        const widget = new EditorFindWidget();
+        const container = document.createElement('div');
+        container.className = 'editor-find-widget-container';
+
+        const element = document.createElement('div');
+        widget.render(element);
+        container.appendChild(element);
+        this._editorWidget.view.editor.container.prepend(container);
+
+        widget.onDidChangeQuery(() => this.__search());
+        widget.onDidNavigate(previous => previous ? this.previous() : this.next());
+        widget.onDidReplace(() => this.replace());
+        widget.onDidReplaceAll(() => this.replaceAll());
+        widget.onDidClose(() => this.close());
+
+        this._widget = widget;
+        this._widgetContainer = container;
+        return widget;
+    }
+
+    /**
+     * @description Re-creates the regular expression from the input and
+     * reveals the first match after the cursor.
+     */
+    private __search(): void {
+        const view = this._view;
+        const widget = this._widget;
+        if (!view || !widget) {
+            return;
+        }
+
+        const query = widget.query;
+        this._regexp = undefined;
+        this._error = undefined;
+        if (query.pattern !== '') {
+            const regexp = createSearchRegExp(query);
+            if (regexp.isOk()) {
+                this._regexp = regexp.data;
+            } else {
+                this._error = regexp.error.message;
+            }
+        }
+
+        this._matchesDoc = undefined;
+        this._anchor = { pos: view.state.selection.from, offset: 0 };
+        this.__ensureMatches(view.state);
+        this.__reveal();
+    }
+
+    private __ensureMatches(state: ProseEditorState): void {
+        if (this._matchesDoc === state.doc) {
+            return;
+        }
+
+        this._matchesDoc = state.doc;
+        this._decorationCache = undefined;
+        this._matches = this._regexp ? findMatches(state.doc, this._regexp) : [];
+
+        const { pos, offset } = this._anchor;
+        const index = this._matches.findIndex(match => match.from > pos || (match.from === pos && (match.inner?.start ?? 0) >= offset));
+        this._current = this._matches.length === 0 ? -1 : Math.max(0, index);
+    }
+
+    private __move(delta: number): boolean {
+        const view = this._view;
+        if (!view || !this._widget) {
+            return false;
+        }
+
+        this.__ensureMatches(view.state);
+        const count = this._matches.length;
+        if (count === 0) {
+            return false;
+        }
+
+        this._current = (this._current + delta + count) % count;
+        const match = this._matches[this._current]!;
+        this._anchor = { pos: match.from, offset: match.inner?.start ?? 0 };
+        this.__reveal();
+        return true;
+    }
+
+    /**
+     * @description Selects the current match, scrolls it into view and
+     * refreshes all the highlights.
+     */
+    private __reveal(): void {
+        const view = this._view;
+        if (!view) {
+            return;
+        }
+
+        const match = this._matches[this._current];
+        if (match) {
+            const { doc } = view.state;
+            const selection = match.type === FindMatchType.Text
+                ? ProseTextSelection.create(doc, match.from, match.to)
+                : ProseNodeSelection.create(doc, match.from);
+            view.dispatch(view.state.tr.setSelection(selection).scrollIntoView());
+        }
+
+        this.__syncCodeBlocks(true);
+        this.__rerender();
+        this.__updateResult();
+    }
+
+    /**
+     * @description Highlights the matches within every code block and removes
+     * the outdated ones.
+     * @param reveal Scrolls to the current match if it is inside a code block.
+     */
+    private __syncCodeBlocks(reveal: boolean): void {
+        const doc = this._view?.state.doc;
+        const highlights = new Map<CodeEditorView, ICodeBlockHighlight[]>();
+        let revealIn: { view: CodeEditorView, pos: number } | undefined;
+
+        this._matches.forEach((match, index) => {
+            if (match.type !== FindMatchType.CodeBlock || !match.inner) {
+                return;
+            }
+            const view = <CodeEditorView | undefined>doc?.nodeAt(match.from)?.attrs['view'];
+            if (!view) {
+                return;
+            }
+
+            const isCurrent = index === this._current;
+            let list = highlights.get(view);
+            if (!list) {
+                list = [];
+                highlights.set(view, list);
+            }
+            list.push({ start: match.inner.start, end: match.inner.end, className: isCurrent ? 'editor-find-match current' : 'editor-find-match' });
+
+            if (isCurrent && reveal) {
+                revealIn = { view: view, pos: match.inner.start };
+            }
+        });
+
+        for (const view of this._highlighted) {
+            if (!highlights.has(view)) {
+                setCodeBlockHighlights(view, []);
+            }
+        }
+        for (const [view, list] of highlights) {
+            setCodeBlockHighlights(view, list, revealIn?.view === view ? revealIn.pos : undefined);
+        }
+        this._highlighted = new Set(highlights.keys());
+    }
+
+    private __updateResult(): void {
+        this._widget?.setResult(this._current, this._matches.length, this._error);
+    }
+
+    private __rerender(): void {
+        const view = this._view;
+        if (view && !view.isDestroyed) {
+            view.updateState(view.state);
+        }
+    }
+}
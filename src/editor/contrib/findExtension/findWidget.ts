@@ -0,0 +1,213 @@
+import { addDisposableListener, EventType } from "src/base/browser/basic/dom";
+import { SearchBar } from "src/base/browser/basic/searchbar/searchbar";
+import { Widget } from "src/base/browser/basic/widget";
+import { createIcon } from "src/base/browser/icon/iconRegistry";
+import { Icons } from "src/base/browser/icon/icons";
+import { Emitter } from "src/base/common/event";
+import { ITextSearchQuery } from "src/base/common/search";
+
+type FindOption = 'isCaseSensitive' | 'isWholeWord' | 'isRegExp';
+
+/**
+ * @class The find bar of the editor. The widget only collects the input of the
+ * user, the actual finding is done by {@link EditorFindExtension}.
+ */
+export class EditorFindWidget extends Widget {
+
+    // [events]
+
+    private readonly _onDidChangeQuery = this.__register(new Emitter<void>());
+    public readonly onDidChangeQuery = this._onDidChangeQuery.registerListener;
+
+    /** Fires with true if navigating to the previous match. */
+    private readonly _onDidNavigate = this.__register(new Emitter<boolean>());
+    public readonly onDidNavigate = this._onDidNavigate.registerListener;
+
+    private readonly _onDidReplace = this.__register(new Emitter<void>());
+    public readonly onDidReplace = this._onDidReplace.registerListener;
+
+    private readonly _onDidReplaceAll = this.__register(new Emitter<void>());
+    public readonly onDidReplaceAll = this._onDidReplaceAll.registerListener;
+
+    private readonly _onDidClose = this.__register(new Emitter<void>());
+    public readonly onDidClose = this._onDidClose.registerListener;
+
+    // [fields]
+
+    private static readonly OPTIONS: { option: FindOption, label: string, title: string }[] = [
+        { option: 'isCaseSensitive', label: 'Aa', title: 'Match Case' },
+        { option: 'isWholeWord', label: 'ab', title: 'Match Whole Word' },
+        { option: 'isRegExp', label: '.*', title: 'Use Regular Expression' },
+    ];
+
+    private readonly _findBar: SearchBar;
+    private readonly _replaceBar: SearchBar;
+    private readonly _options: Record<FindOption, boolean>;
+    private _resultElement?: HTMLElement;
+
+    // [constructor]
+
+    constructor() {
+        super();
+        this._findBar = this.__register(new SearchBar({ placeHolder: 'Find', classes: ['editor-find-input'] }));
+        this._replaceBar = this.__register(new SearchBar({ placeHolder: 'Replace', classes: ['editor-find-input'] }));
+        this._options = { isCaseSensitive: false, isWholeWord: false, isRegExp: false };
+    }
+
+    // [getter]
+
+    get query(): ITextSearchQuery {
+        return { pattern: this._findBar.text, ...this._options };
+    }
+
+    get replacePattern(): string {
+        return this._replaceBar.text;
+    }
+
+    // [public methods]
+
+    /**
+     * @description Shows or hides the replace input.
+     */
+    public setReplaceMode(replaceMode: boolean): void {
+        this.element.classList.toggle('replace-mode', replaceMode);
+    }
+
+    public setText(text: string): void {
+        this._findBar.setText(text);
+    }
+
+    /**
+     * @description Focuses the find input and selects its text.
+     */
+    public focus(): void {
+        const input = this._findBar.element.querySelector('input');
+        input?.focus();
+        input?.select();
+    }
+
+    /**
+     * @description Updates the result to be displayed.
+     * @param current The index of the current match, -1 if there is none.
+     * @param error Displayed instead of the result if provided.
+     */
+    public setResult(current: number, total: number, error?: string): void {
+        const element = this._resultElement;
+        if (!element) {
+            return;
+        }
+
+        element.classList.toggle('error', !!error || (total === 0 && this._findBar.text !== ''));
+        if (error) {
+            element.textContent = error;
+        } else if (total === 0) {
+            element.textContent = this._findBar.text === '' ? '' : 'No results';
+        } else {
+            element.textContent = `${current === -1 ? '?' : current + 1} of ${total}`;
+        }
+    }
+
+    // [protected override methods]
+
+    protected override __render(element: HTMLElement): void {
+
+        // find input
+        const findRow = document.createElement('div');
+        findRow.className = 'editor-find-row';
+
+        const replaceToggle = createIcon(Icons.ArrowRight, ['editor-find-replace-toggle']);
+        replaceToggle.title = 'Toggle Replace';
+        this.__register(addDisposableListener(replaceToggle, EventType.click, () => {
+            this.setReplaceMode(!element.classList.contains('replace-mode'));
+        }));
+        element.appendChild(replaceToggle);
+
+        const findBarContainer = document.createElement('div');
+        this._findBar.render(findBarContainer);
+        findRow.appendChild(findBarContainer);
+
+        for (const { option, label, title } of EditorFindWidget.OPTIONS) {
+            const toggle = this.__createButton('editor-find-option', label, title, () => {
+                this._options[option] = !this._options[option];
+                toggle.classList.toggle('activated', this._options[option]);
+                this._onDidChangeQuery.fire();
+            });
+            findRow.appendChild(toggle);
+        }
+
+        this._resultElement = document.createElement('div');
+        this._resultElement.className = 'editor-find-result';
+        findRow.appendChild(this._resultElement);
+
+        findRow.appendChild(this.__createButton('editor-find-action', '↑', 'Previous Match (Shift+Enter)', () => this._onDidNavigate.fire(true)));
+        findRow.appendChild(this.__createButton('editor-find-action', '↓', 'Next Match (Enter)', () => this._onDidNavigate.fire(false)));
+
+        const close = createIcon(Icons.Close, ['editor-find-action']);
+        close.title = 'Close (Escape)';
+        this.__register(addDisposableListener(close, EventType.click, () => this._onDidClose.fire()));
+        findRow.appendChild(close);
+
+        // replace input
+        const replaceRow = document.createElement('div');
+        replaceRow.className = 'editor-replace-row';
+
+        const replaceBarContainer = document.createElement('div');
+        this._replaceBar.render(replaceBarContainer);
+        replaceRow.appendChild(replaceBarContainer);
+
+        replaceRow.appendChild(this.__createButton('editor-find-action', 'Replace', 'Replace (Enter)', () => this._onDidReplace.fire()));
+        replaceRow.appendChild(this.__createButton('editor-find-action', 'All', 'Replace All (Ctrl+Alt+Enter)', () => this._onDidReplaceAll.fire()));
+
+        const rows = document.createElement('div');
+        rows.className = 'editor-find-rows';
+        rows.appendChild(findRow);
+        rows.appendChild(replaceRow);
+        element.appendChild(rows);
+    }
+
+    protected override __applyStyle(element: HTMLElement): void {
+        element.classList.add('editor-find-widget');
+    }
+
+    protected override __registerListeners(element: HTMLElement): void {
+        this.__register(this._findBar.onDidType(() => {
+            this._onDidChangeQuery.fire();
+        }));
+
+        this.__register(addDisposableListener(this._findBar.element, EventType.keydown, e => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                this._onDidNavigate.fire(e.shiftKey);
+            }
+        }));
+
+        this.__register(addDisposableListener(this._replaceBar.element, EventType.keydown, e => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                if (e.ctrlKey && e.altKey) {
+                    this._onDidReplaceAll.fire();
+                } else {
+                    this._onDidReplace.fire();
+                }
+            }
+        }));
+
+        this.__register(addDisposableListener(element, EventType.keydown, e => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                this._onDidClose.fire();
+            }
+        }));
+    }
+
+    // [private helper methods]
+
+    private __createButton(className: string, label: string, title: string, onClick: () => void): HTMLElement {
+        const button = document.createElement('div');
+        button.className = className;
+        button.textContent = label;
+        button.title = title;
+        this.__register(addDisposableListener(button, EventType.click, onClick));
+        return button;
+    }
+}
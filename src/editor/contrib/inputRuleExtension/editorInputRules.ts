@@ -1,8 +1,8 @@
 import { EditorState, Transaction } from "prosemirror-state";
 import { canJoin, findWrapping } from "prosemirror-transform";
-import { CodeEditorView, minimalSetup } from "src/editor/common/codeMirror";
-import { TokenEnum } from "src/editor/common/markdown";
-import { IEditorInputRuleExtension, InputRuleReplacement } from "src/editor/contrib/inputRuleExtension/inputRuleExtension";
+import { createCodeBlockView } from "src/editor/common/codeBlock";
+import { MarkEnum, TokenEnum } from "src/editor/common/markdown";
+import { IEditorInputRuleExtension, InputRuleMarkReplacement, InputRuleReplacement } from "src/editor/contrib/inputRuleExtension/inputRuleExtension";
 
 export function registerDefaultInputRules(extension: IEditorInputRuleExtension): void {
 
@@ -40,12 +40,8 @@ export function registerDefaultInputRules(extension: IEditorInputRuleExtension):
             nodeType: TokenEnum.CodeBlock,
             whenReplace: 'enter',
             getNodeAttribute: (match) => {
-                const view = new CodeEditorView({
-                    doc: '',
-                    extensions: [minimalSetup],
-                });
                 return { 
-                    view: view,
+                    view: createCodeBlockView('', ''),
                     lang: '',
                 };
             },
@@ -80,6 +76,18 @@ export function registerDefaultInputRules(extension: IEditorInputRuleExtension):
             wrapStrategy: 'WrapBlock'
         }
     );
+
+    // Strikethrough Rule: Matches "~~text~~"
+    extension.registerRule("delRule", /(?:^|[^~])(~~([^~\s](?:[^~]*[^~\s])?)~~)$/,
+        {
+            markType: MarkEnum.Del,
+            whenReplace: 'type',
+            getMarkAttribute: () => {
+                return { tildeCount: 2 };
+            },
+            wrapStrategy: 'WrapMark'
+        }
+    );
 }
 
 /**
@@ -117,7 +125,8 @@ export class InputRule implements IInputRule {
     public readonly replacement: InputRuleReplacement;
 
     private readonly _replacementString?: string;
-    private readonly _replacementObject?: Exclude<InputRuleReplacement, string>;
+    private readonly _replacementObject?: Exclude<InputRuleReplacement, string | InputRuleMarkReplacement>;
+    private readonly _replacementMark?: InputRuleMarkReplacement;
 
     public readonly onMatch: (
         state: EditorState,
@@ -134,11 +143,16 @@ export class InputRule implements IInputRule {
         this.replacement = replacement;
 
         if (typeof this.replacement !== 'string') {
-            this._replacementObject = this.replacement;
-            if (this.replacement.wrapStrategy === 'WrapTextBlock') {
-                this.onMatch = this.__textblockTypeInputRule;
+            if (this.replacement.wrapStrategy === 'WrapMark') {
+                this._replacementMark = this.replacement;
+                this.onMatch = this.__markInputRule;
             } else {
-                this.onMatch = this.__wrappingInputRule;
+                this._replacementObject = this.replacement;
+                if (this.replacement.wrapStrategy === 'WrapTextBlock') {
+                    this.onMatch = this.__textblockTypeInputRule;
+                } else {
+                    this.onMatch = this.__wrappingInputRule;
+                }
             }
         } else {
             this._replacementString = this.replacement;
@@ -228,4 +242,49 @@ export class InputRule implements IInputRule {
             .delete(start, end)
             .setBlockType(start, start, nodeType, attrs);
     }
+
+    private __markInputRule(
+        state: EditorState,
+        match: RegExpExecArray,
+        start: number,
+        end: number
+    ): Transaction | null {
+        const replacement = this._replacementMark!;
+        const markType = state.schema.marks[replacement.markType];
+        if (!markType) {
+            console.warn(`[EditorInputRuleExtension] Mark type "${replacement.markType}" not found in schema.`);
+            return null;
+        }
+
+        const [full, syntax, content] = match;
+        if (!syntax || !content) {
+            return null;
+        }
+
+        const $start = state.doc.resolve(start);
+        if (!$start.parent.type.allowsMarkType(markType)) {
+            return null;
+        }
+
+        /**
+         * The last typed character is not inserted into the document yet, 
+         * thus the closing syntax that exists in the document ends at `end`.
+         */
+        const syntaxStart = start + full.lastIndexOf(syntax);
+        const contentStart = syntaxStart + syntax.indexOf(content);
+        const contentEnd = contentStart + content.length;
+        
+        const attrs = replacement.getMarkAttribute?.(match);
+        const tr = state.tr;
+        if (contentEnd < end) {
+            tr.delete(contentEnd, end);
+        }
+        if (syntaxStart < contentStart) {
+            tr.delete(syntaxStart, contentStart);
+        }
+        
+        tr.addMark(syntaxStart, syntaxStart + content.length, markType.create(attrs));
+        tr.removeStoredMark(markType);
+        return tr;
+    }
 }
\ No newline at end of file
@@ -7,17 +7,19 @@ import { canJoin } from "prosemirror-transform";
 import { Dictionary, isString } from "src/base/common/utilities/type";
 import { ProseEditorView, ProseNode, ProseResolvedPos, ProseTextSelection } from "src/editor/common/proseMirror";
 import { KeyCode } from "src/base/common/keyboard";
-import { TokenEnum } from "src/editor/common/markdown";
+import { MarkEnum, TokenEnum } from "src/editor/common/markdown";
 import { IInputRule, InputRule, registerDefaultInputRules } from "src/editor/contrib/inputRuleExtension/editorInputRules";
 
 /**
  * Defines the replacement behavior for an input rule. An input rule replacement 
  * can either be:
  *   1. a direct string replacement or 
- *   2. an object that specifies complicated replacement rule.
+ *   2. an object that specifies complicated replacement rule or
+ *   3. an object that specifies a mark to be applied on the matched text.
  */
 export type InputRuleReplacement = 
     | string
+    | InputRuleMarkReplacement
     | {
         /** 
          * Specifies the type of node to create when replacing. 
@@ -64,6 +66,36 @@ export type InputRuleReplacement =
         readonly shouldJoinWithBefore?: (matchedText: RegExpExecArray, prevNode: ProseNode) => boolean;
     };
 
+/**
+ * Defines a replacement that applies a mark on the matched text. The pattern 
+ * must provide two capturing groups:
+ *   - `match[1]`: the whole marked syntax (e.g. `~~text~~`), 
+ *   - `match[2]`: the content (e.g. `text`).
+ * The syntax around the content will be removed once matched.
+ */
+export type InputRuleMarkReplacement = {
+    
+    /** 
+     * Specifies the type of mark to apply on the matched content. 
+     */
+    readonly markType: string | MarkEnum;
+
+    readonly wrapStrategy: 'WrapMark';
+
+    /**
+     * Marks can only be applied when typing.
+     */
+    readonly whenReplace: 'type';
+
+    /** 
+     * @description A function that generates mark attributes based on the 
+     * matched text.
+     * @param matchedText The matched text.
+     * @returns A dictionary of attributes for the new mark.
+     */
+    readonly getMarkAttribute?: (matchedText: RegExpExecArray) => Dictionary<string, any>;
+};
+
 /**
  * An interface only for {@link EditorInputRuleExtension}.
  */
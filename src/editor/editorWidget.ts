@@ -1,12 +1,12 @@
 import { FastElement } from "src/base/browser/basic/fastElement";
 import { Disposable, IDisposable } from "src/base/common/dispose";
-import { Register, RelayEmitter } from "src/base/common/event";
+import { Emitter, Register, RelayEmitter } from "src/base/common/event";
 import { URI } from "src/base/common/files/uri";
 import { ILogService } from "src/base/common/logger";
 import { Constructor, isDefined } from "src/base/common/utilities/type";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
 import { IBrowserLifecycleService, ILifecycleService } from "src/platform/lifecycle/browser/browserLifecycleService";
-import { IEditorModel } from "src/editor/common/model";
+import { IEditorModel, IEditorModelSaveOptions } from "src/editor/common/model";
 import { EditorType, IEditorView } from "src/editor/common/view";
 import { BasicEditorOption, EDITOR_OPTIONS_DEFAULT, EditorOptionsType, IEditorWidgetOptions, toJsonEditorOption } from "src/editor/common/editorConfiguration";
 import { EditorModel } from "src/editor/model/editorModel";
@@ -34,7 +34,9 @@ export interface IEditorWidget extends
         | 'onDidDirtyChange'
         | 'onDidSave'
         | 'onDidSaveError'
+        | 'onDidConflict'
         | 'save' 
+        | 'reload'
         | 'insertAt' 
         | 'deleteAt'>
 {
@@ -71,13 +73,21 @@ export interface IEditorWidget extends
      */
     readonly onDidRenderModeChange: Register<EditorType>;
 
+    /**
+     * Fires when the editor options are updated, either by {@link updateOptions}
+     * or by the configuration. Only the updated options are provided.
+     */
+    readonly onDidUpdateOptions: Register<Partial<IEditorWidgetOptions>>;
+
     /**
      * @description Opens the source in the editor.
-     * @param source The source in URI form.
+     * @param source The source in URI form, or a model created by others. A
+     *               given model is not owned by the editor, thus it is not
+     *               disposed once the editor opens another source.
      * 
      * @throws An exception will be thrown if the editor cannot open it.
      */
-    open(source: URI): Promise<Result<void, Error>>;
+    open(source: URI | IEditorModel): Promise<Result<void, Error>>;
 
     /**
      * @description Updates the options of the editor widget.
@@ -114,7 +124,7 @@ export class EditorWidget extends Disposable implements IEditorWidget {
     private readonly _container: FastElement<HTMLElement>;
     
     // MVVM
-    private _model: EditorModel | null;
+    private _model: IEditorModel | null;
     private _viewModel: EditorViewModel | null;
     private _view: EditorView | null;
     private _editorData: EditorData | null;
@@ -148,6 +158,14 @@ export class EditorWidget extends Disposable implements IEditorWidget {
     private readonly _onDidSaveError = this.__register(new RelayEmitter<unknown>());
     public readonly onDidSaveError = this._onDidSaveError.registerListener;
 
+    private readonly _onDidConflict = this.__register(new RelayEmitter<void>());
+    public readonly onDidConflict = this._onDidConflict.registerListener;
+
+    // #region [widget events]
+
+    private readonly _onDidUpdateOptions = this.__register(new Emitter<Partial<IEditorWidgetOptions>>());
+    public readonly onDidUpdateOptions = this._onDidUpdateOptions.registerListener;
+
     // #region [view events]
 
     private readonly _onDidBlur = this.__register(new RelayEmitter<void>());
@@ -288,13 +306,13 @@ export class EditorWidget extends Disposable implements IEditorWidget {
     get view(): IEditorView { return assert(this._view); }
 
     get readonly(): boolean { return !this._options.getOptions().writable.value; }
-    get renderMode(): EditorType | null { return null; } // TODO
+    get renderMode(): EditorType | null { return this._view?.renderMode ?? null; }
 
     // #region [public methods]
 
-    public async open(source: URI): Promise<Result<void, Error>> {
-        const currSource = this._model?.source;
-        if (currSource && URI.equals(source, currSource)) {
+    public async open(source: URI | IEditorModel): Promise<Result<void, Error>> {
+        const owned = URI.isURI(source);
+        if (this._model && (owned ? URI.equals(source, this._model.source) : source === this._model)) {
             return ok();
         }
 
@@ -302,13 +320,15 @@ export class EditorWidget extends Disposable implements IEditorWidget {
         const extensionList = this._extensions.getExtensions();
 
         // model
-        this._model = this.instantiationService.createInstance(EditorModel, source, this._options.getOptions());
+        this._model = owned ? this.instantiationService.createInstance(EditorModel, source, this._options.getOptions()) : source;
         const initState = await this._model.build(extensionList);
         
         // unexpected behavior, we need to let the user know.
         if (initState.isErr()) {
-            const error = new Error(`Editor: Cannot open editor at '${URI.toFsPath(source)}'. ${errorToMessage(initState.unwrapErr(), false)}`);
-            this._model.dispose();
+            const error = new Error(`Editor: Cannot open editor at '${URI.toFsPath(this._model.source)}'. ${errorToMessage(initState.unwrapErr(), false)}`);
+            if (owned) {
+                this._model.dispose();
+            }
             return err(error);
         }
 
@@ -329,17 +349,25 @@ export class EditorWidget extends Disposable implements IEditorWidget {
 
         // listeners
         this.__registerMVVMListeners(this._model, this._view);
+        this.updateContext('editorRenderMode', this._view.renderMode);
 
         // cache data
-        this._editorData = this.__register(new EditorData(this._model, this._viewModel, this._view, undefined));
+        this._editorData = this.__register(new EditorData(owned ? this._model : undefined, this._viewModel, this._view, undefined));
         return ok();
     }
 
-    public save(): AsyncResult<void, Error> {
+    public save(options?: IEditorModelSaveOptions): AsyncResult<void, Error> {
         if (!this._model) {
             return AsyncResult.ok();
         }
-        return this._model.save();
+        return this._model.save(options);
+    }
+
+    public reload(): AsyncResult<void, Error> {
+        if (!this._model) {
+            return AsyncResult.ok();
+        }
+        return this._model.reload();
     }
 
     public override dispose(): void {
@@ -351,6 +379,7 @@ export class EditorWidget extends Disposable implements IEditorWidget {
 
     public updateOptions(newOption: Partial<IEditorWidgetOptions>): void {
         this._options.updateOptions(newOption);
+        this.__onDidUpdateOptions(newOption);
     }
 
     public getOptions(): EditorOptionsType {
@@ -391,7 +420,7 @@ export class EditorWidget extends Disposable implements IEditorWidget {
         this._view = null;
     }
 
-    private __assertModel(): EditorModel {
+    private __assertModel(): IEditorModel {
         return assert(this._model, '[EditorWidget] EditorModel is not initialized.');
     }
     
@@ -406,10 +435,21 @@ export class EditorWidget extends Disposable implements IEditorWidget {
             if (e.affect('editor')) {
                 const newOption = this.configurationService.get<IEditorWidgetOptions>('editor');
                 this._options.updateOptions(newOption);
+                this.__onDidUpdateOptions(newOption);
             }
         }));
     }
 
+    private __onDidUpdateOptions(newOption: Partial<IEditorWidgetOptions>): void {
+        if (newOption.mode !== undefined) {
+            this._view?.setRenderMode(newOption.mode);
+        }
+        if (newOption.writable !== undefined) {
+            this._view?.setWritable(newOption.writable);
+        }
+        this._onDidUpdateOptions.fire(newOption);
+    }
+
     private __registerMVVMListeners(model: IEditorModel, view: IEditorView): void {
 
         // binding to the model
@@ -417,8 +457,10 @@ export class EditorWidget extends Disposable implements IEditorWidget {
         this._onDidDirtyChange.setInput(model.onDidDirtyChange);
         this._onDidSave.setInput(model.onDidSave);
         this._onDidSaveError.setInput(model.onDidSaveError);
+        this._onDidConflict.setInput(model.onDidConflict);
 
         // binding to the view
+        this._onDidRenderModeChange.setInput(this.view.onDidRenderModeChange);
         this._onDidBlur.setInput(this.view.onDidBlur);
         this._onDidFocus.setInput(this.view.onDidFocus);
         
@@ -464,13 +506,15 @@ export class EditorWidget extends Disposable implements IEditorWidget {
 class EditorData extends Disposable {
 
     constructor(
-        public readonly model: IEditorModel,
+        public readonly model: IEditorModel | undefined,
         public readonly viewModel: IEditorViewModel,
         public readonly view: IEditorView,
         public readonly listeners?: IDisposable,
     ) {
         super();
-        this.__register(model);
+        if (model) {
+            this.__register(model);
+        }
         this.__register(viewModel);
         this.__register(view);
         if (listeners) {
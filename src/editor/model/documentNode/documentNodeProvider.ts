@@ -5,6 +5,7 @@ import { TokenEnum, MarkEnum } from "src/editor/common/markdown";
 import { ProseNodeType, ProseMarkType } from "src/editor/common/proseMirror";
 import { DocumentNode, DocumentMark } from "src/editor/model/documentNode/documentNode";
 import { Codespan } from "src/editor/model/documentNode/mark/codespan";
+import { Del } from "src/editor/model/documentNode/mark/del";
 import { Emphasis } from "src/editor/model/documentNode/mark/emphasis";
 import { Link } from "src/editor/model/documentNode/mark/link";
 import { MathInline } from "src/editor/model/documentNode/mark/mathInline";
@@ -17,10 +18,12 @@ import { HorizontalRule } from "src/editor/model/documentNode/node/horizontalRul
 import { HTML, InlineHTML } from "src/editor/model/documentNode/node/html";
 import { Image } from "src/editor/model/documentNode/node/image";
 import { LineBreak } from "src/editor/model/documentNode/node/lineBreak";
+import { LinkDefinition } from "src/editor/model/documentNode/node/linkDefinition";
 import { List, ListItem } from "src/editor/model/documentNode/node/list";
 import { MathBlock } from "src/editor/model/documentNode/node/mathBlock";
 import { Paragraph } from "src/editor/model/documentNode/node/paragraph";
 import { Space } from "src/editor/model/documentNode/node/space";
+import { Table, TableCell, TableHeader, TableRow } from "src/editor/model/documentNode/node/table";
 import { Text } from "src/editor/model/documentNode/node/text";
 import { EditorSchema, TOP_NODE_NAME } from "src/editor/model/schema";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
@@ -67,15 +70,21 @@ export class DocumentNodeProvider {
                 provider.registerNode(instantiationService.createInstance(CodeBlock));
                 provider.registerNode(instantiationService.createInstance(List));
                 provider.registerNode(instantiationService.createInstance(ListItem));
+                provider.registerNode(instantiationService.createInstance(Table));
+                provider.registerNode(instantiationService.createInstance(TableRow));
+                provider.registerNode(instantiationService.createInstance(TableHeader));
+                provider.registerNode(instantiationService.createInstance(TableCell));
                 provider.registerNode(instantiationService.createInstance(LineBreak));
                 provider.registerNode(instantiationService.createInstance(Image));
                 provider.registerNode(instantiationService.createInstance(HTML));
                 provider.registerNode(instantiationService.createInstance(InlineHTML));
                 provider.registerNode(instantiationService.createInstance(MathBlock));
                 provider.registerNode(instantiationService.createInstance(MathInline));
+                provider.registerNode(instantiationService.createInstance(LinkDefinition));
 
                 // marks
                 provider.registerMark(instantiationService.createInstance(Link));
+                provider.registerMark(instantiationService.createInstance(Del));
                 provider.registerMark(instantiationService.createInstance(Emphasis));
                 provider.registerMark(instantiationService.createInstance(Strong));
                 provider.registerMark(instantiationService.createInstance(Codespan));
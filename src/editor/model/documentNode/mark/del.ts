@@ -0,0 +1,50 @@
+import { MarkEnum } from "src/editor/common/markdown";
+import { EditorTokens } from "src/editor/common/model";
+import { ProseMark, ProseMarkSpec } from "src/editor/common/proseMirror";
+import { DocumentMark, IParseTokenStatus } from "src/editor/model/documentNode/documentNode";
+import { IDocumentParseState } from "src/editor/model/parser";
+import { IDocumentMarkSerializationOptions } from "src/editor/model/serializer";
+
+/**
+ * @class A strikethrough mark (GFM). Rendered as `<del>`. Both `~~text~~` and 
+ * `~text~` are supported, the number of tildes is preserved.
+ */
+export class Del extends DocumentMark<EditorTokens.Del> {
+
+    constructor() {
+        super(MarkEnum.Del);
+    }
+
+    public getSchema(): ProseMarkSpec {
+        return <ProseMarkSpec>{
+            attrs: {
+                tildeCount: { default: 2 },
+            },
+            toDOM: () => { return ['del', 0]; }
+        };
+    }
+
+    public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.Del>): void {
+        const { token } = status;
+        const tildeCount = token.raw.startsWith('~~') ? 2 : 1;
+        state.activateMark(this.ctor.create({ tildeCount: tildeCount }));
+        if (token.tokens) {
+            state.parseTokens(status.level + 1, token.tokens, token);
+        } else {
+            state.addText(token.text);
+        }
+        state.deactivateMark(this.ctor);
+    }
+
+    public readonly serializer: IDocumentMarkSerializationOptions = {
+        serializeOpen: (_state, mark) => __getOpenAndClose(mark),
+        serializeClose: (_state, mark) => __getOpenAndClose(mark),
+        mixable: true,
+        expelEnclosingWhitespace: true,
+    };
+}
+
+function __getOpenAndClose(mark: ProseMark): string {
+    const tildeCount = mark.attrs['tildeCount'] as number;
+    return '~'.repeat(tildeCount);
+}
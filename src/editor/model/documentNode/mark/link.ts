@@ -5,9 +5,29 @@ import { DocumentMark, IParseTokenStatus } from "src/editor/model/documentNode/d
 import { IDocumentParseState } from "src/editor/model/parser";
 import { IDocumentMarkSerializationOptions } from "src/editor/model/serializer";
 
+/**
+ * The ways a reference link can be written:
+ *  - full: `[text][label]`
+ *  - collapsed: `[label][]`
+ *  - shortcut: `[label]`
+ */
+const enum LinkReferenceStyle {
+    Full = 'full',
+    Collapsed = 'collapsed',
+    Shortcut = 'shortcut',
+}
+
 /**
  * @class A link. Has `href` and `title` attributes. `title` defaults to the 
  * empty string. Rendered as an `<a>` element.
+ * 
+ * @note The `bare` attribute indicates the link is a GFM extended autolink 
+ * which is written without any brackets (e.g. `https://example.com` or 
+ * `www.example.com`).
+ * 
+ * @note The `reference` and `referenceStyle` attributes indicate the link is 
+ * written as a reference link (e.g. `[text][label]`) whose `href` and `title` 
+ * come from a link reference definition.
  */
 export class Link extends DocumentMark<EditorTokens.Link> {
 
@@ -19,7 +39,10 @@ export class Link extends DocumentMark<EditorTokens.Link> {
         return <ProseMarkSpec>{
             attrs: {
                 href: {},
-                title: { default: null }
+                title: { default: null },
+                bare: { default: false },
+                reference: { default: null },
+                referenceStyle: { default: null },
             },
             inclusive: false,
             toDOM: (node) => {
@@ -31,9 +54,13 @@ export class Link extends DocumentMark<EditorTokens.Link> {
 
     public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.Link>): void {
         const { token } = status;
+        const { reference, referenceStyle } = __resolveReference(token.raw);
         state.activateMark(this.ctor.create({
             href: token.href,
             title: token.title,
+            bare: !token.raw.startsWith('[') && !token.raw.startsWith('<'),
+            reference: reference,
+            referenceStyle: referenceStyle,
         }));
         if (token.tokens) {
             state.parseTokens(status.level + 1, token.tokens, token);
@@ -45,17 +72,30 @@ export class Link extends DocumentMark<EditorTokens.Link> {
 
     public readonly serializer: IDocumentMarkSerializationOptions = {
         serializeOpen: (state, mark, parent, index) => {
-            state.setInAutoLink(__isPlainURL(mark, parent, index));
-            return state.inAutoLink ? "<" : "[";
+            if (mark.attrs['reference'] !== null) {
+                state.setInAutoLink(false);
+                return "[";
+            }
+            
+            const isBare = mark.attrs['bare'] === true;
+            state.setInAutoLink(isBare ? __isBareURL(mark, parent, index) : __isPlainURL(mark, parent, index));
+            if (state.inAutoLink) {
+                return isBare ? "" : "<";
+            }
+            return "[";
         },
         serializeClose: (state, mark, parent, index) => {
-            const { title, href } = mark.attrs;
+            const { title, href, bare, reference } = mark.attrs;
             const inAutoLink = state.inAutoLink;
 
             state.setInAutoLink(undefined);
-            return inAutoLink 
-                ? ">" 
-                : "](" + href.replace(/[()"]/g, "\\$&") + (title ? ` "${title.replace(/"/g, '\\"')}"` : "") + ")";
+            if (inAutoLink) {
+                return bare ? "" : ">";
+            }
+            if (reference !== null) {
+                return __serializeReferenceClose(mark, parent, index);
+            }
+            return "](" + href.replace(/[()"]/g, "\\$&") + (title ? ` "${title.replace(/"/g, '\\"')}"` : "") + ")";
         },
         mixable: true,
         expelEnclosingWhitespace: true,
@@ -78,4 +118,69 @@ function __isPlainURL(link: ProseMark, parent: ProseNode, index: number): boolea
 
     // Check if this is the last node or if the next node does not share the same marks
     return index === parent.childCount - 1 || !link.isInSet(parent.child(index + 1).marks);
-}
\ No newline at end of file
+}
+
+/**
+ * @description A bare URL can only be written without brackets as long as its 
+ * text still represents its href (marked prefixes `http://` to `www.` links and 
+ * `mailto:` to emails).
+ */
+function __isBareURL(link: ProseMark, parent: ProseNode, index: number): boolean {
+    const { title, href } = link.attrs;
+    if (title) {
+        return false;
+    }
+    const currentNode = parent.child(index);
+    
+    if (!currentNode.isText || currentNode.marks[currentNode.marks.length - 1] !== link) {
+        return false;
+    }
+
+    const text = currentNode.text!;
+    if (text !== href && `http://${text}` !== href && `mailto:${text}` !== href) {
+        return false;
+    }
+
+    return index === parent.childCount - 1 || !link.isInSet(parent.child(index + 1).marks);
+}
+
+function __resolveReference(raw: string): { reference: string | null, referenceStyle: LinkReferenceStyle | null } {
+    if (!raw.startsWith('[') || !raw.endsWith(']')) {
+        return { reference: null, referenceStyle: null };
+    }
+
+    const match = /^\[([\s\S]*)\]\[((?:\\[\s\S]|[^[\]\\])*)\]$/.exec(raw);
+    if (!match) {
+        return { reference: raw.slice(1, -1), referenceStyle: LinkReferenceStyle.Shortcut };
+    }
+    if (match[2] === '') {
+        return { reference: match[1]!, referenceStyle: LinkReferenceStyle.Collapsed };
+    }
+    return { reference: match[2]!, referenceStyle: LinkReferenceStyle.Full };
+}
+
+/**
+ * @description The collapsed and shortcut reference links use the link text 
+ * as the label. Once the text no longer matches the label, the link is 
+ * written in full style so that it still refers to the same definition.
+ */
+function __serializeReferenceClose(link: ProseMark, parent: ProseNode, index: number): string {
+    const reference = link.attrs['reference'] as string;
+    const style = link.attrs['referenceStyle'] as LinkReferenceStyle;
+
+    if (style !== LinkReferenceStyle.Full) {
+        let text = '';
+        for (let i = index - 1; i >= 0 && link.isInSet(parent.child(i).marks); i--) {
+            text = parent.child(i).textContent + text;
+        }
+
+        if (__normalizeLabel(text) === __normalizeLabel(reference)) {
+            return style === LinkReferenceStyle.Collapsed ? "][]" : "]";
+        }
+    }
+    return `][${reference}]`;
+}
+
+function __normalizeLabel(label: string): string {
+    return label.trim().toLowerCase().replace(/\s+/g, ' ');
+}
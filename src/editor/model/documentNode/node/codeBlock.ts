@@ -1,6 +1,7 @@
 import { Strings } from "src/base/common/utilities/string";
 import { isString } from "src/base/common/utilities/type";
-import { CodeEditorView, minimalSetup } from "src/editor/common/codeMirror";
+import { CodeEditorView } from "src/editor/common/codeMirror";
+import { createCodeBlockView } from "src/editor/common/codeBlock";
 import { TokenEnum } from "src/editor/common/markdown";
 import { EditorTokens } from "src/editor/common/model";
 import { ProseNode, ProseNodeSpec } from "src/editor/common/proseMirror";
@@ -51,10 +52,7 @@ export class CodeBlock extends DocumentNode<EditorTokens.CodeBlock> {
         const { token } = status;
         const fenceResult = __resolveFenceStatus(token);
 
-        const view = new CodeEditorView({
-            doc: token.text,
-            extensions: [minimalSetup],
-        });
+        const view = createCodeBlockView(token.text, token.lang ?? '');
         
         const attrs = {
             view: view, 
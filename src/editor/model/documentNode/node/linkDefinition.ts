@@ -0,0 +1,100 @@
+import { TokenizerAndRendererExtension } from "marked";
+import { TokenEnum } from "src/editor/common/markdown";
+import { EditorTokens } from "src/editor/common/model";
+import { ProseNode, ProseNodeSpec } from "src/editor/common/proseMirror";
+import { DocumentNode, IParseTokenStatus } from "src/editor/model/documentNode/documentNode";
+import { IDocumentParseState } from "src/editor/model/parser";
+import { IMarkdownSerializerState } from "src/editor/model/serializer";
+
+/**
+ * @description marked consumes the link reference definitions silently (it
+ * only records them for resolving the reference links). This tokenizer emits
+ * them as `def` tokens so that they can be kept in the document.
+ */
+export function createLinkDefinitionTokenizer(): TokenizerAndRendererExtension {
+    return {
+        name: TokenEnum.Def,
+        level: 'block',
+        tokenizer: function (src, tokens) {
+
+            // a definition cannot interrupt a paragraph, let marked handle it.
+            const lastToken = tokens[tokens.length - 1];
+            if (lastToken?.type === TokenEnum.Paragraph || lastToken?.type === TokenEnum.Text) {
+                return undefined;
+            }
+
+            // reuse the tokenizer of marked so that the result stays identical
+            const token = this.lexer.options.tokenizer?.def(src);
+            if (!token) {
+                return undefined;
+            }
+
+            // the first definition wins, same as marked does.
+            if (!this.lexer.tokens.links[token.tag]) {
+                this.lexer.tokens.links[token.tag] = {
+                    href: token.href,
+                    title: token.title,
+                };
+            }
+            return token;
+        },
+    };
+}
+
+/**
+ * @class A link reference definition (e.g. `[label]: https://example.com "title"`).
+ * The definition is kept as its markdown text, which is editable in the rich
+ * text mode just like a code block. The reference links are resolved from the
+ * edited text once the document is parsed again.
+ */
+export class LinkDefinition extends DocumentNode<EditorTokens.Def> {
+
+    constructor() {
+        super(TokenEnum.Def);
+    }
+
+    public getSchema(): ProseNodeSpec {
+        return {
+            group: 'block',
+            content: 'text*',
+            marks: '', // disallow any marks
+            code: true,
+            defining: true,
+            whitespace: 'pre',
+            attrs: {
+                trailingEndOfLine: { default: 0 },
+            },
+            toDOM: () => ['div', { class: 'link-definition' }, 0],
+        };
+    }
+
+    public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.Def>): void {
+        const { token } = status;
+        const text = token.raw.replace(/\n*$/, '');
+        const trailingEndOfLine = token.raw.length - text.length
+            + (state.consumeLastEndOfLine(status) ? 1 : 0);
+
+        state.activateNode(this.ctor, status, {
+            attrs: {
+                trailingEndOfLine: trailingEndOfLine,
+            }
+        });
+        state.addText(text);
+        state.deactivateNode();
+    }
+
+    public serializer = (state: IMarkdownSerializerState, node: ProseNode) => {
+        node.textContent.split('\n').forEach((line, index) => {
+            if (index > 0) {
+                state.write('\n');
+            }
+            state.write(line);
+        });
+
+        const trailingEndOfLine = node.attrs['trailingEndOfLine'] as number;
+        for (let i = 0; i < trailingEndOfLine; i++) {
+            state.write('\n');
+        }
+        state.closeBlock(node);
+    };
+}
@@ -70,6 +70,18 @@ export class List extends DocumentNode<EditorTokens.List> {
     };
 }
 
+/**
+ * The class name of the checkbox that is rendered in front of a task list item.
+ */
+export const TASK_CHECKBOX_CLASS_NAME = 'task-list-checkbox';
+
+/**
+ * @class A list item (`<li>`). When the item is a GFM task list item (e.g.
+ * `- [ ] todo`), a checkbox is rendered in front of the content.
+ *
+ * @note The original marker character of a checked item (`x` or `X`) and the
+ * spacing after the brackets are preserved for a byte-stable serialization.
+ */
 export class ListItem extends DocumentNode<EditorTokens.ListItem> {
 
     constructor() {
@@ -84,20 +96,34 @@ export class ListItem extends DocumentNode<EditorTokens.ListItem> {
             attrs: {
                 task: { default: false },
                 checked: { default: false },
+                taskMarker: { default: 'x' },
+                taskSpacing: { default: ' ' },
             },
             toDOM(node) { 
-                // TODO: parsing by attributes
-                return ['li', 0]; 
+                const { task, checked } = node.attrs;
+                if (!task) {
+                    return ['li', 0];
+                }
+                return [
+                    'li', 
+                    { 'data-task': 'true', 'data-checked': checked ? 'true' : 'false' }, 
+                    ['span', { class: TASK_CHECKBOX_CLASS_NAME, contenteditable: 'false' }], 
+                    ['div', 0],
+                ];
             }
         };
     }
 
     public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.ListItem>): void {
         const { token } = status;
+        const taskMatch = token.task ? /^[ \t]*(?:[*+-]|\d{1,9}[.)])[ \t]+\[([ xX])\]( *)/.exec(token.raw) : null;
+
         state.activateNode(this.ctor, status, {
             attrs: {
                 task: token.task,
                 checked: token.checked,
+                taskMarker: taskMatch?.[1] === 'X' ? 'X' : 'x',
+                taskSpacing: taskMatch?.[2] || ' ',
             }
         });
         state.parseTokens(status.level + 1, token.tokens, token);
@@ -105,6 +131,13 @@ export class ListItem extends DocumentNode<EditorTokens.ListItem> {
     }
 
     public serializer = (state: IMarkdownSerializerState, node: ProseNode) => {
+        const isTask = node.attrs['task'] as boolean;
+        if (isTask) {
+            const checked = node.attrs['checked'] as boolean;
+            const marker = checked ? node.attrs['taskMarker'] as string : ' ';
+            const spacing = node.childCount > 0 ? node.attrs['taskSpacing'] as string : '';
+            state.write(`[${marker}]${spacing}`);
+        }
         state.serializeBlock(node);
     };
 }
\ No newline at end of file
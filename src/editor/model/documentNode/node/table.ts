@@ -0,0 +1,329 @@
+import { TokenEnum } from "src/editor/common/markdown";
+import { EditorToken, EditorTokens } from "src/editor/common/model";
+import { ProseNode, ProseNodeSpec } from "src/editor/common/proseMirror";
+import { DocumentNode, IParseTokenStatus } from "src/editor/model/documentNode/documentNode";
+import { IDocumentParseState } from "src/editor/model/parser";
+import { IMarkdownSerializerState } from "src/editor/model/serializer";
+
+export type TableAlign = 'left' | 'right' | 'center' | null;
+
+/**
+ * @class A GFM table (`<table>`). The first {@link TableRow} is always the
+ * header row which contains {@link TableHeader} cells, the rest of the rows
+ * contain {@link TableCell} cells.
+ *
+ * @note To keep the serialization byte-stable, the raw delimiter row (e.g.
+ * `| :-- | --: |`) and the number of trailing end of lines are preserved.
+ */
+export class Table extends DocumentNode<EditorTokens.Table> {
+
+    constructor() {
+        super(TokenEnum.Table);
+    }
+
+    public getSchema(): ProseNodeSpec {
+        return {
+            group: 'block',
+            content: 'table_row+',
+            isolating: true,
+            attrs: {
+                align: { default: [] },
+                delimiterRow: { default: null },
+                trailingEndOfLine: { default: 0 },
+            },
+            toDOM: () => {
+                return ['table', ['tbody', 0]];
+            }
+        };
+    }
+
+    public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.Table>): void {
+        const { token } = status;
+        const lines = token.raw.replace(/\n*$/, '').split('\n');
+        const trailingEndOfLine = token.raw.length - token.raw.replace(/\n*$/, '').length 
+            + (state.consumeLastEndOfLine(status) ? 1 : 0);
+
+        state.activateNode(this.ctor, status, {
+            attrs: {
+                align: token.align,
+                delimiterRow: lines[1] ?? null,
+                trailingEndOfLine: trailingEndOfLine,
+            }
+        });
+
+        // the second line is the delimiter row which is not a real row
+        const rows: EditorTokens.TableRow[] = [
+            __createRowToken(lines[0] ?? '', token.header, TokenEnum.TableHeader),
+            ...token.rows.map((cells, index) => __createRowToken(lines[index + 2] ?? '', cells, TokenEnum.TableCell)),
+        ];
+        state.parseTokens(status.level + 1, <EditorToken[]>rows, token);
+        state.deactivateNode();
+    }
+
+    public serializer = (state: IMarkdownSerializerState, node: ProseNode) => {
+        state.serializeBlock(node);
+
+        const trailingEndOfLine = node.attrs['trailingEndOfLine'] as number;
+        for (let i = 0; i < trailingEndOfLine; i++) {
+            state.write('\n');
+        }
+        state.closeBlock(node);
+    };
+}
+
+/**
+ * @class A row of a {@link Table}. Rendered as `<tr>`.
+ */
+export class TableRow extends DocumentNode<EditorTokens.TableRow> {
+
+    constructor() {
+        super(TokenEnum.TableRow);
+    }
+
+    public getSchema(): ProseNodeSpec {
+        return {
+            content: '(table_header | table_cell)*',
+            attrs: {
+                indent: { default: '' },
+                leadingPipe: { default: true },
+                trailingPipe: { default: true },
+                trailing: { default: '' },
+                overflow: { default: '' },
+            },
+            toDOM: () => {
+                return ['tr', 0];
+            }
+        };
+    }
+
+    public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.TableRow>): void {
+        const { token } = status;
+        const { indent, leadingPipe, trailingPipe, trailing, cells } = __splitRawRow(token.raw);
+
+        // marked drops the cells that exceed the header, we keep them as raw.
+        const overflow = cells
+            .slice(token.cells.length)
+            .map(cell => '|' + cell.left + cell.content + cell.right)
+            .join('');
+
+        state.activateNode(this.ctor, status, {
+            attrs: {
+                indent: indent,
+                leadingPipe: leadingPipe,
+                trailingPipe: trailingPipe,
+                trailing: trailing,
+                overflow: overflow,
+            }
+        });
+
+        const cellTokens = token.cells.map((cell, index) => {
+            const rawCell = cells[index];
+            return <EditorTokens.TableRowCell>{
+                ...cell,
+                raw: rawCell ? rawCell.left + rawCell.content + rawCell.right : '',
+                implicit: !rawCell,
+            };
+        });
+        state.parseTokens(status.level + 1, <EditorToken[]>cellTokens, <EditorToken>token);
+        state.deactivateNode();
+    }
+
+    public serializer = (state: IMarkdownSerializerState, node: ProseNode, parent: ProseNode, index: number) => {
+        const indent = node.attrs['indent'] as string;
+        const leadingPipe = node.attrs['leadingPipe'] as boolean;
+        const trailingPipe = node.attrs['trailingPipe'] as boolean;
+        const trailing = node.attrs['trailing'] as string;
+        const overflow = node.attrs['overflow'] as string;
+
+        if (index > 0) {
+            state.write('\n');
+        }
+
+        state.write(indent);
+
+        let count = 0;
+        node.forEach(cell => {
+            // the cells that are padded by marked are only written once they have content.
+            if (cell.attrs['implicit'] === true && cell.content.size === 0) {
+                return;
+            }
+            if (count > 0 || leadingPipe) {
+                state.write('|');
+            }
+            __serializeCell(state, cell);
+            count++;
+        });
+
+        state.write(overflow);
+        if (trailingPipe) {
+            state.write('|' + trailing);
+        }
+
+        // the delimiter row comes right after the header row
+        if (index === 0) {
+            state.write('\n');
+            state.write(__getDelimiterRow(parent));
+        }
+    };
+}
+
+abstract class TableCellBase extends DocumentNode<EditorTokens.TableRowCell> {
+
+    protected abstract readonly tagName: string;
+
+    public getSchema(): ProseNodeSpec {
+        return {
+            content: 'inline*',
+            isolating: true,
+            attrs: {
+                align: { default: null },
+                paddingLeft: { default: ' ' },
+                paddingRight: { default: ' ' },
+                implicit: { default: false },
+            },
+            toDOM: (node) => {
+                const align = node.attrs['align'] as TableAlign;
+                return [this.tagName, align ? { style: `text-align: ${align}` } : {}, 0];
+            }
+        };
+    }
+
+    public parseFromToken(state: IDocumentParseState, status: IParseTokenStatus<EditorTokens.TableRowCell>): void {
+        const { token } = status;
+        const [, paddingLeft, , paddingRight] = /^(\s*)([\s\S]*?)(\s*)$/.exec(token.raw)!;
+
+        state.activateNode(this.ctor, status, {
+            attrs: {
+                align: token.align,
+                paddingLeft: token.implicit ? ' ' : paddingLeft,
+                paddingRight: token.implicit ? ' ' : paddingRight,
+                implicit: token.implicit,
+            }
+        });
+        if (token.tokens.length > 0) {
+            state.parseTokens(status.level + 1, token.tokens, <EditorToken>token);
+        }
+        state.deactivateNode();
+    }
+
+    public serializer = (state: IMarkdownSerializerState, node: ProseNode) => {
+        __serializeCell(state, node);
+    };
+}
+
+/**
+ * @class A header cell in the first row of a {@link Table}. Rendered as `<th>`.
+ */
+export class TableHeader extends TableCellBase {
+
+    protected readonly tagName = 'th';
+
+    constructor() {
+        super(TokenEnum.TableHeader);
+    }
+}
+
+/**
+ * @class A body cell of a {@link Table}. Rendered as `<td>`.
+ */
+export class TableCell extends TableCellBase {
+
+    protected readonly tagName = 'td';
+
+    constructor() {
+        super(TokenEnum.TableCell);
+    }
+}
+
+interface IRawTableCell {
+    readonly left: string;
+    readonly content: string;
+    readonly right: string;
+}
+
+interface IRawTableRow {
+    readonly indent: string;
+    readonly leadingPipe: boolean;
+    readonly trailingPipe: boolean;
+    readonly trailing: string;
+    readonly cells: IRawTableCell[];
+}
+
+function __createRowToken(raw: string, cells: EditorTokens.TableCell[], cellType: TokenEnum.TableHeader | TokenEnum.TableCell): EditorTokens.TableRow {
+    return {
+        type: TokenEnum.TableRow,
+        raw: raw,
+        cells: cells.map(cell => ({ ...cell, type: cellType, raw: cell.text, implicit: false })),
+    };
+}
+
+function __serializeCell(state: IMarkdownSerializerState, cell: ProseNode): void {
+    state.write(cell.attrs['paddingLeft'] as string);
+
+    state.setInTableCell(true);
+    state.serializeInline(cell, false);
+    state.setInTableCell(false);
+
+    state.write(cell.attrs['paddingRight'] as string);
+}
+
+function __getDelimiterRow(table: ProseNode): string {
+    const align = table.attrs['align'] as TableAlign[];
+    const delimiterRow = table.attrs['delimiterRow'] as string | null;
+
+    // reuse the original one as long as the columns stay the same
+    if (delimiterRow !== null && __splitRawRow(delimiterRow).cells.length === align.length) {
+        return delimiterRow;
+    }
+
+    const delimiters = align.map(each => {
+        switch (each) {
+            case 'left': return ':--';
+            case 'right': return '--:';
+            case 'center': return ':-:';
+            default: return '---';
+        }
+    });
+    return `| ${delimiters.join(' | ')} |`;
+}
+
+/**
+ * @description Splits the raw line of a table row into cells the same way as
+ * marked does (`splitCells`): every pipe that is not escaped by a backslash
+ * is a delimiter. The whitespaces around each cell are kept.
+ */
+function __splitRawRow(line: string): IRawTableRow {
+    const indent = /^[ \t]*/.exec(line)![0];
+    const segments: string[] = [];
+
+    let start = indent.length;
+    let escaped = false;
+    for (let i = start; i < line.length; i++) {
+        const char = line[i];
+        if (char === '\\') {
+            escaped = !escaped;
+            continue;
+        }
+        if (char === '|' && !escaped) {
+            segments.push(line.slice(start, i));
+            start = i + 1;
+        }
+        escaped = false;
+    }
+    segments.push(line.slice(start));
+
+    const leadingPipe = segments.length > 1 && segments[0] === '';
+    if (leadingPipe) {
+        segments.shift();
+    }
+
+    const trailingPipe = segments.length > 1 && segments.at(-1)!.trim() === '';
+    const trailing = trailingPipe ? segments.pop()! : '';
+
+    const cells = segments.map(segment => {
+        const [, left, content, right] = /^(\s*)([\s\S]*?)(\s*)$/.exec(segment)!;
+        return { left: left!, content: content!, right: right! };
+    });
+
+    return { indent, leadingPipe, trailingPipe, trailing, cells };
+}
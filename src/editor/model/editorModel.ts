@@ -1,21 +1,24 @@
-import { Disposable } from "src/base/common/dispose";
-import { Emitter } from "src/base/common/event";
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { Time } from "src/base/common/date";
+import { Emitter, Event } from "src/base/common/event";
 import { DataBuffer } from "src/base/common/files/buffer";
 import { URI } from "src/base/common/files/uri";
 import { defaultLog, ILogService } from "src/base/common/logger";
-import { AsyncResult, ok } from "src/base/common/result";
+import { AsyncResult, err, ok } from "src/base/common/result";
+import { UnbufferedScheduler } from "src/base/common/utilities/async";
 import { assert } from "src/base/common/utilities/panic";
 import { EditorOptionsType } from "src/editor/common/editorConfiguration";
 import { IEditorExtension } from "src/editor/common/editorExtension";
-import { IEditorModel } from "src/editor/common/model";
+import { FileConflictError, IEditorModel, IEditorModelSaveOptions, SYNCED_TRANSACTION_META } from "src/editor/common/model";
 import { IEditorPosition } from "src/editor/common/position";
-import { ProseEditorState, ProseNode, ProseTransaction } from "src/editor/common/proseMirror";
+import { ProseEditorState, ProseExtension, ProseNode, ProseTransaction } from "src/editor/common/proseMirror";
 import { IMarkdownLexer, IMarkdownLexerOptions, MarkdownLexer } from "src/editor/model/markdownLexer";
 import { DocumentNodeProvider } from "src/editor/model/documentNode/documentNodeProvider";
 import { DocumentParser, IDocumentParser } from "src/editor/model/parser";
 import { buildSchema, EditorSchema } from "src/editor/model/schema";
 import { MarkdownSerializer } from "src/editor/model/serializer";
 import { IFileService } from "src/platform/files/common/fileService";
+import { ResourceChangeType } from "src/platform/files/common/watcher";
 import { history } from "prosemirror-history";
 import { IOnDidContentChangeEvent } from "src/editor/view/proseEventBroadcaster";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
@@ -33,6 +36,9 @@ export class EditorModel extends Disposable implements IEditorModel {
     private readonly _onDidStateChange = this.__register(new Emitter<void>({ onFire: () => this.__setDirty(true) }));
     public readonly onDidStateChange = this._onDidStateChange.registerListener;
 
+    private readonly _onDidViewChange = this.__register(new Emitter<IOnDidContentChangeEvent>());
+    public readonly onDidViewChange = this._onDidViewChange.registerListener;
+
     private readonly _onDidSave = this.__register(new Emitter<void>({ onFire: () => this.__setDirty(false) }));
     public readonly onDidSave = this._onDidSave.registerListener;
 
@@ -42,18 +48,27 @@ export class EditorModel extends Disposable implements IEditorModel {
     private readonly _onDidDirtyChange = this.__register(new Emitter<boolean>());
     public readonly onDidDirtyChange = this._onDidDirtyChange.registerListener;
 
+    private readonly _onDidConflict = this.__register(new Emitter<void>());
+    public readonly onDidConflict = this._onDidConflict.registerListener;
+
     // [fields]
 
     private readonly _options: EditorOptionsType;        // The configuration of the editor
-    private readonly _source: URI;                       // The source file the model is about to read and parse.
+    private _source: URI;                                // The source file the model is about to read and parse.
     private readonly _schema: EditorSchema;              // An object that defines how a view is organized.
     private readonly _lexer: IMarkdownLexer;             // Responsible for parsing the raw text into tokens.
     private readonly _docParser: IDocumentParser;        // Parser that parses the given token into a legal view based on the schema.
     private readonly _docSerializer: MarkdownSerializer; // Serializer that transforms the prosemirror document back to raw string.
 
-    private _editorState?: ProseEditorState; // A reference to the prosemirror state.
+    private _editorState?: ProseEditorState; // A reference to the prosemirror state of the last updated view.
+    private _building?: AsyncResult<ProseEditorState, Error>; // The first build of the model.
     private _dirty: boolean;                 // Indicates if the file has unsaved changes. Modify this through `this.__setDirty()`
 
+    private _diskContent?: string;    // The content of the source file when the model read or saved it the last time.
+    private _diskModifyTime?: number; // The modify time of the source file when the model read or saved it the last time.
+    private _conflicted: boolean;     // Indicates if the conflict is reported and not resolved yet.
+    private _sourceWatcher?: IDisposable; // Watches the source file once the model is built.
+
     // [constructor]
 
     constructor(
@@ -75,6 +90,7 @@ export class EditorModel extends Disposable implements IEditorModel {
         this._docSerializer = new MarkdownSerializer(nodeProvider, { strict: true, escapeExtraCharacters: undefined, });
 
         this._dirty = false;
+        this._conflicted = false;
 
         logService.debug('EditorModel', 'Constructed');
     }
@@ -85,29 +101,64 @@ export class EditorModel extends Disposable implements IEditorModel {
     get schema(): EditorSchema { return this._schema; }
     get state(): ProseEditorState | undefined { return this._editorState; }
     get dirty(): boolean { return this._dirty; }
+    get conflicted(): boolean { return this._conflicted; }
+    get diskModifyTime(): number | undefined { return this._diskModifyTime; }
 
     // [public methods]
 
     public build(extensions: IEditorExtension[]): AsyncResult<ProseEditorState, Error> {
-        return this.__buildModel(this._source, extensions)
+
+        // reopened by another view, the undo history is kept.
+        if (this._building) {
+            return this._building.map(() => {
+                this._editorState = assert(this._editorState).reconfigure({ plugins: this.__getPlugins(extensions) });
+                return this._editorState;
+            });
+        }
+
+        const building = this.__buildModel(this._source, extensions)
             .map(state => {
                 this._editorState = state;
                 this._onDidBuild.fire(state);
+                this.__watchSource();
                 return state;
             });
+        this._building = building;
+        return building;
+    }
+
+    public reload(): AsyncResult<void, Error> {
+        return this.__readFileRaw(this._source)
+            .andThen(raw => this.__applyDiskContent(raw));
+    }
+
+    public rebind(source: URI): void {
+        if (URI.equals(source, this._source)) {
+            return;
+        }
+
+        this.logService.debug('EditorModel', `Rebinding from ${URI.toString(this._source)} to ${URI.toString(source)}`);
+        this._source = source;
+
+        // watching the old source since built
+        if (this._sourceWatcher) {
+            this.release(this._sourceWatcher);
+            this._sourceWatcher = undefined;
+            this.__watchSourceFile();
+        }
     }
 
     public insertAt(textOffset: number, text: string): void {
         const state = assert(this._editorState);
         const document = this.__tokenizeAndParse(text);
         const newTr = state.tr.insert(textOffset, document);
-        this._onTransaction.fire(newTr);
+        this.__fireTransaction(newTr);
     }
 
     public deleteAt(textOffset: number, length: number): void {
         const state = assert(this._editorState);
         const newTr = state.tr.delete(textOffset, textOffset + length);
-        this._onTransaction.fire(newTr);
+        this.__fireTransaction(newTr);
     }
 
     public getContent(): string[] {
@@ -122,6 +173,51 @@ export class EditorModel extends Disposable implements IEditorModel {
         return raw; // TODO
     }
 
+    public getRawContentWithBlockOffsets(): { readonly content: string, readonly blockOffsets: number[] } {
+        const state = assert(this._editorState);
+        const blockOffsets: number[] = [];
+        const content = this._docSerializer.serialize(state.doc, blockOffsets);
+        return { content, blockOffsets };
+    }
+
+    public setRawContent(text: string): void {
+        const newTr = this.__createReplaceTransaction(text);
+        if (newTr) {
+            this.__applyTransaction(newTr);
+        }
+    }
+
+    public restoreBackup(text: string, modifyTime: number | undefined): void {
+        const newTr = this.__createReplaceTransaction(text);
+        if (newTr) {
+            this.__applyTransaction(newTr);
+        }
+
+        if (modifyTime === undefined || modifyTime === this._diskModifyTime) {
+            return;
+        }
+
+        /**
+         * The source file is modified since the backup is taken. The backup is
+         * based on the version at that time, thus the next save is refused.
+         */
+        this.logService.debug('EditorModel', `The backup is outdated: ${URI.toString(this._source)}`);
+        this._diskContent = undefined;
+        this._diskModifyTime = modifyTime;
+        if (!this._conflicted) {
+            this._conflicted = true;
+            this._onDidConflict.fire();
+        }
+    }
+
+    public serialize(doc: ProseNode): string {
+        return this._docSerializer.serialize(doc);
+    }
+
+    public parse(text: string): ProseNode {
+        return this.__tokenizeAndParse(text);
+    }
+
     public getLine(lineNumber: number): string {
         return ''; // TODO
     }
@@ -158,7 +254,7 @@ export class EditorModel extends Disposable implements IEditorModel {
         return -1; // TODO
     }
 
-    public save(): AsyncResult<void, Error> {
+    public save(options?: IEditorModelSaveOptions): AsyncResult<void, Error> {
         if (this._dirty === false) {
             return AsyncResult.ok();
         }
@@ -167,12 +263,20 @@ export class EditorModel extends Disposable implements IEditorModel {
         const serialized = this._docSerializer.serialize(state.doc);
         const buffer = DataBuffer.fromString(serialized);
 
-        return this.fileService.writeFile(this._source, buffer, { create: true, overwrite: true, unlock: false })
+        const checked = options?.force ? AsyncResult.ok<void, Error>() : this.__checkDiskModified();
+        return checked
+            .andThen(() => this.fileService.writeFile(this._source, buffer, { create: true, overwrite: true, unlock: false, atomic: true }))
+            .andThen(() => this.__updateDiskState(serialized))
             .map(() => {
+                this.logService.trace('EditorModel', `File saved (${URI.toString(this._source)})`);
+                this._conflicted = false;
                 this._onDidSave.fire();
             })
             .mapErr(error => {
-                this.logService.trace('EditorModel', `File saved (${URI.toString(this._source)})`);
+                if (error instanceof FileConflictError && !this._conflicted) {
+                    this._conflicted = true;
+                    this._onDidConflict.fire();
+                }
                 this._onDidSaveError.fire(error);
                 return error;
             });
@@ -192,14 +296,63 @@ export class EditorModel extends Disposable implements IEditorModel {
         const newState = event.view.state;
         this._editorState = newState;
         this._onDidStateChange.fire();
+
+        if (!event.transaction.getMeta(SYNCED_TRANSACTION_META)) {
+            this._onDidViewChange.fire(event);
+        }
+    }
+
+    /**
+     * @description The transaction made by the model is dispatched by every
+     * view of the model.
+     */
+    private __fireTransaction(tr: ProseTransaction): void {
+        tr.setMeta(SYNCED_TRANSACTION_META, true);
+        this._onTransaction.fire(tr);
+    }
+
+    /**
+     * @description Applies the transaction made by the model to the state
+     * directly when the model has no views (e.g. a dirty background tab),
+     * otherwise the transaction is dispatched by every view.
+     */
+    private __applyTransaction(tr: ProseTransaction): void {
+        if (this._onTransaction.hasListeners()) {
+            this.__fireTransaction(tr);
+            return;
+        }
+        this._editorState = assert(this._editorState).apply(tr);
+        this.__setDirty(true);
+    }
+
+    /**
+     * @description Returns a transaction that replaces only the changed part
+     * of the document with the given raw text, `undefined` if nothing changes.
+     */
+    private __createReplaceTransaction(text: string): ProseTransaction | undefined {
+        const state = assert(this._editorState);
+        const oldDoc = state.doc;
+        const newDoc = this.__tokenizeAndParse(text);
+
+        const start = oldDoc.content.findDiffStart(newDoc.content);
+        if (start === null) {
+            return undefined;
+        }
+
+        // the common suffix cannot overlap with the common prefix
+        let { a: endA, b: endB } = oldDoc.content.findDiffEnd(newDoc.content)!;
+        const overlap = start - Math.min(endA, endB);
+        if (overlap > 0) {
+            endA += overlap;
+            endB += overlap;
+        }
+
+        return state.tr.replace(start, endA, newDoc.slice(start, endB));
     }
 
     private __tokenizeAndParse(raw: string): ProseNode {
         const tokens = this._lexer.lex(raw);
-        console.log(tokens); // TEST
-
         const doc = this._docParser.parse(tokens);
-        console.log(doc); // TEST
 
         // console.log(this._docSerializer.serialize(doc)); // TEST
         return doc;
@@ -215,22 +368,142 @@ export class EditorModel extends Disposable implements IEditorModel {
         this.logService.debug('EditorModel', `Start building at: ${URI.toString(source)}`);
 
         return this.__readFileRaw(source)
+            .andThen(raw => this.__updateDiskState(raw).map(() => raw))
             .andThen(raw => {
                 const document = this.__tokenizeAndParse(raw);
                 const state = ProseEditorState.create({
                     schema: this._schema,
                     doc: document,
-                    plugins: [
-                        ...extensions.map(extension => extension.getViewExtension()),
-                        history({ depth: 500 }),
-                    ],
+                    plugins: this.__getPlugins(extensions),
                 });
                 return ok(state);
             });
     }
 
+    private __getPlugins(extensions: IEditorExtension[]): ProseExtension[] {
+        return [
+            ...extensions.map(extension => extension.getViewExtension()),
+            history({ depth: 500 }),
+        ];
+    }
+
     private __readFileRaw(source: URI): AsyncResult<string, Error> {
         return this.fileService.readFile(source, {})
             .map(buffer => buffer.toString());
     }
+
+    /**
+     * @description Remembers the given content as the one on the disk along
+     * with the current modify time of the source file.
+     */
+    private __updateDiskState(content: string): AsyncResult<void, Error> {
+        this._diskContent = content;
+        return this.fileService.stat(this._source)
+            .map(stat => {
+                this._diskModifyTime = stat.modifyTime;
+            });
+    }
+
+    /**
+     * @description Returns a {@link FileConflictError} if the source file is
+     * modified by others since the last time the model read or saved it.
+     * @note A file that is only touched (content unchanged) is not considered
+     *       as modified.
+     */
+    private __checkDiskModified(): AsyncResult<void, Error> {
+        const knownModifyTime = this._diskModifyTime;
+        if (knownModifyTime === undefined) {
+            return AsyncResult.ok();
+        }
+
+        return new AsyncResult((async () => {
+            // the file is deleted, simply re-create it.
+            const result = await this.fileService.stat(this._source);
+            if (result.isErr()) {
+                return ok();
+            }
+
+            const stat = result.unwrap();
+            if (stat.modifyTime <= knownModifyTime) {
+                return ok();
+            }
+
+            const raw = await this.__readFileRaw(this._source);
+            if (raw.isOk() && raw.unwrap() === this._diskContent) {
+                this._diskModifyTime = stat.modifyTime;
+                return ok();
+            }
+            return err(new FileConflictError(this._source));
+        })());
+    }
+
+    private __watchSource(): void {
+        this.__watchSourceFile();
+
+        // the source is looked up at the time of the change since it might be rebound.
+        const scheduler = this.__register(new UnbufferedScheduler<void>(Time.ms(100), () => this.__onDidSourceChange()));
+        this.__register(Event.filter(this.fileService.onDidResourceChange, e => e.wrap().match(this._source, [ResourceChangeType.UPDATED, ResourceChangeType.ADDED]))(() => {
+            scheduler.schedule();
+        }));
+    }
+
+    private __watchSourceFile(): void {
+        const source = this._source;
+        this.fileService.watch(source).match(
+            cancel => {
+                if (this.isDisposed()) {
+                    cancel.dispose();
+                    return;
+                }
+                // rebound in the meantime
+                if (!URI.equals(source, this._source)) {
+                    cancel.dispose();
+                    this.__watchSourceFile();
+                    return;
+                }
+                this._sourceWatcher = this.__register(cancel);
+            },
+            error => this.logService.warn('EditorModel', 'Cannot watch the file.', { at: URI.toString(source), error: error }),
+        );
+    }
+
+    private async __onDidSourceChange(): Promise<void> {
+        const result = await this.__readFileRaw(this._source);
+
+        // the file might be deleted or still being written.
+        if (this.isDisposed() || result.isErr()) {
+            return;
+        }
+
+        // the change is made by ourself.
+        const raw = result.unwrap();
+        if (raw === this._diskContent) {
+            return;
+        }
+
+        if (!this._dirty) {
+            this.logService.debug('EditorModel', `Reloading the file modified on the disk: ${URI.toString(this._source)}`);
+            await this.__applyDiskContent(raw).match(
+                () => {},
+                error => this.logService.warn('EditorModel', 'Cannot reload the file.', { at: URI.toString(this._source), error: error }),
+            );
+            return;
+        }
+
+        if (!this._conflicted) {
+            this._conflicted = true;
+            this._onDidConflict.fire();
+        }
+    }
+
+    /**
+     * @description Replaces the content of the model with the one on the disk.
+     * The model is no longer dirty afterwards.
+     */
+    private __applyDiskContent(raw: string): AsyncResult<void, Error> {
+        this.setRawContent(raw);
+        this.__setDirty(false);
+        this._conflicted = false;
+        return this.__updateDiskState(raw);
+    }
 }
\ No newline at end of file
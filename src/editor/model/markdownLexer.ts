@@ -2,6 +2,7 @@ import { Marked } from "marked";
 import { EditorToken } from "src/editor/common/model";
 import { createMathInlineTokenizer } from "src/editor/model/documentNode/mark/mathInline";
 import { createMathBlockTokenizer } from "src/editor/model/documentNode/node/mathBlock";
+import { createLinkDefinitionTokenizer } from "src/editor/model/documentNode/node/linkDefinition";
 
 /**
  * The options for markdown parsing.
@@ -62,12 +63,13 @@ export class MarkdownLexer implements IMarkdownLexer {
             silent: false,
             pedantic: false,
             
-            gfm: false, // TODO: set it to `true`
+            gfm: true,
             breaks: false,
 
             extensions: [
                 createMathInlineTokenizer({ nonStandard: true }),
                 createMathBlockTokenizer(),
+                createLinkDefinitionTokenizer(),
             ]
         });
         this._parseOpts = options ?? getDefaultLexerOptions();
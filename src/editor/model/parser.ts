@@ -237,6 +237,15 @@ export interface IDocumentParseState {
      * stage.
      */
     anyAncestor(type: string): boolean;
+
+    /**
+     * @description The end of line at the end of the document is preserved by 
+     * appending it into the last text block. For the nodes that cannot hold it
+     * as text (e.g. table), they may consume it and handle it by themselves.
+     * @param status The parsing status of the node that is about to activate.
+     * @returns If there is an end of line that is consumed.
+     */
+    consumeLastEndOfLine(status: IParseTokenStatus): boolean;
 }
 
 /**
@@ -499,6 +508,20 @@ class DocumentParseState extends Disposable implements IDocumentParseState {
         return this._activesTracker.anyAncestor(type);
     }
 
+    public consumeLastEndOfLine(status: IParseTokenStatus): boolean {
+        if (!this._preserveLastEndOfLine) {
+            return false;
+        }
+
+        const parent = this.__getActive();
+        if (!parent.isAncestorAllLastToken || !status.isLastToken) {
+            return false;
+        }
+
+        this._preserveLastEndOfLine = false;
+        return true;
+    }
+
     public override dispose(): void {
         super.dispose();
         this.clean();
@@ -126,10 +126,12 @@ export class MarkdownSerializer {
     /**
      * @description Serialize the content of the given node to Markdown.
      * @param content The ProseMirror document node.
+     * @param blockOffsets If provided, the end offset of every direct child of 
+     *                     the content in the output is pushed into it in order.
      */
-    public serialize(content: ProseNode): string {
+    public serialize(content: ProseNode, blockOffsets?: number[]): string {
         const state = new MarkdownSerializerState(this._nodeProvider, this._options);
-        state.serializeBlock(content);
+        state.serializeBlock(content, blockOffsets && (() => blockOffsets.push(state.outputLength)));
         const text = state.complete();
         return text;
     }
@@ -143,6 +145,13 @@ export interface IMarkdownSerializerState {
     readonly inAutoLink?: boolean;
     setInAutoLink(value: boolean | undefined): void;
 
+    /**
+     * When in table cell, every pipe (`|`) will be escaped so that it does not
+     * break the table row.
+     */
+    readonly inTableCell?: boolean;
+    setInTableCell(value: boolean): void;
+
     complete(): string;
     serializeBlock(parent: ProseNode): void;
     serializeInline(parent: ProseNode, fromBlockStart?: boolean): void;
@@ -178,6 +187,7 @@ class MarkdownSerializerState implements IMarkdownSerializerState {
     private _atBlockStart: boolean = false;
     private _inTightList: boolean = true;
     private _inAutoLink?: boolean = false;
+    private _inTableCell: boolean = false;
 
     // [constructor]
 
@@ -197,6 +207,10 @@ class MarkdownSerializerState implements IMarkdownSerializerState {
     public setInTightList(value: boolean): void { this._inTightList = value; }
     get inAutoLink(): boolean | undefined { return this._inAutoLink; }
     public setInAutoLink(value: boolean | undefined): void { this._inAutoLink = value; }
+    get inTableCell(): boolean { return this._inTableCell; }
+    public setInTableCell(value: boolean): void { this._inTableCell = value; }
+
+    get outputLength(): number { return this._output.length; }
 
     public complete(): string {
         this._delimiter.clearIncrements();
@@ -206,10 +220,12 @@ class MarkdownSerializerState implements IMarkdownSerializerState {
 
     /**
      * @description Render the contents of a given node as block nodes.
+     * @param onDidSerializeChild Invoked after each child is serialized.
      */
-    public serializeBlock(parent: ProseNode): void {
+    public serializeBlock(parent: ProseNode, onDidSerializeChild?: (index: number) => void): void {
         for (const { node: child, index } of ProseUtils.iterateChild(parent)) {
             this.__serializeBlock(child, parent, index);
+            onDidSerializeChild?.(index);
         }
     }
 
@@ -295,7 +311,8 @@ class MarkdownSerializerState implements IMarkdownSerializerState {
                 this._output = this._output.slice(0, this._output.length - 1) + '\\!';
             }
 
-            this._output += escape ? this.escaping(line, this._atBlockStart) : line;
+            const content = escape ? this.escaping(line, this._atBlockStart) : line;
+            this._output += this._inTableCell ? content.replace(/\|/g, '\\|') : content;
             needNewLine = true;
         }
     }
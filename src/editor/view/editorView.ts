@@ -1,13 +1,29 @@
 import 'src/editor/view/media/editorView.scss';
-import { Disposable } from "src/base/common/dispose";
+import { Disposable, DisposableBucket } from "src/base/common/dispose";
+import { Emitter, Event } from "src/base/common/event";
+import { createStandardKeyboardEvent, Shortcut, ShortcutHash } from "src/base/common/keyboard";
 import { defaultLog, ILogEvent, ILogService } from "src/base/common/logger";
-import { EditorWindow, IEditorView } from "src/editor/common/view";
+import { addDisposableListener } from "src/base/browser/basic/dom";
+import { IS_MAC } from "src/base/common/platform";
+import { EditorType, EditorWindow, IEditorView } from "src/editor/common/view";
 import { EditorOptionsType } from "src/editor/common/editorConfiguration";
 import { RichtextEditor } from 'src/editor/view/richtextEditor';
 import { IEditorExtension } from 'src/editor/common/editorExtension';
-import { IEditorModel } from 'src/editor/common/model';
-import { ProseEditorState } from 'src/editor/common/proseMirror';
+import { IEditorModel, SYNCED_TRANSACTION_META } from 'src/editor/common/model';
+import { ProseEditorState, ProseTextSelection } from 'src/editor/common/proseMirror';
 import { IEditorViewModel } from 'src/editor/common/viewModel';
+import { IOnKeydownEvent } from 'src/editor/view/proseEventBroadcaster';
+import { IPlaintextEditor, PlaintextEditor } from 'src/editor/view/plaintextEditor';
+
+/**
+ * The shortcuts of the plain-text editor that are handled by the editor
+ * commands: the undo, the redo and the saving. Any other editor command only
+ * applies to the rich-text document, thus it is not forwarded.
+ */
+const PLAINTEXT_FORWARDED_SHORTCUTS: ReadonlySet<ShortcutHash> = new Set(
+    (IS_MAC ? ['Meta+Z', 'Meta+Shift+Z', 'Meta+S'] : ['Ctrl+Z', 'Ctrl+Shift+Z', 'Ctrl+S'])
+        .map(shortcut => Shortcut.fromString(shortcut).toHashcode())
+);
 
 export class ViewContext {
     constructor(
@@ -33,10 +49,37 @@ export class EditorView extends Disposable implements IEditorView {
     private readonly _ctx: ViewContext;
     private readonly _view: EditorWindow;
 
+    /**
+     * The raw markdown editor, lazily created when the render mode is first
+     * switched to plain-text or split-view.
+     */
+    private _plaintext: IPlaintextEditor | null;
+    private readonly _plaintextLifecycle: DisposableBucket;
+    private _renderMode: EditorType;
+
+    /**
+     * Prevents the content of the plain-text editor from being overwritten by
+     * the change that is made by the plain-text editor itself.
+     */
+    private _syncingFromPlaintext: boolean;
+
+    /**
+     * Prevents the scroll synchronization from bouncing back between the two
+     * panes in split-view mode.
+     */
+    private _ignoreScrollFrom: HTMLElement | null;
+
     // [events]
+
+    private readonly _onDidRenderModeChange = this.__register(new Emitter<EditorType>());
+    public readonly onDidRenderModeChange = this._onDidRenderModeChange.registerListener;
+
+    private readonly _onDidPlaintextFocus = this.__register(new Emitter<void>());
+    private readonly _onDidPlaintextBlur = this.__register(new Emitter<void>());
+    private readonly _onPlaintextKeydown = this.__register(new Emitter<IOnKeydownEvent>());
     
-    get onDidBlur() { return this._view.onDidFocus; }
-    get onDidFocus() { return this._view.onDidFocus; }
+    get onDidBlur() { return Event.any([this._view.onDidBlur, this._onDidPlaintextBlur.registerListener]); }
+    get onDidFocus() { return Event.any([this._view.onDidFocus, this._onDidPlaintextFocus.registerListener]); }
     
     get onBeforeRender() { return this._view.onBeforeRender; }
     get onRender() { return this._view.onRender; }
@@ -50,7 +93,7 @@ export class EditorView extends Disposable implements IEditorView {
     get onTripleClick() { return this._view.onTripleClick; }
     get onDidTripleClick() { return this._view.onDidTripleClick; }
     
-    get onKeydown() { return this._view.onKeydown; }
+    get onKeydown() { return Event.any([this._view.onKeydown, this._onPlaintextKeydown.registerListener]); }
     get onKeypress() { return this._view.onKeypress; }
     get onTextInput() { return this._view.onTextInput; }
     
@@ -92,6 +135,12 @@ export class EditorView extends Disposable implements IEditorView {
         const context = new ViewContext(viewModel, this, options, event => defaultLog(logService, event.level, 'EditorView', event.message, event.error, event.additional));
         this._ctx = context;
 
+        this._plaintext = null;
+        this._plaintextLifecycle = this.__register(new DisposableBucket());
+        this._renderMode = EditorType.Rich;
+        this._syncingFromPlaintext = false;
+        this._ignoreScrollFrom = null;
+
         // the centre that integrates the editor-related functionalities
         const editorElement = document.createElement('div');
         editorElement.className = 'editor-container';
@@ -105,6 +154,7 @@ export class EditorView extends Disposable implements IEditorView {
         // render
         this._container.appendChild(editorElement);
         container.appendChild(this._container);
+        this.setRenderMode(options.mode.value);
 
         // others
         logService.debug('EditorView', 'Constructed');
@@ -116,16 +166,66 @@ export class EditorView extends Disposable implements IEditorView {
         return this._view;
     }
 
+    get plaintext(): IPlaintextEditor | null {
+        return this._plaintext;
+    }
+
+    get renderMode(): EditorType {
+        return this._renderMode;
+    }
+
+    public setRenderMode(mode: EditorType): void {
+        if (mode === this._renderMode && this._container.dataset['mode'] === mode) {
+            return;
+        }
+
+        const prevMode = this._renderMode;
+        const wasPlaintextFocused = !!this._plaintext?.isFocused();
+        this._renderMode = mode;
+        this._container.dataset['mode'] = mode;
+
+        if (mode === EditorType.Rich) {
+            if (wasPlaintextFocused) {
+                this.__syncCursorToRichtext();
+                this._view.focus();
+            }
+        } else {
+            const plaintext = this.__getOrCreatePlaintext();
+            plaintext.setContent(this._ctx.viewModel.getRawContentWithBlockOffsets().content);
+
+            // carry the cursor over to the raw markdown when it is revealed
+            if (prevMode === EditorType.Rich) {
+                this.__syncCursorToPlaintext(true);
+                if (this._view.isFocused()) {
+                    plaintext.focus();
+                }
+            }
+        }
+
+        if (mode !== prevMode) {
+            this._onDidRenderModeChange.fire(mode);
+        }
+    }
+
+    public setWritable(writable: boolean): void {
+        this._view.internalView.setProps({});
+        this._plaintext?.setEditable(writable);
+    }
+
     public isEditable(): boolean {
         return this._view.isEditable();
     }
 
     public focus(): void {
+        if (this._renderMode === EditorType.Plain && this._plaintext) {
+            this._plaintext.focus();
+            return;
+        }
         this._view.focus();
     }
 
     public isFocused(): boolean {
-        return this._view.isFocused();
+        return this._view.isFocused() || !!this._plaintext?.isFocused();
     }
 
     public destroy(): void {
@@ -153,6 +253,21 @@ export class EditorView extends Disposable implements IEditorView {
         this.__register(viewModel.onDidChangeModelState(tr => {
             this._view.internalView.dispatch(tr);
         }));
+
+        // follows the changes made by the other views of the same model
+        this.__register(viewModel.onDidChangeModelContent(e => {
+            const view = this._view.internalView;
+            if (e.view === view) {
+                return;
+            }
+            const tr = view.state.tr;
+            for (const step of e.transaction.steps) {
+                tr.step(step);
+            }
+            tr.setMeta(SYNCED_TRANSACTION_META, true);
+            tr.setMeta('addToHistory', false);
+            view.dispatch(tr);
+        }));
     }
 
     private __registerEventToModel(): void {
@@ -166,5 +281,158 @@ export class EditorView extends Disposable implements IEditorView {
         this.__register(this._view.onDidContentChange(e => {
             viewModel.onDidChangeViewState(e);
         }));
+
+        /**
+         * Keeps the raw markdown up to date with the changes that are not made
+         * by the plain-text editor itself (e.g. undo, redo or editing in the
+         * rich-text pane of the split-view).
+         */
+        this.__register(this._view.onDidContentChange(() => {
+            if (!this._plaintext || this._renderMode === EditorType.Rich || this._syncingFromPlaintext) {
+                return;
+            }
+            this._plaintext.setContent(viewModel.getRawContentWithBlockOffsets().content);
+        }));
+
+        this.__register(this._view.onDidSelectionChange(() => {
+            if (this._renderMode === EditorType.Split && this._view.isFocused()) {
+                this.__syncCursorToPlaintext(false);
+            }
+        }));
+    }
+
+    private __getOrCreatePlaintext(): IPlaintextEditor {
+        if (this._plaintext) {
+            return this._plaintext;
+        }
+
+        const element = document.createElement('div');
+        element.className = 'plaintext-container';
+        this._container.appendChild(element);
+
+        const content = this._ctx.viewModel.getRawContentWithBlockOffsets().content;
+        const plaintext = new PlaintextEditor(element, this._ctx, content);
+        this._plaintext = plaintext;
+
+        const lifecycle = this._plaintextLifecycle;
+        lifecycle.register(plaintext);
+        lifecycle.register({ dispose: () => element.remove() });
+
+        lifecycle.register(plaintext.onDidFocus(() => this._onDidPlaintextFocus.fire()));
+        lifecycle.register(plaintext.onDidBlur(() => this._onDidPlaintextBlur.fire()));
+
+        // the history goes through the rich-text editor so that all the modes share the same one
+        lifecycle.register(plaintext.onKeydown(e => {
+            const event = createStandardKeyboardEvent(e.event);
+            const shortcut = new Shortcut(event.ctrl, event.shift, event.alt, event.meta, event.key);
+            if (!PLAINTEXT_FORWARDED_SHORTCUTS.has(shortcut.toHashcode())) {
+                return;
+            }
+            this._onPlaintextKeydown.fire({
+                view: this._view.internalView,
+                event: event,
+                markAsExecuted: e.markAsExecuted,
+            });
+        }));
+
+        lifecycle.register(plaintext.onDidContentChange(text => {
+            this._syncingFromPlaintext = true;
+            try {
+                this._ctx.viewModel.setRawContent(text);
+            } finally {
+                this._syncingFromPlaintext = false;
+            }
+        }));
+
+        lifecycle.register(plaintext.onDidSelectionChange(() => {
+            if (this._renderMode === EditorType.Split) {
+                this.__syncCursorToRichtext();
+            }
+        }));
+
+        // scroll synchronization for split-view
+        const richElement = this._view.overlayContainer;
+        lifecycle.register(addDisposableListener(richElement, 'scroll', () => this.__syncScroll(richElement, element)));
+        lifecycle.register(addDisposableListener(element, 'scroll', () => this.__syncScroll(element, richElement)));
+
+        return plaintext;
+    }
+
+    /**
+     * @description Moves the cursor of the plain-text editor to the start of
+     * the block where the cursor of the rich-text editor is located.
+     */
+    private __syncCursorToPlaintext(reveal: boolean): void {
+        const plaintext = this._plaintext;
+        if (!plaintext) {
+            return;
+        }
+
+        const { content, blockOffsets } = this._ctx.viewModel.getRawContentWithBlockOffsets();
+        const index = this._view.internalView.state.selection.$head.index(0);
+        let offset = (index === 0) ? 0 : (blockOffsets[index - 1] ?? content.length);
+        while (offset < content.length && content[offset] === '\n') {
+            offset++;
+        }
+        plaintext.setCursor(offset, reveal);
+    }
+
+    /**
+     * @description Moves the cursor of the rich-text editor to the start of
+     * the block where the cursor of the plain-text editor is located.
+     */
+    private __syncCursorToRichtext(): void {
+        const plaintext = this._plaintext;
+        if (!plaintext) {
+            return;
+        }
+
+        const { blockOffsets } = this._ctx.viewModel.getRawContentWithBlockOffsets();
+        const cursor = plaintext.getCursor();
+        let index = blockOffsets.findIndex(end => cursor <= end);
+        if (index === -1) {
+            index = Math.max(0, blockOffsets.length - 1);
+        }
+
+        const view = this._view.internalView;
+        const doc = view.state.doc;
+        if (doc.childCount === 0) {
+            return;
+        }
+
+        let position = 0;
+        for (let i = 0; i < Math.min(index, doc.childCount - 1); i++) {
+            position += doc.child(i).nodeSize;
+        }
+
+        const selection = ProseTextSelection.near(doc.resolve(position + 1));
+        let tr = view.state.tr.setSelection(selection);
+        if (this._renderMode === EditorType.Split) {
+            tr = tr.scrollIntoView();
+        }
+        view.dispatch(tr);
+    }
+
+    private __syncScroll(from: HTMLElement, to: HTMLElement): void {
+        if (this._renderMode !== EditorType.Split) {
+            return;
+        }
+
+        if (this._ignoreScrollFrom === from) {
+            this._ignoreScrollFrom = null;
+            return;
+        }
+
+        const fromRange = from.scrollHeight - from.clientHeight;
+        const toRange = to.scrollHeight - to.clientHeight;
+        if (fromRange <= 0 || toRange <= 0) {
+            return;
+        }
+
+        const target = Math.round(from.scrollTop / fromRange * toRange);
+        if (target !== to.scrollTop) {
+            this._ignoreScrollFrom = to;
+            to.scrollTop = target;
+        }
     }
 }
\ No newline at end of file
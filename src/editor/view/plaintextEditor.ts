@@ -0,0 +1,277 @@
+import 'src/editor/view/media/editor/plaintextEditor.scss';
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { Emitter, Register } from "src/base/common/event";
+import { CodeAnnotation, CodeCompartment, CodeEditorSelection, CodeEditorState, CodeEditorView, CodeExtension, CodeViewUpdate, codeDefaultKeymap, codeDrawSelection, codeKeymap, codePrec } from "src/editor/common/codeMirror";
+import { ViewContext } from "src/editor/view/editorView";
+
+export interface IOnPlaintextKeydownEvent {
+    readonly event: KeyboardEvent;
+
+    /**
+     * Whenever the keydown is handled by any listeners, `markAsExecuted` need
+     * to be invoked to prevent the default behavior of the browser.
+     */
+    markAsExecuted: () => void;
+}
+
+/**
+ * An interface only for {@link PlaintextEditor}.
+ */
+export interface IPlaintextEditor extends IDisposable {
+
+    /**
+     * The container that contains the CodeMirror editor.
+     */
+    readonly container: HTMLElement;
+
+    /**
+     * Returns a reference to the CodeMirror view.
+     */
+    readonly internalView: CodeEditorView;
+
+    readonly onDidFocus: Register<void>;
+    readonly onDidBlur: Register<void>;
+
+    /**
+     * Fires when the content is changed by the user. The event is the whole
+     * new content.
+     */
+    readonly onDidContentChange: Register<string>;
+
+    /**
+     * Fires when the cursor is moved by the user. The event is the offset of
+     * the cursor in the content.
+     */
+    readonly onDidSelectionChange: Register<number>;
+
+    /**
+     * Fires when a key is pressed that is not handled by the editor itself.
+     */
+    readonly onKeydown: Register<IOnPlaintextKeydownEvent>;
+
+    /**
+     * @description Returns the whole content of the editor.
+     */
+    getContent(): string;
+
+    /**
+     * @description Updates the content of the editor. Only the changed part is
+     * replaced so that the cursor stays where it was whenever possible.
+     * @note This will not trigger `onDidContentChange`.
+     */
+    setContent(text: string): void;
+
+    /**
+     * @description Returns the offset of the cursor in the content.
+     */
+    getCursor(): number;
+
+    /**
+     * @description Moves the cursor to the given offset.
+     * @param reveal If scrolls the cursor into view.
+     * @note This will not trigger `onDidSelectionChange`.
+     */
+    setCursor(offset: number, reveal?: boolean): void;
+
+    /**
+     * @description If the content is directly editable.
+     */
+    isEditable(): boolean;
+
+    /**
+     * @description Sets whether the content is directly editable.
+     */
+    setEditable(editable: boolean): void;
+
+    focus(): void;
+    isFocused(): boolean;
+}
+
+/**
+ * Marks the transactions that are not made by the user.
+ */
+const programmatic = CodeAnnotation.define<boolean>();
+
+/**
+ * @class A CodeMirror based editor that edits the raw markdown text. It does
+ * not own any state of the document, the content is always synchronized with
+ * the {@link IEditorModel} by the {@link EditorView}.
+ *
+ * @note The editor has no history by itself, the undo and redo are handled by
+ * the rich text editor through `onKeydown` so that every editor mode shares
+ * the same history.
+ */
+export class PlaintextEditor extends Disposable implements IPlaintextEditor {
+
+    // [events]
+
+    private readonly _onDidFocus = this.__register(new Emitter<void>());
+    public readonly onDidFocus = this._onDidFocus.registerListener;
+
+    private readonly _onDidBlur = this.__register(new Emitter<void>());
+    public readonly onDidBlur = this._onDidBlur.registerListener;
+
+    private readonly _onDidContentChange = this.__register(new Emitter<string>());
+    public readonly onDidContentChange = this._onDidContentChange.registerListener;
+
+    private readonly _onDidSelectionChange = this.__register(new Emitter<number>());
+    public readonly onDidSelectionChange = this._onDidSelectionChange.registerListener;
+
+    private readonly _onKeydown = this.__register(new Emitter<IOnPlaintextKeydownEvent>());
+    public readonly onKeydown = this._onKeydown.registerListener;
+
+    // [fields]
+
+    private readonly _container: HTMLElement;
+    private readonly _view: CodeEditorView;
+
+    /** Reconfigured whenever the editable state is changed. */
+    private readonly _editable: CodeCompartment;
+
+    // [constructor]
+
+    constructor(
+        container: HTMLElement,
+        context: ViewContext,
+        content: string,
+    ) {
+        super();
+        container.classList.add('plain-text');
+        this._container = container;
+        this._editable = new CodeCompartment();
+
+        this._view = new CodeEditorView({
+            doc: content,
+            parent: container,
+            extensions: [
+                codeDrawSelection(),
+                CodeEditorView.lineWrapping,
+                this._editable.of(__editableExtension(context.options.writable.value)),
+                codeKeymap.of(codeDefaultKeymap),
+
+                // any key that is not handled above is reported to the owner
+                codePrec.lowest(codeKeymap.of([{
+                    any: (view, event) => this.__onKeydown(event),
+                }])),
+                CodeEditorView.updateListener.of(update => this.__onUpdate(update)),
+            ],
+        });
+    }
+
+    // [getter]
+
+    get container(): HTMLElement { return this._container; }
+    get internalView(): CodeEditorView { return this._view; }
+
+    // [public methods]
+
+    public getContent(): string {
+        return this._view.state.doc.toString();
+    }
+
+    public setContent(text: string): void {
+        const oldText = this.getContent();
+        if (oldText === text) {
+            return;
+        }
+
+        // only replace the changed part
+        let start = 0;
+        const minLength = Math.min(oldText.length, text.length);
+        while (start < minLength && oldText.charCodeAt(start) === text.charCodeAt(start)) {
+            start++;
+        }
+
+        let oldEnd = oldText.length;
+        let newEnd = text.length;
+        while (oldEnd > start && newEnd > start && oldText.charCodeAt(oldEnd - 1) === text.charCodeAt(newEnd - 1)) {
+            oldEnd--;
+            newEnd--;
+        }
+
+        this._view.dispatch({
+            changes: { from: start, to: oldEnd, insert: text.slice(start, newEnd) },
+            annotations: programmatic.of(true),
+        });
+    }
+
+    public getCursor(): number {
+        return this._view.state.selection.main.head;
+    }
+
+    public setCursor(offset: number, reveal: boolean = false): void {
+        const position = Math.max(0, Math.min(offset, this._view.state.doc.length));
+        this._view.dispatch({
+            selection: CodeEditorSelection.cursor(position),
+            effects: reveal ? CodeEditorView.scrollIntoView(position, { y: 'start' }) : undefined,
+            annotations: programmatic.of(true),
+        });
+    }
+
+    public isEditable(): boolean {
+        return this._view.state.facet(CodeEditorView.editable);
+    }
+
+    public setEditable(editable: boolean): void {
+        if (this.isEditable() === editable) {
+            return;
+        }
+        this._view.dispatch({
+            effects: this._editable.reconfigure(__editableExtension(editable)),
+            annotations: programmatic.of(true),
+        });
+    }
+
+    public focus(): void {
+        this._view.focus();
+    }
+
+    public isFocused(): boolean {
+        return this._view.hasFocus;
+    }
+
+    public override dispose(): void {
+        super.dispose();
+        this._view.destroy();
+    }
+
+    // [private helper methods]
+
+    private __onUpdate(update: CodeViewUpdate): void {
+        if (update.focusChanged) {
+            if (update.view.hasFocus) {
+                this._onDidFocus.fire();
+            } else {
+                this._onDidBlur.fire();
+            }
+        }
+
+        const isProgrammatic = update.transactions.some(tr => tr.annotation(programmatic) === true);
+        if (isProgrammatic) {
+            return;
+        }
+
+        if (update.docChanged) {
+            this._onDidContentChange.fire(this.getContent());
+        }
+        if (update.selectionSet) {
+            this._onDidSelectionChange.fire(this.getCursor());
+        }
+    }
+
+    private __onKeydown(event: KeyboardEvent): boolean {
+        let anyExecuted = false;
+        this._onKeydown.fire({
+            event: event,
+            markAsExecuted: () => { anyExecuted = true; },
+        });
+        return anyExecuted;
+    }
+}
+
+function __editableExtension(editable: boolean): CodeExtension {
+    return [
+        CodeEditorView.editable.of(editable),
+        CodeEditorState.readOnly.of(!editable),
+    ];
+}
\ No newline at end of file
@@ -15,6 +15,9 @@ export class EditorViewModel extends Disposable implements IEditorViewModel {
     
     private readonly _onDidBuild = this.__register(new Emitter<ProseEditorState>());
     public readonly onDidBuild = this._onDidBuild.registerListener;
+
+    private readonly _onDidChangeModelContent = this.__register(new Emitter<IOnDidContentChangeEvent>());
+    public readonly onDidChangeModelContent = this._onDidChangeModelContent.registerListener;
     
     // [fields]
 
@@ -40,10 +43,19 @@ export class EditorViewModel extends Disposable implements IEditorViewModel {
         this._model.__onDidStateChange(e);
     }
 
+    public getRawContentWithBlockOffsets(): { readonly content: string, readonly blockOffsets: number[] } {
+        return this._model.getRawContentWithBlockOffsets();
+    }
+
+    public setRawContent(text: string): void {
+        this._model.setRawContent(text);
+    }
+
     // [private methods]
 
     private __registerListeners(): void {
         this.__register(this._model.onDidBuild(state => this._onDidBuild.fire(state)));
         this.__register(this._model.onTransaction(tr => this._onDidChangeModelState.fire(tr)));
+        this.__register(this._model.onDidViewChange(e => this._onDidChangeModelContent.fire(e)));
     }
 }
\ No newline at end of file
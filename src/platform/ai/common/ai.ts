@@ -9,6 +9,12 @@ export namespace AI {
     export const enum ModelName {
         ChatGPT = 'ChatGPT',
         DeepSeek = 'DeepSeek',
+
+        /**
+         * Any server that provides an OpenAI-compatible API (e.g. a local 
+         * model), configured by `application.ai.custom`.
+         */
+        Custom = 'Custom',
     }
 
     /**
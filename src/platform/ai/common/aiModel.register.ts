@@ -1,6 +1,7 @@
 import { AI } from "src/platform/ai/common/ai";
 import { TextDeepSeekModel } from "src/platform/ai/electron/deepSeekModel";
 import { TextGPTModel } from "src/platform/ai/electron/GPTModel";
+import { TextCustomModel } from "src/platform/ai/electron/customModel";
 import { createRegister, RegistrantType } from "src/platform/registrant/common/registrant";
 
 export const textModelRegister = createRegister(
@@ -19,5 +20,11 @@ export const textModelRegister = createRegister(
             AI.ModelName.DeepSeek,
             TextDeepSeekModel,
         );
+        // Custom (OpenAI-compatible)
+        registrant.registerModel(
+            AI.Modality.Text,
+            AI.ModelName.Custom,
+            TextCustomModel,
+        );
     }
 );
\ No newline at end of file
@@ -0,0 +1,75 @@
+import type { AI } from "src/platform/ai/common/ai";
+
+/**
+ * Matches the variables in the form of `{{name}}`, spaces are allowed around
+ * the name.
+ */
+const VARIABLE_REGEX = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/**
+ * The built-in prompt templates. They can be overridden by the user-defined
+ * templates with the same id.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: readonly AI.Text.IPromptTemplate[] = [
+    {
+        id: 'continue-writing',
+        name: 'Continue Writing',
+        system: 'You are a writing assistant. Continue writing the given markdown document from where it ends. Match its language, tone and formatting. Reply with the continuation only.',
+        template: '{{document}}',
+    },
+    {
+        id: 'rewrite-selection',
+        name: 'Rewrite Selection',
+        system: 'You are a writing assistant. Rewrite the given markdown text to be clearer and more fluent while keeping its meaning, language and formatting. Reply with the rewritten text only.',
+        template: '{{selection}}',
+    },
+    {
+        id: 'summarize-document',
+        name: 'Summarize Document',
+        system: 'You are a writing assistant. Summarize the given markdown document in the same language in a short paragraph. Reply with the summary only.',
+        template: '{{document}}',
+    },
+    {
+        id: 'translate',
+        name: 'Translate',
+        system: 'You are a translator. Translate the given markdown text into {{language}}, keep the formatting untouched. Reply with the translation only.',
+        template: '{{selection}}',
+    },
+];
+
+/**
+ * @description Replaces every variable (e.g. `{{selection}}`) in the given
+ * template with the corresponding value.
+ * @note The unknown variables are kept as it is so that the user can notice
+ * the typo in the template.
+ */
+export function renderPromptTemplate(template: string, variables: AI.Text.PromptVariables): string {
+    return template.replace(VARIABLE_REGEX, (match, name: string) => {
+        const value = variables[name];
+        return value === undefined ? match : value;
+    });
+}
+
+/**
+ * @description Returns the names of the variables used in the given template
+ * without duplicates, in the order of appearance.
+ */
+export function getPromptTemplateVariables(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of template.matchAll(VARIABLE_REGEX)) {
+        names.add(match[1]!);
+    }
+    return [...names];
+}
+
+/**
+ * @description Renders the prompt template into messages.
+ */
+export function applyPromptTemplate(template: AI.Text.IPromptTemplate, variables: AI.Text.PromptVariables): AI.Text.ISessionMessage[] {
+    const messages: AI.Text.ISessionMessage[] = [];
+    if (template.system) {
+        messages.push({ role: 'system', content: renderPromptTemplate(template.system, variables) });
+    }
+    messages.push({ role: 'user', content: renderPromptTemplate(template.template, variables) });
+    return messages;
+}
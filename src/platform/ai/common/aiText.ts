@@ -6,6 +6,7 @@ import { createService, IService } from "src/platform/instantiation/common/decor
 import { nullable } from "src/base/common/utilities/type";
 import { AsyncResult } from "src/base/common/result";
 import { AIError } from "src/base/common/error";
+import type { ICancellationToken } from "src/base/common/utilities/cancellation";
 
 /**
  * // TODO: doc
@@ -33,6 +34,13 @@ export namespace AIText {
          * The private key to connect to the server.
          */
         readonly apiKey: string;
+
+        /**
+         * The model id that every request uses. Only used by 
+         * {@link AI.ModelName.Custom} since the available models depend on 
+         * the server.
+         */
+        readonly model?: string;
     
         /**
          * The maximum number of times that the client will retry a request in case of a
@@ -57,7 +65,13 @@ export namespace AIText {
     export interface Model extends AI.ILLMModel {
         readonly modality: AI.Modality.Text;
         sendRequest(options: OpenAI.OpenAI.ChatCompletionCreateParamsNonStreaming): AsyncResult<AI.Text.Response, AIError>;
-        sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError>;
+
+        /**
+         * @description Streams the response. Once the given token is cancelled,
+         * the request is aborted and the result resolves without the rest of
+         * the chunks.
+         */
+        sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError>;
     }
 
     /**
@@ -90,6 +104,89 @@ export namespace AIText {
          */
         readonly reasoning_content: string | nullable;
     }
+
+    /**
+     * A single message within a {@link ISession}.
+     */
+    export interface ISessionMessage {
+        readonly role: 'system' | 'user' | 'assistant';
+        readonly content: string;
+    }
+
+    /**
+     * A conversation with the LLM. Every request sent within a session carries 
+     * the whole message history of the session.
+     */
+    export interface ISession {
+        readonly id: string;
+
+        /**
+         * The session where this session is forked from.
+         */
+        readonly parentID?: string;
+        readonly createdAt: number;
+        readonly updatedAt: number;
+        readonly messages: readonly AI.Text.ISessionMessage[];
+    }
+
+    export interface ISessionCreateOptions {
+        /**
+         * If provided, the session starts with the system message.
+         */
+        readonly systemPrompt?: string;
+    }
+
+    /**
+     * The request options within a session, the messages are provided by the
+     * session itself.
+     */
+    export type SessionRequestOptions = Omit<OpenAI.OpenAI.ChatCompletionCreateParamsNonStreaming, 'messages'>;
+    export type SessionRequestStreamOptions = Omit<OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, 'messages'>;
+
+    /**
+     * A user-editable prompt template. The template may contain variables in 
+     * the form of `{{name}}` (e.g. `{{selection}}` and `{{document}}`) which 
+     * are replaced when the template is applied.
+     */
+    export interface IPromptTemplate {
+        readonly id: string;
+        readonly name: string;
+        readonly description?: string;
+
+        /**
+         * The template of the system message. No system message if not given.
+         */
+        readonly system?: string;
+
+        /**
+         * The template of the user message.
+         */
+        readonly template: string;
+    }
+
+    /**
+     * The values of the variables when applying a {@link IPromptTemplate}.
+     */
+    export type PromptVariables = { readonly [name: string]: string };
+
+    /**
+     * The accumulated token usage of a model within a single day.
+     */
+    export interface IUsageRecord {
+        /**
+         * The date in the local time zone, e.g. `2022-08-04`.
+         */
+        readonly date: string;
+
+        /**
+         * The model id returned by the server, e.g. `deepseek-chat`.
+         */
+        readonly model: string;
+        readonly requests: number;
+        readonly promptTokens: number;
+        readonly completionTokens: number;
+        readonly totalTokens: number;
+    }
 }
 
 export const IAITextService = createService<IAITextService>('ai-text-service');
@@ -98,5 +195,74 @@ export interface IAITextService extends Disposable, IService {
     switchModel(options: AI.Text.IModelOptions): Promise<void>;
     updateAPIKey(newKey: string, name: AI.ModelName | null, persisted?: boolean): Promise<void>;
     sendRequest(options: OpenAI.OpenAI.ChatCompletionCreateParamsNonStreaming): AsyncResult<AI.Text.Response, AIError>;
-    sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError>;
+
+    /**
+     * @description Streams the response of the current model. Once the given
+     * token is cancelled, the stream stops and no more chunks are received.
+     */
+    sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError>;
+
+    // [session]
+
+    /**
+     * @description Creates a new session and persists it to the disk.
+     */
+    createSession(options?: AI.Text.ISessionCreateOptions): Promise<AI.Text.ISession>;
+    getSession(id: string): Promise<AI.Text.ISession | undefined>;
+
+    /**
+     * @description Returns all the sessions, the recently updated ones come 
+     * first.
+     */
+    getAllSessions(): Promise<AI.Text.ISession[]>;
+
+    /**
+     * @description Appends messages to the end of the session.
+     * @throws An exception will be thrown if the session does not exist.
+     */
+    appendMessages(id: string, messages: AI.Text.ISessionMessage[]): Promise<AI.Text.ISession>;
+
+    /**
+     * @description Creates a new session which copies the history of the given
+     * session.
+     * @param messageCount Only copies the first N messages if provided.
+     * @throws An exception will be thrown if the session does not exist.
+     */
+    forkSession(id: string, messageCount?: number): Promise<AI.Text.ISession>;
+    deleteSession(id: string): Promise<boolean>;
+
+    /**
+     * @description Sends the request with the whole history of the session
+     * followed by the message. The message and the reply are appended to the 
+     * session together once the request succeeds, a failed request leaves the
+     * session untouched.
+     */
+    sendSessionRequest(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestOptions): AsyncResult<AI.Text.Response, AIError>;
+    sendSessionRequestStream(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestStreamOptions, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError>;
+
+    // [prompt template]
+
+    /**
+     * @description Returns the built-in templates along with the user-defined
+     * ones. A user-defined template overrides the built-in one that has the 
+     * same id.
+     */
+    getPromptTemplates(): Promise<AI.Text.IPromptTemplate[]>;
+    setPromptTemplate(template: AI.Text.IPromptTemplate): Promise<void>;
+    deletePromptTemplate(id: string): Promise<boolean>;
+
+    /**
+     * @description Renders the template with the given variables into messages
+     * that are ready to be sent or appended to a session.
+     * @throws An exception will be thrown if the template does not exist.
+     */
+    applyPromptTemplate(id: string, variables: AI.Text.PromptVariables): Promise<AI.Text.ISessionMessage[]>;
+
+    // [usage]
+
+    /**
+     * @description Returns the token usage of every model within the given 
+     * date (e.g. `2022-08-04`). Defaults to today.
+     */
+    getUsage(date?: string): Promise<AI.Text.IUsageRecord[]>;
 }
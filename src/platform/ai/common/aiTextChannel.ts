@@ -7,16 +7,43 @@ import { Emitter, Register } from "src/base/common/event";
 import { Disposable } from "src/base/common/dispose";
 import { IIpcService } from "src/platform/ipc/browser/ipcService";
 import { Blocker } from "src/base/common/utilities/async";
-import { AIError } from "src/base/common/error";
+import { AIError, toIPCTransferableError } from "src/base/common/error";
 import { AsyncResult, Result } from "src/base/common/result";
+import { CancellationToken, ICancellationToken } from "src/base/common/utilities/cancellation";
 
 const enum AITextCommand {
     switchModel = 'switchModel',
     updateAPIKey = 'updateAPIKey',
     sendRequest = 'sendRequest',
     sendRequestStream = 'sendRequestStream',
+
+    createSession = 'createSession',
+    getSession = 'getSession',
+    getAllSessions = 'getAllSessions',
+    appendMessages = 'appendMessages',
+    forkSession = 'forkSession',
+    deleteSession = 'deleteSession',
+    sendSessionRequest = 'sendSessionRequest',
+    sendSessionRequestStream = 'sendSessionRequestStream',
+
+    getPromptTemplates = 'getPromptTemplates',
+    setPromptTemplate = 'setPromptTemplate',
+    deletePromptTemplate = 'deletePromptTemplate',
+    applyPromptTemplate = 'applyPromptTemplate',
+
+    getUsage = 'getUsage',
 }
 
+/**
+ * The events of a response stream across the IPC. The stream ends once either
+ * a response with a finish reason, an error or the end of the stream is 
+ * received (the provider might end the stream without a finish reason).
+ */
+type AITextStreamEvent =
+    | { readonly response: AI.Text.Response; readonly error?: undefined; readonly done?: undefined; }
+    | { readonly done: true; readonly error?: undefined; }
+    | { readonly error: Error; };
+
 export class MainAITextChannel extends Disposable implements IServerChannel {
     
     // [constructor]
@@ -34,6 +61,21 @@ export class MainAITextChannel extends Disposable implements IServerChannel {
             case AITextCommand.switchModel: return this.__switchModel(arg[0]);
             case AITextCommand.updateAPIKey: return this.__updateAPIKey(arg[0], arg[1], arg[2]);
             case AITextCommand.sendRequest: return this.__sendRequest(arg[0]);
+
+            case AITextCommand.createSession: return this.mainAITextService.createSession(arg[0]);
+            case AITextCommand.getSession: return this.mainAITextService.getSession(arg[0]);
+            case AITextCommand.getAllSessions: return this.mainAITextService.getAllSessions();
+            case AITextCommand.appendMessages: return this.mainAITextService.appendMessages(arg[0], arg[1]);
+            case AITextCommand.forkSession: return this.mainAITextService.forkSession(arg[0], arg[1]);
+            case AITextCommand.deleteSession: return this.mainAITextService.deleteSession(arg[0]);
+            case AITextCommand.sendSessionRequest: return this.mainAITextService.sendSessionRequest(arg[0], arg[1], arg[2]).unwrap();
+
+            case AITextCommand.getPromptTemplates: return this.mainAITextService.getPromptTemplates();
+            case AITextCommand.setPromptTemplate: return this.mainAITextService.setPromptTemplate(arg[0]);
+            case AITextCommand.deletePromptTemplate: return this.mainAITextService.deletePromptTemplate(arg[0]);
+            case AITextCommand.applyPromptTemplate: return this.mainAITextService.applyPromptTemplate(arg[0], arg[1]);
+
+            case AITextCommand.getUsage: return this.mainAITextService.getUsage(arg[0]);
             default: panic(`main-ai-text channel - unknown file command ${command}`);
         }
     }
@@ -41,6 +83,7 @@ export class MainAITextChannel extends Disposable implements IServerChannel {
     public registerListener(_id: string, event: never, arg: any[]): Register<any> {
         switch (event) {
             case AITextCommand.sendRequestStream: return this.__sendRequestStream(arg[0]);
+            case AITextCommand.sendSessionRequestStream: return this.__sendSessionRequestStream(arg[0], arg[1], arg[2]);
         }
         panic(`Event not found: ${event}`);
     }
@@ -59,22 +102,35 @@ export class MainAITextChannel extends Disposable implements IServerChannel {
         return this.mainAITextService.sendRequest(options).unwrap();
     }
 
-    private __sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming): Register<AI.Text.Response> {
-        const emitter = this.__register(new Emitter<AI.Text.Response>({}));
+    private __sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming): Register<AITextStreamEvent> {
+        return this.__toStreamRegister((onChunkReceived, token) => this.mainAITextService.sendRequestStream(options, onChunkReceived, token));
+    }
 
-        this.mainAITextService.sendRequestStream(options, response => {
-            emitter.fire(response);
-            
-            // finished for some reason, clean up.
-            if (response.primaryMessage.finishReason !== null) {
+    private __sendSessionRequestStream(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestStreamOptions): Register<AITextStreamEvent> {
+        return this.__toStreamRegister(onChunkReceived => this.mainAITextService.sendSessionRequestStream(id, message, options, onChunkReceived));
+    }
+
+    private __toStreamRegister(send: (onChunkReceived: (chunk: AI.Text.Response) => void, token: ICancellationToken) => AsyncResult<void, AIError>): Register<AITextStreamEvent> {
+        
+        // the renderer stops listening once it cancels the stream, abort it as well.
+        const token = new CancellationToken();
+        const emitter = this.__register(new Emitter<AITextStreamEvent>({
+            onLastListenerDidRemove: () => token.cancel(),
+        }));
+
+        send(response => emitter.fire({ response: response }), token)
+        .match<void>(
+            () => {
+                // the stream ends, let the renderer know in case no finish reason is received.
+                emitter.fire({ done: true });
                 this.release(emitter);
-            }
-        })
-        .mapErr(error => {
-            this.release(emitter);
-            return error;
-        })
-        .unwrap();
+            },
+            error => {
+                // the error ends the stream, let the renderer know.
+                emitter.fire({ error: toIPCTransferableError(error)! });
+                this.release(emitter);
+            },
+        );
 
         return emitter.registerListener;
     }
@@ -117,11 +173,87 @@ export class BrowserAITextChannel extends Disposable implements IAITextService {
         });
     }
 
-    public sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError> {
+    public sendRequestStream(options: OpenAI.OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError> {
+        return this.__listenToStream(AITextCommand.sendRequestStream, [options], onChunkReceived, token);
+    }
+
+    public async createSession(options?: AI.Text.ISessionCreateOptions): Promise<AI.Text.ISession> {
+        return this._channel.callCommand(AITextCommand.createSession, [options]);
+    }
+
+    public async getSession(id: string): Promise<AI.Text.ISession | undefined> {
+        return this._channel.callCommand(AITextCommand.getSession, [id]);
+    }
+
+    public async getAllSessions(): Promise<AI.Text.ISession[]> {
+        return this._channel.callCommand(AITextCommand.getAllSessions, []);
+    }
+
+    public async appendMessages(id: string, messages: AI.Text.ISessionMessage[]): Promise<AI.Text.ISession> {
+        return this._channel.callCommand(AITextCommand.appendMessages, [id, messages]);
+    }
+
+    public async forkSession(id: string, messageCount?: number): Promise<AI.Text.ISession> {
+        return this._channel.callCommand(AITextCommand.forkSession, [id, messageCount]);
+    }
+
+    public async deleteSession(id: string): Promise<boolean> {
+        return this._channel.callCommand(AITextCommand.deleteSession, [id]);
+    }
+
+    public sendSessionRequest(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestOptions): AsyncResult<AI.Text.Response, AIError> {
+        return Result.fromPromise(() => {
+            return this._channel.callCommand(AITextCommand.sendSessionRequest, [id, message, options]);
+        });
+    }
+
+    public sendSessionRequestStream(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestStreamOptions, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError> {
+        return this.__listenToStream(AITextCommand.sendSessionRequestStream, [id, message, options], onChunkReceived);
+    }
+
+    public async getPromptTemplates(): Promise<AI.Text.IPromptTemplate[]> {
+        return this._channel.callCommand(AITextCommand.getPromptTemplates, []);
+    }
+
+    public async setPromptTemplate(template: AI.Text.IPromptTemplate): Promise<void> {
+        await this._channel.callCommand(AITextCommand.setPromptTemplate, [template]);
+    }
+
+    public async deletePromptTemplate(id: string): Promise<boolean> {
+        return this._channel.callCommand(AITextCommand.deletePromptTemplate, [id]);
+    }
+
+    public async applyPromptTemplate(id: string, variables: AI.Text.PromptVariables): Promise<AI.Text.ISessionMessage[]> {
+        return this._channel.callCommand(AITextCommand.applyPromptTemplate, [id, variables]);
+    }
+
+    public async getUsage(date?: string): Promise<AI.Text.IUsageRecord[]> {
+        return this._channel.callCommand(AITextCommand.getUsage, [date]);
+    }
+
+    // [private helper methods]
+
+    private __listenToStream(command: AITextCommand, args: any[], onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError> {
         const blocker = new Blocker<void>();
         
-        const listener = this._channel.registerListener<AI.Text.Response>(AITextCommand.sendRequestStream, [options]);
-        const disconnect = this.__register(listener(response => {
+        const listener = this._channel.registerListener<AITextStreamEvent>(command, args);
+        const disconnect = this.__register(listener(event => {
+            
+            // the stream failed in the main process.
+            if (event.error) {
+                blocker.reject(event.error);
+                this.release(disconnect);
+                return;
+            }
+
+            // the stream ended without a finish reason.
+            if (event.done) {
+                blocker.resolve();
+                this.release(disconnect);
+                return;
+            }
+
+            const response = event.response;
             onChunkReceived(response);
 
             // finished for some reason, clean up.
@@ -131,6 +263,12 @@ export class BrowserAITextChannel extends Disposable implements IAITextService {
             }
         }));
 
+        // stop listening once cancelled, the main process aborts the stream then.
+        token?.onDidCancel(() => {
+            blocker.resolve();
+            this.release(disconnect);
+        });
+
         return Result.fromPromise(() => blocker.waiting());
     }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Disposable } from "src/base/common/dispose";
+import { URI } from "src/base/common/files/uri";
+import { panic } from "src/base/common/utilities/panic";
+import { AI } from "src/platform/ai/common/ai";
+import { applyPromptTemplate, DEFAULT_PROMPT_TEMPLATES } from "src/platform/ai/common/aiPromptTemplate";
+import { DiskStorage } from "src/platform/files/common/diskStorage";
+import { IFileService } from "src/platform/files/common/fileService";
+
+/**
+ * An interface only for {@link AIPromptTemplateStore}.
+ */
+export interface IAIPromptTemplateStore extends Disposable {
+    getAll(): Promise<AI.Text.IPromptTemplate[]>;
+    get(id: string): Promise<AI.Text.IPromptTemplate | undefined>;
+    set(template: AI.Text.IPromptTemplate): Promise<void>;
+
+    /**
+     * @description Deletes the user-defined template. The built-in templates
+     * cannot be deleted, deleting an overridden one restores the built-in one.
+     */
+    delete(id: string): Promise<boolean>;
+    apply(id: string, variables: AI.Text.PromptVariables): Promise<AI.Text.ISessionMessage[]>;
+
+    /**
+     * @description Saves the templates into the disk and release the memory.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * @class Stores the user-defined {@link AI.Text.IPromptTemplate}s into a file
+ * on the disk. The file is meant to be editable by the user directly.
+ *
+ * @note The storage is lazily initialized at the first access.
+ */
+export class AIPromptTemplateStore extends Disposable implements IAIPromptTemplateStore {
+
+    // [fields]
+
+    public static readonly FILE_NAME = 'aiPromptTemplates.nota.json';
+    private readonly _storage: DiskStorage;
+
+    // [constructor]
+
+    constructor(
+        directory: URI,
+        fileService: IFileService,
+    ) {
+        super();
+        this._storage = new DiskStorage(URI.join(directory, AIPromptTemplateStore.FILE_NAME), fileService);
+    }
+
+    // [public methods]
+
+    public async getAll(): Promise<AI.Text.IPromptTemplate[]> {
+        await this._storage.init().unwrap();
+        const userTemplates = <AI.Text.IPromptTemplate[]>Object.values(this._storage.getStorage());
+
+        const templates = DEFAULT_PROMPT_TEMPLATES.map(builtIn => userTemplates.find(each => each.id === builtIn.id) ?? builtIn);
+        for (const template of userTemplates) {
+            if (!templates.includes(template)) {
+                templates.push(template);
+            }
+        }
+        return templates;
+    }
+
+    public async get(id: string): Promise<AI.Text.IPromptTemplate | undefined> {
+        await this._storage.init().unwrap();
+        return this._storage.get<string, AI.Text.IPromptTemplate>(id)
+            ?? DEFAULT_PROMPT_TEMPLATES.find(each => each.id === id);
+    }
+
+    public async set(template: AI.Text.IPromptTemplate): Promise<void> {
+        await this._storage.init().unwrap();
+        await this._storage.set(template.id, template).unwrap();
+    }
+
+    public async delete(id: string): Promise<boolean> {
+        await this._storage.init().unwrap();
+        return this._storage.delete(id).unwrap();
+    }
+
+    public async apply(id: string, variables: AI.Text.PromptVariables): Promise<AI.Text.ISessionMessage[]> {
+        const template = await this.get(id);
+        if (!template) {
+            panic(new Error(`[AIPromptTemplateStore] Cannot find the prompt template with id (${id}).`));
+        }
+        return applyPromptTemplate(template, variables);
+    }
+
+    public async close(): Promise<void> {
+        await this._storage.close().unwrap();
+    }
+}
@@ -0,0 +1,137 @@
+import { Disposable } from "src/base/common/dispose";
+import { URI } from "src/base/common/files/uri";
+import { getUUID } from "src/base/node/uuid";
+import { panic } from "src/base/common/utilities/panic";
+import { AsyncQueue } from "src/base/common/utilities/async";
+import { AI } from "src/platform/ai/common/ai";
+import { DiskStorage } from "src/platform/files/common/diskStorage";
+import { IFileService } from "src/platform/files/common/fileService";
+
+/**
+ * An interface only for {@link AITextSessionStore}.
+ */
+export interface IAITextSessionStore extends Disposable {
+    create(options?: AI.Text.ISessionCreateOptions): Promise<AI.Text.ISession>;
+    get(id: string): Promise<AI.Text.ISession | undefined>;
+    getAll(): Promise<AI.Text.ISession[]>;
+    append(id: string, messages: readonly AI.Text.ISessionMessage[]): Promise<AI.Text.ISession>;
+    fork(id: string, messageCount?: number): Promise<AI.Text.ISession>;
+    delete(id: string): Promise<boolean>;
+
+    /**
+     * @description Saves the sessions into the disk and release the memory.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * @class Stores the {@link AI.Text.ISession}s into a single file on the disk.
+ * Every modification is saved immediately.
+ *
+ * @note The storage is lazily initialized at the first access.
+ * @note The sessions are modified one at a time, otherwise the concurrent 
+ *       modifications (e.g. appending the user message and the reply) 
+ *       overwrite each other.
+ */
+export class AITextSessionStore extends Disposable implements IAITextSessionStore {
+
+    // [fields]
+
+    public static readonly FILE_NAME = 'aiSessions.nota.json';
+    private readonly _storage: DiskStorage;
+    private readonly _queue: AsyncQueue<unknown>;
+
+    // [constructor]
+
+    constructor(
+        directory: URI,
+        fileService: IFileService,
+    ) {
+        super();
+        this._storage = new DiskStorage(URI.join(directory, AITextSessionStore.FILE_NAME), fileService);
+        this._queue = this.__register(new AsyncQueue());
+    }
+
+    // [public methods]
+
+    public create(options?: AI.Text.ISessionCreateOptions): Promise<AI.Text.ISession> {
+        const now = Date.now();
+        const session: AI.Text.ISession = {
+            id: getUUID(),
+            createdAt: now,
+            updatedAt: now,
+            messages: options?.systemPrompt
+                ? [{ role: 'system', content: options.systemPrompt }]
+                : [],
+        };
+        return this.__queue(() => this.__save(session));
+    }
+
+    public async get(id: string): Promise<AI.Text.ISession | undefined> {
+        await this._storage.init().unwrap();
+        return this._storage.get<string, AI.Text.ISession>(id);
+    }
+
+    public async getAll(): Promise<AI.Text.ISession[]> {
+        await this._storage.init().unwrap();
+        const sessions = <AI.Text.ISession[]>Object.values(this._storage.getStorage());
+        return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public append(id: string, messages: readonly AI.Text.ISessionMessage[]): Promise<AI.Text.ISession> {
+        return this.__queue(async () => {
+            const session = await this.__getOrPanic(id);
+            return this.__save({
+                ...session,
+                updatedAt: Date.now(),
+                messages: [...session.messages, ...messages],
+            });
+        });
+    }
+
+    public fork(id: string, messageCount?: number): Promise<AI.Text.ISession> {
+        return this.__queue(async () => {
+            const session = await this.__getOrPanic(id);
+            const now = Date.now();
+            return this.__save({
+                id: getUUID(),
+                parentID: session.id,
+                createdAt: now,
+                updatedAt: now,
+                messages: session.messages.slice(0, messageCount ?? session.messages.length),
+            });
+        });
+    }
+
+    public delete(id: string): Promise<boolean> {
+        return this.__queue(async () => {
+            await this._storage.init().unwrap();
+            return this._storage.delete(id).unwrap();
+        });
+    }
+
+    public close(): Promise<void> {
+        // saves after the pending modifications.
+        return this.__queue(() => this._storage.close().unwrap());
+    }
+
+    // [private helper methods]
+
+    private __queue<T>(task: () => Promise<T>): Promise<T> {
+        return <Promise<T>>this._queue.queue(task);
+    }
+
+    private async __getOrPanic(id: string): Promise<AI.Text.ISession> {
+        const session = await this.get(id);
+        if (!session) {
+            panic(new Error(`[AITextSessionStore] Cannot find the session with id (${id}).`));
+        }
+        return session;
+    }
+
+    private async __save(session: AI.Text.ISession): Promise<AI.Text.ISession> {
+        await this._storage.init().unwrap();
+        await this._storage.set(session.id, session).unwrap();
+        return session;
+    }
+}
@@ -0,0 +1,111 @@
+import type * as OpenAI from "openai";
+import { Disposable } from "src/base/common/dispose";
+import { getDateStamp } from "src/base/common/date";
+import { URI } from "src/base/common/files/uri";
+import { AsyncQueue } from "src/base/common/utilities/async";
+import { AI } from "src/platform/ai/common/ai";
+import { DiskStorage } from "src/platform/files/common/diskStorage";
+import { IFileService } from "src/platform/files/common/fileService";
+
+/**
+ * An interface only for {@link AITextUsageStore}.
+ */
+export interface IAITextUsageStore extends Disposable {
+
+    /**
+     * @description Accumulates the usage of the given model into the record of
+     * the day of the given time (by default now).
+     */
+    record(model: string, usage: OpenAI.OpenAI.CompletionUsage, time?: number): Promise<void>;
+
+    /**
+     * @description Returns the records of every model within the given date.
+     * Defaults to today.
+     */
+    getUsage(date?: string): Promise<AI.Text.IUsageRecord[]>;
+
+    /**
+     * @description Returns the total tokens of all the models within the given
+     * date. Defaults to today.
+     */
+    getTotalTokens(date?: string): Promise<number>;
+
+    /**
+     * @description Saves the records into the disk and release the memory.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * @class Stores the {@link AI.Text.IUsageRecord}s into a single file on the
+ * disk. The records are grouped by date, then by model.
+ *
+ * @note The storage is lazily initialized at the first access.
+ * @note The records are updated one at a time, otherwise the concurrent 
+ *       updates (e.g. multiple streaming requests) overwrite each other.
+ */
+export class AITextUsageStore extends Disposable implements IAITextUsageStore {
+
+    // [fields]
+
+    public static readonly FILE_NAME = 'aiUsage.nota.json';
+    private readonly _storage: DiskStorage;
+    private readonly _queue: AsyncQueue<void>;
+
+    // [constructor]
+
+    constructor(
+        directory: URI,
+        fileService: IFileService,
+    ) {
+        super();
+        this._storage = new DiskStorage(URI.join(directory, AITextUsageStore.FILE_NAME), fileService);
+        this._queue = this.__register(new AsyncQueue());
+    }
+
+    // [public methods]
+
+    public record(model: string, usage: OpenAI.OpenAI.CompletionUsage, time?: number): Promise<void> {
+        return this._queue.queue(() => this.__record(model, usage, time));
+    }
+
+    public async getUsage(date?: string): Promise<AI.Text.IUsageRecord[]> {
+        const records = await this.__getRecords(date ?? getDateStamp());
+        return Object.values(records);
+    }
+
+    public async getTotalTokens(date?: string): Promise<number> {
+        const records = await this.getUsage(date);
+        return records.reduce((total, record) => total + record.totalTokens, 0);
+    }
+
+    public close(): Promise<void> {
+        // saves after the pending records.
+        return this._queue.queue(() => this._storage.close().unwrap());
+    }
+
+    // [private helper methods]
+
+    private async __record(model: string, usage: OpenAI.OpenAI.CompletionUsage, time?: number): Promise<void> {
+        const date = getDateStamp(time);
+        const records = await this.__getRecords(date);
+        const prev = records[model];
+
+        const updated: AI.Text.IUsageRecord = {
+            date: date,
+            model: model,
+            requests: (prev?.requests ?? 0) + 1,
+            promptTokens: (prev?.promptTokens ?? 0) + usage.prompt_tokens,
+            completionTokens: (prev?.completionTokens ?? 0) + usage.completion_tokens,
+            totalTokens: (prev?.totalTokens ?? 0) + usage.total_tokens,
+        };
+
+        // always a new object, otherwise the storage considers nothing changed.
+        await this._storage.set(date, { ...records, [model]: updated }).unwrap();
+    }
+
+    private async __getRecords(date: string): Promise<Record<string, AI.Text.IUsageRecord>> {
+        await this._storage.init().unwrap();
+        return this._storage.get<string, Record<string, AI.Text.IUsageRecord>>(date) ?? {};
+    }
+}
@@ -0,0 +1,67 @@
+import OpenAI from "openai";
+import { AI } from "src/platform/ai/common/ai";
+import { AIError } from "src/base/common/error";
+import { AsyncResult } from "src/base/common/result";
+import { panic } from "src/base/common/utilities/panic";
+import { ICancellationToken } from "src/base/common/utilities/cancellation";
+import { TextSharedOpenAIModel } from "src/platform/ai/electron/openAIModel";
+
+/**
+ * @class A text model that talks to any server that provides an 
+ * OpenAI-compatible API (e.g. a local model served by Ollama, vLLM or 
+ * llama.cpp). 
+ * 
+ * @note The model id of every request is always replaced by the configured
+ * {@link AI.Text.IModelOptions.model} since the requester has no idea which 
+ * models the server provides.
+ */
+export class TextCustomModel extends TextSharedOpenAIModel implements AI.Text.Model {
+    
+    // [field]
+
+    public readonly name = AI.ModelName.Custom;
+    private readonly _modelID: string;
+
+    // [constructor]
+
+    constructor(options: AI.Text.IModelOptions) {
+        if (!options.baseURL) {
+            panic(new Error('[TextCustomModel] The base URL must be provided.'));
+        }
+
+        // most of the local servers ignore the key, but the client requires one.
+        const apiKey = options.apiKey || 'EMPTY';
+        super(new OpenAI({ ...options, apiKey: apiKey }));
+        this._modelID = options.model ?? '';
+    }
+
+    // [public methods]
+
+    public override sendRequest(options: OpenAI.ChatCompletionCreateParamsNonStreaming): AsyncResult<AI.Text.Response, AIError> {
+        return super.sendRequest({ ...options, model: this._modelID || options.model });
+    }
+
+    public override sendRequestStream(options: OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError> {
+        return super.sendRequestStream({ ...options, model: this._modelID || options.model }, onChunkReceived, token);
+    }
+
+    // [override methods]
+
+    protected override __createNonStreamingSingleMessage(choice: OpenAI.Chat.Completions.ChatCompletion.Choice): AI.Text.SingleMessage {
+        return {
+            content: choice.message.content,
+            reasoning_content: choice.message['reasoning_content'],
+            finishReason: choice.finish_reason,
+            role: choice.message.role,
+        };
+    }
+    
+    protected override __createStreamingSingleMessage(choice: OpenAI.Chat.Completions.ChatCompletionChunk.Choice): AI.Text.SingleMessage {
+        return {
+            content: choice.delta.content,
+            reasoning_content: choice.delta['reasoning_content'],
+            finishReason: choice.finish_reason,
+            role: choice.delta.role,
+        };
+    }
+}
@@ -6,6 +6,7 @@ import { ILogService } from "src/base/common/logger";
 import { AsyncResult, err, ok, Result } from "src/base/common/result";
 import { panic } from "src/base/common/utilities/panic";
 import { isNullable } from "src/base/common/utilities/type";
+import { ICancellationToken } from "src/base/common/utilities/cancellation";
 import { AI } from "src/platform/ai/common/ai";
 import { IAITextService } from "src/platform/ai/common/aiText";
 import { IAIModelRegistrant } from "src/platform/ai/electron/aiModelRegistrant";
@@ -21,6 +22,13 @@ import { IMainStatusService } from "src/platform/status/electron/mainStatusServi
 import { IMainWindowService } from "src/platform/window/electron/mainWindowService";
 import { IWindowInstance } from "src/platform/window/electron/windowInstance";
 import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
+import { IFileService } from "src/platform/files/common/fileService";
+import { IEnvironmentService, IMainEnvironmentService } from "src/platform/environment/common/environment";
+import { APP_DIR_NAME } from "src/platform/configuration/common/configuration";
+import { URI } from "src/base/common/files/uri";
+import { AITextSessionStore, IAITextSessionStore } from "src/platform/ai/electron/aiTextSessionStore";
+import { AIPromptTemplateStore, IAIPromptTemplateStore } from "src/platform/ai/electron/aiPromptTemplateStore";
+import { AITextUsageStore, IAITextUsageStore } from "src/platform/ai/electron/aiTextUsageStore";
 
 export class MainAITextService extends Disposable implements IAITextService {
 
@@ -34,6 +42,10 @@ export class MainAITextService extends Disposable implements IAITextService {
     private readonly _registrant: IAIModelRegistrant;
     private _model?: AI.Text.Model;
 
+    private readonly _sessions: IAITextSessionStore;
+    private readonly _templates: IAIPromptTemplateStore;
+    private readonly _usage: IAITextUsageStore;
+
     // [constructor]
 
     constructor(
@@ -45,10 +57,17 @@ export class MainAITextService extends Disposable implements IAITextService {
         @IMainLifecycleService private readonly lifecycleService: IMainLifecycleService,
         @IEncryptionService private readonly encryptionService: IEncryptionService,
         @IRegistrantService registrantService: IRegistrantService,
+        @IFileService fileService: IFileService,
+        @IEnvironmentService environmentService: IMainEnvironmentService,
     ) {
         super();
         this._registrant = registrantService.getRegistrant(RegistrantType.AIModel);
 
+        const directory = URI.join(environmentService.userDataPath, APP_DIR_NAME);
+        this._sessions = this.__register(new AITextSessionStore(directory, fileService));
+        this._templates = this.__register(new AIPromptTemplateStore(directory, fileService));
+        this._usage = this.__register(new AITextUsageStore(directory, fileService));
+
         // Initialize when the browser window is ready.
         Event.onceSafe(this.mainWindowService.onDidOpenWindow)(window => {
             this.__registerListeners(window);
@@ -63,6 +82,10 @@ export class MainAITextService extends Disposable implements IAITextService {
         }
         this.logService.debug('MainAITextService', `Initializing...`);
         const options = await this.__constructOptions();
+        if (!options) {
+            this.logService.debug('MainAITextService', `Initialization is skipped since the model is not configured.`);
+            return;
+        }
         this._model = this.__constructModel(options);
         this.logService.debug('MainAITextService', `Initialized successfully.`);
     }
@@ -114,14 +137,98 @@ export class MainAITextService extends Disposable implements IAITextService {
         return this
             .getModel()
             .toAsync()
-            .andThen(model => model.sendRequest(options));
+            .andThen(model => this.__checkBudget(model))
+            .andThen(model => model.sendRequest(options))
+            .map(response => {
+                this.__recordUsage(response);
+                return response;
+            });
     }
 
-    public sendRequestStream(options: OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError> {
+    public sendRequestStream(options: OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError> {
+        // the usage of a stream is only reported when explicitly asked for.
+        const streamOptions: OpenAI.ChatCompletionCreateParamsStreaming = {
+            ...options,
+            stream_options: { include_usage: true, ...options.stream_options },
+        };
+        
         return this
             .getModel()
             .toAsync()
-            .andThen(model => model.sendRequestStream(options, onChunkReceived));
+            .andThen(model => this.__checkBudget(model))
+            .andThen(model => model.sendRequestStream(streamOptions, chunk => {
+                this.__recordUsage(chunk);
+                onChunkReceived(chunk);
+            }, token));
+    }
+
+    // [public session methods]
+
+    public createSession(options?: AI.Text.ISessionCreateOptions): Promise<AI.Text.ISession> {
+        return this._sessions.create(options);
+    }
+
+    public getSession(id: string): Promise<AI.Text.ISession | undefined> {
+        return this._sessions.get(id);
+    }
+
+    public getAllSessions(): Promise<AI.Text.ISession[]> {
+        return this._sessions.getAll();
+    }
+
+    public appendMessages(id: string, messages: AI.Text.ISessionMessage[]): Promise<AI.Text.ISession> {
+        return this._sessions.append(id, messages);
+    }
+
+    public forkSession(id: string, messageCount?: number): Promise<AI.Text.ISession> {
+        return this._sessions.fork(id, messageCount);
+    }
+
+    public deleteSession(id: string): Promise<boolean> {
+        return this._sessions.delete(id);
+    }
+
+    public sendSessionRequest(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestOptions): AsyncResult<AI.Text.Response, AIError> {
+        return this.__getSession(id)
+            .andThen(session => this.sendRequest({ ...options, messages: [...session.messages, message] }))
+            .andThen(response => {
+                const reply = response.primaryMessage.content ?? '';
+                return this.__appendExchange(id, message, reply).map(() => response);
+            });
+    }
+
+    public sendSessionRequestStream(id: string, message: AI.Text.ISessionMessage, options: AI.Text.SessionRequestStreamOptions, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError> {
+        let reply = '';
+        return this.__getSession(id)
+            .andThen(session => this.sendRequestStream({ ...options, messages: [...session.messages, message] }, chunk => {
+                reply += chunk.primaryMessage.content ?? '';
+                onChunkReceived(chunk);
+            }))
+            .andThen(() => this.__appendExchange(id, message, reply));
+    }
+
+    // [public prompt template methods]
+
+    public getPromptTemplates(): Promise<AI.Text.IPromptTemplate[]> {
+        return this._templates.getAll();
+    }
+
+    public setPromptTemplate(template: AI.Text.IPromptTemplate): Promise<void> {
+        return this._templates.set(template);
+    }
+
+    public deletePromptTemplate(id: string): Promise<boolean> {
+        return this._templates.delete(id);
+    }
+
+    public applyPromptTemplate(id: string, variables: AI.Text.PromptVariables): Promise<AI.Text.ISessionMessage[]> {
+        return this._templates.apply(id, variables);
+    }
+
+    // [public usage methods]
+
+    public getUsage(date?: string): Promise<AI.Text.IUsageRecord[]> {
+        return this._usage.getUsage(date);
     }
 
     // [private helper methods]
@@ -147,6 +254,9 @@ export class MainAITextService extends Disposable implements IAITextService {
                 return this.statusService.set(key, encrypted).unwrap();
             })();
             e.join(saveAPIKey);
+            e.join(this._sessions.close());
+            e.join(this._templates.close());
+            e.join(this._usage.close());
         }));
 
         // initialize when the window is ready
@@ -155,7 +265,7 @@ export class MainAITextService extends Disposable implements IAITextService {
         });
     }
 
-    private async __constructOptions(): Promise<AI.Text.IModelOptions> {
+    private async __constructOptions(): Promise<AI.Text.IModelOptions | undefined> {
         const modelName = this.configurationService.get<AI.ModelName>(WorkbenchConfiguration.AiTextModel);
         const encrypted = this.statusService.get<string>(this.__getStatusAPIKey(modelName));
 
@@ -163,6 +273,10 @@ export class MainAITextService extends Disposable implements IAITextService {
             ? await this.encryptionService.decrypt(encrypted)
             : ''; // still provide mock string
 
+        if (modelName === AI.ModelName.Custom) {
+            return this.__constructCustomOptions(apiKey ?? '');
+        }
+
         if (isNullable(apiKey) || apiKey === '') {
             this._onDidError.fire(new Error('No API Key provided.'));
         }
@@ -173,6 +287,29 @@ export class MainAITextService extends Disposable implements IAITextService {
         };
     }
 
+    /**
+     * @description The custom model is configured by the configuration, except
+     * the API key which is stored as the other models do. The API key is 
+     * optional since most of the local servers ignore it.
+     * @returns `undefined` if the base URL or the model is not configured.
+     */
+    private __constructCustomOptions(apiKey: string): AI.Text.IModelOptions | undefined {
+        const baseURL = this.configurationService.get<string>(WorkbenchConfiguration.AiCustomBaseURL, '');
+        const model = this.configurationService.get<string>(WorkbenchConfiguration.AiCustomModel, '');
+
+        if (baseURL === '' || model === '') {
+            this._onDidError.fire(new Error('The base URL and the model of the custom AI model must be configured.'));
+            return undefined;
+        }
+
+        return {
+            name: AI.ModelName.Custom,
+            baseURL: baseURL,
+            model: model,
+            apiKey: apiKey,
+        };
+    }
+
     private __constructModel(options: AI.Text.IModelOptions): AI.Text.Model {
         
         // log options, make sure to exclude API keys.
@@ -197,6 +334,54 @@ export class MainAITextService extends Disposable implements IAITextService {
         this.release(this._model);
     }
 
+    /**
+     * @description Refuses the request once the total tokens of today reach 
+     * the configured daily budget.
+     */
+    private __getSession(id: string): AsyncResult<AI.Text.ISession, AIError> {
+        return Result.fromPromise<AI.Text.ISession, AIError>(async () => {
+            const session = await this._sessions.get(id);
+            if (!session) {
+                panic(new Error(`[MainAITextService] Cannot find the session with id (${id}).`));
+            }
+            return session;
+        });
+    }
+
+    /**
+     * @description Appends the message of the user along with its reply.
+     */
+    private __appendExchange(id: string, message: AI.Text.ISessionMessage, reply: string): AsyncResult<void, AIError> {
+        return Result.fromPromise<AI.Text.ISession, AIError>(() => this._sessions.append(id, [message, { role: 'assistant', content: reply }]))
+            .map(() => undefined);
+    }
+
+    private __checkBudget(model: AI.Text.Model): AsyncResult<AI.Text.Model, AIError> {
+        const budget = this.configurationService.get<number>(WorkbenchConfiguration.AiDailyTokenBudget, 0);
+        if (budget <= 0) {
+            return AsyncResult.ok(model);
+        }
+
+        return Result.fromPromise<number, AIError>(() => this._usage.getTotalTokens())
+            .andThen(used => {
+                if (used < budget) {
+                    return ok(model);
+                }
+                return err(new AIError(model.name, {
+                    message: `Daily token budget exceeded (used ${used} of ${budget} tokens today). Raise the budget in the settings or try again tomorrow.`,
+                    code: AIError.BUDGET_EXCEEDED,
+                }));
+            });
+    }
+
+    private __recordUsage(response: AI.Text.Response): void {
+        if (!response.usage) {
+            return;
+        }
+        this._usage.record(response.model, response.usage)
+            .catch(error => this.logService.error('MainAITextService', 'Failed to record the token usage.', error));
+    }
+
     private __getStatusAPIKey(modelType: AI.ModelName): StatusKey {
         return `${StatusKey.textAPIKey}-${modelType}` as StatusKey;
     }
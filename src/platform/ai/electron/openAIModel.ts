@@ -4,9 +4,10 @@ import { Disposable } from "src/base/common/dispose";
 import { panic } from "src/base/common/utilities/panic";
 import { nullable } from "src/base/common/utilities/type";
 import { ChatCompletionCreateParamsNonStreaming } from "openai/resources";
-import { AsyncResult, Result } from "src/base/common/result";
+import { AsyncResult, err, ok, Result } from "src/base/common/result";
 import { AIError } from "src/base/common/error";
 import { LLMModel } from "src/platform/ai/electron/llmModel";
+import { ICancellationToken } from "src/base/common/utilities/cancellation";
 
 /**
  * @description Abstract base class for OpenAI-compatible text generation models.
@@ -53,22 +54,61 @@ export abstract class TextSharedOpenAIModel extends LLMModel implements AI.Text.
         .mapErr(error => new AIError(this.name, error));
     }
 
-    public sendRequestStream(options: OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void): AsyncResult<void, AIError> {
+    public sendRequestStream(options: OpenAI.ChatCompletionCreateParamsStreaming, onChunkReceived: (chunk: AI.Text.Response) => void, token?: ICancellationToken): AsyncResult<void, AIError> {
         return Result.fromPromise(async () => {
-            const stream = await this.client.chat.completions.create(options);
-            for await (const chunk of stream) {
-                const textResponse = this.__createResponse(
-                    chunk.id,
-                    chunk.model,
-                    () => chunk.choices,
-                    choice => this.__createStreamingSingleMessage(choice),
-                    () => chunk.usage,
-                );
-
-                onChunkReceived(textResponse);
+            
+            // aborts the request (or the ongoing stream) once cancelled.
+            const controller = new AbortController();
+            const cancellation = token?.onDidCancel(() => controller.abort());
+            
+            try {
+                const stream = await this.client.chat.completions.create(options, { signal: controller.signal });
+                
+                /**
+                 * When `stream_options.include_usage` is set, the usage comes with 
+                 * an extra chunk without choices after the finishing one. The 
+                 * finishing chunk is held back so that it carries the usage.
+                 */
+                let finished: AI.Text.Response | undefined;
+                
+                for await (const chunk of stream) {
+                    if (token?.isCancelled()) {
+                        return;
+                    }
+
+                    if (chunk.choices.length === 0) {
+                        if (finished && chunk.usage) {
+                            finished = { ...finished, usage: chunk.usage };
+                        }
+                        continue;
+                    }
+                    
+                    const textResponse = this.__createResponse(
+                        chunk.id,
+                        chunk.model,
+                        () => chunk.choices,
+                        choice => this.__createStreamingSingleMessage(choice),
+                        () => chunk.usage,
+                    );
+
+                    if (textResponse.primaryMessage.finishReason !== null) {
+                        finished = textResponse;
+                        continue;
+                    }
+                    onChunkReceived(textResponse);
+                }
+
+                if (finished && !token?.isCancelled()) {
+                    onChunkReceived(finished);
+                }
+            } 
+            finally {
+                cancellation?.dispose();
             }
         })
-        .mapErr(error => new AIError(this.name, error));
+        .mapErr(error => new AIError(this.name, error))
+        // the abort error is expected once cancelled.
+        .orElse(error => token?.isCancelled() ? ok(undefined) : err(error));
     }
 
     public override dispose(): void {
@@ -5,7 +5,7 @@ import { IServiceProvider } from "src/platform/instantiation/common/instantiatio
 import { IRegistrant, RegistrantType } from "src/platform/registrant/common/registrant";
 import { IRegistrantService } from "src/platform/registrant/common/registrantService";
 import { ShortcutRegistrant } from "src/workbench/services/shortcut/shortcutRegistrant";
-import { CreateContextKeyExpr } from "src/platform/context/common/contextKeyExpr";
+import { ContextKeyExpr, CreateContextKeyExpr } from "src/platform/context/common/contextKeyExpr";
 import { AllCommandsDescriptions } from "src/workbench/services/workbench/commandList";
 import { ILogService } from "src/base/common/logger";
 import { Emitter, Register } from "src/base/common/event";
@@ -42,6 +42,12 @@ export interface ICommandBasicSchema {
      */
     readonly description?: string;
 
+    /**
+     * The precondition that indicates if the command is valid to be invoked.
+     * Given `null` or `undefined` always evaluates to true.
+     */
+    readonly when?: ContextKeyExpr | null;
+
     /**
      * If to overwrite the existing command. 
      * @default false
@@ -167,6 +173,7 @@ export class CommandRegistrant extends Disposable implements ICommandRegistrant
         this.registerCommandBasic({
             id: command.id,
             description: command.description,
+            when: command.when,
             command: (...args) => command.run(...args),
         });
 
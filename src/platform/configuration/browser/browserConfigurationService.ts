@@ -46,7 +46,7 @@ export class BrowserConfigurationService extends AbstractConfigurationService {
         }
 
         const jsonData = this._configurationHub.inspect().toJSON().unwrap();
-        return this.fileService.writeFile(this.appConfigurationPath, DataBuffer.fromString(jsonData), { create: true, overwrite: true })
+        return this.fileService.writeFile(this.appConfigurationPath, DataBuffer.fromString(jsonData), { create: true, overwrite: true, atomic: true })
         .orElse(error => {
             this.logService.error('BrowserConfigurationService', `Cannot save configuration.`, error, { at: URI.toString(this.appConfigurationPath) });
             return err(error);
@@ -221,7 +221,7 @@ export class UserConfiguration extends Disposable implements IUserConfigurationM
                 4,
             );
             const buffer = DataBuffer.fromString(stringify);
-            await this.fileService.writeFile(this._userResource, buffer, { create: true, overwrite: true })
+            await this.fileService.writeFile(this._userResource, buffer, { create: true, overwrite: true, atomic: true })
                 .match(
                     () => {},
                     error => this.logService.error('UserConfiguration', 'Cannot sync configuration to the file.', error, { at: URI.toString(this._userResource) })
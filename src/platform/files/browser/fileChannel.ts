@@ -6,7 +6,7 @@ import { FileOperationError, FileOperationErrorType, FileType, ICreateFileOption
 import { IReadableStream, IReadyReadableStream, newWriteableBufferStream, toReadyStream } from "src/base/common/files/stream";
 import { URI } from "src/base/common/files/uri";
 import { Mutable } from "src/base/common/utilities/type";
-import { IFileService } from "src/platform/files/common/fileService";
+import { FileOperation, IFileOperationEvent, IFileService } from "src/platform/files/common/fileService";
 import { FileChannelsInternalCommands, ReadableStreamDataFlowType } from "src/platform/files/electron/mainFileChannel";
 import { IIpcService } from "src/platform/ipc/browser/ipcService";
 import { IChannel, IpcChannel } from "src/platform/ipc/common/channel";
@@ -33,6 +33,9 @@ export class BrowserFileChannel extends Disposable implements IFileService {
     private readonly _onDidAllResourceClosed = this.__register(new Emitter<void>());
     public readonly onDidAllResourceClosed = this._onDidAllResourceClosed.registerListener;
 
+    private readonly _onDidRunOperation = this.__register(new Emitter<IFileOperationEvent>());
+    public readonly onDidRunOperation = this._onDidRunOperation.registerListener;
+
     // [field]
 
     private readonly _channel: IChannel;
@@ -167,9 +170,10 @@ export class BrowserFileChannel extends Disposable implements IFileService {
     }
 
     public createFile(uri: URI, bufferOrStream?: DataBuffer | IReadableStream<DataBuffer>, opts?: ICreateFileOptions): AsyncResult<void, FileOperationError> {
-        return Result.fromPromise(
+        return Result.fromPromise<void, FileOperationError>(
             () => this._channel.callCommand(FileChannelsInternalCommands.createFile, [uri, bufferOrStream, opts]),
-        );
+        )
+        .map(() => this._onDidRunOperation.fire({ operation: FileOperation.Create, resource: uri }));
     }
 
     public createDir(uri: URI): AsyncResult<void, FileOperationError> {
@@ -179,21 +183,30 @@ export class BrowserFileChannel extends Disposable implements IFileService {
     }
 
     public moveTo(from: URI, to: URI, overwrite?: boolean): AsyncResult<IResolvedFileStat, FileOperationError> {
-        return Result.fromPromise(
+        return Result.fromPromise<IResolvedFileStat, FileOperationError>(
             () => this._channel.callCommand(FileChannelsInternalCommands.moveTo, [from, to, overwrite]),
-        );
+        )
+        .map(stat => {
+            this._onDidRunOperation.fire({ operation: FileOperation.Move, resource: from, target: to });
+            return stat;
+        });
     }
 
     public copyTo(from: URI, to: URI, overwrite?: boolean): AsyncResult<IResolvedFileStat, FileOperationError> {
-        return Result.fromPromise(
+        return Result.fromPromise<IResolvedFileStat, FileOperationError>(
             () => this._channel.callCommand(FileChannelsInternalCommands.copyTo, [from, to, overwrite]),
-        );
+        )
+        .map(stat => {
+            this._onDidRunOperation.fire({ operation: FileOperation.Copy, resource: from, target: to });
+            return stat;
+        });
     }
 
     public delete(uri: URI, opts?: IDeleteFileOptions): AsyncResult<void, FileOperationError> {
-        return Result.fromPromise(
+        return Result.fromPromise<void, FileOperationError>(
             () => this._channel.callCommand(FileChannelsInternalCommands.delete, [uri, opts]),
-        );
+        )
+        .map(() => this._onDidRunOperation.fire({ operation: FileOperation.Delete, resource: uri }));
     }
 
     public watch(uri: URI, opts?: IWatchOptions): AsyncResult<IDisposable, FileOperationError> {
@@ -223,7 +223,7 @@ export class DiskStorage implements IDiskStorage {
             const serialized = Strings.stringifySafe(this._storage, undefined, undefined, 4);
 
             // eslint-disable-next-line local/code-must-handle-result
-            this._operating = this.fileService.writeFile(this.path, DataBuffer.fromString(serialized), { create: true, overwrite: true, unlock: false });
+            this._operating = this.fileService.writeFile(this.path, DataBuffer.fromString(serialized), { create: true, overwrite: true, unlock: false, atomic: true });
             return this._operating;
         });
     }
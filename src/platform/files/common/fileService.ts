@@ -2,7 +2,7 @@ import { Disposable, IDisposable } from "src/base/common/dispose";
 import { AsyncResult, Result, err, ok } from "src/base/common/result";
 import { Emitter, Event, Register } from "src/base/common/event";
 import { DataBuffer } from "src/base/common/files/buffer";
-import { FileSystemProviderAbleToRead, hasOpenReadWriteCloseCapability, hasReadWriteCapability, IReadFileOptions, IFileSystemProvider, IFileSystemProviderWithFileReadWrite, IFileSystemProviderWithOpenReadWriteClose, IWriteFileOptions, IFileStat, FileType, FileOperationErrorType, FileSystemProviderCapability, IDeleteFileOptions, IResolveStatOptions, IResolvedFileStat, hasReadFileStreamCapability, IFileSystemProviderWithReadFileStream, ICreateFileOptions, FileOperationError, hasCopyCapability, IWatchOptions, FileSystemProviderError } from "src/base/common/files/file";
+import { FileSystemProviderAbleToRead, hasOpenReadWriteCloseCapability, hasReadWriteCapability, IReadFileOptions, IFileSystemProvider, IFileSystemProviderWithFileReadWrite, IFileSystemProviderWithOpenReadWriteClose, IWriteFileOptions, IFileStat, FileType, FileOperationErrorType, FileSystemProviderCapability, IDeleteFileOptions, IResolveStatOptions, IResolvedFileStat, hasReadFileStreamCapability, IFileSystemProviderWithReadFileStream, ICreateFileOptions, FileOperationError, hasCopyCapability, IWatchOptions, FileSystemProviderError, hasAtomicWriteCapability } from "src/base/common/files/file";
 import { basename, dirname } from "src/base/common/files/path";
 import { bufferToStream, IReadableStream, IReadyReadableStream, listenStream, newWriteableBufferStream, readFileIntoStream, readFileIntoStreamAsync, streamToBuffer, toReadyStream, transformStream } from "src/base/common/files/stream";
 import { isAbsoluteURI, Schemas, URI } from "src/base/common/files/uri";
@@ -16,6 +16,31 @@ import { errorToMessage } from "src/base/common/utilities/panic";
 
 export const IFileService = createService<IFileService>('file-service');
 
+export const enum FileOperation {
+    Create,
+    Move,
+    Copy,
+    Delete,
+}
+
+/**
+ * Describes a file operation that is successfully performed through the 
+ * {@link IFileService}.
+ */
+export interface IFileOperationEvent {
+    readonly operation: FileOperation;
+
+    /**
+     * The created, deleted or the source resource.
+     */
+    readonly resource: URI;
+
+    /**
+     * The destination of the `Move` and `Copy` operations.
+     */
+    readonly target?: URI;
+}
+
 export interface IFileService extends IDisposable, IService {
 
     /**
@@ -33,6 +58,14 @@ export interface IFileService extends IDisposable, IService {
      */
     readonly onDidAllResourceClosed: Register<void>;
 
+    /**
+     * Fires after a file is created, or a file/directory is moved, copied or 
+     * deleted through the service.
+     * @note Creating directories is not reported since it is a no-op to the
+     *       existing ones.
+     */
+    readonly onDidRunOperation: Register<IFileOperationEvent>;
+
     /** 
      * @description Registers a file system provider for a given scheme. 
      */
@@ -148,6 +181,9 @@ export class FileService extends Disposable implements IFileService {
     private readonly _onDidAllResourceClosed = this.__register(new Emitter<void>());
     public readonly onDidAllResourceClosed = this._onDidAllResourceClosed.registerListener;
 
+    private readonly _onDidRunOperation = this.__register(new Emitter<IFileOperationEvent>());
+    public readonly onDidRunOperation = this._onDidRunOperation.registerListener;
+
     private readonly _activeWatchers = new Map<URI, IDisposable>();
 
     // [fields]
@@ -238,9 +274,11 @@ export class FileService extends Disposable implements IFileService {
 
             /**
              * write file: unbuffered (only if data to write is a buffer, or the 
-             * provider has no buffered write capability).
+             * provider has no buffered write capability, or atomic writing is
+             * requested which can only be done at once).
              */
             if ((hasReadWriteCapability(provider) && bufferOrStream instanceof DataBuffer) ||
+                (opts.atomic && hasAtomicWriteCapability(provider)) ||
                 !hasOpenReadWriteCloseCapability(provider)
             ) {
                 return this.__writeUnbuffered(provider, uri, opts, bufferOrStream);
@@ -269,7 +307,8 @@ export class FileService extends Disposable implements IFileService {
     ): AsyncResult<void, FileOperationError>
     {
         return this.__validateCreate(uri, opts)
-        .andThen(() => this.writeFile(uri, bufferOrStream, { create: true, overwrite: !!opts?.overwrite, unlock: false }));
+        .andThen(() => this.writeFile(uri, bufferOrStream, { create: true, overwrite: !!opts?.overwrite, unlock: false }))
+        .map(() => this._onDidRunOperation.fire({ operation: FileOperation.Create, resource: uri }));
     }
 
     public readDir(uri: URI): AsyncResult<Pair<string, FileType>[], FileOperationError> {
@@ -300,7 +339,11 @@ export class FileService extends Disposable implements IFileService {
         const toProvider = toResult.unwrap();
 
         return this.__doMoveTo(from, fromProvider, to, toProvider, overwrite)
-            .andThen(() => this.stat(to));
+            .andThen(() => this.stat(to))
+            .map(stat => {
+                this._onDidRunOperation.fire({ operation: FileOperation.Move, resource: from, target: to });
+                return stat;
+            });
     }
 
     public copyTo(from: URI, to: URI, overwrite?: boolean): AsyncResult<IResolvedFileStat, FileOperationError> {
@@ -318,13 +361,18 @@ export class FileService extends Disposable implements IFileService {
         const toProvider = toResult.unwrap();
 
         return this.__doCopyTo(from, fromProvider, to, toProvider, overwrite)
-        .andThen(() => this.stat(to));
+        .andThen(() => this.stat(to))
+        .map(stat => {
+            this._onDidRunOperation.fire({ operation: FileOperation.Copy, resource: from, target: to });
+            return stat;
+        });
     }
 
     public delete(uri: URI, opts?: IDeleteFileOptions): AsyncResult<void, FileOperationError> {
         return this.__validateDelete(uri, opts)
             .andThen(provider => provider.delete(uri, { useTrash: !!opts?.useTrash, recursive: !!opts?.recursive }))
-            .orElse(error => err(new FileOperationError(`unable to delete uri: '${URI.toString(uri)}'. Reason: ${errorToMessage(error)}`, getFileErrorCode(error))));
+            .orElse(error => err(new FileOperationError(`unable to delete uri: '${URI.toString(uri)}'. Reason: ${errorToMessage(error)}`, getFileErrorCode(error))))
+            .map(() => this._onDidRunOperation.fire({ operation: FileOperation.Delete, resource: uri }));
     }
 
     public watch(uri: URI, opts?: IWatchOptions): AsyncResult<IDisposable, FileOperationError> {
@@ -484,7 +532,7 @@ export class FileService extends Disposable implements IFileService {
         
             // write through a provider
             return Result.fromPromise(
-                async () => { await provider.writeFile(uri, buffer.buffer, { create: opts?.create ?? false, overwrite: opts?.overwrite ?? false, unlock: opts?.unlock ?? false }); },
+                async () => { await provider.writeFile(uri, buffer.buffer, { create: opts?.create ?? false, overwrite: opts?.overwrite ?? false, unlock: opts?.unlock ?? false, atomic: opts?.atomic ?? false }); },
                 error => new FileOperationError(errorToMessage(error), getFileErrorCode(error)),
             );    
         })());
@@ -2,10 +2,11 @@ import * as fs from "fs";
 import { Disposable, IDisposable } from "src/base/common/dispose";
 import { DataBuffer } from "src/base/common/files/buffer";
 import { FileOperationErrorType, FileSystemProviderCapability, FileSystemProviderError, FileType, IDeleteFileOptions, IFileStat, IFileSystemProviderWithFileReadWrite, IFileSystemProviderWithOpenReadWriteClose, IFileSystemProviderWithReadFileStream, IOpenFileOptions, IOverwriteFileOptions, IReadFileOptions, IWatchOptions, IWriteFileOptions } from "src/base/common/files/file";
-import { join } from "src/base/common/files/path";
+import { basename, dirname, join } from "src/base/common/files/path";
 import { IReadyReadableStream, newWriteableStream, readFileIntoStream, toReadyStream } from "src/base/common/files/stream";
 import { URI } from "src/base/common/files/uri";
 import { retry } from "src/base/common/utilities/async";
+import { Random } from "src/base/common/utilities/random";
 import { FileService } from "src/platform/files/common/fileService";
 import { fileExists, FileMode, statWithSymbolink } from "src/base/node/io";
 import { Watcher } from "src/platform/files/node/watcher";
@@ -40,7 +41,8 @@ export class DiskFileSystemProvider extends Disposable implements
         FileSystemProviderCapability.FileReadWrite |
         FileSystemProviderCapability.FileOpenReadWriteClose |
         FileSystemProviderCapability.ReadFileStream |
-        FileSystemProviderCapability.FileFolderCopy;
+        FileSystemProviderCapability.FileFolderCopy |
+        FileSystemProviderCapability.FileAtomicWrite;
 
     private _watcher?: IWatcher;
 
@@ -94,6 +96,11 @@ export class DiskFileSystemProvider extends Disposable implements
                 }
             }
 
+            if (opts.atomic) {
+                await this.__writeAtomic(path, content, opts.unlock === true);
+                return;
+            }
+
             // open the file
             fd = await this.open(uri, { create: true, unlock: opts.unlock });
 
@@ -386,6 +393,50 @@ export class DiskFileSystemProvider extends Disposable implements
         }
     }
 
+    /**
+     * @description Writes the content into a temporary file in the same
+     * directory, flushes it to the disk, then renames it over the target. The
+     * permissions of the existing target are preserved.
+     *
+     * @note A read-only target is only replaced if `unlock` is given, the same
+     *       as the non-atomic write does.
+     * @note If the target is a symbolic link, the file it links to is
+     *       replaced instead of the link itself.
+     */
+    private async __writeAtomic(path: string, content: Uint8Array, unlock: boolean): Promise<void> {
+        const target = await fs.promises.realpath(path).catch(() => path);
+        const tempPath = join(dirname(target), `.${basename(target)}.${Random.int(1e9).toString(36)}.tmp`);
+
+        let mode = await fs.promises.stat(target).then(stat => stat.mode & 0o7777, () => undefined);
+
+        /* File mode indicating writable by owner */
+        if (mode !== undefined && !(mode & 0o200)) {
+            if (!unlock) {
+                panic(new FileSystemProviderError(`File is not writable: ${target}`, FileOperationErrorType.NO_PERMISSIONS));
+            }
+            mode |= FileMode.writable;
+        }
+
+        try {
+            const handle = await fs.promises.open(tempPath, 'wx');
+            try {
+                await handle.writeFile(content);
+                if (mode !== undefined) {
+                    await handle.chmod(mode);
+                }
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+
+            await fs.promises.rename(tempPath, target);
+        }
+        catch (error) {
+            await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+            panic(error);
+        }
+    }
+
     private async __write(
         fd: number,
         pos: number,
@@ -47,6 +47,10 @@ export interface IHostService extends IService {
      *                              constructing the window.
      */
     reloadWindow(optionalConfiguration: DeepPartial<IWindowCreationOptions>, id?: number): Promise<void>;
+    /**
+     * @description Returns the IDs of all the opened windows.
+     */
+    getAllWindowIDs(): Promise<number[]>;
 
     // [dialog-service]
     showOpenDialog(opts: Electron.OpenDialogOptions, id?: number): Promise<Electron.OpenDialogReturnValue>;
@@ -137,6 +137,10 @@ export class MainHostService extends Disposable implements IMainHostService {
         window?.reload(optionalConfiguration);
     }
 
+    public async getAllWindowIDs(): Promise<number[]> {
+        return this.mainWindowService.windows().map(window => window.id);
+    }
+
     public async showOpenDialog(opts: Electron.OpenDialogOptions, windowID?: number): Promise<Electron.OpenDialogReturnValue> {
         const browserWindow = this.__tryGetWindow(windowID)?.browserWindow;
         return this.dialogService.showOpenDialog(opts, browserWindow);
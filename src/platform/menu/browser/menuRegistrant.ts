@@ -8,6 +8,7 @@ import { IRegistrant, RegistrantType } from "src/platform/registrant/common/regi
 import { menuFileTreeContextRegister } from "src/workbench/services/fileTree/menu.register";
 import { MenuTypes, IMenuItemRegistration, IMenuItemRegistrationResolved } from "src/platform/menu/common/menu";
 import { menuRecentOpenRegister } from "src/platform/app/common/menu.register";
+import { menuEditorTabContextRegister } from "src/workbench/parts/workspace/menu.register";
 
 /**
  * An interface only for {@link MenuRegistrant}.
@@ -86,6 +87,7 @@ export class MenuRegistrant extends Disposable implements IMenuRegistrant {
 
             menuRecentOpenRegister,
             menuFileTreeContextRegister,
+            menuEditorTabContextRegister,
         ]
         .forEach(register => register(provider));
     }
@@ -1079,8 +1079,7 @@ export const menuTitleViewRegister = createRegister(
                 group: '1_tools',
                 title: 'Command Palette',
                 command: {
-                    // commandID: AllCommands.CommandPalette,
-                    commandID: "",
+                    commandID: AllCommands.commandPalette,
                     keybinding: IS_MAC ? 'Shift+Cmd+P' : 'Ctrl+Shift+P',
                 },
             },
@@ -34,7 +34,8 @@ export const enum MenuTypes {
     FormatImage = 'FormatImage',
     ViewChangeTheme = 'ViewChangeTheme',
 
-    FileTreeContext = 'FileTreeContext'
+    FileTreeContext = 'FileTreeContext',
+    EditorTabContext = 'EditorTabContext',
 }
 
 /**
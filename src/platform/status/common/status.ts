@@ -8,4 +8,7 @@ export const enum StatusKey {
     WindowZoomLevel = 'windowZoomLevel',
     OpenRecent = 'openRecent',
     textAPIKey = 'textAPIKey',
+    EditorGroupLayout = 'editorGroupLayout',
+    RecentCommands = 'recentCommands',
+    RecentQuickOpen = 'recentQuickOpen',
 }
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { DomUtility } from 'src/base/browser/basic/dom';
+import { Disposable } from 'src/base/common/dispose';
+import { Shortcut } from 'src/base/common/keyboard';
+import { ILogService } from 'src/base/common/logger';
+import { Result } from 'src/base/common/result';
+import { errorToMessage } from 'src/base/common/utilities/panic';
+import { isString } from 'src/base/common/utilities/type';
+import { ICommandService } from 'src/platform/command/common/commandService';
+import { IContextService } from 'src/platform/context/common/contextService';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { RegistrantType } from 'src/platform/registrant/common/registrant';
+import { IRegistrantService } from 'src/platform/registrant/common/registrantService';
+import { StatusKey } from 'src/platform/status/common/status';
+import { ICommandPaletteService } from 'src/workbench/contrib/commandPalette/commandPaletteService';
+import { getCommandLabel, ICommandCandidate, IRankedCommand, rankCommands } from 'src/workbench/contrib/commandPalette/commandSearch';
+import { IQuickPickItem, QuickPick } from 'src/workbench/contrib/quickOpen/quickPick';
+import { ILayoutService } from 'src/workbench/services/layout/layoutService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { AllCommands, AllCommandsRequiringArguments } from 'src/workbench/services/workbench/commandList';
+
+interface ICommandQuickPickItem extends IQuickPickItem {
+    readonly command: IRankedCommand;
+}
+
+/**
+ * @class Runs any registered command by its name. Every time the widget is
+ * shown, the commands whose precondition (`when`) is satisfied in the current
+ * context are collected along with their shortcuts, and fuzzy-matched as the
+ * user types. The recently used commands are listed first.
+ *
+ * @note Commands that require arguments cannot be run from the palette, see
+ *       {@link AllCommandsRequiringArguments}.
+ * @note The focus is returned to the previously focused element once the 
+ *       widget is hidden, so that the commands run in the same context as 
+ *       where they are collected (e.g. the focused editor).
+ */
+export class CommandPaletteService extends Disposable implements ICommandPaletteService {
+
+    declare _serviceMarker: undefined;
+
+    // [fields]
+
+    public static readonly MAX_RECENT = 10;
+
+    private _quickPick?: QuickPick<ICommandQuickPickItem>;
+    private _commands: ICommandCandidate[];
+
+    /** The IDs of the recently used commands, the most recent first. */
+    private _recent?: string[];
+
+    /** The element that is focused before the widget is shown. */
+    private _previousFocus?: HTMLElement;
+
+    // [constructor]
+
+    constructor(
+        @ILayoutService private readonly layoutService: ILayoutService,
+        @IRegistrantService private readonly registrantService: IRegistrantService,
+        @IContextService private readonly contextService: IContextService,
+        @ICommandService private readonly commandService: ICommandService,
+        @IHostService private readonly hostService: IHostService,
+        @INotificationService private readonly notificationService: INotificationService,
+        @ILogService private readonly logService: ILogService,
+    ) {
+        super();
+        this._commands = [];
+    }
+
+    // [public methods]
+
+    public async show(): Promise<void> {
+        const quickPick = this.__getQuickPick();
+
+        /**
+         * Collects before the input of the palette takes the focus so that the
+         * commands are checked against the context where they are about to run.
+         */
+        if (!quickPick.visible) {
+            const focused = DomUtility.Elements.getActiveElement();
+            this._previousFocus = DomUtility.Elements.isHTMLElement(focused) ? focused : undefined;
+            this._commands = this.__collectCommands();
+        }
+        quickPick.show('');
+        this._recent ??= await this.__readRecent();
+
+        this.__update(quickPick.value);
+    }
+
+    public hide(): void {
+        this._quickPick?.hide();
+    }
+
+    // [private helper methods]
+
+    private __getQuickPick(): QuickPick<ICommandQuickPickItem> {
+        if (this._quickPick) {
+            return this._quickPick;
+        }
+
+        const quickPick = this.__register(new QuickPick<ICommandQuickPickItem>(this.layoutService.parentContainer, 'Type the name of a command to run'));
+        this._quickPick = quickPick;
+
+        this.__register(quickPick.onDidChangeValue(value => this.__update(value)));
+        this.__register(quickPick.onDidHide(() => this.__restoreFocus()));
+        this.__register(quickPick.onDidAccept(item => {
+            // the focus is returned once hidden, before the command runs.
+            quickPick.hide();
+            this.__run(item.command.id);
+        }));
+
+        return quickPick;
+    }
+
+    private __collectCommands(): ICommandCandidate[] {
+        const commandRegistrant = this.registrantService.getRegistrant(RegistrantType.Command);
+        const shortcutRegistrant = this.registrantService.getRegistrant(RegistrantType.Shortcut);
+
+        // prefer the shortcuts that are available in the current context.
+        const shortcuts = new Map<string, { name: string, available: boolean }>();
+        for (const [hashcode, references] of shortcutRegistrant.getAllShortcutRegistrations()) {
+            for (const reference of references) {
+                const existing = shortcuts.get(reference.commandID);
+                if (existing?.available) {
+                    continue;
+                }
+                const available = this.contextService.contextMatchExpr(reference.when);
+                if (!existing || available) {
+                    shortcuts.set(reference.commandID, { name: Shortcut.fromHashcode(hashcode).toString(), available: available });
+                }
+            }
+        }
+
+        const commands: ICommandCandidate[] = [];
+        for (const [id, schema] of commandRegistrant.getAllCommands()) {
+            if (!id
+                || id === AllCommands.commandPalette
+                || AllCommandsRequiringArguments.has(id)
+                || !this.contextService.contextMatchExpr(schema.when ?? null)
+            ) {
+                continue;
+            }
+
+            commands.push({
+                id: id,
+                label: getCommandLabel(id),
+                description: schema.description ?? '',
+                shortcut: shortcuts.get(id)?.name,
+            });
+        }
+        return commands;
+    }
+
+    private __update(value: string): void {
+        const quickPick = this._quickPick;
+        if (!quickPick) {
+            return;
+        }
+
+        const ranked = rankCommands(value, this._commands, this._recent ?? []);
+        quickPick.setItems(ranked.slice(0, QuickPick.MAX_ITEMS).map(command => __toQuickPickItem(command)));
+        quickPick.setMessage(ranked.length === 0 ? 'No matching commands.' : '');
+    }
+
+    private __restoreFocus(): void {
+        const element = this._previousFocus;
+        this._previousFocus = undefined;
+        if (element?.isConnected) {
+            element.focus();
+        }
+    }
+
+    private async __run(id: string): Promise<void> {
+        await this.__addToRecent(id);
+        await Result.fromPromise(async () => this.commandService.executeCommand(id)).match<void>(
+            () => {},
+            error => this.notificationService.error(
+                `Failed to run the command '${getCommandLabel(id)}': ${errorToMessage(error, false)}`,
+                { actions: [{ label: 'Close', run: 'noop' }] },
+            ),
+        );
+    }
+
+    private async __readRecent(): Promise<string[]> {
+        return Result.fromPromise(() => this.hostService.getApplicationStatus<unknown>(StatusKey.RecentCommands)).match(
+            recent => Array.isArray(recent) ? recent.filter(id => isString(id)) : [],
+            () => [],
+        );
+    }
+
+    private async __addToRecent(id: string): Promise<void> {
+        const recent = [id, ...(this._recent ?? []).filter(each => each !== id)].slice(0, CommandPaletteService.MAX_RECENT);
+        this._recent = recent;
+        await Result.fromPromise(() => this.hostService.setApplicationStatus(StatusKey.RecentCommands, recent)).match<void>(
+            () => {},
+            error => this.logService.warn('CommandPaletteService', 'Cannot save the recently used commands.', { error: errorToMessage(error) }),
+        );
+    }
+}
+
+function __toQuickPickItem(command: IRankedCommand): ICommandQuickPickItem {
+    const details = [command.shortcut, command.recent ? 'recently used' : undefined].filter(isString);
+    return {
+        command: command,
+        label: command.label,
+        labelHighlights: command.matches,
+        description: [...details, command.description].join(' · '),
+    };
+}
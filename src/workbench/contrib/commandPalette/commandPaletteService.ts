@@ -0,0 +1,20 @@
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+
+export const ICommandPaletteService = createService<ICommandPaletteService>('command-palette-service');
+
+/**
+ * An interface only for {@link CommandPaletteService}.
+ */
+export interface ICommandPaletteService extends IService {
+
+    /**
+     * @description Shows the command palette that fuzzy-matches every command
+     * available in the current context.
+     */
+    show(): Promise<void>;
+
+    /**
+     * @description Hides the command palette.
+     */
+    hide(): void;
+}
@@ -0,0 +1,114 @@
+import { fuzzyScore } from 'src/base/common/fuzzy';
+
+/**
+ * A command that can be listed in the command palette.
+ */
+export interface ICommandCandidate {
+    readonly id: string;
+    readonly label: string;
+    readonly description: string;
+
+    /** The string form of the bound shortcut, if any. */
+    readonly shortcut?: string;
+}
+
+/**
+ * The result of {@link rankCommands}.
+ */
+export interface IRankedCommand extends ICommandCandidate {
+
+    /**
+     * The indice of the characters within the label that are matched.
+     */
+    readonly matches: readonly number[];
+
+    /**
+     * Whether the command is recently used.
+     */
+    readonly recent: boolean;
+}
+
+/**
+ * @description Converts the ID of a command into a human-readable label.
+ *
+ * @example
+ * getCommandLabel('workspaceSplitRight'); // 'Workspace Split Right'
+ * getCommandLabel('editor-toggle-mark-em'); // 'Editor Toggle Mark Em'
+ */
+export function getCommandLabel(id: string): string {
+    return id
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[\s\-_.]+/)
+        .filter(word => word.length > 0)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+/**
+ * @description Fuzzy-matches the query against the labels of the commands.
+ * Commands that are not matched by the label are matched by the description
+ * instead and ranked after them.
+ *
+ * @param recent The IDs of the recently used commands, the most recent first.
+ *               Recently used commands are always ranked first.
+ */
+export function rankCommands(query: string, commands: readonly ICommandCandidate[], recent: readonly string[]): IRankedCommand[] {
+    const pattern = query.replace(/\s/g, '');
+    const recentOrder = new Map(recent.map((id, index) => [id, index]));
+
+    const ranked: (IRankedCommand & { order: number, labelMatched: boolean, score: number })[] = [];
+    for (const command of commands) {
+
+        // the spaces within the label are ignored as the pattern does.
+        let labelMatched = true;
+        let result = __matchIgnoringSpaces(pattern, command.label);
+        if (!result) {
+            labelMatched = false;
+            const matched = fuzzyScore(pattern, command.description);
+            result = matched && { score: matched.score, matches: [] };
+        }
+
+        if (!result) {
+            continue;
+        }
+
+        const order = recentOrder.get(command.id) ?? Infinity;
+        ranked.push({
+            ...command,
+            matches: result.matches,
+            recent: order !== Infinity,
+            order: order,
+            labelMatched: labelMatched,
+            score: result.score,
+        });
+    }
+
+    ranked.sort((a, b) => {
+        if (a.order !== b.order) {
+            return a.order < b.order ? -1 : 1;
+        }
+        if (a.labelMatched !== b.labelMatched) {
+            return a.labelMatched ? -1 : 1;
+        }
+        if (a.score !== b.score) {
+            return b.score - a.score;
+        }
+        return a.label.localeCompare(b.label);
+    });
+
+    return ranked.map(({ id, label, description, shortcut, matches, recent }) => ({ id, label, description, shortcut, matches, recent }));
+}
+
+function __matchIgnoringSpaces(pattern: string, label: string): { score: number, matches: number[] } | undefined {
+    const indice: number[] = [];
+    let compact = '';
+    for (let i = 0; i < label.length; i++) {
+        if (label[i] !== ' ') {
+            indice.push(i);
+            compact += label[i];
+        }
+    }
+
+    const result = fuzzyScore(pattern, compact);
+    return result && { score: result.score, matches: result.matches.map(index => indice[index]!) };
+}
@@ -260,7 +260,7 @@ export class ExplorerView extends NavView implements IExplorerViewService {
 
         // on opening file.
         this._currViewBucket.register(this.fileTreeService.onSelect(e => {
-            this.workspaceService.openEditor({ uri: e.item.uri }, {});
+            this.workspaceService.openEditor({ uri: e.item.uri }, { focused: true, preview: true });
         }));
     }
 }
\ No newline at end of file
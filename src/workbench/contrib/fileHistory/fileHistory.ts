@@ -0,0 +1,265 @@
+import { getDateStamp } from 'src/base/common/date';
+import { diffLines } from 'src/base/common/diff';
+import { Disposable } from 'src/base/common/dispose';
+import { URI } from 'src/base/common/files/uri';
+import { IEditorModel } from 'src/editor/common/model';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { FileHistoryView } from 'src/workbench/contrib/fileHistory/fileHistoryView';
+import { IFileHistoryViewService } from 'src/workbench/contrib/fileHistory/fileHistoryViewService';
+import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { IFileHistoryEntry, IFileHistoryService } from 'src/workbench/services/history/fileHistoryService';
+import { ILayoutService } from 'src/workbench/services/layout/layoutService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { NotificationTypes } from 'src/workbench/services/notification/notificationService';
+
+/**
+ * The only version listed when comparing the opened document with the disk.
+ */
+const DISK_VERSION: IFileHistoryEntry = { id: 'disk', timestamp: 0 };
+
+/**
+ * @class Shows the local history of a file. Moving through the versions shows
+ * the difference between the version and the current content of the file.
+ * Restoring a version replaces the content of the opened document as an edit,
+ * so that it can be undone.
+ *
+ * The view also compares the unsaved content of a document with its file on
+ * the disk once the file is modified by others, see {@link compareWithDisk}.
+ */
+export class FileHistoryViewService extends Disposable implements IFileHistoryViewService {
+
+    declare _serviceMarker: undefined;
+
+    // [fields]
+
+    private _view?: FileHistoryView<IFileHistoryEntry>;
+
+    /** The resource whose history is currently shown. */
+    private _resource?: URI;
+
+    // [constructor]
+
+    constructor(
+        @ILayoutService private readonly layoutService: ILayoutService,
+        @IFileService private readonly fileService: IFileService,
+        @IFileHistoryService private readonly fileHistoryService: IFileHistoryService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService,
+        @INotificationService private readonly notificationService: INotificationService,
+    ) {
+        super();
+    }
+
+    // [public methods]
+
+    public async show(uri?: URI): Promise<void> {
+        const resource = uri ?? this.workspaceService.getFocusedEditor()?.resource;
+        const view = this.__getView();
+        if (!resource) {
+            this.notificationService.notify({
+                type: NotificationTypes.Info,
+                message: 'Open a file to view its local history.',
+            });
+            return;
+        }
+
+        this._resource = resource;
+        view.show(`Local History: ${URI.basename(resource)}`);
+        view.setItems([]);
+        view.setMessage('Loading...');
+
+        const entries = await this.fileHistoryService.getEntries(resource);
+        if (this._resource !== resource || !view.visible) {
+            return;
+        }
+
+        const now = Date.now();
+        view.setItems(entries.map(entry => ({
+            entry: entry,
+            label: __formatTime(entry.timestamp),
+            description: __formatElapsed(now - entry.timestamp),
+        })));
+
+        const newest = entries[0];
+        if (newest) {
+            await this.__showDiff(resource, newest);
+        } else {
+            view.setMessage('No saved versions yet. A version is kept every time the file is saved.');
+        }
+    }
+
+    public async compareWithDisk(uri: URI): Promise<void> {
+        const view = this.__getView();
+        this._resource = uri;
+        view.show(`Compare with Disk: ${URI.basename(uri)}`);
+        view.setItems([{
+            entry: DISK_VERSION,
+            label: 'Disk Version',
+            description: 'modified by others',
+        }]);
+        view.setMessage('Loading...');
+        await this.__showDiff(uri, DISK_VERSION);
+    }
+
+    public hide(): void {
+        this._view?.hide();
+    }
+
+    // [private helper methods]
+
+    private __getView(): FileHistoryView<IFileHistoryEntry> {
+        if (this._view) {
+            return this._view;
+        }
+
+        const view = this.__register(new FileHistoryView<IFileHistoryEntry>(this.layoutService.parentContainer));
+        this._view = view;
+
+        this.__register(view.onDidHide(() => this._resource = undefined));
+        this.__register(view.onDidChangeActive(entry => {
+            const resource = this._resource;
+            if (resource) {
+                this.__showDiff(resource, entry);
+            }
+        }));
+        this.__register(view.onDidRestore(entry => {
+            const resource = this._resource;
+            if (resource) {
+                this.__restore(resource, entry);
+            }
+        }));
+
+        return view;
+    }
+
+    private async __showDiff(resource: URI, entry: IFileHistoryEntry): Promise<void> {
+        const view = this.__getView();
+        const [content, current] = await Promise.all([
+            entry === DISK_VERSION ? this.__readDisk(resource) : this.fileHistoryService.getContent(resource, entry),
+            this.__getCurrentContent(resource),
+        ]);
+
+        // the active version is changed in the meantime.
+        if (this._resource !== resource || view.activeItem?.entry !== entry) {
+            return;
+        }
+
+        if (content === undefined || current === undefined) {
+            view.setMessage('The version cannot be read.');
+            return;
+        }
+        view.setDiff(diffLines(content, current));
+    }
+
+    private async __restore(resource: URI, entry: IFileHistoryEntry): Promise<void> {
+        if (entry === DISK_VERSION) {
+            return this.__restoreDisk(resource);
+        }
+
+        const content = await this.fileHistoryService.getContent(resource, entry);
+        if (content === undefined) {
+            this.notificationService.notify({
+                type: NotificationTypes.Error,
+                message: 'The version cannot be restored.',
+                subMessage: 'It might be removed from the local history.',
+            });
+            return;
+        }
+
+        // the edit is applied to the opened document so that it can be undone.
+        let model = this.editorModelService.getModel(resource);
+        if (!model) {
+            await this.workspaceService.openEditor({ uri: resource }, { focused: true, preview: false });
+            model = this.editorModelService.getModel(resource);
+        }
+        if (!model) {
+            this.notificationService.notify({
+                type: NotificationTypes.Error,
+                message: 'The version cannot be restored.',
+                subMessage: 'The file cannot be opened.',
+            });
+            return;
+        }
+
+        model.setRawContent(content);
+        this.__hideIfRestored(model, content);
+    }
+
+    /**
+     * @description Reloads the opened document from the disk, the unsaved
+     * changes are discarded.
+     */
+    private async __restoreDisk(resource: URI): Promise<void> {
+        const model = this.editorModelService.getModel(resource);
+        if (!model) {
+            this.hide();
+            return;
+        }
+
+        const reloaded = await model.reload();
+        if (reloaded.isErr()) {
+            this.notificationService.error(reloaded.unwrapErr(), { actions: [{ label: 'Close', run: 'noop' }] });
+            return;
+        }
+
+        const content = await this.__readDisk(resource);
+        if (content !== undefined) {
+            this.__hideIfRestored(model, content);
+        }
+    }
+
+    /**
+     * @description Hides the view only if the document is changed to the given
+     * content, otherwise the user is told and the view stays for retrying.
+     */
+    private __hideIfRestored(model: IEditorModel, content: string): void {
+        if (model.getRawContent() === model.serialize(model.parse(content))) {
+            this.hide();
+            return;
+        }
+        this.notificationService.notify({
+            type: NotificationTypes.Error,
+            message: 'The version cannot be restored.',
+            subMessage: 'The document is not changed.',
+        });
+    }
+
+    private async __getCurrentContent(resource: URI): Promise<string | undefined> {
+        const model = this.editorModelService.getModel(resource);
+        if (model) {
+            return model.getRawContent();
+        }
+        return this.__readDisk(resource);
+    }
+
+    private async __readDisk(resource: URI): Promise<string | undefined> {
+        return this.fileService.readFile(resource)
+            .map<string | undefined>(buffer => buffer.toString())
+            .unwrapOr(undefined);
+    }
+}
+
+function __formatTime(timestamp: number): string {
+    const date = new Date(timestamp);
+    const time = [date.getHours(), date.getMinutes(), date.getSeconds()]
+        .map(value => value.toString().padStart(2, '0'))
+        .join(':');
+    return `${getDateStamp(timestamp)} ${time}`;
+}
+
+function __formatElapsed(elapsed: number): string {
+    const minutes = Math.floor(elapsed / 60000);
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+    }
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+}
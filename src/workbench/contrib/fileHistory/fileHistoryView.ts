@@ -0,0 +1,287 @@
+import 'src/workbench/contrib/fileHistory/media/fileHistory.scss';
+import { addDisposableListener, DomUtility, EventType } from 'src/base/browser/basic/dom';
+import { ILineDiff, LineDiffType } from 'src/base/common/diff';
+import { Disposable } from 'src/base/common/dispose';
+import { Emitter } from 'src/base/common/event';
+import { Numbers } from 'src/base/common/utilities/number';
+
+export interface IFileHistoryViewItem<T> {
+    readonly entry: T;
+    readonly label: string;
+    readonly description: string;
+}
+
+/**
+ * @class A widget that lists the saved versions of a file on the left and the
+ * difference between the active version and the current content on the right.
+ * The active item can be changed by the arrow keys and restored by the enter
+ * key or the restore button.
+ *
+ * @note The widget is hidden when the escape key is pressed or the user clicks
+ *       outside of it.
+ *
+ * Structure:
+ *      +---------------------------------------------+
+ *      | title                             [Restore] |
+ *      +---------------+-----------------------------+
+ *      | label         |   unchanged line            |
+ *      | description   | - deleted line              |  <- active
+ *      | label         | + inserted line             |
+ *      +---------------+-----------------------------+
+ */
+export class FileHistoryView<T> extends Disposable {
+
+    // [events]
+
+    private readonly _onDidChangeActive = this.__register(new Emitter<T>());
+    public readonly onDidChangeActive = this._onDidChangeActive.registerListener;
+
+    private readonly _onDidRestore = this.__register(new Emitter<T>());
+    public readonly onDidRestore = this._onDidRestore.registerListener;
+
+    private readonly _onDidHide = this.__register(new Emitter<void>());
+    public readonly onDidHide = this._onDidHide.registerListener;
+
+    // [fields]
+
+    /** The number of unchanged lines shown around each change. */
+    public static readonly CONTEXT_LINES = 3;
+
+    private readonly _element: HTMLElement;
+    private readonly _title: HTMLElement;
+    private readonly _restore: HTMLButtonElement;
+    private readonly _list: HTMLElement;
+    private readonly _diff: HTMLElement;
+
+    private _items: IFileHistoryViewItem<T>[];
+    private _activeIndex: number;
+    private _visible: boolean;
+
+    // [constructor]
+
+    constructor(container: HTMLElement) {
+        super();
+        this._items = [];
+        this._activeIndex = 0;
+        this._visible = false;
+
+        this._element = document.createElement('div');
+        this._element.className = 'file-history';
+        this._element.tabIndex = -1;
+
+        const header = document.createElement('div');
+        header.className = 'file-history-header';
+        this._title = document.createElement('span');
+        this._title.className = 'file-history-title';
+        this._restore = document.createElement('button');
+        this._restore.className = 'file-history-restore';
+        this._restore.textContent = 'Restore';
+        header.append(this._title, this._restore);
+
+        const body = document.createElement('div');
+        body.className = 'file-history-body';
+        this._list = document.createElement('div');
+        this._list.className = 'file-history-list';
+        this._diff = document.createElement('div');
+        this._diff.className = 'file-history-diff';
+        body.append(this._list, this._diff);
+
+        this._element.append(header, body);
+        container.appendChild(this._element);
+        this.__registerListeners();
+    }
+
+    // [getter]
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    get activeItem(): IFileHistoryViewItem<T> | undefined {
+        return this._items[this._activeIndex];
+    }
+
+    // [public methods]
+
+    public override dispose(): void {
+        super.dispose();
+        this._element.remove();
+    }
+
+    public show(title: string): void {
+        this._title.textContent = title;
+        this._visible = true;
+        this._element.classList.add('visible');
+        this._element.focus();
+    }
+
+    public hide(): void {
+        if (!this._visible) {
+            return;
+        }
+        this._visible = false;
+        this._element.classList.remove('visible');
+        this._onDidHide.fire();
+    }
+
+    /**
+     * @description Replaces the listed versions. The first one becomes active.
+     */
+    public setItems(items: IFileHistoryViewItem<T>[]): void {
+        this._items = items;
+        this._activeIndex = 0;
+        this._restore.disabled = items.length === 0;
+        this.__renderList();
+    }
+
+    /**
+     * @description Renders the difference of the active version. Long runs of
+     * unchanged lines are collapsed.
+     */
+    public setDiff(diffs: ILineDiff[]): void {
+        DomUtility.Modifiers.clearChildrenNodes(this._diff);
+
+        const context = FileHistoryView.CONTEXT_LINES;
+        const changed = diffs.map(diff => diff.type !== LineDiffType.Equal);
+        const visible = diffs.map((_, index) => {
+            for (let i = Math.max(0, index - context); i <= Math.min(diffs.length - 1, index + context); i++) {
+                if (changed[i]) {
+                    return true;
+                }
+            }
+            return false;
+        });
+
+        if (!changed.some(isChanged => isChanged)) {
+            this.setMessage('This version is the same as the current content.');
+            return;
+        }
+
+        let collapsed = 0;
+        const flushCollapsed = () => {
+            if (collapsed > 0) {
+                this._diff.appendChild(__createLine('file-history-collapsed', `⋯ ${collapsed} unchanged lines`));
+                collapsed = 0;
+            }
+        };
+
+        diffs.forEach((diff, index) => {
+            if (!visible[index]) {
+                collapsed++;
+                return;
+            }
+            flushCollapsed();
+            switch (diff.type) {
+                case LineDiffType.Equal:
+                    this._diff.appendChild(__createLine('file-history-line', `  ${diff.text}`));
+                    break;
+                case LineDiffType.Insert:
+                    this._diff.appendChild(__createLine('file-history-line inserted', `+ ${diff.text}`));
+                    break;
+                case LineDiffType.Delete:
+                    this._diff.appendChild(__createLine('file-history-line deleted', `- ${diff.text}`));
+                    break;
+            }
+        });
+        flushCollapsed();
+    }
+
+    /**
+     * @description Shows a message in place of the difference.
+     */
+    public setMessage(message: string): void {
+        DomUtility.Modifiers.clearChildrenNodes(this._diff);
+        this._diff.appendChild(__createLine('file-history-message', message));
+    }
+
+    // [private helper methods]
+
+    private __registerListeners(): void {
+        this.__register(addDisposableListener(this._element, EventType.keydown, e => {
+            switch (e.key) {
+                case 'ArrowDown':
+                case 'ArrowUp': {
+                    e.preventDefault();
+                    this.__moveActive(e.key === 'ArrowDown' ? 1 : -1);
+                    break;
+                }
+                case 'Enter': {
+                    e.preventDefault();
+                    this.__restore();
+                    break;
+                }
+                case 'Escape': {
+                    e.preventDefault();
+                    this.hide();
+                    break;
+                }
+            }
+        }));
+
+        this.__register(addDisposableListener(this._restore, EventType.click, () => this.__restore()));
+
+        // clicking outside hides the widget
+        this.__register(addDisposableListener(window, EventType.mousedown, e => {
+            if (this._visible && !this._element.contains(<Node>e.target)) {
+                this.hide();
+            }
+        }, true));
+    }
+
+    private __moveActive(offset: number): void {
+        if (this._items.length === 0) {
+            return;
+        }
+        this.__setActive(Numbers.clamp(this._activeIndex + offset, 0, this._items.length - 1));
+    }
+
+    private __setActive(index: number): void {
+        if (index === this._activeIndex) {
+            return;
+        }
+        this._activeIndex = index;
+        this.__updateActive();
+        this._onDidChangeActive.fire(this._items[index]!.entry);
+    }
+
+    private __restore(): void {
+        const item = this.activeItem;
+        if (item) {
+            this._onDidRestore.fire(item.entry);
+        }
+    }
+
+    private __renderList(): void {
+        DomUtility.Modifiers.clearChildrenNodes(this._list);
+
+        this._items.forEach((item, index) => {
+            const row = document.createElement('div');
+            row.className = 'file-history-item';
+            row.appendChild(__createLine('file-history-label', item.label));
+            row.appendChild(__createLine('file-history-description', item.description));
+
+            // rows are re-rendered on every change, no need to dispose.
+            row.addEventListener(EventType.mousedown, e => e.preventDefault());
+            row.addEventListener(EventType.click, () => this.__setActive(index));
+            row.addEventListener(EventType.doubleClick, () => this.__restore());
+
+            this._list.appendChild(row);
+        });
+
+        this.__updateActive();
+    }
+
+    private __updateActive(): void {
+        Array.from(this._list.children).forEach((row, index) => {
+            row.classList.toggle('active', index === this._activeIndex);
+        });
+        this._list.children[this._activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }
+}
+
+function __createLine(className: string, text: string): HTMLElement {
+    const element = document.createElement('div');
+    element.className = className;
+    element.textContent = text;
+    return element;
+}
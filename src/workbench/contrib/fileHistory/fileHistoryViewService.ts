@@ -0,0 +1,28 @@
+import { URI } from "src/base/common/files/uri";
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+
+export const IFileHistoryViewService = createService<IFileHistoryViewService>('file-history-view-service');
+
+/**
+ * An interface only for {@link FileHistoryViewService}.
+ */
+export interface IFileHistoryViewService extends IService {
+
+    /**
+     * @description Shows the local history of the given resource (or the one
+     * of the focused editor).
+     */
+    show(uri?: URI): Promise<void>;
+
+    /**
+     * @description Shows the difference between the file on the disk and the
+     * unsaved content of its opened document. Restoring takes the version on
+     * the disk and discards the unsaved changes.
+     */
+    compareWithDisk(uri: URI): Promise<void>;
+
+    /**
+     * @description Hides the local history view.
+     */
+    hide(): void;
+}
@@ -5,12 +5,18 @@ export interface IHeadingItem<TItem extends IHeadingItem<TItem>> {
 
     /**
      * The unique representation of the target.
-     * @note The number is essentially the line number of the heading in the
-     *       original file.
-     * @example `123`
+     * @note The number is essentially the index of the heading among all the
+     *       headings in the document.
+     * @example `12`
      */
     readonly id: number;
 
+    /**
+     * The position right before the heading node in the editor document.
+     * @note The position is kept up to date when the document changes.
+     */
+    readonly position: number;
+
     /**
      * The name of the target.
      * @example `This is a Heading name`
@@ -47,15 +53,17 @@ export class HeadingItem implements IHeadingItem<HeadingItem> {
     private readonly _id: number;
     private readonly _name: string;
     private readonly _depth: number;
+    private _position: number;
 
     private _parent: HeadingItem | null;
     private _children: HeadingItem[];
 
     // [constructor]
-    constructor(id: number, name: string, depth: number) {
+    constructor(id: number, name: string, depth: number, position: number = -1) {
         this._id = id;
         this._name = name;
         this._depth = depth;
+        this._position = position;
         this._parent = null;
         this._children = [];
     }
@@ -72,6 +80,10 @@ export class HeadingItem implements IHeadingItem<HeadingItem> {
         return this._depth;
     }
 
+    get position(): number {
+        return this._position;
+    }
+
     get children(): HeadingItem[] {
         return this._children;
     }
@@ -87,6 +99,10 @@ export class HeadingItem implements IHeadingItem<HeadingItem> {
         return this._parent.root;
     }
 
+    public setPosition(position: number): void {
+        this._position = position;
+    }
+
     public addChild(child: HeadingItem): void {
         this._children.push(child);
         child._parent = this;
@@ -1,7 +1,6 @@
 import { ITreeNode } from "src/base/browser/secondary/tree/tree";
 import { ITreeListRenderer } from "src/base/browser/secondary/tree/treeListRenderer";
 import { IListViewMetadata, RendererType } from "src/base/browser/secondary/listView/listRenderer";
-import { FuzzyScore } from "src/base/common/fuzzy";
 import { Icons } from "src/base/browser/icon/icons";
 import { getIconClass } from "src/base/browser/icon/iconRegistry";
 import { IListItemProvider } from "src/base/browser/secondary/listView/listItemProvider";
@@ -17,7 +16,7 @@ interface IHeadingItemMetadata extends IListViewMetadata {}
 /**
  * @class The type of renderer used for {@link OutlineService}.
  */
-export class HeadingItemRenderer implements ITreeListRenderer<HeadingItem, FuzzyScore, IHeadingItemMetadata> {
+export class HeadingItemRenderer implements ITreeListRenderer<HeadingItem, void, IHeadingItemMetadata> {
 
     public readonly type: RendererType = HeadingItemRendererType;
 
@@ -44,7 +43,7 @@ export class HeadingItemRenderer implements ITreeListRenderer<HeadingItem, Fuzzy
         text.setAttribute('level', heading.depth.toString());
     }
 
-    public updateIndent(item: ITreeNode<HeadingItem, FuzzyScore>, indentElement: HTMLElement): void {
+    public updateIndent(item: ITreeNode<HeadingItem, void>, indentElement: HTMLElement): void {
         if (item.collapsible) {
             indentElement.classList.add(...getIconClass(Icons.ArrowRight));
         } else {
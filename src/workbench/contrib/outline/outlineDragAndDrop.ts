@@ -0,0 +1,129 @@
+import { DomUtility } from "src/base/browser/basic/dom";
+import { DragOverEffect, IDragOverResult, IListDragAndDropProvider } from "src/base/browser/secondary/listWidget/listWidgetDragAndDrop";
+import { Disposable, IDisposable, toDisposable } from "src/base/common/dispose";
+import { Mutable } from "src/base/common/utilities/type";
+import { HeadingItem } from "src/workbench/contrib/outline/headingItem";
+import { IOutlineTree, OutlineDropPosition } from "src/workbench/contrib/outline/outlineTree";
+
+/**
+ * @class A type of {@link IListDragAndDropProvider} to support drag and drop
+ * for {@link OutlineTree}. Dropping a heading moves its entire section within
+ * the editor document.
+ *
+ * @note Dropping on the upper half of a row inserts before that heading,
+ * dropping on the lower half inserts after its section.
+ */
+export class OutlineDragAndDropProvider extends Disposable implements IListDragAndDropProvider<HeadingItem> {
+
+    // [fields]
+
+    public static readonly INSERTION_HEIGHT = 2;
+
+    /** make sure {@link bindWithTree} is called before access. */
+    private readonly _tree!: IOutlineTree;
+
+    /**
+     * The resolved drop destination from the previous 'onDragOver'.
+     */
+    private _insertion?: { readonly target: HeadingItem, readonly where: OutlineDropPosition };
+    private _indicator: IDisposable = Disposable.NONE;
+
+    // [constructor]
+
+    constructor() {
+        super();
+    }
+
+    // [public methods]
+
+    public getDragData(item: HeadingItem): string | null {
+        return item.id.toString();
+    }
+
+    public getDragTag(items: HeadingItem[]): string {
+        if (items.length === 1) {
+            return items[0]!.name;
+        }
+        return String(`Total ${items.length} selections`);
+    }
+
+    public onDragOver(event: DragEvent, currentDragItems: HeadingItem[], targetOver?: HeadingItem, targetIndex?: number): IDragOverResult {
+        this.__derender();
+        this._insertion = undefined;
+
+        const heading = currentDragItems[0];
+        if (currentDragItems.length !== 1 || !heading || !targetOver || targetIndex === undefined) {
+            return { allowDrop: false };
+        }
+
+        const top = this._tree.getItemRenderTop(targetIndex);
+        const height = this._tree.getItemHeight(targetIndex);
+        const mouseY = event.clientY - DomUtility.Attrs.getViewportTop(this._tree.DOMElement);
+        const nearTop = mouseY < top + height / 2;
+
+        /**
+         * Inserting below an expanded heading visually means inserting before
+         * its first child, not after its entire section.
+         */
+        let target = targetOver;
+        let where: OutlineDropPosition = nearTop ? 'before' : 'after';
+        if (!nearTop && this._tree.isCollapsible(targetOver) && !this._tree.isCollapsed(targetOver)) {
+            target = this._tree.getItem(targetIndex + 1);
+            where = 'before';
+        }
+
+        if (!this._tree.canMoveHeading(heading, target, where)) {
+            return { allowDrop: false };
+        }
+
+        this._insertion = { target, where };
+        this.__renderInsertionAt(nearTop ? top : top + height);
+        return { allowDrop: true, effect: DragOverEffect.Move };
+    }
+
+    public onDragDrop(event: DragEvent, currentDragItems: HeadingItem[]): void {
+        const insertion = this._insertion;
+        const heading = currentDragItems[0];
+        this.__derender();
+        this._insertion = undefined;
+
+        if (insertion && heading && currentDragItems.length === 1) {
+            this._tree.moveHeading(heading, insertion.target, insertion.where);
+        }
+    }
+
+    public onDragEnd(event: DragEvent): void {
+        this.__derender();
+        this._insertion = undefined;
+    }
+
+    public override dispose(): void {
+        super.dispose();
+        this.__derender();
+    }
+
+    // [public helper methods]
+
+    public bindWithTree(tree: IOutlineTree): void {
+        (<Mutable<typeof tree>>this._tree) = tree;
+    }
+
+    // [private helper methods]
+
+    private __derender(): void {
+        this._indicator.dispose();
+        this._indicator = Disposable.NONE;
+    }
+
+    private __renderInsertionAt(top: number): void {
+        const height = OutlineDragAndDropProvider.INSERTION_HEIGHT;
+
+        const element = document.createElement('div');
+        element.className = 'outline-insertion';
+        element.style.top = `${Math.max(0, top - height / 2)}px`;
+        element.style.height = `${height}px`;
+        this._tree.DOMElement.appendChild(element);
+
+        this._indicator = toDisposable(() => element.remove());
+    }
+}
@@ -6,12 +6,16 @@ import { ITreeNodeItem } from "src/base/browser/secondary/tree/tree";
 import { ITreeListRenderer } from "src/base/browser/secondary/tree/treeListRenderer";
 import { Time } from "src/base/common/date";
 import { Emitter, Register } from "src/base/common/event";
+import { DisposableBucket } from "src/base/common/dispose";
 import { Stack } from "src/base/common/structures/stack";
 import { UnbufferedScheduler } from "src/base/common/utilities/async";
 import { assert } from "src/base/common/utilities/panic";
 import { isNonNullable } from "src/base/common/utilities/type";
 import { HeadingItem } from "src/workbench/contrib/outline/headingItem";
 import { IEditorWidget } from "src/editor/editorWidget";
+import { TokenEnum } from "src/editor/common/markdown";
+import { ProseEditorView, ProseNode, ProseTextSelection, ProseTransaction } from "src/editor/common/proseMirror";
+import { getHeadingSection, moveHeadingSection, shiftHeadingSection } from "src/editor/common/headingSection";
 
 /**
  * An interface only for {@link OutlineTree}.
@@ -22,6 +26,69 @@ export interface IOutlineTree extends IMultiTree<HeadingItem, void> {
      * Fires when the item has been hovered.
      */
     readonly onDidHover: Register<IOutlineHoverEvent>;
+
+    /**
+     * @description Binds the outline to the given editor. The outline then 
+     * keeps tracking the document, the cursor and the viewport of the editor.
+     * @note Must be invoked again once the editor opens another file.
+     */
+    render(editor: IEditorWidget): void;
+
+    /**
+     * @description Moves the section of the given heading (the heading and all
+     * of its subordinate content) before the target heading, or after the 
+     * section of the target heading. Applied as one undoable transaction.
+     * @returns Returns false if the move is not applicable (e.g. moving into
+     * its own section).
+     */
+    moveHeading(heading: HeadingItem, target: HeadingItem, where: OutlineDropPosition): boolean;
+
+    /**
+     * @description Checks if {@link moveHeading} is applicable without 
+     * changing the document.
+     */
+    canMoveHeading(heading: HeadingItem, target: HeadingItem, where: OutlineDropPosition): boolean;
+
+    /**
+     * @description Promotes the levels of the entire section of the given 
+     * heading by one (e.g. `h2` to `h1`) as one undoable transaction.
+     * @returns Returns false if any heading would exceed the level 1.
+     */
+    promoteHeading(heading: HeadingItem): boolean;
+
+    /**
+     * @description Demotes the levels of the entire section of the given 
+     * heading by one (e.g. `h1` to `h2`) as one undoable transaction.
+     * @returns Returns false if any heading would exceed the level 6.
+     */
+    demoteHeading(heading: HeadingItem): boolean;
+}
+
+/**
+ * Where a heading is dropped relative to the target heading.
+ */
+export type OutlineDropPosition = 'before' | 'after';
+
+/**
+ * A heading collected from the editor document.
+ */
+export interface IOutlineHeading {
+
+    /**
+     * The position right before the heading node.
+     */
+    readonly position: number;
+
+    /**
+     * The heading level.
+     * @range [1, 6]
+     */
+    readonly level: number;
+
+    /**
+     * The text content of the heading.
+     */
+    readonly name: string;
 }
 
 export interface IOutlineHoverEvent {
@@ -70,6 +137,18 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
     private _hoverBox?: HTMLElement;
     private _hoverBoxScheduler!: UnbufferedScheduler<IOutlineHoverEvent>;
 
+    /**
+     * The bound editor and the listeners to it.
+     */
+    private _editor?: IEditorWidget;
+    private _editorListeners?: DisposableBucket;
+    private _viewportScheduler!: UnbufferedScheduler<void>;
+
+    /**
+     * All the heading items in the document order.
+     */
+    private _items: HeadingItem[];
+
     // [constructor]
 
     constructor(
@@ -86,6 +165,7 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
         const root = buildOutlineTree([]);
         super(container, root.data, renderers, itemProvider, opts);
         this._container = container;
+        this._items = [];
 
         // rendering
         this.splice(root.data, root.children);
@@ -98,10 +178,35 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
     // [public methods]
 
     public render(editor: IEditorWidget): void {
-        const content = editor.model.getContent();
-        const root = buildOutlineTree(content);
-        this.splice(this.root, root.children);
-        this.layout();
+        this._editor = editor;
+        this.release(this._editorListeners);
+        this._editorListeners = this.__register(new DisposableBucket());
+        
+        const listeners = this._editorListeners;
+        const view = editor.view.editor;
+
+        listeners.register(editor.onDidContentChange(() => this.__update(false)));
+        listeners.register(editor.onDidSelectionChange(e => this.__highlight(e.view.state.selection.head)));
+        listeners.register(addDisposableListener(view.overlayContainer, 'scroll', () => this._viewportScheduler.schedule()));
+
+        this.__update(true);
+        this.__highlight(view.internalView.state.selection.head);
+    }
+
+    public moveHeading(heading: HeadingItem, target: HeadingItem, where: OutlineDropPosition): boolean {
+        return this.__moveHeading(heading, target, where, true);
+    }
+
+    public canMoveHeading(heading: HeadingItem, target: HeadingItem, where: OutlineDropPosition): boolean {
+        return this.__moveHeading(heading, target, where, false);
+    }
+
+    public promoteHeading(heading: HeadingItem): boolean {
+        return this.__shiftHeading(heading, -1);
+    }
+
+    public demoteHeading(heading: HeadingItem): boolean {
+        return this.__shiftHeading(heading, 1);
     }
 
     public override dispose(): void {
@@ -111,6 +216,152 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
 
     // [private helper methods]
 
+    /**
+     * @description Recollects the headings from the editor document. The tree
+     * is only re-rendered when the headings are changed, otherwise only the
+     * positions of the items are updated.
+     */
+    private __update(force: boolean): void {
+        const editor = this._editor;
+        if (!editor) {
+            return;
+        }
+
+        const headings = collectOutlineHeadings(editor.view.editor.internalView.state.doc);
+        
+        const unchanged = !force 
+            && headings.length === this._items.length 
+            && headings.every((heading, index) => {
+                const item = this._items[index]!;
+                return item.name === heading.name && item.depth === heading.level;
+            });
+
+        if (unchanged) {
+            headings.forEach((heading, index) => this._items[index]!.setPosition(heading.position));
+            return;
+        }
+
+        const root = buildOutlineTree(headings);
+        this._items = [];
+        const collect = (node: ITreeNodeItem<HeadingItem>) => {
+            for (const child of node.children ?? []) {
+                this._items.push(child.data);
+                collect(child);
+            }
+        };
+        collect(root);
+
+        this.splice(this.root, root.children);
+        this.layout();
+    }
+
+    private __moveHeading(heading: HeadingItem, target: HeadingItem, where: OutlineDropPosition, apply: boolean): boolean {
+        const view = this._editor?.view.editor.internalView;
+        if (!view) {
+            return false;
+        }
+
+        const state = view.state;
+        let destination = target.position;
+        if (where === 'after') {
+            const section = getHeadingSection(state.doc, target.position);
+            if (!section) {
+                return false;
+            }
+            destination = section.to;
+        }
+
+        return moveHeadingSection(state, heading.position, destination, apply ? tr => this.__dispatch(view, tr) : undefined);
+    }
+
+    private __shiftHeading(heading: HeadingItem, delta: number): boolean {
+        const view = this._editor?.view.editor.internalView;
+        if (!view) {
+            return false;
+        }
+        return shiftHeadingSection(view.state, heading.position, delta, tr => this.__dispatch(view, tr));
+    }
+
+    private __dispatch(view: ProseEditorView, tr: ProseTransaction): void {
+        view.dispatch(tr);
+        view.focus();
+    }
+
+    /**
+     * @description Selects the heading that contains the given position.
+     */
+    private __highlight(position: number): void {
+        let target: HeadingItem | undefined;
+        for (const item of this._items) {
+            if (item.position > position) {
+                break;
+            }
+            target = item;
+        }
+        
+        if (!target) {
+            if (this.getSelections().length > 0) {
+                this.setSelections([]);
+            }
+            return;
+        }
+
+        if (this.getSelections()[0] !== target) {
+            this.setSelections([target]);
+            this.reveal(target);
+        }
+    }
+
+    /**
+     * @description Selects the last heading that has been scrolled over the 
+     * top of the editor viewport.
+     */
+    private __highlightByViewport(): void {
+        const editor = this._editor;
+        if (!editor || this._items.length === 0) {
+            return;
+        }
+
+        const view = editor.view.editor.internalView;
+        const viewportTop = editor.view.editor.overlayContainer.getBoundingClientRect().top;
+        
+        let position = 0;
+        for (const item of this._items) {
+            const top = __tryGetTop(view, item.position);
+            if (top === undefined || top > viewportTop + HeadingItemViewportOffset) {
+                break;
+            }
+            position = item.position;
+        }
+        this.__highlight(position);
+    }
+
+    /**
+     * @description Scrolls the editor to the given heading and places the 
+     * cursor at the end of the heading.
+     */
+    private __revealInEditor(heading: HeadingItem): void {
+        const editor = this._editor;
+        if (!editor) {
+            return;
+        }
+
+        const view = editor.view.editor.internalView;
+        const node = view.state.doc.nodeAt(heading.position);
+        if (!node || node.type.name !== TokenEnum.Heading) {
+            return;
+        }
+
+        const selection = ProseTextSelection.create(view.state.doc, heading.position + node.nodeSize - 1);
+        view.dispatch(view.state.tr.setSelection(selection));
+        
+        const dom = view.nodeDOM(heading.position);
+        if (dom instanceof HTMLElement) {
+            dom.scrollIntoView({ block: 'start' });
+        }
+        view.focus();
+    }
+
     private __registerListeners(): void {
 
         this.__register(this.onDidChangeItemHover(e => {
@@ -151,8 +402,15 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
             if (isNonNullable(currEvent) && currEvent.heading.id === e.data?.id) {
                 this._hoverBoxScheduler.schedule(currEvent);
             }
+
+            if (e.data) {
+                this.__revealInEditor(e.data);
+            }
         }));
 
+        // viewport tracking
+        this._viewportScheduler = this.__register(new UnbufferedScheduler(Time.ms(50), () => this.__highlightByViewport()));
+
         // hover box deferred rendering
         this._hoverBoxScheduler = this.__register(new UnbufferedScheduler(Time.sec(0.8), e => {
             if (e.isOverflow) {
@@ -197,14 +455,51 @@ export class OutlineTree extends MultiTree<HeadingItem, void> implements IOutlin
 }
 
 /**
- * @description Converts an array of markdown content to a tree structure of
+ * The distance in pixels below the top of the editor viewport that a heading 
+ * is still considered as being scrolled over.
+ */
+const HeadingItemViewportOffset = 10;
+
+function __tryGetTop(view: ProseEditorView, position: number): number | undefined {
+    try {
+        return view.coordsAtPos(position + 1).top;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * @description Collects all the headings from the given document in the
+ * document order. Headings nested in other blocks (e.g. blockquotes) are also
+ * included.
+ */
+export function collectOutlineHeadings(doc: ProseNode): IOutlineHeading[] {
+    const headings: IOutlineHeading[] = [];
+    doc.descendants((node, position) => {
+        if (node.type.name === TokenEnum.Heading) {
+            headings.push({ 
+                position: position, 
+                level: node.attrs['level'], 
+                name: node.textContent.trim(),
+            });
+            return false;
+        }
+        
+        // no headings inside of a textblock
+        return !node.isTextblock;
+    });
+    return headings;
+}
+
+/**
+ * @description Converts an array of headings to a tree structure of
  * {@link HeadingItem}.
- * @param content Array of markdown lines to be converted.
+ * @param headings Array of headings in the document order.
  * @returns The root node of the tree structure for later rendering purpose.
  *
  * @note Export for unit test purpose.
  */
-export function buildOutlineTree(content: string[]): ITreeNodeItem<HeadingItem> {
+export function buildOutlineTree(headings: readonly IOutlineHeading[]): ITreeNodeItem<HeadingItem> {
     const root: ITreeNodeItem<HeadingItem> = {
         data: new HeadingItem(0, HeadingItem.ROOT_ID, 0),
         children: []
@@ -213,28 +508,13 @@ export function buildOutlineTree(content: string[]): ITreeNodeItem<HeadingItem>
     const stack = new Stack<ITreeNodeItem<HeadingItem>>();
     stack.push(root);
 
-    content.forEach((line, lineNumber) => {
-        let level = 0;
-        while (line.charAt(level) === '#') {
-            level++;
-
-            // not a heading (perf: avoid blocking when a line start with countless of `#`)
-            if (level > 6) {
-                return;
-            }
-        }
-
-        // not a heading
-        if (level === 0) {
-            return;
-        }
-
-        const name = line.slice(level + 1, undefined).trim();
-        const item = new HeadingItem(lineNumber, name, level);
+    headings.forEach((heading, index) => {
+        // the root takes the id 0
+        const item = new HeadingItem(index + 1, heading.name, heading.level, heading.position);
         const node = { data: item, children: [] } as ITreeNodeItem<HeadingItem>;
 
         // Backtrack to find the correct parent level
-        while (stack.top().data.depth >= level) {
+        while (stack.top().data.depth >= heading.level) {
             stack.pop();
         }
 
@@ -0,0 +1,132 @@
+import { FileType } from "src/base/common/files/file";
+import { URI } from "src/base/common/files/uri";
+import { fuzzyScore, IFilterOpts, isFiltered } from "src/base/common/fuzzy";
+import { ICancellationToken } from "src/base/common/utilities/cancellation";
+import { IFileService } from "src/platform/files/common/fileService";
+
+export interface IRankedFile {
+    readonly uri: URI;
+
+    /**
+     * The path relative to the root.
+     */
+    readonly relativePath: string;
+
+    /**
+     * The indice of the matched characters within {@link relativePath}.
+     */
+    readonly matches: readonly number[];
+
+    /**
+     * Whether the file is in the recently opened list.
+     */
+    readonly recent: boolean;
+}
+
+/**
+ * @description Collects every file under the given root recursively.
+ * @param filters The files and directories whose names are filtered are
+ *                skipped.
+ * @param maxResults Stops collecting once the number of files is reached.
+ *
+ * @note Directories that cannot be read are skipped.
+ */
+export async function collectFiles(
+    fileService: IFileService,
+    root: URI,
+    filters?: IFilterOpts,
+    token?: ICancellationToken,
+    maxResults: number = Infinity,
+): Promise<URI[]> {
+    const files: URI[] = [];
+
+    const visit = async (dir: URI): Promise<void> => {
+        const children = await fileService.readDir(dir).unwrapOr([]);
+        for (const [name, type] of children) {
+            if (token?.isCancelled() || files.length >= maxResults) {
+                return;
+            }
+
+            if (filters && isFiltered(name, filters)) {
+                continue;
+            }
+
+            const uri = URI.join(dir, name);
+            if (type === FileType.DIRECTORY) {
+                await visit(uri);
+            } else if (type === FileType.FILE) {
+                files.push(uri);
+            }
+        }
+    };
+
+    await visit(root);
+    return files;
+}
+
+/**
+ * @description Fuzzy-matches the query against the given files and sorts the
+ * matched ones by the following orders:
+ *      1. the recently opened files, the most recent one at the first,
+ *      2. files whose name matches before files whose path matches only,
+ *      3. higher scores,
+ *      4. shorter paths and
+ *      5. paths in alphabetical order.
+ *
+ * @param query The query typed by the user. Spaces are ignored.
+ * @param root The root that the relative paths are based on.
+ * @param recent The recently opened files, the most recent one at the first.
+ */
+export function rankFiles(query: string, root: URI, files: readonly URI[], recent: readonly URI[]): IRankedFile[] {
+    const pattern = query.replace(/\s/g, '');
+    const recentOrder = new Map(recent.map((uri, index) => [URI.toString(uri), index]));
+
+    const ranked: (IRankedFile & { order: number, nameMatched: boolean, score: number })[] = [];
+    for (const uri of files) {
+        const relativePath = URI.relative(root, uri) ?? URI.basename(uri);
+        const nameStart = relativePath.lastIndexOf('/') + 1;
+
+        // try to match the file name first, then the entire path.
+        let nameMatched = true;
+        let result = fuzzyScore(pattern, relativePath.slice(nameStart));
+        if (result) {
+            result = { score: result.score, matches: result.matches.map(index => index + nameStart) };
+        } else {
+            nameMatched = false;
+            result = fuzzyScore(pattern, relativePath);
+        }
+
+        if (!result) {
+            continue;
+        }
+
+        const order = recentOrder.get(URI.toString(uri)) ?? Infinity;
+        ranked.push({
+            uri: uri,
+            relativePath: relativePath,
+            matches: result.matches,
+            recent: order !== Infinity,
+            order: order,
+            nameMatched: nameMatched,
+            score: result.score,
+        });
+    }
+
+    ranked.sort((a, b) => {
+        if (a.order !== b.order) {
+            return a.order < b.order ? -1 : 1;
+        }
+        if (a.nameMatched !== b.nameMatched) {
+            return a.nameMatched ? -1 : 1;
+        }
+        if (a.score !== b.score) {
+            return b.score - a.score;
+        }
+        if (a.relativePath.length !== b.relativePath.length) {
+            return a.relativePath.length - b.relativePath.length;
+        }
+        return a.relativePath.localeCompare(b.relativePath);
+    });
+
+    return ranked.map(({ uri, relativePath, matches, recent }) => ({ uri, relativePath, matches, recent }));
+}
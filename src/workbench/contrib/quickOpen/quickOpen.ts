@@ -0,0 +1,248 @@
+import { Disposable } from 'src/base/common/dispose';
+import { URI } from 'src/base/common/files/uri';
+import { ILogService } from 'src/base/common/logger';
+import { Result } from 'src/base/common/result';
+import { CancellationToken } from 'src/base/common/utilities/cancellation';
+import { errorToMessage } from 'src/base/common/utilities/panic';
+import { isString } from 'src/base/common/utilities/type';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { StatusKey } from 'src/platform/status/common/status';
+import { collectFiles, IRankedFile, rankFiles } from 'src/workbench/contrib/quickOpen/fileSearch';
+import { IQuickOpenService } from 'src/workbench/contrib/quickOpen/quickOpenService';
+import { IQuickPickItem, QuickPick } from 'src/workbench/contrib/quickOpen/quickPick';
+import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { EditorPaneModel } from 'src/workbench/services/editorPane/editorPaneModel';
+import { IFileTreeService } from 'src/workbench/services/fileTree/treeService';
+import { ILayoutService } from 'src/workbench/services/layout/layoutService';
+import { WorkbenchConfiguration } from 'src/workbench/services/workbench/configuration.register';
+
+interface IFileQuickPickItem extends IQuickPickItem {
+    readonly file: IRankedFile;
+}
+
+/**
+ * The editors before the quick open is shown, restored once the quick open is
+ * hidden without opening any file.
+ */
+interface IPreviousEditors {
+    readonly focused: EditorPaneModel | undefined;
+    readonly preview: EditorPaneModel | undefined;
+}
+
+/**
+ * @class Opens files under the root of the explorer by their names. The files
+ * are collected every time the widget is shown and fuzzy-matched as the user
+ * types. Moving through the results with the arrow keys previews the file.
+ * The recently opened files are listed first.
+ *
+ * @note The recently opened files are kept separately from the recent opened
+ *       list of {@link StatusKey.OpenRecent}.
+ */
+export class QuickOpenService extends Disposable implements IQuickOpenService {
+
+    declare _serviceMarker: undefined;
+
+    // [fields]
+
+    public static readonly MAX_FILES = 20000;
+    public static readonly MAX_RECENT = 50;
+
+    private _quickPick?: QuickPick<IFileQuickPickItem>;
+
+    /** The token of the current file collecting. */
+    private _token?: CancellationToken;
+    private _root?: URI;
+    private _files: URI[];
+
+    /** The recently opened files, the most recent first. */
+    private _recent?: URI[];
+
+    /** Defined once a file is previewed, until the quick open is hidden. */
+    private _previous?: IPreviousEditors;
+
+    // [constructor]
+
+    constructor(
+        @ILayoutService private readonly layoutService: ILayoutService,
+        @IFileService private readonly fileService: IFileService,
+        @IFileTreeService private readonly fileTreeService: IFileTreeService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService,
+        @IHostService private readonly hostService: IHostService,
+        @ILogService private readonly logService: ILogService,
+    ) {
+        super();
+        this._files = [];
+    }
+
+    // [public methods]
+
+    public override dispose(): void {
+        super.dispose();
+        this._token?.cancel();
+    }
+
+    public async show(): Promise<void> {
+        const quickPick = this.__getQuickPick();
+        if (!quickPick.visible) {
+            this._previous = undefined;
+        }
+        quickPick.show('');
+        quickPick.setItems([]);
+
+        const root = this.fileTreeService.root;
+        if (!root) {
+            quickPick.setMessage('Open a folder to search its files by name.');
+            return;
+        }
+
+        this._token?.cancel();
+        const token = new CancellationToken();
+        this._token = token;
+        this._root = undefined;
+        this._files = [];
+        quickPick.setMessage('Searching...');
+
+        const filters = {
+            exclude: this.configurationService.get<string[]>(WorkbenchConfiguration.ExplorerViewExclude, []).filter(s => !!s).map(s => new RegExp(s)),
+            include: this.configurationService.get<string[]>(WorkbenchConfiguration.ExplorerViewInclude, []).filter(s => !!s).map(s => new RegExp(s)),
+        };
+
+        const [files, recent] = await Promise.all([
+            collectFiles(this.fileService, root, filters, token, QuickOpenService.MAX_FILES),
+            this._recent ?? this.__readRecent(),
+        ]);
+        if (token.isCancelled()) {
+            return;
+        }
+
+        this._root = root;
+        this._files = files;
+        this._recent = recent;
+
+        quickPick.setMessage('');
+        this.__update(quickPick.value);
+    }
+
+    public hide(): void {
+        this._quickPick?.hide();
+    }
+
+    // [private helper methods]
+
+    private __getQuickPick(): QuickPick<IFileQuickPickItem> {
+        if (this._quickPick) {
+            return this._quickPick;
+        }
+
+        const quickPick = this.__register(new QuickPick<IFileQuickPickItem>(this.layoutService.parentContainer, 'Search files by name'));
+        this._quickPick = quickPick;
+
+        this.__register(quickPick.onDidChangeValue(value => this.__update(value)));
+        this.__register(quickPick.onDidHide(async () => {
+            this._token?.cancel();
+            await this.__restorePrevious();
+        }));
+
+        // preview
+        this.__register(quickPick.onDidChangeActive(async item => {
+            this._previous ??= {
+                focused: this.workspaceService.getFocusedEditor(),
+                preview: this.workspaceService.getPreviewEditor(),
+            };
+            await this.workspaceService.openEditor({ uri: item.file.uri }, { focused: true, preview: true });
+            quickPick.focus();
+        }));
+
+        this.__register(quickPick.onDidAccept(async item => {
+            const uri = item.file.uri;
+            this._previous = undefined;
+            quickPick.hide();
+            await this.workspaceService.openEditor({ uri: uri }, { focused: true, preview: false });
+            await this.__addToRecent(uri);
+        }));
+
+        return quickPick;
+    }
+
+    private __update(value: string): void {
+        const quickPick = this._quickPick;
+        const root = this._root;
+        if (!quickPick || !root) {
+            return;
+        }
+
+        const ranked = rankFiles(value, root, this._files, this._recent ?? []);
+        quickPick.setItems(ranked.slice(0, QuickPick.MAX_ITEMS).map(file => __toQuickPickItem(file)));
+        quickPick.setMessage(ranked.length === 0 ? 'No matching files.' : '');
+    }
+
+    /**
+     * @description Closes the editor previewed by the quick open and focuses
+     * the previously focused editor again. The previous preview editor that is
+     * replaced by the previewing is reopened as well.
+     */
+    private async __restorePrevious(): Promise<void> {
+        const previous = this._previous;
+        this._previous = undefined;
+        if (!previous) {
+            return;
+        }
+
+        const preview = this.workspaceService.getPreviewEditor();
+        if (preview === previous.preview) {
+            return this.__focusEditor(previous.focused);
+        }
+
+        if (preview) {
+            await this.workspaceService.closeEditor(preview);
+        }
+        if (previous.preview) {
+            await this.workspaceService.openEditor(previous.preview, { focused: false, preview: true });
+        }
+        await this.__focusEditor(previous.focused);
+    }
+
+    private async __focusEditor(model: EditorPaneModel | undefined): Promise<void> {
+        if (model) {
+            await this.workspaceService.openEditor(model, { focused: true });
+        }
+    }
+
+    private async __readRecent(): Promise<URI[]> {
+        return Result.fromPromise(() => this.hostService.getApplicationStatus<unknown>(StatusKey.RecentQuickOpen)).match(
+            recent => Array.isArray(recent) ? recent.filter(uri => isString(uri)).map(uri => URI.parse(uri)) : [],
+            () => [],
+        );
+    }
+
+    private async __addToRecent(uri: URI): Promise<void> {
+        const recent = [uri, ...(this._recent ?? []).filter(each => !URI.equals(each, uri))].slice(0, QuickOpenService.MAX_RECENT);
+        this._recent = recent;
+        await Result.fromPromise(() => this.hostService.setApplicationStatus(StatusKey.RecentQuickOpen, recent.map(each => URI.toString(each)))).match<void>(
+            () => {},
+            error => this.logService.warn('QuickOpenService', 'Cannot save the recently opened files.', { error: errorToMessage(error) }),
+        );
+    }
+}
+
+function __toQuickPickItem(file: IRankedFile): IFileQuickPickItem {
+    const path = file.relativePath;
+    const nameStart = path.lastIndexOf('/') + 1;
+    const dirname = path.slice(0, Math.max(0, nameStart - 1));
+
+    let description = dirname;
+    if (file.recent) {
+        description = dirname ? `${dirname} · recently opened` : 'recently opened';
+    }
+
+    return {
+        file: file,
+        label: path.slice(nameStart),
+        labelHighlights: file.matches.filter(index => index >= nameStart).map(index => index - nameStart),
+        description: description,
+        descriptionHighlights: file.matches.filter(index => index < dirname.length),
+    };
+}
@@ -0,0 +1,20 @@
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+
+export const IQuickOpenService = createService<IQuickOpenService>('quick-open-service');
+
+/**
+ * An interface only for {@link QuickOpenService}.
+ */
+export interface IQuickOpenService extends IService {
+
+    /**
+     * @description Shows the quick-open widget that fuzzy-matches every file
+     * under the root opened by the explorer.
+     */
+    show(): Promise<void>;
+
+    /**
+     * @description Hides the quick-open widget.
+     */
+    hide(): void;
+}
@@ -0,0 +1,280 @@
+import 'src/workbench/contrib/quickOpen/media/quickPick.scss';
+import { addDisposableListener, DomUtility, EventType } from 'src/base/browser/basic/dom';
+import { Disposable } from 'src/base/common/dispose';
+import { Emitter } from 'src/base/common/event';
+import { Numbers } from 'src/base/common/utilities/number';
+
+export interface IQuickPickItem {
+    readonly label: string;
+    readonly description?: string;
+
+    /**
+     * The indice of the characters to be highlighted within {@link label}.
+     */
+    readonly labelHighlights?: readonly number[];
+
+    /**
+     * The indice of the characters to be highlighted within {@link description}.
+     */
+    readonly descriptionHighlights?: readonly number[];
+}
+
+/**
+ * @class A widget that shows an input box on the top of the window with a list
+ * of items filtered by the client. The active item can be changed by the arrow
+ * keys and accepted by the enter key or a click.
+ *
+ * @note The widget is hidden when the escape key is pressed or the user clicks
+ *       outside of it.
+ *
+ * Structure:
+ *      +---------------------------------+
+ *      | [input                        ] |
+ *      | label  description              |  <- active
+ *      | label  description              |
+ *      +---------------------------------+
+ */
+export class QuickPick<T extends IQuickPickItem> extends Disposable {
+
+    // [events]
+
+    private readonly _onDidChangeValue = this.__register(new Emitter<string>());
+    public readonly onDidChangeValue = this._onDidChangeValue.registerListener;
+
+    /** Fires when the active item is changed by the keyboard. */
+    private readonly _onDidChangeActive = this.__register(new Emitter<T>());
+    public readonly onDidChangeActive = this._onDidChangeActive.registerListener;
+
+    private readonly _onDidAccept = this.__register(new Emitter<T>());
+    public readonly onDidAccept = this._onDidAccept.registerListener;
+
+    private readonly _onDidHide = this.__register(new Emitter<void>());
+    public readonly onDidHide = this._onDidHide.registerListener;
+
+    // [fields]
+
+    public static readonly MAX_ITEMS = 100;
+
+    private readonly _element: HTMLElement;
+    private readonly _input: HTMLInputElement;
+    private readonly _list: HTMLElement;
+    private readonly _message: HTMLElement;
+
+    private _items: T[];
+    private _activeIndex: number;
+    private _visible: boolean;
+
+    // [constructor]
+
+    constructor(container: HTMLElement, placeholder: string) {
+        super();
+        this._items = [];
+        this._activeIndex = 0;
+        this._visible = false;
+
+        this._element = document.createElement('div');
+        this._element.className = 'quick-pick';
+
+        this._input = document.createElement('input');
+        this._input.className = 'quick-pick-input';
+        this._input.placeholder = placeholder;
+        this._input.spellcheck = false;
+        this._element.appendChild(this._input);
+
+        this._message = document.createElement('div');
+        this._message.className = 'quick-pick-message';
+        this._element.appendChild(this._message);
+
+        this._list = document.createElement('div');
+        this._list.className = 'quick-pick-list';
+        this._element.appendChild(this._list);
+
+        container.appendChild(this._element);
+        this.__registerListeners();
+    }
+
+    // [getter]
+
+    get value(): string {
+        return this._input.value;
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    get activeItem(): T | undefined {
+        return this._items[this._activeIndex];
+    }
+
+    // [public methods]
+
+    public override dispose(): void {
+        super.dispose();
+        this._element.remove();
+    }
+
+    /**
+     * @description Shows the widget and focuses the input.
+     * @param value The initial value of the input. The previous value is kept
+     *              if not provided.
+     */
+    public show(value?: string): void {
+        if (value !== undefined) {
+            this._input.value = value;
+        }
+        this._visible = true;
+        this._element.classList.add('visible');
+        this.focus();
+        this._input.select();
+    }
+
+    public hide(): void {
+        if (!this._visible) {
+            return;
+        }
+        this._visible = false;
+        this._element.classList.remove('visible');
+        this._onDidHide.fire();
+    }
+
+    public focus(): void {
+        this._input.focus();
+    }
+
+    public setItems(items: T[]): void {
+        this._items = items.slice(0, QuickPick.MAX_ITEMS);
+        this._activeIndex = 0;
+        this.__render();
+    }
+
+    /**
+     * @description Shows a message under the input, or removes it if the
+     * message is empty.
+     */
+    public setMessage(message: string): void {
+        this._message.textContent = message;
+        this._message.classList.toggle('visible', message.length > 0);
+    }
+
+    // [private helper methods]
+
+    private __registerListeners(): void {
+        this.__register(addDisposableListener(this._input, EventType.input, () => {
+            this._onDidChangeValue.fire(this._input.value);
+        }));
+
+        this.__register(addDisposableListener(this._input, EventType.keydown, e => {
+            switch (e.key) {
+                case 'ArrowDown':
+                case 'ArrowUp': {
+                    e.preventDefault();
+                    this.__moveActive(e.key === 'ArrowDown' ? 1 : -1);
+                    break;
+                }
+                case 'Enter': {
+                    e.preventDefault();
+                    this.__accept(this.activeItem);
+                    break;
+                }
+                case 'Escape': {
+                    e.preventDefault();
+                    this.hide();
+                    break;
+                }
+            }
+        }));
+
+        // clicking outside hides the widget
+        this.__register(addDisposableListener(window, EventType.mousedown, e => {
+            if (this._visible && !this._element.contains(<Node>e.target)) {
+                this.hide();
+            }
+        }, true));
+    }
+
+    private __moveActive(offset: number): void {
+        if (this._items.length === 0) {
+            return;
+        }
+
+        const index = Numbers.clamp(this._activeIndex + offset, 0, this._items.length - 1);
+        if (index === this._activeIndex) {
+            return;
+        }
+
+        this._activeIndex = index;
+        this.__updateActive();
+        this._onDidChangeActive.fire(this._items[index]!);
+    }
+
+    private __accept(item: T | undefined): void {
+        if (item) {
+            this._onDidAccept.fire(item);
+        }
+    }
+
+    private __render(): void {
+        DomUtility.Modifiers.clearChildrenNodes(this._list);
+
+        this._items.forEach(item => {
+            const row = document.createElement('div');
+            row.className = 'quick-pick-item';
+
+            const label = document.createElement('span');
+            label.className = 'quick-pick-label';
+            __renderHighlights(label, item.label, item.labelHighlights);
+            row.appendChild(label);
+
+            if (item.description) {
+                const description = document.createElement('span');
+                description.className = 'quick-pick-description';
+                __renderHighlights(description, item.description, item.descriptionHighlights);
+                row.appendChild(description);
+            }
+
+            // rows are re-rendered on every change, no need to dispose.
+            row.addEventListener(EventType.mousedown, e => e.preventDefault());
+            row.addEventListener(EventType.click, () => this.__accept(item));
+
+            this._list.appendChild(row);
+        });
+
+        this.__updateActive();
+    }
+
+    private __updateActive(): void {
+        Array.from(this._list.children).forEach((row, index) => {
+            row.classList.toggle('active', index === this._activeIndex);
+        });
+        this._list.children[this._activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }
+}
+
+function __renderHighlights(element: HTMLElement, text: string, highlights?: readonly number[]): void {
+    if (!highlights || highlights.length === 0) {
+        element.textContent = text;
+        return;
+    }
+
+    const highlighted = new Set(highlights);
+    let start = 0;
+    while (start < text.length) {
+        const isHighlight = highlighted.has(start);
+        let end = start + 1;
+        while (end < text.length && highlighted.has(end) === isHighlight) {
+            end++;
+        }
+
+        const part = text.slice(start, end);
+        if (isHighlight) {
+            const mark = document.createElement('span');
+            mark.className = 'quick-pick-highlight';
+            mark.textContent = part;
+            element.appendChild(mark);
+        } else {
+            element.appendChild(document.createTextNode(part));
+        }
+        start = end;
+    }
+}
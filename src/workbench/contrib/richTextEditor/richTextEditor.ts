@@ -1,18 +1,46 @@
 import { loadCSS } from "src/base/browser/basic/dom";
+import { IDisposable } from "src/base/common/dispose";
 import { ErrorHandler, tryOrDefault } from "src/base/common/error";
 import { URI } from "src/base/common/files/uri";
+import { ResourceMap } from "src/base/common/structures/map";
 import { ILogService } from "src/base/common/logger";
 import { Throttler } from "src/base/common/utilities/async";
 import { assert } from "src/base/common/utilities/panic";
+import { ProseNode, ProseTextSelection } from "src/editor/common/proseMirror";
+import { IEditorModel } from "src/editor/common/model";
 import { EditorType } from "src/editor/common/view";
 import { getBuiltInExtension } from "src/editor/contrib/builtInExtensionList";
 import { EditorWidget, IEditorWidget } from "src/editor/editorWidget";
+import { EditorModel } from "src/editor/model/editorModel";
 import { IConfigurationService } from "src/platform/configuration/common/configuration";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
+import { IFileHistoryViewService } from "src/workbench/contrib/fileHistory/fileHistoryViewService";
 import { HeadingItemProvider, HeadingItemRenderer } from "src/workbench/contrib/outline/headingItemRenderer";
 import { OutlineTree } from "src/workbench/contrib/outline/outlineTree";
+import { OutlineDragAndDropProvider } from "src/workbench/contrib/outline/outlineDragAndDrop";
+import { IEditorModelMoveEvent, IEditorModelReference, IEditorModelService } from "src/workbench/services/editorModel/editorModelService";
 import { TextEditorPaneModel } from "src/workbench/services/editorPane/editorPaneModel";
-import { EditorPaneView } from "src/workbench/services/editorPane/editorPaneView";
+import { EditorPaneView, IEditorRevealOptions } from "src/workbench/services/editorPane/editorPaneView";
+import { INotificationService } from "src/workbench/services/notification/notification";
+import { NotificationTypes } from "src/workbench/services/notification/notificationService";
+
+interface IOpenedModel {
+
+    /**
+     * The model is shared with the other editors of the same resource.
+     */
+    readonly reference: IEditorModelReference;
+
+    /**
+     * Reports the conflicts of the model, even when it is not the one shown.
+     */
+    readonly conflictListener: IDisposable;
+
+    /**
+     * Indicates if the editor of the model is closed while being rendered.
+     */
+    closed: boolean;
+}
 
 export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
     
@@ -32,15 +60,31 @@ export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
      */
     private readonly _pendingRequest = new Throttler();
 
+    /**
+     * Settled once the latest open request is done.
+     */
+    private _opening?: Promise<unknown>;
+
+    /**
+     * The models referenced by this editor. Besides the current one, the 
+     * models with unsaved changes are kept (and stay registered) until their 
+     * editors are closed, so that switching between editors loses nothing.
+     */
+    private readonly _models = new ResourceMap<IOpenedModel>();
+    private _current?: URI;
+
     // [constructor]
 
     constructor(
         @ILogService private readonly logService: ILogService,
         @IInstantiationService instantiationService: IInstantiationService,
         @IConfigurationService private readonly configurationService: IConfigurationService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @INotificationService private readonly notificationService: INotificationService,
     ) {
         super(instantiationService);
         ensureLoadKaTeXCssStyles(this.logService);
+        this.__register(this.editorModelService.onDidMoveModel(e => this.__onDidMoveModel(e)));
     }
 
     // [getter]
@@ -75,6 +119,7 @@ export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
         ));
 
         // outline construction
+        const dndProvider = this.__register(new OutlineDragAndDropProvider());
         this._outline = this.__register(this.instantiationService.createInstance(
             OutlineTree,
             parent,
@@ -86,8 +131,10 @@ export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
                 identityProvider: {
                     getID: heading => heading.id.toString(),
                 },
+                dnd: dndProvider,
             },
         ));
+        dndProvider.bindWithTree(this._outline);
 
         this.registerAutoLayout();
         this.__register(this.onDidLayout(() => {
@@ -102,22 +149,54 @@ export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
         const uri = this.model.resource;
 
         // queue an open request
-        this._pendingRequest.queue(async () => {
+        this._opening = this._pendingRequest.queue(async () => {
             const editorWidget = assert(this._editorWidget);
             const outline = assert(this._outline);
 
             // do open
             this.logService.debug('RichTextEditor', `Opening at: ${URI.toString(uri)}`);
-            (await editorWidget.open(uri)).match(
-                () => {
-                    this.logService.debug('RichTextEditor', `Open successfully at: ${URI.toString(uri)}`);
-                    // outline rendering
-                    outline.render(editorWidget);
-                },
-                err => {
-                    ErrorHandler.onUnexpectedError(err);
+            const previous = this._current;
+            this._current = undefined;
+
+            const kept = this._models.get(uri);
+            const reference = kept?.reference ?? this.editorModelService.acquireModel(uri, () => this.instantiationService.createInstance(EditorModel, uri, editorWidget.getOptions()));
+            const opened = await editorWidget.open(reference.model);
+            
+            // the previous model is detached from the widget by now
+            if (previous && !URI.equals(previous, uri)) {
+                this.__releaseModel(previous, false);
+            }
+
+            if (opened.isErr()) {
+                if (!kept) {
+                    reference.dispose();
                 }
-            );
+                ErrorHandler.onUnexpectedError(opened.unwrapErr());
+                return uri;
+            }
+
+            this.logService.debug('RichTextEditor', `Open successfully at: ${URI.toString(uri)}`);
+            this._current = uri;
+            if (!kept) {
+                const model = reference.model;
+                this._models.set(uri, { 
+                    reference: reference, 
+                    conflictListener: model.onDidConflict(() => this.__onDidConflict(model)), 
+                    closed: false,
+                });
+            }
+
+            /**
+             * The conflict is reported before the editor opens (e.g. an outdated
+             * backup) or while the model is in the background, remind the user
+             * since saving is refused until the conflict is resolved.
+             */
+            if (reference.model.conflicted) {
+                this.__onDidConflict(reference.model);
+            }
+
+            // outline rendering
+            outline.render(editorWidget);
 
             return uri;
         });
@@ -135,11 +214,223 @@ export class RichTextEditor extends EditorPaneView<TextEditorPaneModel> {
         // todo
     }
 
+    public override async onReveal(options: IEditorRevealOptions): Promise<void> {
+        await this._opening;
+
+        const editorWidget = this._editorWidget;
+        const view = editorWidget?.view.editor.internalView;
+        if (!editorWidget || !view) {
+            return;
+        }
+
+        const doc = view.state.doc;
+        const range = mapRawRangeToDocument(doc, editorWidget.model.getRawContentWithBlockOffsets(), options);
+        if (range) {
+            const selection = range.from === range.to
+                ? ProseTextSelection.near(doc.resolve(range.from))
+                : ProseTextSelection.create(doc, range.from, range.to);
+            view.dispatch(view.state.tr.setSelection(selection));
+
+            const { node } = view.domAtPos(range.from);
+            const dom = node instanceof HTMLElement ? node : node.parentElement;
+            dom?.scrollIntoView({ block: 'center' });
+        }
+        view.focus();
+    }
+
+    public override onClose(model: TextEditorPaneModel): void {
+        const opened = this._models.get(model.resource);
+        if (!opened) {
+            return;
+        }
+
+        // still rendered, released once another editor is opened.
+        if (this._current && URI.equals(this._current, model.resource)) {
+            opened.closed = true;
+            return;
+        }
+        this.__releaseModel(model.resource, true);
+    }
+
     public override dispose(): void {
         this._editorWidget?.dispose();
         this._outline?.dispose();
+        for (const uri of [...this._models.keys()]) {
+            this.__releaseModel(uri, true);
+        }
         super.dispose();
     }
+
+    // [private helper methods]
+
+    /**
+     * @description Releases the model of the given resource referenced by this
+     * editor. The model with unsaved changes is kept unless its editor is
+     * closed or `force` is set.
+     */
+    private __releaseModel(uri: URI, force: boolean): void {
+        const opened = this._models.get(uri);
+        if (!opened || (!force && !opened.closed && opened.reference.model.dirty)) {
+            return;
+        }
+        this._models.delete(uri);
+        opened.conflictListener.dispose();
+        opened.reference.dispose();
+    }
+
+    /**
+     * @description The file of a referenced model is renamed or moved. The model
+     * is kept under the new resource so that the renamed editor reuses it.
+     */
+    private __onDidMoveModel(event: IEditorModelMoveEvent): void {
+        const opened = this._models.get(event.source);
+        if (!opened || opened.reference.model !== event.model) {
+            return;
+        }
+
+        this._models.delete(event.source);
+        this._models.set(event.target, opened);
+        if (this._current && URI.equals(this._current, event.source)) {
+            this._current = event.target;
+        }
+    }
+
+    /**
+     * @description The opened file is modified on the disk while having unsaved
+     * changes. Let the user decide which version to keep, or compare the disk
+     * version with the unsaved changes.
+     * @note The actions are bound to the conflicted model since the editor
+     * might show another file by the time the user chooses.
+     */
+    private __onDidConflict(model: IEditorModel): void {
+        const reportError = (error: Error) => this.notificationService.error(error, { actions: [{ label: 'Close', run: 'noop' }] });
+
+        this.notificationService.notify({
+            type: NotificationTypes.Warning,
+            message: `The file '${URI.basename(model.source)}' is modified on the disk.`,
+            subMessage: 'Your unsaved changes are kept until you choose which version to keep.',
+            actions: [
+                { label: 'Keep Mine', run: () => model.save({ force: true }).match(() => {}, reportError) },
+                { label: 'Take Disk Version', run: () => model.reload().match(() => {}, reportError) },
+                {
+                    label: 'Compare',
+                    run: () => {
+                        // resolved lazily since the view is a workbench contribution.
+                        const fileHistoryViewService = this.instantiationService.getOrCreateService(IFileHistoryViewService);
+                        fileHistoryViewService.compareWithDisk(model.source);
+                    },
+                },
+            ],
+        });
+    }
+}
+
+/**
+ * @description Maps a range of the raw markdown into the document. The range
+ * is first located to the top-level block by the block offsets, then the text 
+ * of the range is looked up within the rendered block.
+ * @param raw The serialized document and the end offset of every top-level 
+ *            block (see `IEditorModel.getRawContentWithBlockOffsets`).
+ * @param range The range of the raw markdown.
+ * @returns The document range. An empty range at the start of the block if the
+ *          text is not rendered as it is (e.g. it includes markdown syntax),
+ *          `undefined` if the line does not exist.
+ */
+export function mapRawRangeToDocument(doc: ProseNode, raw: { readonly content: string, readonly blockOffsets: number[] }, range: IEditorRevealOptions): { from: number, to: number } | undefined {
+    const { content, blockOffsets } = raw;
+    if (doc.childCount === 0) {
+        return undefined;
+    }
+
+    // the offset of the line
+    let lineStart = 0;
+    for (let line = 0; line < range.lineNumber; line++) {
+        const lineEnd = content.indexOf('\n', lineStart);
+        if (lineEnd === -1) {
+            return undefined;
+        }
+        lineStart = lineEnd + 1;
+    }
+    const start = lineStart + range.startColumn;
+    const end = lineStart + range.endColumn;
+
+    // the top-level block where the range starts
+    let index = blockOffsets.findIndex(blockEnd => start < blockEnd);
+    if (index === -1 || index >= doc.childCount) {
+        index = doc.childCount - 1;
+    }
+    const blockStart = (index === 0) ? 0 : blockOffsets[index - 1]!;
+    let position = 0;
+    for (let i = 0; i < index; i++) {
+        position += doc.child(i).nodeSize;
+    }
+
+    // the same text might appear before the range within the block
+    const text = content.slice(start, end);
+    const before = content.slice(blockStart, start);
+    let occurrence = 0;
+    for (let i = before.indexOf(text); text.length > 0 && i !== -1; i = before.indexOf(text, i + text.length)) {
+        occurrence++;
+    }
+
+    const found = findTextInDocument(doc, text, occurrence, position, position + doc.child(index).nodeSize);
+    return found ?? { from: position, to: position };
+}
+
+/**
+ * @description Finds the given text within the textblocks of the document.
+ * @param occurrence Zero-based. Returns the n-th appearance of the text, or 
+ *                   the last one if there are not enough appearances.
+ * @param from The start of the document range to look up, defaults to the 
+ *             start of the document.
+ * @param to The end of the document range to look up, defaults to the end of
+ *           the document.
+ * @returns The document range of the text, `undefined` if not found.
+ * 
+ * @note The text cannot across multiple textblocks.
+ */
+export function findTextInDocument(doc: ProseNode, text: string, occurrence: number, from: number = 0, to: number = doc.content.size): { from: number, to: number } | undefined {
+    let found: { from: number, to: number } | undefined = undefined;
+    let count = 0;
+
+    if (text.length === 0) {
+        return undefined;
+    }
+
+    doc.nodesBetween(from, to, (node, pos) => {
+        if (count > occurrence) {
+            return false;
+        }
+        if (!node.isTextblock) {
+            return true;
+        }
+
+        // the document position of each character, inline nodes as one char.
+        let content = '';
+        const positions: number[] = [];
+        node.forEach((child, offset) => {
+            const start = pos + 1 + offset;
+            if (child.isText) {
+                content += child.text!;
+                for (let i = 0; i < child.text!.length; i++) {
+                    positions.push(start + i);
+                }
+            } else {
+                content += '\ufffc';
+                positions.push(start);
+            }
+        });
+
+        let index = content.indexOf(text);
+        while (index !== -1 && count <= occurrence) {
+            found = { from: positions[index]!, to: positions[index + text.length - 1]! + 1 };
+            count++;
+            index = content.indexOf(text, index + text.length);
+        }
+        return false;
+    });
+
+    return found;
 }
 
 /**
@@ -0,0 +1,526 @@
+import 'src/workbench/contrib/search/media/searchView.scss';
+import { addDisposableListener, EventType } from 'src/base/browser/basic/dom';
+import { SearchBar } from 'src/base/browser/basic/searchbar/searchbar';
+import { createIcon } from 'src/base/browser/icon/iconRegistry';
+import { Icons } from 'src/base/browser/icon/icons';
+import { Time } from 'src/base/common/date';
+import { LooseDisposableBucket } from 'src/base/common/dispose';
+import { URI } from 'src/base/common/files/uri';
+import { IFilterOpts } from 'src/base/common/fuzzy';
+import { createSearchRegExp, expandReplacement, ITextSearchQuery } from 'src/base/common/search';
+import { UnbufferedScheduler } from 'src/base/common/utilities/async';
+import { CancellationToken } from 'src/base/common/utilities/cancellation';
+import { errorToMessage } from 'src/base/common/utilities/panic';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { IInstantiationService } from 'src/platform/instantiation/common/instantiation';
+import { INavView, NavView } from 'src/workbench/parts/navigationPanel/navigationView/navigationView';
+import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { ISearchViewService, SearchViewID } from 'src/workbench/contrib/search/searchService';
+import { ITextSearchComplete, ITextSearchFileMatch, ITextSearchMatch, searchFiles } from 'src/workbench/contrib/search/textSearch';
+import { getOpenedModel, ITextReplaceRequest, ITextReplaceResult, replaceInFile } from 'src/workbench/contrib/search/textReplace';
+import { IFileTreeService } from 'src/workbench/services/fileTree/treeService';
+import { WorkbenchConfiguration } from 'src/workbench/services/workbench/configuration.register';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { NotificationTypes } from 'src/workbench/services/notification/notificationService';
+
+type SearchOption = 'isCaseSensitive' | 'isWholeWord' | 'isRegExp';
+
+/**
+ * The rendering state of the matches of a file.
+ */
+interface ISearchFileState {
+    readonly result: ITextSearchFileMatch;
+
+    /**
+     * The indice of the matches that are excluded from replacing.
+     */
+    readonly excluded: Set<number>;
+}
+
+/**
+ * The last finished search.
+ */
+interface ISearchState {
+    readonly root: URI;
+    readonly query: ITextSearchQuery;
+    readonly regexp: RegExp;
+    readonly files: ISearchFileState[];
+}
+
+/**
+ * @class A navigation view that searches the text across every markdown file
+ * under the root opened by the explorer. The results are grouped by files and
+ * rendered as soon as each file is searched.
+ *
+ * In replace mode, every match is previewed as a diff and can be excluded
+ * individually before replacing.
+ */
+export class SearchView extends NavView implements ISearchViewService {
+
+    // [field]
+
+    public static readonly MAX_RESULTS = 2000;
+    public static readonly SEARCH_DELAY = Time.ms(300);
+    public static readonly PREVIEW_DELAY = Time.ms(150);
+
+    private static readonly OPTIONS: { option: SearchOption, label: string, title: string }[] = [
+        { option: 'isCaseSensitive', label: 'Aa', title: 'Match Case' },
+        { option: 'isWholeWord', label: 'ab', title: 'Match Whole Word' },
+        { option: 'isRegExp', label: '.*', title: 'Use Regular Expression' },
+    ];
+
+    private readonly _searchBar: SearchBar;
+    private readonly _replaceBar: SearchBar;
+    private readonly _options: Record<SearchOption, boolean>;
+    private readonly _scheduler: UnbufferedScheduler<void>;
+    private readonly _previewScheduler: UnbufferedScheduler<void>;
+    private _replaceMode: boolean;
+
+    private _messageElement?: HTMLElement;
+    private _resultElement?: HTMLElement;
+
+    /**
+     * Contains all the listeners of the rendered results.
+     */
+    private readonly _resultBucket: LooseDisposableBucket;
+
+    /**
+     * The token of the current running search.
+     */
+    private _token?: CancellationToken;
+    private _state?: ISearchState;
+
+    // [constructor]
+
+    constructor(
+        parentElement: HTMLElement,
+        @IInstantiationService instantiationService: IInstantiationService,
+        @IFileService private readonly fileService: IFileService,
+        @IFileTreeService private readonly fileTreeService: IFileTreeService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @INotificationService private readonly notificationService: INotificationService,
+    ) {
+        super(SearchViewID, parentElement, instantiationService);
+        this._searchBar = this.__register(new SearchBar({ placeHolder: 'Search', icon: Icons.Search }));
+        this._replaceBar = this.__register(new SearchBar({ placeHolder: 'Replace' }));
+        this._options = { isCaseSensitive: false, isWholeWord: false, isRegExp: false };
+        this._scheduler = this.__register(new UnbufferedScheduler(SearchView.SEARCH_DELAY, () => this.__searchByInput()));
+        this._previewScheduler = this.__register(new UnbufferedScheduler(SearchView.PREVIEW_DELAY, () => this.__rerenderResults()));
+        this._replaceMode = false;
+        this._resultBucket = this.__register(new LooseDisposableBucket());
+    }
+
+    // [static methods]
+
+    public static is(view: INavView): view is SearchView {
+        return view.id === SearchViewID;
+    }
+
+    // [public method]
+
+    public async search(query: ITextSearchQuery): Promise<void> {
+        this.clear();
+
+        if (query.pattern.length === 0) {
+            return;
+        }
+
+        const root = this.fileTreeService.root;
+        if (!root) {
+            this.__setMessage('Open a folder to search its notes.');
+            return;
+        }
+
+        const regexp = createSearchRegExp(query);
+        if (regexp.isErr()) {
+            this.__setMessage(`Invalid regular expression: ${errorToMessage(regexp.error)}`, true);
+            return;
+        }
+
+        const token = new CancellationToken();
+        this._token = token;
+        this.__setMessage('Searching...');
+
+        const state: ISearchState = { root: root, query: query, regexp: regexp.data, files: [] };
+        this._state = state;
+
+        try {
+            const complete = await searchFiles(
+                this.fileService,
+                root,
+                regexp.data,
+                { filters: this.__getFilters(), maxResults: SearchView.MAX_RESULTS, getOpenedContent: uri => this.__getOpenedContent(uri) },
+                result => {
+                    const file = { result: result, excluded: new Set<number>() };
+                    state.files.push(file);
+                    this.__renderFileMatch(state, file);
+                },
+                token,
+            );
+
+            if (!token.isCancelled()) {
+                this.__setMessage(__getCompleteMessage(complete));
+            }
+        } catch (error) {
+            if (!token.isCancelled()) {
+                this.__setMessage(`Failed to search: ${errorToMessage(error)}`, true);
+            }
+            this.logService.error('SearchView', 'Failed to search.', error, { at: URI.toString(root) });
+        } finally {
+            if (this._token === token) {
+                this._token = undefined;
+            }
+            token.dispose();
+        }
+    }
+
+    public async replaceAll(pattern: string): Promise<void> {
+        const state = this._state;
+        if (!state || this._token) {
+            return;
+        }
+
+        /**
+         * The rendered results might be truncated by {@link MAX_RESULTS}, thus
+         * replace against a fresh full search. The exclusions made by the user
+         * are carried over by the position of the matches.
+         */
+        const rendered = new Map(state.files.map(file => [URI.toString(file.result.uri), file]));
+        const requests: ITextReplaceRequest[] = [];
+        this.__setMessage('Searching...');
+        try {
+            await searchFiles(this.fileService, state.root, state.regexp, { filters: this.__getFilters(), getOpenedContent: uri => this.__getOpenedContent(uri) }, result => {
+                const file = rendered.get(URI.toString(result.uri));
+                const excluded = file ? __carryExclusions(file, result.matches) : new Set<number>();
+                if (excluded.size < result.matches.length) {
+                    requests.push({ uri: result.uri, matches: result.matches, excluded: excluded });
+                }
+            });
+        } catch (error) {
+            this.__setMessage(`Failed to search: ${errorToMessage(error)}`, true);
+            this.logService.error('SearchView', 'Failed to search.', error, { at: URI.toString(state.root) });
+            return;
+        }
+        this.__setMessage('');
+
+        // another search has started in the meantime
+        if (this._state !== state || this._token) {
+            return;
+        }
+
+        const total = requests.reduce((sum, request) => sum + request.matches.length - request.excluded.size, 0);
+        if (total === 0) {
+            return;
+        }
+
+        const confirmed = await this.notificationService.confirm(
+            'Replace All',
+            `Replace ${total} ${total === 1 ? 'occurrence' : 'occurrences'} across ${requests.length} ${requests.length === 1 ? 'file' : 'files'} with '${pattern}'?`,
+        );
+        if (!confirmed) {
+            return;
+        }
+
+        const results: ITextReplaceResult[] = [];
+        for (const request of requests) {
+            results.push(await replaceInFile(this.fileService, this.editorModelService, state.regexp, pattern, state.query.isRegExp, request));
+        }
+
+        // report failures per file
+        const failures = results.filter(result => result.error);
+        for (const failure of failures) {
+            this.notificationService.notify({
+                type: NotificationTypes.Error,
+                message: `Failed to replace in '${URI.basename(failure.uri)}'. Reason: ${errorToMessage(failure.error)}`,
+            });
+        }
+
+        // refresh the results
+        await this.search(state.query);
+
+        const replaced = results.reduce((sum, result) => sum + result.replaced, 0);
+        const succeeded = results.length - failures.length;
+        let message = `Replaced ${replaced} ${replaced === 1 ? 'occurrence' : 'occurrences'} in ${succeeded} ${succeeded === 1 ? 'file' : 'files'}.`;
+        if (failures.length > 0) {
+            message += ` Failed in ${failures.length} ${failures.length === 1 ? 'file' : 'files'}.`;
+        }
+        this.__setMessage(message, failures.length > 0);
+    }
+
+    public clear(): void {
+        this._token?.cancel();
+        this._token = undefined;
+        this._state = undefined;
+        this.__clearResults();
+        this.__setMessage('');
+    }
+
+    public override dispose(): void {
+        this._token?.cancel();
+        super.dispose();
+    }
+
+    // [protected override method]
+
+    protected override __createContent(): void {
+
+        // search input
+        const header = document.createElement('div');
+        header.className = 'search-header';
+
+        const replaceToggle = createIcon(Icons.ArrowRight, ['search-replace-toggle']);
+        replaceToggle.title = 'Toggle Replace';
+        this.__register(addDisposableListener(replaceToggle, EventType.click, () => {
+            this._replaceMode = !this._replaceMode;
+            this.element.toggleClassName('replace-mode', this._replaceMode);
+            this.__rerenderResults();
+        }));
+        header.appendChild(replaceToggle);
+
+        const searchBarContainer = document.createElement('div');
+        searchBarContainer.className = 'search-bar-container';
+        this._searchBar.render(searchBarContainer);
+        header.appendChild(searchBarContainer);
+
+        const options = document.createElement('div');
+        options.className = 'search-options';
+        for (const { option, label, title } of SearchView.OPTIONS) {
+            const toggle = document.createElement('div');
+            toggle.className = 'search-option';
+            toggle.textContent = label;
+            toggle.title = title;
+            this.__register(addDisposableListener(toggle, EventType.click, () => {
+                this._options[option] = !this._options[option];
+                toggle.classList.toggle('activated', this._options[option]);
+                this.__searchByInput();
+            }));
+            options.appendChild(toggle);
+        }
+        header.appendChild(options);
+
+        // replace input
+        const replaceHeader = document.createElement('div');
+        replaceHeader.className = 'search-replace-header';
+
+        const replaceBarContainer = document.createElement('div');
+        replaceBarContainer.className = 'search-bar-container';
+        this._replaceBar.render(replaceBarContainer);
+        replaceHeader.appendChild(replaceBarContainer);
+
+        const replaceAll = document.createElement('div');
+        replaceAll.className = 'search-replace-all';
+        replaceAll.textContent = 'Replace All';
+        this.__register(addDisposableListener(replaceAll, EventType.click, () => {
+            this.replaceAll(this._replaceBar.text);
+        }));
+        replaceHeader.appendChild(replaceAll);
+
+        this._messageElement = document.createElement('div');
+        this._messageElement.className = 'search-message';
+
+        this._resultElement = document.createElement('div');
+        this._resultElement.className = 'search-results';
+
+        this.element.appendChild(header);
+        this.element.appendChild(replaceHeader);
+        this.element.appendChild(this._messageElement);
+        this.element.appendChild(this._resultElement);
+    }
+
+    protected override __registerListeners(): void {
+        super.__registerListeners();
+
+        this.__register(this._searchBar.onDidType(() => {
+            this._scheduler.schedule();
+        }));
+
+        // only the previews need to be updated
+        this.__register(this._replaceBar.onDidType(() => {
+            this._previewScheduler.schedule();
+        }));
+    }
+
+    // [private helper method]
+
+    private __searchByInput(): void {
+        this._scheduler.cancel();
+        this.search({ pattern: this._searchBar.text, ...this._options });
+    }
+
+    private __getFilters(): IFilterOpts {
+        return {
+            exclude: this.configurationService.get<string[]>(WorkbenchConfiguration.ExplorerViewExclude, []).filter(s => !!s).map(s => new RegExp(s)),
+            include: this.configurationService.get<string[]>(WorkbenchConfiguration.ExplorerViewInclude, []).filter(s => !!s).map(s => new RegExp(s)),
+        };
+    }
+
+    /**
+     * @description The opened documents are searched with their unsaved 
+     * changes, the same content the replacement is applied to.
+     */
+    private __getOpenedContent(uri: URI): string | undefined {
+        return getOpenedModel(this.editorModelService, uri)?.getRawContent();
+    }
+
+    private __setMessage(message: string, isError: boolean = false): void {
+        if (!this._messageElement) {
+            return;
+        }
+        this._messageElement.textContent = message;
+        this._messageElement.classList.toggle('error', isError);
+    }
+
+    private __clearResults(): void {
+        this._resultBucket.dispose();
+        this._resultElement?.replaceChildren();
+    }
+
+    private __rerenderResults(): void {
+        this.__clearResults();
+
+        const state = this._state;
+        if (!state) {
+            return;
+        }
+        for (const file of state.files) {
+            this.__renderFileMatch(state, file);
+        }
+    }
+
+    private __renderFileMatch(state: ISearchState, file: ISearchFileState): void {
+        if (!this._resultElement) {
+            return;
+        }
+
+        const { result, excluded } = file;
+        const fileElement = document.createElement('div');
+        fileElement.className = 'search-file-match';
+
+        // file header
+        const header = document.createElement('div');
+        header.className = 'search-file-header';
+
+        const name = document.createElement('span');
+        name.className = 'search-file-name';
+        name.textContent = URI.basename(result.uri);
+
+        const dir = document.createElement('span');
+        dir.className = 'search-file-dir';
+        dir.textContent = URI.relative(state.root, URI.dirname(result.uri)) ?? '';
+
+        const count = document.createElement('span');
+        count.className = 'search-file-count';
+        count.textContent = `${result.matches.length}`;
+
+        header.append(name, dir, count);
+        header.title = URI.toFsPath(result.uri);
+        this._resultBucket.register(addDisposableListener(header, EventType.click, () => {
+            fileElement.classList.toggle('collapsed');
+        }));
+
+        // exclude the entire file
+        if (this._replaceMode) {
+            const exclude = createIcon(Icons.Close, ['search-exclude']);
+            exclude.title = 'Exclude File';
+            this._resultBucket.register(addDisposableListener(exclude, EventType.click, e => {
+                e.stopPropagation();
+                const excludeAll = excluded.size < result.matches.length;
+                result.matches.forEach((_, index) => excludeAll ? excluded.add(index) : excluded.delete(index));
+                this.__rerenderResults();
+            }));
+            header.appendChild(exclude);
+        }
+        fileElement.appendChild(header);
+
+        // line matches
+        result.matches.forEach((match, index) => {
+            fileElement.appendChild(this.__renderLineMatch(state, file, match, index));
+        });
+
+        this._resultElement.appendChild(fileElement);
+    }
+
+    private __renderLineMatch(state: ISearchState, file: ISearchFileState, match: ITextSearchMatch, index: number): HTMLElement {
+        const { text, matchStart, matchEnd } = match.preview;
+
+        const element = document.createElement('div');
+        element.className = 'search-line-match';
+
+        const lineNumber = document.createElement('span');
+        lineNumber.className = 'search-line-number';
+        lineNumber.textContent = `${match.lineNumber + 1}`;
+
+        const preview = document.createElement('span');
+        preview.className = 'search-line-preview';
+        const highlight = document.createElement('span');
+        highlight.className = 'search-match-highlight';
+        highlight.textContent = text.slice(matchStart, matchEnd);
+        preview.append(text.slice(0, matchStart), highlight);
+
+        // previews the replacement as a diff
+        if (this._replaceMode) {
+            const inserted = document.createElement('span');
+            inserted.className = 'search-match-inserted';
+            inserted.textContent = expandReplacement(this._replaceBar.text, match, state.query.isRegExp);
+            preview.append(inserted);
+        }
+        preview.append(text.slice(matchEnd));
+
+        element.append(lineNumber, preview);
+        this._resultBucket.register(addDisposableListener(element, EventType.click, () => {
+            this.workspaceService.openEditor({ uri: file.result.uri }, {
+                reveal: { lineNumber: match.lineNumber, startColumn: match.startColumn, endColumn: match.endColumn },
+            });
+        }));
+
+        // exclude the match from replacing
+        if (this._replaceMode) {
+            const isExcluded = file.excluded.has(index);
+            element.classList.toggle('excluded', isExcluded);
+
+            const exclude = createIcon(isExcluded ? Icons.Check : Icons.Close, ['search-exclude']);
+            exclude.title = isExcluded ? 'Include' : 'Exclude';
+            this._resultBucket.register(addDisposableListener(exclude, EventType.click, e => {
+                e.stopPropagation();
+                isExcluded ? file.excluded.delete(index) : file.excluded.add(index);
+                this.__rerenderResults();
+            }));
+            element.appendChild(exclude);
+        }
+
+        return element;
+    }
+}
+
+function __getCompleteMessage(complete: ITextSearchComplete): string {
+    if (complete.matchCount === 0) {
+        return 'No results found.';
+    }
+
+    const results = `${complete.matchCount} ${complete.matchCount === 1 ? 'result' : 'results'}`;
+    const files = `${complete.fileCount === 1 ? '1 file' : `${complete.fileCount} files`}`;
+    const limit = complete.limitHit ? ' (limit reached)' : '';
+    return `${results} in ${files}${limit}`;
+}
+
+/**
+ * @description Maps the exclusions of the rendered matches onto the matches of
+ * the same file found by another search. Matches are identified by their
+ * position along with the matched text.
+ */
+function __carryExclusions(file: ISearchFileState, matches: readonly ITextSearchMatch[]): Set<number> {
+    const key = (match: ITextSearchMatch) => `${match.lineNumber}:${match.startColumn}:${match.text}`;
+    const excludedKeys = new Set([...file.excluded].map(index => key(file.result.matches[index]!)));
+
+    const excluded = new Set<number>();
+    matches.forEach((match, index) => {
+        if (excludedKeys.has(key(match))) {
+            excluded.add(index);
+        }
+    });
+    return excluded;
+}
@@ -0,0 +1,30 @@
+import { INavView } from "src/workbench/parts/navigationPanel/navigationView/navigationView";
+import { ITextSearchQuery } from "src/base/common/search";
+
+export const SearchViewID = 'search-view';
+
+/**
+ * An interface only for {@link SearchView}.
+ */
+export interface ISearchViewService extends INavView {
+
+    /**
+     * @description Searches every markdown file under the opened root with the
+     * given query. The previous search will be cancelled.
+     */
+    search(query: ITextSearchQuery): Promise<void>;
+
+    /**
+     * @description Replaces every match of the last search that is not 
+     * excluded by the user with the given pattern. Opened documents are edited
+     * through their models so that the replacement can be undone.
+     * @param pattern The replace pattern. Supports `$&`, `$n` and `$<name>` if
+     *                the last search is a regular expression.
+     */
+    replaceAll(pattern: string): Promise<void>;
+
+    /**
+     * @description Cancels the current search and removes all the results.
+     */
+    clear(): void;
+}
@@ -0,0 +1,154 @@
+import { DataBuffer } from "src/base/common/files/buffer";
+import { URI } from "src/base/common/files/uri";
+import { err, ok, Result } from "src/base/common/result";
+import { expandReplacement } from "src/base/common/search";
+import { errorToMessage } from "src/base/common/utilities/panic";
+import { IFileService } from "src/platform/files/common/fileService";
+import { IEditorModel } from "src/editor/common/model";
+import { ITextSearchMatch, TextSearchMatcher } from "src/workbench/contrib/search/textSearch";
+import { IEditorModelService } from "src/workbench/services/editorModel/editorModelService";
+
+/**
+ * Describes how the matches of a file should be replaced.
+ */
+export interface ITextReplaceRequest {
+    readonly uri: URI;
+
+    /**
+     * The matches of the file found by the previous search.
+     */
+    readonly matches: readonly ITextSearchMatch[];
+
+    /**
+     * The indice of the {@link matches} that should stay untouched.
+     */
+    readonly excluded: ReadonlySet<number>;
+}
+
+export interface ITextReplaceResult {
+    readonly uri: URI;
+
+    /**
+     * The number of replaced matches.
+     */
+    readonly replaced: number;
+
+    /**
+     * The reason if the file cannot be replaced.
+     */
+    readonly error?: Error;
+}
+
+/**
+ * @description Replaces the matches of the regular expression within the
+ * given content.
+ * @param expected The matches found by the previous search. If the content no
+ *                 longer produces the same matches, the replacement is refused
+ *                 since the content has changed.
+ * @param excluded The indice of the matches that should stay untouched.
+ * @returns The new content along with the number of replaced matches.
+ */
+export function replaceInContent(
+    content: string,
+    regexp: RegExp,
+    pattern: string,
+    isRegExp: boolean | undefined,
+    expected: readonly ITextSearchMatch[],
+    excluded: ReadonlySet<number>,
+): Result<{ readonly content: string, readonly replaced: number }, Error> {
+    const matcher = new TextSearchMatcher(regexp);
+    matcher.push(content);
+    const matches = matcher.end();
+
+    if (matches.length !== expected.length || matches.some((match, index) => match.text !== expected[index]!.text)) {
+        return err(new Error('The file has been changed since the last search.'));
+    }
+
+    // the offset of the start of each line
+    const lineOffsets = [0];
+    const lineBreak = /\r?\n/g;
+    while (lineBreak.exec(content)) {
+        lineOffsets.push(lineBreak.lastIndex);
+    }
+
+    let result = '';
+    let last = 0;
+    let replaced = 0;
+    matches.forEach((match, index) => {
+        if (excluded.has(index)) {
+            return;
+        }
+        const start = lineOffsets[match.lineNumber]! + match.startColumn;
+        result += content.slice(last, start) + expandReplacement(pattern, match, isRegExp);
+        last = start + match.text.length;
+        replaced++;
+    });
+    result += content.slice(last);
+
+    return ok({ content: result, replaced: replaced });
+}
+
+/**
+ * @description Applies the replacement to the given file. If the file is
+ * opened by an editor, the edit is applied to the opened document through its
+ * model so that it can be undone, otherwise the file is written directly.
+ *
+ * @note The matches of an opened document are validated against its content
+ * (including the unsaved changes) since that is the text being searched.
+ */
+export async function replaceInFile(
+    fileService: IFileService,
+    editorModelService: IEditorModelService,
+    regexp: RegExp,
+    pattern: string,
+    isRegExp: boolean | undefined,
+    request: ITextReplaceRequest,
+): Promise<ITextReplaceResult> {
+    const { uri, matches, excluded } = request;
+    const failed = (error: unknown): ITextReplaceResult => ({ uri: uri, replaced: 0, error: new Error(errorToMessage(error)) });
+
+    try {
+        const model = getOpenedModel(editorModelService, uri);
+        const content = model 
+            ? model.getRawContent() 
+            : (await fileService.readFile(uri).unwrap()).toString();
+        
+        const result = replaceInContent(content, regexp, pattern, isRegExp, matches, excluded);
+        if (result.isErr()) {
+            return failed(result.error);
+        }
+
+        // opened document
+        if (model) {
+            model.setRawContent(result.data.content);
+            const applied = model.getRawContent();
+            if (applied === model.serialize(model.parse(result.data.content))) {
+                return { uri: uri, replaced: result.data.replaced };
+            }
+
+            /**
+             * The document does not apply the edit. Writing the file is only
+             * safe if the document is untouched and has nothing unsaved, 
+             * otherwise the document would conflict with the file.
+             */
+            if (applied !== content || model.dirty) {
+                return failed('The opened document cannot apply the replacement.');
+            }
+        }
+
+        // closed file, or the opened document does not apply the edit
+        await fileService.writeFile(uri, DataBuffer.fromString(result.data.content), { create: false, overwrite: true, unlock: false }).unwrap();
+        return { uri: uri, replaced: result.data.replaced };
+    } catch (error) {
+        return failed(error);
+    }
+}
+
+/**
+ * @description Returns the model of the file if it is opened by an editor and
+ * its content is ready.
+ */
+export function getOpenedModel(editorModelService: IEditorModelService, uri: URI): IEditorModel | undefined {
+    const model = editorModelService.getModel(uri);
+    return model?.state ? model : undefined;
+}
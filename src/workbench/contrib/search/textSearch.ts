@@ -0,0 +1,324 @@
+import { FileType } from "src/base/common/files/file";
+import { listenStream } from "src/base/common/files/stream";
+import { URI } from "src/base/common/files/uri";
+import { IFilterOpts, isFiltered } from "src/base/common/fuzzy";
+import { Result } from "src/base/common/result";
+import { ICancellationToken } from "src/base/common/utilities/cancellation";
+import { IFileService } from "src/platform/files/common/fileService";
+
+/**
+ * The file extensions that will be searched by {@link searchFiles}.
+ */
+export const SEARCHABLE_EXTENSIONS: readonly string[] = ['.md', '.markdown'];
+
+/**
+ * A shortened version of the matched line that is used for displaying.
+ */
+export interface ITextSearchPreview {
+    readonly text: string;
+
+    /**
+     * The range of the matched text within {@link text}.
+     */
+    readonly matchStart: number;
+    readonly matchEnd: number;
+}
+
+export interface ITextSearchMatch {
+
+    /**
+     * Zero-based line number of the match.
+     */
+    readonly lineNumber: number;
+
+    /**
+     * Zero-based column range of the match within the line (end exclusive).
+     */
+    readonly startColumn: number;
+    readonly endColumn: number;
+
+    /**
+     * The actual matched text.
+     */
+    readonly text: string;
+
+
+    /**
+     * The captured groups of the regular expression. Used to expand the
+     * replace pattern.
+     */
+    readonly captures: readonly (string | undefined)[];
+    readonly namedCaptures?: Readonly<Record<string, string>>;
+
+    readonly preview: ITextSearchPreview;
+}
+
+export interface ITextSearchFileMatch {
+    readonly uri: URI;
+    readonly matches: ITextSearchMatch[];
+}
+
+export interface ITextSearchOptions {
+
+    /**
+     * The file or directory names that should be skipped.
+     */
+    readonly filters?: IFilterOpts;
+
+    /**
+     * The maximum number of matches in total.
+     * @default Infinity
+     */
+    readonly maxResults?: number;
+
+    /**
+     * Returns the content of the file if it is opened by an editor. The 
+     * content is searched instead of the file on disk so that the unsaved 
+     * changes are searched as well.
+     */
+    readonly getOpenedContent?: (uri: URI) => string | undefined;
+}
+
+export interface ITextSearchComplete {
+
+    /**
+     * The number of files that have at least one match.
+     */
+    readonly fileCount: number;
+    readonly matchCount: number;
+
+    /**
+     * If the search is stopped since {@link ITextSearchOptions.maxResults} is
+     * reached.
+     */
+    readonly limitHit: boolean;
+}
+
+/**
+ * @class Consumes text chunk by chunk and collects the matches line by line.
+ * A line may be split across multiple chunks.
+ */
+export class TextSearchMatcher {
+
+    // [fields]
+
+    public static readonly PREVIEW_PREFIX = 30;
+    public static readonly PREVIEW_LENGTH = 200;
+
+    private readonly _regexp: RegExp;
+    private readonly _maxResults: number;
+    private readonly _matches: ITextSearchMatch[];
+
+    /** The incomplete last line from the previous chunks. */
+    private _remain: string;
+    private _lineNumber: number;
+
+    // [constructor]
+
+    constructor(regexp: RegExp, maxResults: number = Infinity) {
+        this._regexp = new RegExp(regexp.source, regexp.flags.includes('g') ? regexp.flags : regexp.flags + 'g');
+        this._maxResults = maxResults;
+        this._matches = [];
+        this._remain = '';
+        this._lineNumber = 0;
+    }
+
+    // [getter]
+
+    get matches(): ITextSearchMatch[] {
+        return this._matches;
+    }
+
+    get limitHit(): boolean {
+        return this._matches.length >= this._maxResults;
+    }
+
+    // [public methods]
+
+    public push(chunk: string): void {
+        if (this.limitHit) {
+            return;
+        }
+
+        const lines = (this._remain + chunk).split(/\r?\n/);
+        this._remain = lines.pop()!;
+
+        for (const line of lines) {
+            this.__matchLine(line);
+        }
+    }
+
+    /**
+     * @description Matches the remaining text as the last line.
+     * @returns All the collected matches.
+     */
+    public end(): ITextSearchMatch[] {
+        if (!this.limitHit) {
+            this.__matchLine(this._remain.endsWith('\r') ? this._remain.slice(0, -1) : this._remain);
+        }
+        this._remain = '';
+        return this._matches;
+    }
+
+    // [private helper methods]
+
+    private __matchLine(line: string): void {
+        const lineNumber = this._lineNumber++;
+        const regexp = this._regexp;
+        regexp.lastIndex = 0;
+
+        let match: RegExpExecArray | null;
+        while (!this.limitHit && (match = regexp.exec(line))) {
+            const text = match[0];
+
+            // avoid infinite loop on empty matches
+            if (text.length === 0) {
+                regexp.lastIndex++;
+                continue;
+            }
+
+            this._matches.push({
+                lineNumber: lineNumber,
+                startColumn: match.index,
+                endColumn: match.index + text.length,
+                text: text,
+                captures: match.slice(1),
+                namedCaptures: match.groups,
+                preview: createSearchPreview(line, match.index, match.index + text.length),
+            });
+        }
+    }
+}
+
+/**
+ * @description Shortens the given line around the range so that the range is
+ * always visible.
+ */
+export function createSearchPreview(line: string, start: number, end: number): ITextSearchPreview {
+    const from = Math.max(0, start - TextSearchMatcher.PREVIEW_PREFIX);
+    const to = Math.max(end, from + TextSearchMatcher.PREVIEW_LENGTH);
+
+    const prefix = from > 0 ? '…' : '';
+    const before = line.slice(from, start);
+    const leading = prefix ? 0 : before.length - before.trimStart().length;
+
+    const text = prefix + before.slice(leading) + line.slice(start, end) + line.slice(end, to).trimEnd();
+    const offset = prefix.length - from - leading;
+    return {
+        text: text,
+        matchStart: start + offset,
+        matchEnd: end + offset,
+    };
+}
+
+/**
+ * @description Collects the matches of the given content.
+ * @param maxResults The search stops once the number of matches reaches it.
+ */
+export function searchContent(content: string, regexp: RegExp, maxResults?: number): ITextSearchMatch[] {
+    const matcher = new TextSearchMatcher(regexp, maxResults);
+    matcher.push(content);
+    return matcher.end();
+}
+
+/**
+ * @description Streams the content of the given file and collects the matches.
+ * @param maxResults The search stops once the number of matches reaches it.
+ *
+ * @throws An exception will be thrown if the file cannot be read.
+ */
+export async function searchFile(fileService: IFileService, uri: URI, regexp: RegExp, token?: ICancellationToken, maxResults?: number): Promise<ITextSearchMatch[]> {
+    const ready = await fileService.readFileStream(uri).unwrap();
+    const stream = ready.flow();
+    const decoder = new TextDecoder();
+    const matcher = new TextSearchMatcher(regexp, maxResults);
+
+    return new Promise<ITextSearchMatch[]>((resolve, reject) => {
+        let settled = false;
+        const settle = (error?: Error) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            cancellation?.dispose();
+            stream.destroy();
+            error ? reject(error) : resolve(matcher.end());
+        };
+
+        const cancellation = token?.onDidCancel(() => settle());
+
+        listenStream(stream, {
+            onData: buffer => {
+                matcher.push(decoder.decode(buffer.buffer, { stream: true }));
+                if (matcher.limitHit) {
+                    settle();
+                }
+            },
+            onError: error => settle(error),
+            onEnd: () => {
+                matcher.push(decoder.decode());
+                settle();
+            },
+        });
+    });
+}
+
+/**
+ * @description Searches every markdown file under the given root recursively.
+ * The result of each file that has at least one match will be reported
+ * through `onFileMatch` as soon as the file is searched.
+ *
+ * @note Files that cannot be read are skipped.
+ */
+export async function searchFiles(
+    fileService: IFileService,
+    root: URI,
+    regexp: RegExp,
+    options: ITextSearchOptions,
+    onFileMatch: (result: ITextSearchFileMatch) => void,
+    token?: ICancellationToken,
+): Promise<ITextSearchComplete> {
+    const maxResults = options.maxResults ?? Infinity;
+    let fileCount = 0;
+    let matchCount = 0;
+
+    const visit = async (dir: URI): Promise<void> => {
+        const children = await fileService.readDir(dir).unwrapOr([]);
+        for (const [name, type] of children) {
+            if (token?.isCancelled() || matchCount >= maxResults) {
+                return;
+            }
+
+            if (options.filters && isFiltered(name, options.filters)) {
+                continue;
+            }
+
+            const uri = URI.join(dir, name);
+            if (type === FileType.DIRECTORY) {
+                await visit(uri);
+                continue;
+            }
+
+            if (type !== FileType.FILE || !SEARCHABLE_EXTENSIONS.includes(URI.extname(uri).toLowerCase())) {
+                continue;
+            }
+
+            const opened = options.getOpenedContent?.(uri);
+            const matches = opened !== undefined
+                ? searchContent(opened, regexp, maxResults - matchCount)
+                : await searchFile(fileService, uri, regexp, token, maxResults - matchCount).catch(() => []);
+            if (matches.length > 0 && !token?.isCancelled()) {
+                fileCount++;
+                matchCount += matches.length;
+                onFileMatch({ uri: uri, matches: matches });
+            }
+        }
+    };
+
+    await visit(root);
+    return {
+        fileCount: fileCount,
+        matchCount: matchCount,
+        limitHit: matchCount >= maxResults,
+    };
+}
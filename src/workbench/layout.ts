@@ -2,6 +2,8 @@ import { CollapseState, DirectionX, DomUtility, EventType, Orientation, addDispo
 import { Component, IAssembleComponentOpts } from "src/workbench/services/component/component";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
 import { ExplorerView } from "src/workbench/contrib/explorer/explorer";
+import { SearchView } from "src/workbench/contrib/search/search";
+import { SearchViewID } from "src/workbench/contrib/search/searchService";
 import { IContextMenuService } from "src/workbench/services/contextMenu/contextMenuService";
 import { ILayoutService } from "src/workbench/services/layout/layoutService";
 import { IConfigurationService } from "src/platform/configuration/common/configuration";
@@ -128,6 +130,7 @@ export abstract class WorkbenchLayout extends Component {
 
     private __registerNavigationViews(): void {
         this.navigationViewService.registerView('explorer', ExplorerView);
+        this.navigationViewService.registerView(SearchViewID, SearchView);
         // TODO: other navigation-views are also registered here.
     }
 }
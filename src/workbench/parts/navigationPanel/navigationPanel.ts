@@ -9,6 +9,7 @@ import { Icons } from "src/base/browser/icon/icons";
 import { IActionBarService } from "src/workbench/parts/navigationPanel/navigationBar/toolBar/actionBar";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
 import { ExplorerViewID } from "src/workbench/contrib/explorer/explorerService";
+import { SearchViewID } from "src/workbench/contrib/search/searchService";
 
 export const INavigationPanelService = createService<INavigationPanelService>('navigation-panel-service');
 
@@ -81,6 +82,7 @@ class NavigationBarBuilder {
     public registerButtons(): void {
         [
             { id: ExplorerViewID, icon: Icons.FolderOpen, },
+            { id: SearchViewID, icon: Icons.Search, },
             { id: 'nota-ai-default', icon: Icons.NotaAiDefault, },
             { id: 'source-control-default', icon: Icons.SourceControlDefault, },
             { id: 'extension', icon: Icons.Extension, },
@@ -0,0 +1,389 @@
+import { Orientation } from "src/base/browser/basic/dom";
+import { SplitView } from "src/base/browser/secondary/splitView/splitView";
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { assert, check, panic } from "src/base/common/utilities/panic";
+
+/**
+ * A view that can be arranged by {@link EditorGroupGrid}.
+ */
+export interface IGridView extends IDisposable {
+
+    /**
+     * The unique identifier of the view.
+     */
+    readonly id: string;
+
+    /**
+     * The HTMLElement of the view.
+     */
+    readonly element: HTMLElement;
+
+    /**
+     * @description Invoked once the dimension of the view is changed.
+     */
+    layout(width: number, height: number): void;
+}
+
+export const enum GridDirection {
+    Right = 'right',
+    Down = 'down',
+}
+
+/**
+ * The serialized form of the {@link EditorGroupGrid}. The size is in pixel
+ * along the orientation of the parent branch, only the proportions matter.
+ */
+export type ISerializedGridNode<TData> = {
+    readonly type: 'leaf';
+    readonly size: number;
+    readonly data: TData;
+} | {
+    readonly type: 'branch';
+    readonly size: number;
+    readonly orientation: Orientation;
+    readonly children: ISerializedGridNode<TData>[];
+};
+
+/**
+ * @class Arranges a collection of {@link IGridView} into a tree of nested
+ * {@link SplitView}s. Each branch of the tree is a {@link SplitView} that lays
+ * out its children along its own orientation.
+ *
+ * @note The grid does not own the views. Removing a view from the grid does
+ *       not dispose it.
+ * @note There is always at least one view in the grid.
+ *
+ * Structure:
+ *      +-------------+-------------+
+ *      |             |   view 2    |
+ *      |   view 1    +-------------+
+ *      |             |   view 3    |
+ *      +-------------+-------------+
+ *      root (horizontal): [ view 1, branch (vertical): [ view 2, view 3 ] ]
+ */
+export class EditorGroupGrid<T extends IGridView> extends Disposable {
+
+    // [fields]
+
+    private readonly _container: HTMLElement;
+    private _root: GridBranch<T>;
+    private _width: number;
+    private _height: number;
+
+    // [constructor]
+
+    constructor(container: HTMLElement, first: T) {
+        super();
+        this._container = container;
+        this._width = 0;
+        this._height = 0;
+        this._root = new GridBranch<T>(Orientation.Horizontal, [{ node: first, size: 0 }]);
+        this._container.appendChild(this._root.element);
+    }
+
+    // [getter]
+
+    /**
+     * Every view in the grid from left to right, top to bottom.
+     */
+    get views(): T[] {
+        const views: T[] = [];
+        this.__collectViews(this._root, views);
+        return views;
+    }
+
+    // [public methods]
+
+    public override dispose(): void {
+        super.dispose();
+        this._root.dispose();
+        this._root.element.remove();
+    }
+
+    /**
+     * @description Adds the view next to the reference view in the given
+     * direction. The space of the reference view is split evenly.
+     */
+    public addView(view: T, reference: T, direction: GridDirection): void {
+        const orientation = direction === GridDirection.Right ? Orientation.Horizontal : Orientation.Vertical;
+        const parent = assert(this.__findParent(this._root, reference), 'The reference view is not in the grid.');
+        const index = parent.indexOf(reference);
+        const size = parent.getChildSize(index);
+
+        // split within the same branch
+        if (parent.orientation === orientation) {
+            const half = Math.floor(size / 2);
+            parent.setChildSize(index, size - half);
+            parent.addChild(view, index + 1, half);
+        }
+        // replace the reference by a new branch of the orientation
+        else {
+            const branch = new GridBranch<T>(orientation, [{ node: reference, size: 1 }, { node: view, size: 1 }]);
+            parent.replaceChild(index, branch);
+        }
+
+        this.layout(this._width, this._height);
+    }
+
+    /**
+     * @description Removes the view from the grid, its space is given to the
+     * adjacent views.
+     * @panic If the view is the last one in the grid.
+     */
+    public removeView(view: T): void {
+        const parent = assert(this.__findParent(this._root, view), 'The view is not in the grid.');
+        check(this.views.length > 1, 'Cannot remove the last view from the grid.');
+
+        parent.removeChild(parent.indexOf(view));
+
+        // a branch with a single child is replaced by the child
+        if (parent !== this._root && parent.children.length === 1) {
+            const grandParent = assert(this.__findParent(this._root, parent));
+            grandParent.replaceChild(grandParent.indexOf(parent), parent.children[0]!);
+            parent.dispose();
+        }
+
+        // the only branch of the root becomes the root
+        const onlyChild = this._root.children.length === 1 ? this._root.children[0] : undefined;
+        if (onlyChild instanceof GridBranch) {
+            const prevRoot = this._root;
+            this._root = onlyChild;
+            this._container.appendChild(onlyChild.element);
+            prevRoot.dispose();
+            prevRoot.element.remove();
+        }
+
+        this.layout(this._width, this._height);
+    }
+
+    public layout(width: number, height: number): void {
+        this._width = width;
+        this._height = height;
+        this._root.layout(width, height);
+    }
+
+    public serialize<TData>(serializeView: (view: T) => TData): ISerializedGridNode<TData> {
+        return this.__serializeNode(this._root, 0, serializeView);
+    }
+
+    /**
+     * @description Replaces the entire grid by the serialized one.
+     * @param createView Creates the view from the serialized data.
+     * @returns The views that are no longer in the grid.
+     * @panic If the serialized grid contains an empty branch.
+     */
+    public deserialize<TData>(serialized: ISerializedGridNode<TData>, createView: (data: TData) => T): T[] {
+        const prevViews = this.views;
+        const root = serialized.type === 'branch'
+            ? serialized
+            : { type: 'branch' as const, size: 0, orientation: Orientation.Horizontal, children: [serialized] };
+
+        const newRoot = this.__deserializeBranch(root, createView);
+        const prevRoot = this._root;
+        this._root = newRoot;
+        prevRoot.dispose();
+        prevRoot.element.remove();
+        this._container.appendChild(newRoot.element);
+
+        this.layout(this._width, this._height);
+        return prevViews;
+    }
+
+    // [private helper methods]
+
+    private __collectViews(branch: GridBranch<T>, views: T[]): void {
+        for (const child of branch.children) {
+            if (child instanceof GridBranch) {
+                this.__collectViews(child, views);
+            } else {
+                views.push(child);
+            }
+        }
+    }
+
+    private __findParent(branch: GridBranch<T>, node: GridNode<T>): GridBranch<T> | undefined {
+        for (const child of branch.children) {
+            if (child === node) {
+                return branch;
+            }
+            if (child instanceof GridBranch) {
+                const found = this.__findParent(child, node);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private __serializeNode<TData>(node: GridNode<T>, size: number, serializeView: (view: T) => TData): ISerializedGridNode<TData> {
+        if (!(node instanceof GridBranch)) {
+            return { type: 'leaf', size: size, data: serializeView(node) };
+        }
+        return {
+            type: 'branch',
+            size: size,
+            orientation: node.orientation,
+            children: node.children.map((child, index) => this.__serializeNode(child, node.getChildSize(index), serializeView)),
+        };
+    }
+
+    private __deserializeBranch<TData>(serialized: ISerializedGridNode<TData> & { type: 'branch' }, createView: (data: TData) => T): GridBranch<T> {
+        if (serialized.children.length === 0) {
+            panic('Cannot deserialize an empty branch of the grid.');
+        }
+
+        const children = serialized.children.map(child => ({
+            node: child.type === 'leaf' ? createView(child.data) : this.__deserializeBranch(child, createView),
+            size: Math.max(0, child.size),
+        }));
+        return new GridBranch<T>(serialized.orientation, children);
+    }
+}
+
+type GridNode<T extends IGridView> = T | GridBranch<T>;
+
+/**
+ * @class A node of the {@link EditorGroupGrid} that lays out its children
+ * with a {@link SplitView}. The sizes of the children are kept in proportion
+ * whenever the branch is re-layout.
+ */
+class GridBranch<T extends IGridView> extends Disposable implements IGridView {
+
+    // [fields]
+
+    private static _branchID = 0;
+
+    public readonly id: string;
+    public readonly element: HTMLElement;
+    public readonly orientation: Orientation;
+    public readonly children: GridNode<T>[];
+
+    /** The sizes of the children along the orientation. */
+    private readonly _sizes: number[];
+    private readonly _splitView: SplitView;
+    private _width: number;
+    private _height: number;
+
+    // [constructor]
+
+    constructor(orientation: Orientation, children: { node: GridNode<T>, size: number }[]) {
+        super();
+        this.id = `editor-group-grid-branch-${GridBranch._branchID++}`;
+        this.orientation = orientation;
+        this.children = children.map(child => child.node);
+        this._sizes = children.map(child => child.size);
+        this._width = 0;
+        this._height = 0;
+
+        this.element = document.createElement('div');
+        this.element.className = 'editor-group-grid-branch';
+        this.element.classList.add(orientation === Orientation.Horizontal ? 'horizontal' : 'vertical');
+
+        this._splitView = this.__register(new SplitView(this.element, {
+            orientation: orientation,
+            viewOpts: children.map(child => this.__createViewOpts(child.node, 0)),
+        }));
+
+        // keeps the children fit when the sashes are dragging
+        this.__register(this._splitView.onDidSashMove(() => {
+            this.children.forEach((child, index) => {
+                this._sizes[index] = assert(this._splitView.getViewBy(child.id)).getSize();
+            });
+            this.__layoutChildren();
+        }));
+    }
+
+    // [public methods]
+
+    public indexOf(node: GridNode<T>): number {
+        return this.children.indexOf(node);
+    }
+
+    public getChildSize(index: number): number {
+        return this._sizes[index] ?? 0;
+    }
+
+    public setChildSize(index: number, size: number): void {
+        this._sizes[index] = size;
+    }
+
+    public addChild(node: GridNode<T>, index: number, size: number): void {
+        this.children.splice(index, 0, node);
+        this._sizes.splice(index, 0, size);
+        this._splitView.addView({ ...this.__createViewOpts(node, 0), index: index });
+    }
+
+    /**
+     * @note The branch must have more than one child.
+     */
+    public removeChild(index: number): GridNode<T> {
+        check(this.children.length > 1, 'Cannot remove the last child of a branch.');
+
+        const [removed] = this.children.splice(index, 1);
+        const [size] = this._sizes.splice(index, 1);
+        this._splitView.removeView(index);
+
+        // the space is given to the previous one (or the next one)
+        const neighbor = Math.max(0, index - 1);
+        this._sizes[neighbor] = this._sizes[neighbor]! + size!;
+
+        return removed!;
+    }
+
+    public replaceChild(index: number, node: GridNode<T>): void {
+        /**
+         * Add before remove since the split-view cannot have no views. Adding
+         * the view also moves the element of the node out of the previous
+         * place.
+         */
+        this._splitView.addView({ ...this.__createViewOpts(node, 0), index: index + 1 });
+        this._splitView.removeView(index);
+        this.children[index] = node;
+    }
+
+    public layout(width: number, height: number): void {
+        this._width = width;
+        this._height = height;
+
+        // distribute the space in proportion
+        const size = this.orientation === Orientation.Horizontal ? width : height;
+        const total = this._sizes.reduce((sum, each) => sum + each, 0);
+        let remaining = size;
+        this._sizes.forEach((each, index) => {
+            const isLast = index === this._sizes.length - 1;
+            const newSize = isLast
+                ? remaining
+                : Math.floor(total > 0 ? each / total * size : size / this._sizes.length);
+            this._sizes[index] = newSize;
+            remaining -= newSize;
+        });
+
+        this.children.forEach((child, index) => {
+            assert(this._splitView.getViewBy(child.id)).setSize(this._sizes[index]!);
+        });
+        this._splitView.layout(width, height);
+
+        this.__layoutChildren();
+    }
+
+    // [private helper methods]
+
+    private __layoutChildren(): void {
+        const horizontal = this.orientation === Orientation.Horizontal;
+        this.children.forEach((child, index) => {
+            const size = this._sizes[index]!;
+            child.layout(horizontal ? size : this._width, horizontal ? this._height : size);
+        });
+    }
+
+    private __createViewOpts(node: GridNode<T>, initSize: number) {
+        return {
+            ID: node.id,
+            element: node.element,
+            minimumSize: 0,
+            maximumSize: null,
+            initSize: initSize,
+        };
+    }
+}
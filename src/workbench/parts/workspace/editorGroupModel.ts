@@ -6,6 +6,7 @@ import { AtLeastOneArray, isDefined, nullable } from "src/base/common/utilities/
 import { IConfigurationChangeEvent } from "src/platform/configuration/common/abstractConfigurationService";
 import { IConfigurationService } from "src/platform/configuration/common/configuration";
 import { EditorPaneModel } from "src/workbench/services/editorPane/editorPaneModel";
+import { IEditorRevealOptions } from "src/workbench/services/editorPane/editorPaneView";
 import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
 
 /**
@@ -37,6 +38,18 @@ export interface IReadonlyEditorGroupModel extends Disposable {
      */
     readonly focused: EditorPaneModel | undefined;
 
+    /**
+     * The preview editor of the editor group. A preview editor is replaced
+     * once another editor is opened as preview. There can be at most one.
+     */
+    readonly preview: EditorPaneModel | undefined;
+
+    /**
+     * The number of pinned editors. Pinned editors always stay at the front of
+     * the group.
+     */
+    readonly pinnedCount: number;
+
     getEditors(order: 'sequential' | 'mru'): EditorPaneModel[];
     getEditorByIndex(index: number): EditorPaneModel | undefined;
     findEditor(model: EditorPaneModel): { model: EditorPaneModel, index: number } | undefined;
@@ -46,6 +59,8 @@ export interface IReadonlyEditorGroupModel extends Disposable {
 	isLast(model: EditorPaneModel): boolean;
     isSelected(model: EditorPaneModel): boolean;
     isFocused(model: EditorPaneModel): boolean;
+    isPreview(model: EditorPaneModel): boolean;
+    isPinned(model: EditorPaneModel): boolean;
 }
 
 /**
@@ -57,11 +72,47 @@ export interface IEditorGroupModel extends IReadonlyEditorGroupModel {
     moveEditor(model: EditorPaneModel, to: number): IEditorGroupMoveResult | undefined;
     setSelection(focused: EditorPaneModel | null, selection: EditorPaneModel[]): void;
     setFocused(focused: EditorPaneModel | null): void;
+
+    /**
+     * @description Pins the editor to the end of the pinned editors. A pinned
+     * editor is no longer a preview.
+     */
+    pinEditor(model: EditorPaneModel): void;
+
+    /**
+     * @description Unpins the editor to the front of the unpinned editors.
+     */
+    unpinEditor(model: EditorPaneModel): void;
+
+    /**
+     * @description Turns the preview editor into a normal one so that it will
+     * not be replaced by the next preview editor.
+     */
+    keepEditor(model: EditorPaneModel): void;
 }
 
 export interface IEditorGroupOpenOptions {
     readonly index?: number;
     readonly focused?: boolean;
+
+    /**
+     * Opens the new editor as preview, which replaces the current preview
+     * editor. If the editor is already opened as preview, setting this to
+     * `false` explicitly keeps it. Ignored when {@link pinned} is true.
+     */
+    readonly preview?: boolean;
+
+    /**
+     * Opens the new editor as pinned. The {@link index} is clamped within the
+     * pinned editors.
+     */
+    readonly pinned?: boolean;
+
+    /**
+     * Reveals the given content once the editor is opened. Only works when the
+     * editor is opened as focused.
+     */
+    readonly reveal?: IEditorRevealOptions;
 }
 
 export interface IEditorGroupOpenResult {
@@ -91,6 +142,8 @@ export const enum EditorGroupChangeType {
     EDITOR_OPEN,
     EDITOR_CLOSE,
     EDITOR_MOVE,
+    EDITOR_PIN,
+    EDITOR_PREVIEW,
 }
 
 /**
@@ -133,6 +186,9 @@ class ReadonlyEditorGroupModel extends Disposable implements IReadonlyEditorGrou
     protected _focused?: EditorPaneModel;
     protected _selection: EditorPaneModel[];
 
+    protected _preview?: EditorPaneModel;
+    protected _pinnedCount: number;
+
     // [constructor]
     
     constructor() {
@@ -141,6 +197,7 @@ class ReadonlyEditorGroupModel extends Disposable implements IReadonlyEditorGrou
         this._mru = new MRU<EditorPaneModel>((a, b) => a.equals(b), []);
         this._editorsListener = this.__register(new LooseDisposableBucket());
         this._selection = [];
+        this._pinnedCount = 0;
     }
     
     // [getter]
@@ -148,6 +205,8 @@ class ReadonlyEditorGroupModel extends Disposable implements IReadonlyEditorGrou
     get size() { return this._editors.length; }
     get focused() { return this._selection[0]; }
     get selection() { return this._selection; }
+    get preview() { return this._preview; }
+    get pinnedCount() { return this._pinnedCount; }
 
     // [public methods (readonly)]
 
@@ -200,6 +259,15 @@ class ReadonlyEditorGroupModel extends Disposable implements IReadonlyEditorGrou
         return this.__isEqual(model, this.focused);
     }
 
+    public isPreview(model: EditorPaneModel): boolean {
+        return this.__isEqual(model, this._preview);
+    }
+
+    public isPinned(model: EditorPaneModel): boolean {
+        const index = this.indexOf(model);
+        return index !== -1 && index < this._pinnedCount;
+    }
+
     // [private methods]
 
     protected __isEqual(first: EditorPaneModel | nullable, second: EditorPaneModel | nullable): boolean {
@@ -249,6 +317,12 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
         const { model: existedModel, index: existedIndex } = existed;
 
         this.__updateSelectionBeforeClose(existedModel, existedIndex, options);
+        if (this.isPreview(existedModel)) {
+            this._preview = undefined;
+        }
+        if (existedIndex < this._pinnedCount) {
+            this._pinnedCount--;
+        }
         this.__splice(existedIndex, true);
         this.__fire(EditorGroupChangeType.EDITOR_CLOSE, existedModel, existedIndex);
 
@@ -264,7 +338,10 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
             return;
         }
         
-        const targetIndex = Numbers.clamp(to, 0, this.size);
+        // pinned and unpinned editors cannot be mixed up
+        const targetIndex = existedIndex < this._pinnedCount
+            ? Numbers.clamp(to, 0, this._pinnedCount - 1)
+            : Numbers.clamp(to, this._pinnedCount, this.size);
         if (existedIndex === targetIndex) {
             return;
         }
@@ -304,6 +381,45 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
         this.setSelection(focused, []);
     }
 
+    public pinEditor(model: EditorPaneModel): void {
+        const existedIndex = this.indexOf(model);
+        if (existedIndex === -1 || existedIndex < this._pinnedCount) {
+            return;
+        }
+
+        const existedModel = this.getEditorByIndex(existedIndex)!;
+        this.keepEditor(existedModel);
+
+        this.__splice(existedIndex, true);
+        this.__splice(this._pinnedCount, false, existedModel);
+        this._pinnedCount++;
+
+        this.__fire(EditorGroupChangeType.EDITOR_PIN, existedModel, this._pinnedCount - 1);
+    }
+
+    public unpinEditor(model: EditorPaneModel): void {
+        const existedIndex = this.indexOf(model);
+        if (existedIndex === -1 || existedIndex >= this._pinnedCount) {
+            return;
+        }
+
+        const existedModel = this.getEditorByIndex(existedIndex)!;
+        this.__splice(existedIndex, true);
+        this._pinnedCount--;
+        this.__splice(this._pinnedCount, false, existedModel);
+
+        this.__fire(EditorGroupChangeType.EDITOR_PIN, existedModel, this._pinnedCount);
+    }
+
+    public keepEditor(model: EditorPaneModel): void {
+        if (!this.isPreview(model)) {
+            return;
+        }
+        const preview = this._preview!;
+        this._preview = undefined;
+        this.__fire(EditorGroupChangeType.EDITOR_PREVIEW, preview, this.indexOf(preview));
+    }
+
     // [private methods]
 
     private __validateSelection(focused: EditorPaneModel, selection: EditorPaneModel[]): AtLeastOneArray<EditorPaneModel> | undefined {
@@ -387,6 +503,16 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
     }
 
     private __calcNewEditorIndex(options: IEditorGroupOpenOptions): number {
+
+        // case 0: pinned editors are always opened within the pinned ones
+        if (options.pinned) {
+            return Numbers.clamp(options.index ?? this._pinnedCount, 0, this._pinnedCount);
+        }
+
+        return Numbers.clamp(this.__calcUnpinnedEditorIndex(options), this._pinnedCount, this.size);
+    }
+
+    private __calcUnpinnedEditorIndex(options: IEditorGroupOpenOptions): number {
         const focusedIndex = this.focused ? this.indexOf(this.focused) : 0;
 
         // case 1: specified by options
@@ -414,10 +540,29 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
     }
 
     private __openNewEditor(model: EditorPaneModel, options: IEditorGroupOpenOptions): IEditorGroupOpenResult {
-        const targetIndex = this.__calcNewEditorIndex(options);
+        const asPreview = !!options.preview && !options.pinned;
+
+        // the new preview editor replaces the previous one at its place
+        const prevPreview = asPreview ? this._preview : undefined;
+        let replaceIndex: number | undefined;
+        if (prevPreview) {
+            replaceIndex = this.indexOf(prevPreview);
+            this.closeEditor(prevPreview, { openAfterClose: false });
+        }
+
+        const targetIndex = this.__calcNewEditorIndex(isDefined(replaceIndex) && !isDefined(options.index)
+            ? { ...options, index: replaceIndex }
+            : options
+        );
         const shouldFocused = options.focused || !this.focused;
         
         this.__splice(targetIndex, false, model);
+        if (options.pinned) {
+            this._pinnedCount++;
+        }
+        if (asPreview) {
+            this._preview = model;
+        }
         this.__registerModelListeners(model);
 
         this.__fire(EditorGroupChangeType.EDITOR_OPEN, model, targetIndex);
@@ -434,6 +579,14 @@ export class EditorGroupModel extends ReadonlyEditorGroupModel implements IEdito
     private __openExistEditor(model: EditorPaneModel, options: IEditorGroupOpenOptions): IEditorGroupOpenResult {
         const shouldFocused = options.focused || !this.focused;
 
+        // opening the preview editor explicitly not as preview keeps it
+        if (options.preview === false || options.pinned) {
+            this.keepEditor(model);
+        }
+        if (options.pinned) {
+            this.pinEditor(model);
+        }
+
         // update selection
         this.setSelection(shouldFocused ? model : this.focused, []);
 
@@ -4,16 +4,80 @@ import { EditorPaneModel } from "src/workbench/services/editorPane/editorPaneMod
 import { IEditorPaneView } from "src/workbench/services/editorPane/editorPaneView";
 import { EditorTabView } from 'src/workbench/parts/workspace/editorTabView';
 import { Disposable } from 'src/base/common/dispose';
+import { Emitter, Register } from 'src/base/common/event';
+import { addDisposableListener, EventType } from 'src/base/browser/basic/dom';
 import { EditorPaneCollection } from 'src/workbench/parts/workspace/editorPane';
 import { ErrorHandler } from 'src/base/common/error';
-import { EditorGroupModel, IEditorGroupOpenOptions } from 'src/workbench/parts/workspace/editorGroupModel';
+import { EditorGroupChangeType, EditorGroupModel, IEditorGroupOpenOptions, IReadonlyEditorGroupModel } from 'src/workbench/parts/workspace/editorGroupModel';
+import { URI } from 'src/base/common/files/uri';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { IGridView } from 'src/workbench/parts/workspace/editorGroupGrid';
+import { ResourceSet } from 'src/base/common/structures/map';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
 
 /**
  * An interface only for {@link EditorGroupView}.
  */
-export interface IEditorGroupView extends Disposable {
+export interface IEditorGroupView extends Disposable, IGridView {
+
+    /**
+     * Fires when the user interacts with the group (focus or click).
+     */
+    readonly onDidFocus: Register<void>;
+
+    /**
+     * Fires when the last editor of the group is closed.
+     */
+    readonly onDidBecomeEmpty: Register<void>;
+
+    /**
+     * The editors of the group.
+     */
+    readonly model: IReadonlyEditorGroupModel;
+
+    /**
+     * @description Marks the group as the active one in the workspace.
+     */
+    setActive(active: boolean): void;
 
     openEditor(model: EditorPaneModel, options: IEditorGroupOpenOptions): Promise<void>;
+
+    /**
+     * @description Closes every editor whose resource is the given resource or
+     * is inside of it (when it is a directory).
+     */
+    closeEditors(resource: URI): Promise<void>;
+
+    /**
+     * @description Replaces every editor whose resource is the given source or
+     * is inside of it with the corresponding resource under the target. The
+     * editors keep their original positions.
+     */
+    renameEditors(source: URI, target: URI): Promise<void>;
+
+    /**
+     * @description Closes the given editor.
+     * @note The user is asked to save the unsaved changes first, nothing is 
+     *       closed if the user cancels. Same for the other closing methods
+     *       below.
+     */
+    closeEditor(model: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Closes every editor except the given one and the pinned
+     * editors.
+     */
+    closeOtherEditors(model: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Closes every editor to the right of the given one except
+     * the pinned editors.
+     */
+    closeEditorsToTheRight(model: EditorPaneModel): Promise<void>;
+
+    pinEditor(model: EditorPaneModel): void;
+    unpinEditor(model: EditorPaneModel): void;
 }
 
 /**
@@ -21,7 +85,24 @@ export interface IEditorGroupView extends Disposable {
  */
 export interface IEditorGroupViewOptions {
     readonly editorToOpen: EditorPaneModel[];
+
+    /**
+     * The index of the editor in {@link editorToOpen} to be focused.
+     */
     readonly mostRecentUsed: number;
+
+    /**
+     * The number of editors at the front of {@link editorToOpen} to be opened
+     * as pinned.
+     */
+    readonly pinned?: number;
+
+    /**
+     * Returns true if the resource is also opened by the editors of other
+     * groups, in which case closing it here loses nothing and the user is not
+     * asked to save it.
+     */
+    readonly isOpenedElsewhere?: (resource: URI) => boolean;
 }
 
 /**
@@ -43,8 +124,19 @@ export interface IEditorGroupViewOptions {
  */
 export class EditorGroupView extends Disposable implements IEditorGroupView {
 
+    // [events]
+
+    private readonly _onDidFocus = this.__register(new Emitter<void>());
+    public readonly onDidFocus = this._onDidFocus.registerListener;
+
+    private readonly _onDidBecomeEmpty = this.__register(new Emitter<void>());
+    public readonly onDidBecomeEmpty = this._onDidBecomeEmpty.registerListener;
+
     // [fields]
 
+    private static _groupID = 0;
+
+    public readonly id: string;
     private readonly _container: HTMLElement;
     private readonly _tabContainer: HTMLElement;
     private readonly _editorContainer: HTMLElement;
@@ -53,15 +145,20 @@ export class EditorGroupView extends Disposable implements IEditorGroupView {
     private readonly _editorTabs: EditorTabView;
     private readonly _editorPane: EditorPaneCollection;
     private _currEditor: IEditorPaneView | undefined; // todo: should not be undefined, use dashboard as default one.
+    private readonly _isOpenedElsewhere: (resource: URI) => boolean;
 
     // [constructor]
 
     constructor(
-        parent: HTMLElement,
         options: IEditorGroupViewOptions,
         @IInstantiationService private readonly instantiationService: IInstantiationService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @IHostService private readonly hostService: IHostService,
+        @INotificationService private readonly notificationService: INotificationService,
     ) {
         super();
+        this.id = `editor-group-${EditorGroupView._groupID++}`;
+        this._isOpenedElsewhere = options.isOpenedElsewhere ?? (() => false);
         this._model = this.__register(instantiationService.createInstance(EditorGroupModel));
 
         // entire container
@@ -80,12 +177,31 @@ export class EditorGroupView extends Disposable implements IEditorGroupView {
         this._editorContainer.className = 'editor-pane-view-container';
         this._editorPane = this.__register(this.instantiationService.createInstance(EditorPaneCollection, this._editorContainer));
         this._container.appendChild(this._editorContainer);
-        
-        parent.appendChild(this._container);
+
+        this.__registerListeners();
+        this.__openInitialEditors(options);
+    }
+
+    // [getter]
+
+    get element(): HTMLElement {
+        return this._container;
+    }
+
+    get model(): IReadonlyEditorGroupModel {
+        return this._model;
     }
 
     // [public methods]
 
+    public layout(width: number, height: number): void {
+        // noop, the group always fills its container.
+    }
+
+    public setActive(active: boolean): void {
+        this._container.classList.toggle('active', active);
+    }
+
     public override dispose(): void {
         this._editorTabs?.dispose();
         this._currEditor?.dispose();
@@ -95,14 +211,26 @@ export class EditorGroupView extends Disposable implements IEditorGroupView {
 
     public async openEditor(model: EditorPaneModel, options: IEditorGroupOpenOptions): Promise<void> {
         
+        // a modified preview editor is kept instead of being replaced
+        const preview = this._model.preview;
+        if (options.preview && preview?.resource && this.editorModelService.isDirty(preview.resource)) {
+            this._model.keepEditor(preview);
+        }
+
         // update on model first
         const { model: opened } = this._model.openEditor(model, options);
-        
+
+        // opened in the background, the focused editor stays rendered.
+        if (!this._model.isFocused(opened)) {
+            this._editorTabs.openEditor(opened);
+            return;
+        }
+
         /**
          * We open the editor first and open tab after only if it succeed. 
          * Avoiding potential data misplacement.
          */
-        return this._editorPane.openEditor(opened)
+        return this._editorPane.openEditor(opened, options.reveal)
         .match(
             async () => {
                 this._editorTabs.openEditor(opened);
@@ -113,6 +241,214 @@ export class EditorGroupView extends Disposable implements IEditorGroupView {
         );
     }
 
+    public async closeEditors(resource: URI): Promise<void> {
+        const prevFocused = this._model.focused;
+        
+        for (const model of this._model.getEditors('sequential')) {
+            if (model.resource && __isAffected(model.resource, resource)) {
+                this._model.closeEditor(model, { openAfterClose: true });
+            }
+        }
+
+        await this.__syncFocusedEditor(prevFocused);
+    }
+
+    public async renameEditors(source: URI, target: URI): Promise<void> {
+        const prevFocused = this._model.focused;
+
+        this._model.getEditors('sequential').forEach((model, index) => {
+            const resource = model.resource;
+            if (!resource || !__isAffected(resource, source)) {
+                return;
+            }
+
+            const relative = URI.relative(source, resource) ?? '';
+            const renamed = model.withResource(relative ? URI.join(target, relative) : target);
+            const focused = this._model.isFocused(model);
+            const pinned = this._model.isPinned(model);
+            const preview = this._model.isPreview(model);
+            
+            this._model.closeEditor(model, { openAfterClose: false });
+            if (renamed) {
+                this._model.openEditor(renamed, { index: index, focused: focused, pinned: pinned, preview: preview });
+            }
+        });
+
+        await this.__syncFocusedEditor(prevFocused);
+    }
+
+    public async closeEditor(model: EditorPaneModel): Promise<void> {
+        if (!await this.__confirmClose([model])) {
+            return;
+        }
+
+        const prevFocused = this._model.focused;
+        this._model.closeEditor(model, { openAfterClose: true });
+        await this.__syncFocusedEditor(prevFocused);
+    }
+
+    public async closeOtherEditors(model: EditorPaneModel): Promise<void> {
+        const index = this._model.indexOf(model);
+        if (index === -1) {
+            return;
+        }
+
+        const toClose = this._model.getEditors('sequential').filter(each => !each.equals(model) && !this._model.isPinned(each));
+        if (!await this.__confirmClose(toClose)) {
+            return;
+        }
+
+        const prevFocused = this._model.focused;
+        this._model.setFocused(model);
+        for (const each of toClose) {
+            this._model.closeEditor(each, { openAfterClose: true });
+        }
+        await this.__syncFocusedEditor(prevFocused);
+    }
+
+    public async closeEditorsToTheRight(model: EditorPaneModel): Promise<void> {
+        const index = this._model.indexOf(model);
+        if (index === -1) {
+            return;
+        }
+
+        const toClose = this._model.getEditors('sequential').slice(index + 1).filter(each => !this._model.isPinned(each));
+        if (!await this.__confirmClose(toClose)) {
+            return;
+        }
+
+        const prevFocused = this._model.focused;
+        for (const each of toClose) {
+            this._model.closeEditor(each, { openAfterClose: true });
+        }
+        await this.__syncFocusedEditor(prevFocused);
+    }
+
+    public pinEditor(model: EditorPaneModel): void {
+        this._model.pinEditor(model);
+    }
+
+    public unpinEditor(model: EditorPaneModel): void {
+        this._model.unpinEditor(model);
+    }
+
     // [private methods]
 
+    private __registerListeners(): void {
+        this.__register(addDisposableListener(this._container, EventType.focusin, () => this._onDidFocus.fire()));
+        this.__register(addDisposableListener(this._container, EventType.mousedown, () => this._onDidFocus.fire(), true));
+
+        this.__register(this._editorTabs.onDidRequestOpen(model => {
+            this.openEditor(model, { focused: true });
+        }));
+        this.__register(this._editorTabs.onDidRequestClose(model => {
+            this.closeEditor(model);
+        }));
+
+        this.__register(this._model.onDidChangeModel(e => {
+            if (e.type === EditorGroupChangeType.EDITOR_CLOSE && e.model) {
+                this._editorPane.closeEditor(e.model);
+            }
+        }));
+
+        // a preview editor is kept once it gets modified
+        this.__register(this.editorModelService.onDidChangeDirty(uri => {
+            const preview = this._model.preview;
+            if (preview?.resource && URI.equals(preview.resource, uri) && this.editorModelService.isDirty(uri)) {
+                this._model.keepEditor(preview);
+            }
+        }));
+    }
+
+    /**
+     * @description Asks the user to save the unsaved changes of the given 
+     * editors one by one before they are closed. The changes are lost once the
+     * editors are closed since their models are released.
+     * @returns False if the user cancels or any of the saves fails, in which
+     *          case none of the editors should be closed.
+     */
+    private async __confirmClose(models: EditorPaneModel[]): Promise<boolean> {
+        const confirmed = new ResourceSet();
+        for (const model of models) {
+            const resource = model.resource;
+            if (!resource || confirmed.has(resource) || !this.editorModelService.isDirty(resource) || this._isOpenedElsewhere(resource)) {
+                continue;
+            }
+            confirmed.add(resource);
+
+            const { response } = await this.hostService.showMessageBox({
+                message: `Do you want to save the changes you made to '${URI.basename(resource)}'?`,
+                detail: 'Your changes will be lost if you don\'t save them.',
+                type: 'warning',
+                noLink: true,
+                buttons: ['Save', 'Don\'t Save', 'Cancel'],
+                defaultId: 0,
+                cancelId: 2,
+            });
+
+            // cancel
+            if (response === 2) {
+                return false;
+            }
+
+            // save
+            const editorModel = this.editorModelService.getModel(resource);
+            if (response === 0 && editorModel) {
+                const saved = await editorModel.save();
+                if (saved.isErr()) {
+                    this.notificationService.error(saved.error, { 
+                        subMessage: `Cannot save '${URI.basename(resource)}'.`, 
+                        actions: [{ label: 'Close', run: 'noop' }],
+                    });
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    private __openInitialEditors(options: IEditorGroupViewOptions): void {
+        const pinned = options.pinned ?? 0;
+        options.editorToOpen.forEach((model, index) => {
+            this._model.openEditor(model, {
+                index: index,
+                focused: index === options.mostRecentUsed,
+                pinned: index < pinned,
+            });
+        });
+        this.__syncFocusedEditor(undefined);
+    }
+
+    /**
+     * @description Renders the focused editor of the model if it is changed 
+     * after the given one.
+     */
+    private async __syncFocusedEditor(prevFocused: EditorPaneModel | undefined): Promise<void> {
+        const focused = this._model.focused;
+        if (focused === prevFocused) {
+            return;
+        }
+
+        if (!focused) {
+            this._editorPane.hideEditor();
+            if (this._model.size === 0) {
+                this._onDidBecomeEmpty.fire();
+            }
+            return;
+        }
+
+        return this._editorPane.openEditor(focused)
+        .match(
+            async () => {
+                this._editorTabs.openEditor(focused);
+            },
+            async err => {
+                ErrorHandler.onUnexpectedError(err);
+            }
+        );
+    }
+}
+
+function __isAffected(resource: URI, target: URI): boolean {
+    return URI.equals(resource, target) || URI.isParentOf(resource, target);
 }
\ No newline at end of file
@@ -8,11 +8,29 @@ import { RegistrantType } from "src/platform/registrant/common/registrant";
 import { IRegistrantService } from "src/platform/registrant/common/registrantService";
 import { EditorPaneModel } from "src/workbench/services/editorPane/editorPaneModel";
 import { IEditorPaneRegistrant } from "src/workbench/services/editorPane/editorPaneRegistrant";
-import { EditorPaneView, IEditorPaneView } from "src/workbench/services/editorPane/editorPaneView";
+import { EditorPaneView, IEditorPaneView, IEditorRevealOptions } from "src/workbench/services/editorPane/editorPaneView";
 
 export interface IEditorPaneCollection extends Disposable {
     readonly container: HTMLElement;
-    openEditor(model: EditorPaneModel): AsyncResult<void, Error>;
+
+    /**
+     * @description Renders the given model in the matched editor pane.
+     * @param reveal If provided, the editor will be asked to reveal it after
+     *               opening.
+     */
+    openEditor(model: EditorPaneModel, reveal?: IEditorRevealOptions): AsyncResult<void, Error>;
+
+    /**
+     * @description Hides the current editor when there is no editor to show.
+     * The editor is kept for later reuse.
+     */
+    hideEditor(): void;
+
+    /**
+     * @description Notifies the editor panes that can handle the given model
+     * that its editor is closed.
+     */
+    closeEditor(model: EditorPaneModel): void;
 }
 
 /**
@@ -59,7 +77,7 @@ export class EditorPaneCollection extends Disposable implements IEditorPaneColle
 
     // [public methods]
 
-    public openEditor(model: EditorPaneModel): AsyncResult<void, Error> {
+    public openEditor(model: EditorPaneModel, reveal?: IEditorRevealOptions): AsyncResult<void, Error> {
         return Result.fromPromise(async () => {
             const { reuse, editor } = this.__getEditor(model);
 
@@ -78,9 +96,29 @@ export class EditorPaneCollection extends Disposable implements IEditorPaneColle
              */
             this.__hideCurrEditor();
             this.__setCurrEditor(editor);
+
+            if (reveal) {
+                await editor.onReveal(reveal);
+            }
         });
     }
 
+    public hideEditor(): void {
+        this.__hideCurrEditor();
+    }
+
+    public closeEditor(model: EditorPaneModel): void {
+        const { ctor } = this._registrant.getMatchEditor(model) ?? {};
+        if (!ctor) {
+            return;
+        }
+        for (const pane of this._editorPanes) {
+            if (pane instanceof ctor) {
+                safe(() => pane.onClose(model));
+            }
+        }
+    }
+
     public override dispose(): void {
         super.dispose();
     }
@@ -1,19 +1,44 @@
 import 'src/workbench/parts/workspace/editorTabView.scss';
 import { IInstantiationService } from 'src/platform/instantiation/common/instantiation';
-import { Disposable } from 'src/base/common/dispose';
+import { Disposable, LooseDisposableBucket } from 'src/base/common/dispose';
 import { EditorPaneModel } from 'src/workbench/services/editorPane/editorPaneModel';
 import { IBrowserEnvironmentService } from 'src/platform/environment/common/environment';
-import { IReadonlyEditorGroupModel } from 'src/workbench/parts/workspace/editorGroupModel';
+import { EditorGroupChangeType, IEditorGroupModel } from 'src/workbench/parts/workspace/editorGroupModel';
+import { Emitter, Register } from 'src/base/common/event';
+import { addDisposableListener, DomUtility, EventType } from 'src/base/browser/basic/dom';
+import { createIcon } from 'src/base/browser/icon/iconRegistry';
+import { Icons } from 'src/base/browser/icon/icons';
+import { URI } from 'src/base/common/files/uri';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { IContextMenuService } from 'src/workbench/services/contextMenu/contextMenuService';
+import { IWorkbenchService } from 'src/workbench/services/workbench/workbenchService';
+import { MenuTypes } from 'src/platform/menu/common/menu';
+import { AnchorHorizontalPosition, AnchorPrimaryAxisAlignment, AnchorVerticalPosition } from 'src/base/browser/basic/contextMenu/contextMenu';
+import { WorkbenchContextKey } from 'src/workbench/services/workbench/workbenchContextKeys';
 
 /**
  * This interface is only for {@link EditorTabView}.
  */
 export interface IEditorTabView extends Disposable {
-    
+
     /**
      * The rendering height in pixel of the entire tab view.
      */
     readonly height: number;
+
+    /**
+     * Fires when the user requests to view the editor of a tab.
+     */
+    readonly onDidRequestOpen: Register<EditorPaneModel>;
+
+    /**
+     * Fires when the user requests to close the editor of a tab.
+     */
+    readonly onDidRequestClose: Register<EditorPaneModel>;
+
+    /**
+     * @description Scrolls the tab of the given editor into the view.
+     */
     openEditor(model: EditorPaneModel): Promise<void>;
 }
 
@@ -22,37 +47,206 @@ export interface IEditorTabView extends Disposable {
  *     +------------------------------------+
  *     |   Tab 1   |   Tab 2   |   Tab 3    |
  *     +------------------------------------+
+ *
+ * @note The tab view re-renders every tab whenever the editors of the group are
+ * changed, the number of tabs are expected to be small. Other changes (focus,
+ * preview and dirty) only update the existing tabs so that they can still be
+ * double-clicked or dragged.
  */
 export class EditorTabView extends Disposable implements IEditorTabView {
 
+    // [events]
+
+    private readonly _onDidRequestOpen = this.__register(new Emitter<EditorPaneModel>());
+    public readonly onDidRequestOpen = this._onDidRequestOpen.registerListener;
+
+    private readonly _onDidRequestClose = this.__register(new Emitter<EditorPaneModel>());
+    public readonly onDidRequestClose = this._onDidRequestClose.registerListener;
+
     // [fields]
 
     public readonly height: number;
     private readonly _container: HTMLElement;
+    private readonly _tabContainer: HTMLElement;
+    private _tabs: HTMLElement[];
+
+    /** The listeners of the currently rendered tabs. */
+    private readonly _tabListeners: LooseDisposableBucket;
+
+    /** The index of the tab that is currently being dragged. */
+    private _draggingIndex?: number;
 
     // [constructor]
 
     constructor(
         parent: HTMLElement,
-        groupModel: IReadonlyEditorGroupModel,
+        private readonly groupModel: IEditorGroupModel,
         @IInstantiationService instantiationService: IInstantiationService,
         @IBrowserEnvironmentService environmentService: IBrowserEnvironmentService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @IContextMenuService private readonly contextMenuService: IContextMenuService,
+        @IWorkbenchService private readonly workbenchService: IWorkbenchService,
     ) {
         super();
         this.height = environmentService.configuration.titleBarHeight;
+        this._tabListeners = this.__register(new LooseDisposableBucket());
+        this._tabs = [];
 
         this._container = document.createElement('div');
         this._container.className = 'editor-tab-view';
         this._container.style.setProperty('--nota-tab-view-height', `${this.height}px`);
 
-        // TODO: actual rendering
+        this._tabContainer = document.createElement('div');
+        this._tabContainer.className = 'editor-tabs';
+        this._container.appendChild(this._tabContainer);
+
+        this.__register(this.groupModel.onDidChangeModel(e => {
+            switch (e.type) {
+                case EditorGroupChangeType.SELECTION:
+                case EditorGroupChangeType.SELECTION_FOCUSED:
+                case EditorGroupChangeType.EDITOR_PREVIEW:
+                    this.__updateTabs();
+                    break;
+                default:
+                    this.__render();
+            }
+        }));
+        this.__register(this.editorModelService.onDidChangeDirty(() => this.__updateTabs()));
+        this.__render();
 
         parent.appendChild(this._container);
     }
 
     // [public method]
 
+    public override dispose(): void {
+        super.dispose();
+        this._container.remove();
+    }
+
     public async openEditor(model: EditorPaneModel): Promise<void> {
-        // TODO
+        const index = this.groupModel.indexOf(model);
+        const tab = this._tabs[index];
+        tab?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+
+    // [private helper methods]
+
+    private __render(): void {
+        this._tabListeners.dispose();
+        DomUtility.Modifiers.clearChildrenNodes(this._tabContainer);
+
+        this._tabs = this.groupModel.getEditors('sequential').map((model, index) => {
+            const tab = this.__renderTab(model, index);
+            this._tabContainer.appendChild(tab);
+            return tab;
+        });
+        this.__updateTabs();
+    }
+
+    private __updateTabs(): void {
+        const group = this.groupModel;
+        this._tabs.forEach((tab, index) => {
+            const model = group.getEditorByIndex(index);
+            if (!model) {
+                return;
+            }
+            const resource = model.resource;
+            tab.classList.toggle('focused', group.isFocused(model));
+            tab.classList.toggle('preview', group.isPreview(model));
+            tab.classList.toggle('pinned', group.isPinned(model));
+            tab.classList.toggle('dirty', !!resource && this.editorModelService.isDirty(resource));
+        });
+    }
+
+    private __renderTab(model: EditorPaneModel, index: number): HTMLElement {
+        const group = this.groupModel;
+        const resource = model.resource;
+
+        const tab = document.createElement('div');
+        tab.className = 'editor-tab';
+        tab.draggable = true;
+        tab.title = resource ? URI.toFsPath(resource) : '';
+
+        const label = document.createElement('span');
+        label.className = 'editor-tab-label';
+        label.textContent = resource ? URI.basename(resource) : model.type;
+        tab.appendChild(label);
+
+        // the close action is replaced by a dot when the editor is dirty
+        const action = createIcon(Icons.Close, ['editor-tab-action']);
+        tab.appendChild(action);
+
+        const listeners = this._tabListeners;
+        listeners.register(addDisposableListener(action, EventType.click, e => {
+            e.stopPropagation();
+            this._onDidRequestClose.fire(model);
+        }));
+
+        // left-click opens, middle-click closes
+        listeners.register(addDisposableListener(tab, EventType.mousedown, e => {
+            if (action.contains(<Node>e.target)) {
+                return;
+            }
+            if (e.button === 0) {
+                this._onDidRequestOpen.fire(model);
+            } else if (e.button === 1) {
+                e.preventDefault();
+                this._onDidRequestClose.fire(model);
+            }
+        }));
+        listeners.register(addDisposableListener(tab, EventType.doubleClick, () => {
+            group.keepEditor(model);
+        }));
+
+        listeners.register(addDisposableListener(tab, EventType.contextmenu, e => {
+            e.preventDefault();
+            this.workbenchService.updateContext(WorkbenchContextKey.editorTabPinnedKey, group.isPinned(model));
+            this.contextMenuService.showContextMenu({
+                menu: MenuTypes.EditorTabContext,
+                primaryAlignment: AnchorPrimaryAxisAlignment.Vertical,
+                horizontalPosition: AnchorHorizontalPosition.Right,
+                verticalPosition: AnchorVerticalPosition.Below,
+                getAnchor: () => ({ x: e.clientX, y: e.clientY }),
+                getContext: () => model,
+            }, this.workbenchService.element.raw);
+        }));
+
+        // drag and drop reordering
+        listeners.register(addDisposableListener(tab, EventType.dragstart, e => {
+            this._draggingIndex = index;
+            e.dataTransfer?.setData('text/plain', tab.title);
+            tab.classList.add('dragging');
+        }));
+        listeners.register(addDisposableListener(tab, EventType.dragend, () => {
+            this._draggingIndex = undefined;
+            tab.classList.remove('dragging');
+        }));
+        listeners.register(addDisposableListener(tab, EventType.dragover, e => {
+            if (this._draggingIndex === undefined) {
+                return;
+            }
+            e.preventDefault();
+            tab.classList.add('drop-target');
+        }));
+        listeners.register(addDisposableListener(tab, EventType.dragleave, () => {
+            tab.classList.remove('drop-target');
+        }));
+        listeners.register(addDisposableListener(tab, EventType.drop, e => {
+            tab.classList.remove('drop-target');
+            const from = this._draggingIndex;
+            if (from === undefined) {
+                return;
+            }
+            e.preventDefault();
+            this._draggingIndex = undefined;
+
+            const dragged = group.getEditorByIndex(from);
+            if (dragged) {
+                group.moveEditor(dragged, index);
+            }
+        }));
+
+        return tab;
     }
 }
@@ -0,0 +1,82 @@
+import { createRegister, RegistrantType } from "src/platform/registrant/common/registrant";
+import { MenuTypes, IMenuItemRegistration } from "src/platform/menu/common/menu";
+import { AllCommands } from "src/workbench/services/workbench/commandList";
+import { WorkbenchContextKey } from "src/workbench/services/workbench/workbenchContextKeys";
+
+export const menuEditorTabContextRegister = createRegister(
+    RegistrantType.Menu,
+    'menuEditorTabContextRegister',
+    (registrant) => {
+        const menuItems: IMenuItemRegistration[] = [
+            {
+                group: 'close',
+                title: 'Close',
+                command: {
+                    commandID: AllCommands.editorTabClose,
+                },
+            },
+            {
+                group: 'close',
+                title: 'Close Others',
+                command: {
+                    commandID: AllCommands.editorTabCloseOthers,
+                },
+            },
+            {
+                group: 'close',
+                title: 'Close to the Right',
+                command: {
+                    commandID: AllCommands.editorTabCloseToTheRight,
+                },
+            },
+            {
+                group: 'pin',
+                title: 'Pin',
+                command: {
+                    commandID: AllCommands.editorTabPin,
+                },
+                when: WorkbenchContextKey.editorTabNotPinned,
+            },
+            {
+                group: 'pin',
+                title: 'Unpin',
+                command: {
+                    commandID: AllCommands.editorTabUnpin,
+                },
+                when: WorkbenchContextKey.editorTabPinned,
+            },
+            {
+                group: 'split',
+                title: 'Split Right',
+                command: {
+                    commandID: AllCommands.workspaceSplitRight,
+                },
+            },
+            {
+                group: 'split',
+                title: 'Split Down',
+                command: {
+                    commandID: AllCommands.workspaceSplitDown,
+                },
+            },
+            {
+                group: 'split',
+                title: 'Move to Next Group',
+                command: {
+                    commandID: AllCommands.workspaceMoveEditorToNextGroup,
+                },
+            },
+            {
+                group: 'history',
+                title: 'Open Local History',
+                command: {
+                    commandID: AllCommands.fileHistoryShow,
+                },
+            },
+        ];
+
+        for (const item of menuItems) {
+            registrant.registerMenuItem(MenuTypes.EditorTabContext, item);
+        }
+    },
+);
@@ -3,9 +3,9 @@ import { Component } from "src/workbench/services/component/component";
 import { IInstantiationService } from "src/platform/instantiation/common/instantiation";
 import { IWorkspaceService, IUnknownModel } from 'src/workbench/parts/workspace/workspaceService';
 import { EditorPaneModel, TextEditorPaneModel } from 'src/workbench/services/editorPane/editorPaneModel';
-import { EditorGroupView } from 'src/workbench/parts/workspace/editorGroupView';
+import { EditorGroupView, IEditorGroupViewOptions } from 'src/workbench/parts/workspace/editorGroupView';
 import { assert } from 'src/base/common/utilities/panic';
-import { IEditorGroupOpenOptions } from 'src/workbench/parts/workspace/editorGroupModel';
+import { EditorGroupChangeType, IEditorGroupOpenOptions } from 'src/workbench/parts/workspace/editorGroupModel';
 import { ICommandService } from 'src/platform/command/common/commandService';
 import { AllCommands } from 'src/workbench/services/workbench/commandList';
 import { isString } from 'src/base/common/utilities/type';
@@ -14,6 +14,27 @@ import { IFileService } from 'src/platform/files/common/fileService';
 import { detectEncodingFromFile } from 'src/base/common/files/encoding';
 import { IBrowserLifecycleService, ILifecycleService, LifecyclePhase } from 'src/platform/lifecycle/browser/browserLifecycleService';
 import { ensureLoadKaTeXCssStyles } from 'src/workbench/contrib/richTextEditor/richTextEditor';
+import { EditorGroupGrid, GridDirection, ISerializedGridNode } from 'src/workbench/parts/workspace/editorGroupGrid';
+import { IDisposable, toDisposable } from 'src/base/common/dispose';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { StatusKey } from 'src/platform/status/common/status';
+import { WorkbenchConfiguration } from 'src/workbench/services/workbench/configuration.register';
+import { ErrorHandler } from 'src/base/common/error';
+import { IBackupService } from 'src/workbench/services/backup/backupService';
+import { IEditorModelReference, IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { ResourceMap } from 'src/base/common/structures/map';
+import { EditorModel } from 'src/editor/model/editorModel';
+import { EDITOR_OPTIONS_DEFAULT } from 'src/editor/common/editorConfiguration';
+
+/**
+ * The persisted data of each {@link EditorGroupView} in the layout.
+ */
+interface ISerializedEditorGroup {
+    readonly editors: string[];
+    readonly mostRecentUsed: number;
+    readonly pinned: number;
+}
 
 export class Workspace extends Component implements IWorkspaceService {
 
@@ -21,7 +42,16 @@ export class Workspace extends Component implements IWorkspaceService {
 
     // [field]
 
-    private _groupView?: EditorGroupView;
+    private _grid?: EditorGroupGrid<EditorGroupView>;
+
+    /** The group where the new editors are opened. */
+    private _activeGroup?: EditorGroupView;
+
+    /** The listeners of each group. */
+    private readonly _groupListeners: Map<EditorGroupView, IDisposable>;
+
+    /** The models restored from the backups, kept until their editors are closed. */
+    private readonly _backups: ResourceMap<IEditorModelReference>;
 
     // [constructor]
 
@@ -30,25 +60,34 @@ export class Workspace extends Component implements IWorkspaceService {
         @IInstantiationService instantiationService: IInstantiationService,
         @IFileService private readonly fileService: IFileService,
         @ILifecycleService private readonly lifecycleService: IBrowserLifecycleService,
+        @IHostService private readonly hostService: IHostService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @IBackupService private readonly backupService: IBackupService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
     ) {
         super('workspace', null, instantiationService);
+        this._groupListeners = new Map();
+        this._backups = new ResourceMap();
     }
 
     public override dispose(): void {
         super.dispose();
+        for (const group of this._grid?.views ?? []) {
+            this.__disposeGroup(group);
+        }
+        this._grid?.dispose();
+        for (const reference of this._backups.values()) {
+            reference.dispose();
+        }
+        this._backups.clear();
     }
 
     // [protected override methods]
 
     protected override __createContent(): void {
-        this._groupView = this.__register(this.instantiationService.createInstance(
-            EditorGroupView, 
-            this.element.raw,
-            {
-                editorToOpen: [],
-                mostRecentUsed: 0,
-            }
-        ));
+        const group = this.__createGroup({ editorToOpen: [], mostRecentUsed: 0 });
+        this._grid = new EditorGroupGrid(this.element.raw, group);
+        this.__setActiveGroup(group);
     }
 
     protected override __registerListeners(): void { 
@@ -59,6 +98,35 @@ export class Workspace extends Component implements IWorkspaceService {
              */
             ensureLoadKaTeXCssStyles(this.logService);
         });
+
+        // the workspace might be resized by its parent split-view
+        const observer = new ResizeObserver(entries => {
+            const rect = entries[entries.length - 1]!.contentRect;
+            this._grid?.layout(rect.width, rect.height);
+        });
+        observer.observe(this.element.raw);
+        this.__register(toDisposable(() => observer.disconnect()));
+
+        // hot exit: the unsaved changes are restored before any editors read the files
+        const backups = this.__restoreBackups();
+
+        // the models restored from the backups follow their renamed files
+        this.__register(this.editorModelService.onDidMoveModel(e => {
+            const reference = this._backups.get(e.source);
+            if (reference?.model === e.model) {
+                this._backups.delete(e.source);
+                this._backups.set(e.target, reference);
+            }
+        }));
+
+        // editor group layout persistence
+        this.__register(this.lifecycleService.onWillQuit(e => e.join(this.__saveLayout())));
+        const restored = this.configurationService.get<boolean>(WorkbenchConfiguration.RestorePrevious, false)
+            ? backups.then(() => this.__restoreLayout())
+            : backups;
+
+        // hot exit: reopens the files with unsaved changes from the previous session
+        restored.then(() => this.__openBackups());
     }
 
     // [public methods]
@@ -81,13 +149,333 @@ export class Workspace extends Component implements IWorkspaceService {
             return;
         }
 
-        // resolved model, we open it in groups.
-        const groupView = assert(this._groupView);
-        await groupView.openEditor(resolved, options);
+        // resolved model, we open it in the active group.
+        await this.__getActiveGroup().openEditor(resolved, options);
+    }
+
+    public async closeEditors(resource: URI): Promise<void> {
+        for (const group of this.__getGroups()) {
+            await group.closeEditors(resource);
+        }
+    }
+
+    public async renameEditors(source: URI, target: URI): Promise<void> {
+        // move the models first so that the renamed editors reuse them.
+        this.editorModelService.moveModels(source, target);
+        for (const group of this.__getGroups()) {
+            await group.renameEditors(source, target);
+        }
+    }
+
+    public async closeEditor(model: EditorPaneModel): Promise<void> {
+        await this.__findGroup(model).closeEditor(model);
+    }
+
+    public async closeOtherEditors(model: EditorPaneModel): Promise<void> {
+        await this.__findGroup(model).closeOtherEditors(model);
+    }
+
+    public async closeEditorsToTheRight(model: EditorPaneModel): Promise<void> {
+        await this.__findGroup(model).closeEditorsToTheRight(model);
+    }
+
+    public pinEditor(model: EditorPaneModel): void {
+        this.__findGroup(model).pinEditor(model);
+    }
+
+    public unpinEditor(model: EditorPaneModel): void {
+        this.__findGroup(model).unpinEditor(model);
     }
-    
+
+    public async splitGroup(direction: GridDirection, model?: EditorPaneModel): Promise<void> {
+        const source = model ? this.__findGroup(model) : this.__getActiveGroup();
+        const target = model ?? source.model.focused;
+        const copy = target?.resource && target.withResource(target.resource);
+        if (!copy) {
+            return;
+        }
+
+        const group = this.__createGroup({ editorToOpen: [], mostRecentUsed: 0 });
+        assert(this._grid).addView(group, source, direction);
+        this.__setActiveGroup(group);
+        await group.openEditor(copy, { focused: true });
+    }
+
+    public async moveEditorToNextGroup(model?: EditorPaneModel): Promise<void> {
+        const source = model ? this.__findGroup(model) : this.__getActiveGroup();
+        const target = model ?? source.model.focused;
+        if (!target) {
+            return;
+        }
+
+        // only one group, we split one instead.
+        const groups = this.__getGroups();
+        if (groups.length === 1) {
+            await this.splitGroup(GridDirection.Right, target);
+            await source.closeEditor(target);
+            return;
+        }
+
+        const next = groups[(groups.indexOf(source) + 1) % groups.length]!;
+        this.__setActiveGroup(next);
+        await next.openEditor(target, { focused: true });
+        await source.closeEditor(target);
+    }
+
+    public focusNextGroup(): void {
+        const groups = this.__getGroups();
+        const index = groups.indexOf(this.__getActiveGroup());
+        const next = groups[(index + 1) % groups.length]!;
+        this.__setActiveGroup(next);
+    }
+
+    public getFocusedEditor(): EditorPaneModel | undefined {
+        return this._activeGroup?.model.focused;
+    }
+
+    public getPreviewEditor(): EditorPaneModel | undefined {
+        return this._activeGroup?.model.preview;
+    }
+
     // [private helper methods]
 
+    private __getGroups(): EditorGroupView[] {
+        return assert(this._grid).views;
+    }
+
+    private __getActiveGroup(): EditorGroupView {
+        return assert(this._activeGroup);
+    }
+
+    /**
+     * @description Returns the group that opens the exact given editor. If not
+     * found, returns the active group.
+     */
+    private __findGroup(model: EditorPaneModel): EditorGroupView {
+        const groups = this.__getGroups();
+        const owner = groups.find(group => group.model.getEditors('sequential').includes(model));
+        return owner ?? this.__getActiveGroup();
+    }
+
+    private __createGroup(options: IEditorGroupViewOptions): EditorGroupView {
+        const group = this.instantiationService.createInstance(EditorGroupView, {
+            ...options,
+            isOpenedElsewhere: resource => this.__isOpenedByOtherGroups(group, resource),
+        });
+
+        const onDidFocus = group.onDidFocus(() => this.__setActiveGroup(group));
+        const onDidBecomeEmpty = group.onDidBecomeEmpty(() => this.__removeGroup(group));
+        const onDidClose = group.model.onDidChangeModel(e => {
+            if (e.type === EditorGroupChangeType.EDITOR_CLOSE && e.model?.resource) {
+                this.__releaseBackup(e.model.resource);
+            }
+        });
+        this._groupListeners.set(group, toDisposable(() => {
+            onDidFocus.dispose();
+            onDidBecomeEmpty.dispose();
+            onDidClose.dispose();
+        }));
+
+        return group;
+    }
+
+    private __isOpenedByOtherGroups(group: EditorGroupView, resource: URI): boolean {
+        return (this._grid?.views ?? []).some(each => each !== group && each.model.getEditors('sequential').some(model => model.resource && URI.equals(model.resource, resource)));
+    }
+
+    /**
+     * @description Removes the group from the layout. The last group is never
+     * removed.
+     */
+    private __removeGroup(group: EditorGroupView): void {
+        const grid = assert(this._grid);
+        const groups = grid.views;
+        if (groups.length <= 1) {
+            return;
+        }
+
+        const index = groups.indexOf(group);
+        grid.removeView(group);
+        this.__disposeGroup(group);
+
+        if (this._activeGroup === group) {
+            const remaining = grid.views;
+            this.__setActiveGroup(remaining[Math.max(0, index - 1)]!);
+        }
+    }
+
+    private __disposeGroup(group: EditorGroupView): void {
+        this._groupListeners.get(group)?.dispose();
+        this._groupListeners.delete(group);
+        group.dispose();
+    }
+
+    private __setActiveGroup(group: EditorGroupView): void {
+        if (this._activeGroup === group) {
+            return;
+        }
+        this._activeGroup?.setActive(false);
+        this._activeGroup = group;
+        group.setActive(true);
+    }
+
+    private async __saveLayout(): Promise<void> {
+        const serialized = assert(this._grid).serialize<ISerializedEditorGroup>(group => {
+            const editors: string[] = [];
+            let mostRecentUsed = 0;
+            let pinned = 0;
+
+            // only the text editors with resources can be restored
+            for (const model of group.model.getEditors('sequential')) {
+                if (!(model instanceof TextEditorPaneModel)) {
+                    continue;
+                }
+                if (group.model.isFocused(model)) {
+                    mostRecentUsed = editors.length;
+                }
+                if (group.model.isPinned(model)) {
+                    pinned++;
+                }
+                editors.push(URI.toString(model.resource));
+            }
+            return { editors, mostRecentUsed, pinned };
+        });
+        await this.hostService.setApplicationStatus(StatusKey.EditorGroupLayout, serialized);
+    }
+
+    private async __restoreLayout(): Promise<void> {
+        try {
+            const serialized = await this.hostService.getApplicationStatus<ISerializedGridNode<ISerializedEditorGroup>>(StatusKey.EditorGroupLayout);
+            if (!serialized) {
+                return;
+            }
+
+            const validated = await this.__validateLayout(serialized);
+            const grid = assert(this._grid);
+            const groups = grid.views;
+
+            // the user has opened something already
+            if (!validated || groups.length > 1 || groups[0]!.model.size > 0) {
+                return;
+            }
+
+            const prevGroups = grid.deserialize(validated, group => this.__createGroup({
+                editorToOpen: group.editors.map(raw => new TextEditorPaneModel(URI.parse(raw))),
+                mostRecentUsed: group.mostRecentUsed,
+                pinned: group.pinned,
+            }));
+            this._activeGroup = undefined;
+            prevGroups.forEach(group => this.__disposeGroup(group));
+            this.__setActiveGroup(grid.views[0]!);
+        } catch (error) {
+            ErrorHandler.onUnexpectedError(error);
+        }
+    }
+
+    /**
+     * @description Restores the backups into the models of their files, so 
+     * that the unsaved changes are restored even if the editors are opened in
+     * the background and not rendered yet.
+     */
+    private async __restoreBackups(): Promise<void> {
+        try {
+            for (const uri of await this.backupService.getBackups()) {
+                const backup = await this.backupService.takeBackup(uri);
+                if (!backup) {
+                    continue;
+                }
+
+                const reference = this.editorModelService.acquireModel(uri, () => this.instantiationService.createInstance(EditorModel, uri, EDITOR_OPTIONS_DEFAULT));
+                const model = reference.model;
+                const built = model.state ? undefined : await model.build([]);
+                if (built?.isErr()) {
+                    this.logService.warn('Workspace', 'Cannot restore the backup.', { at: URI.toString(uri), error: built.error });
+                    reference.dispose();
+                    continue;
+                }
+
+                this.logService.debug('Workspace', `Restoring the backup at: ${URI.toString(uri)}`);
+                model.restoreBackup(backup.content, backup.modifyTime);
+                this._backups.set(uri, reference);
+            }
+        } catch (error) {
+            ErrorHandler.onUnexpectedError(error);
+        }
+    }
+
+    /**
+     * @description Opens the files whose backups are restored but are not 
+     * opened by the restored layout.
+     */
+    private async __openBackups(): Promise<void> {
+        try {
+            const opened = this.__getGroups().flatMap(group => group.model.getEditors('sequential'));
+
+            for (const uri of [...this._backups.keys()]) {
+                if (opened.some(model => model.resource && URI.equals(model.resource, uri))) {
+                    continue;
+                }
+                await this.__getActiveGroup().openEditor(new TextEditorPaneModel(uri), { focused: false, preview: false });
+            }
+        } catch (error) {
+            ErrorHandler.onUnexpectedError(error);
+        }
+    }
+
+    /**
+     * @description Releases the model restored from the backup once its file
+     * is no longer opened by any editors.
+     */
+    private __releaseBackup(uri: URI): void {
+        const reference = this._backups.get(uri);
+        if (!reference) {
+            return;
+        }
+
+        const opened = this.__getGroups().some(group => group.model.getEditors('sequential').some(model => model.resource && URI.equals(model.resource, uri)));
+        if (opened) {
+            return;
+        }
+        this._backups.delete(uri);
+        reference.dispose();
+    }
+
+    /**
+     * @description Removes the editors that no longer exist and the groups
+     * that have no editors left.
+     */
+    private async __validateLayout(node: ISerializedGridNode<ISerializedEditorGroup>): Promise<ISerializedGridNode<ISerializedEditorGroup> | undefined> {
+        if (node.type === 'branch') {
+            const children: ISerializedGridNode<ISerializedEditorGroup>[] = [];
+            for (const child of node.children ?? []) {
+                const validated = await this.__validateLayout(child);
+                if (validated) {
+                    children.push(validated);
+                }
+            }
+            return children.length > 0 ? { ...node, children } : undefined;
+        }
+
+        const group = node.data;
+        const editors: string[] = [];
+        let mostRecentUsed = 0;
+        let pinned = 0;
+        for (const [index, raw] of (group?.editors ?? []).entries()) {
+            const exist = await this.fileService.exist(URI.parse(raw)).unwrapOr(false);
+            if (!exist) {
+                continue;
+            }
+            if (index === group.mostRecentUsed) {
+                mostRecentUsed = editors.length;
+            }
+            if (index < group.pinned) {
+                pinned++;
+            }
+            editors.push(raw);
+        }
+        return editors.length > 0 ? { ...node, data: { editors, mostRecentUsed, pinned } } : undefined;
+    }
+
     private async __resolveUnknownModel(unknown: IUnknownModel): Promise<EditorPaneModel | string> {
         const uri = unknown.uri;
 
@@ -1,6 +1,7 @@
 import { URI } from 'src/base/common/files/uri';
 import { createService, IService } from 'src/platform/instantiation/common/decorator';
 import { IEditorGroupOpenOptions } from 'src/workbench/parts/workspace/editorGroupModel';
+import { GridDirection } from 'src/workbench/parts/workspace/editorGroupGrid';
 import { IComponent } from 'src/workbench/services/component/component';
 import { EditorPaneModel } from 'src/workbench/services/editorPane/editorPaneModel';
 
@@ -26,4 +27,75 @@ export interface IWorkspaceService extends IComponent, IService {
      * @param model 
      */
     openEditor(model: EditorPaneModel, options: IEditorGroupOpenOptions): Promise<void>;
+
+    /**
+     * @description Closes every opened editor whose resource is the given 
+     * resource or is inside of it. Should be invoked once the resource is 
+     * deleted.
+     */
+    closeEditors(resource: URI): Promise<void>;
+
+    /**
+     * @description Reopens every opened editor whose resource is the given 
+     * source or is inside of it at the corresponding resource under the 
+     * target. Should be invoked once the resource is renamed or moved.
+     * @note The opened models are moved along with the unsaved changes.
+     */
+    renameEditors(source: URI, target: URI): Promise<void>;
+
+    /**
+     * @description Closes the given opened editor.
+     */
+    closeEditor(model: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Closes every opened editor except the given one and the
+     * pinned ones.
+     */
+    closeOtherEditors(model: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Closes every opened editor to the right of the given one
+     * except the pinned ones.
+     */
+    closeEditorsToTheRight(model: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Pins the given opened editor to the front of the editors.
+     */
+    pinEditor(model: EditorPaneModel): void;
+
+    /**
+     * @description Unpins the given opened editor.
+     */
+    unpinEditor(model: EditorPaneModel): void;
+
+    /**
+     * @description Creates a new editor group next to the group of the given
+     * editor (or the active group) and opens a copy of the editor (or the
+     * focused editor) in it.
+     */
+    splitGroup(direction: GridDirection, model?: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Moves the given editor (or the focused editor of the active
+     * group) to the next editor group. A new group is split to the right if
+     * there is only one group.
+     */
+    moveEditorToNextGroup(model?: EditorPaneModel): Promise<void>;
+
+    /**
+     * @description Makes the next editor group as the active one.
+     */
+    focusNextGroup(): void;
+
+    /**
+     * @description Returns the focused editor of the active editor group.
+     */
+    getFocusedEditor(): EditorPaneModel | undefined;
+
+    /**
+     * @description Returns the preview editor of the active editor group.
+     */
+    getPreviewEditor(): EditorPaneModel | undefined;
 }
\ No newline at end of file
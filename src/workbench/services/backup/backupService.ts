@@ -0,0 +1,281 @@
+import { Time } from "src/base/common/date";
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { DataBuffer } from "src/base/common/files/buffer";
+import { FileType } from "src/base/common/files/file";
+import { URI } from "src/base/common/files/uri";
+import { ILogService } from "src/base/common/logger";
+import { ResourceMap } from "src/base/common/structures/map";
+import { IntervalTimer } from "src/base/common/utilities/async";
+import { hash } from "src/base/common/utilities/hash";
+import { Strings } from "src/base/common/utilities/string";
+import { isNumber, isObject, isString } from "src/base/common/utilities/type";
+import { IConfigurationService } from "src/platform/configuration/common/configuration";
+import { IBrowserEnvironmentService } from "src/platform/environment/common/environment";
+import { IFileService } from "src/platform/files/common/fileService";
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+import { IBrowserLifecycleService, ILifecycleService } from "src/platform/lifecycle/browser/browserLifecycleService";
+import { IEditorModelService } from "src/workbench/services/editorModel/editorModelService";
+import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
+
+export const IBackupService = createService<IBackupService>('backup-service');
+
+/**
+ * The persisted data of each backup file.
+ */
+interface IBackup {
+    readonly resource: string;
+    readonly content: string;
+
+    /** The modify time of the file on the disk when the backup is taken. */
+    readonly modifyTime?: number;
+}
+
+/**
+ * The backup of a resource from the previous session.
+ */
+export interface IRestoredBackup {
+    readonly content: string;
+
+    /** 
+     * The modify time of the file on the disk when the backup is taken. The
+     * file is modified since then if it differs.
+     */
+    readonly modifyTime?: number;
+}
+
+/**
+ * An interface only for {@link BackupService}.
+ */
+export interface IBackupService extends IDisposable, IService {
+
+    /**
+     * @description Returns the resources that have backups from the previous
+     * session and are not restored yet. Always empty if hot exit is disabled.
+     */
+    getBackups(): Promise<URI[]>;
+
+    /**
+     * @description Returns the backup content of the given resource from the
+     * previous session. The backup is only returned once so that reopening
+     * the resource later reads it from the disk.
+     * @returns `undefined` if the resource has no backups.
+     */
+    takeBackup(uri: URI): Promise<IRestoredBackup | undefined>;
+
+    /**
+     * @description Writes the content of every dirty model into its backup
+     * immediately. Backups whose content does not change are skipped.
+     */
+    backupAll(): Promise<void>;
+}
+
+/**
+ * @class Snapshots the unsaved content of the opened documents periodically
+ * into the user data directory (hot exit). On the next launch, the backups
+ * are restored so that a crash or a quit without saving does not lose edits.
+ *
+ * @note A backup is deleted once its resource is no longer dirty.
+ * @note The backup of each resource is named by the hash of the resource.
+ * Resources of the same hash are named in the following way (`<hash>-1`,
+ * `<hash>-2`...).
+ */
+export class BackupService extends Disposable implements IBackupService {
+
+    declare _serviceMarker: undefined;
+
+    // [fields]
+
+    public static readonly BACKUP_INTERVAL = Time.sec(5);
+
+    private readonly _backupRoot: URI;
+    private readonly _timer: IntervalTimer;
+
+    /** The backups from the previous session that are not restored yet. */
+    private readonly _restored: Promise<ResourceMap<IRestoredBackup>>;
+
+    /** The content of the backups that are written in this session. */
+    private readonly _backedUp: ResourceMap<string>;
+
+    /** The backup file of each resource that is resolved in this session. */
+    private readonly _backupURIs: ResourceMap<URI>;
+
+    private _enabled: boolean;
+    private _quitting: boolean;
+
+    // [constructor]
+
+    constructor(
+        @IFileService private readonly fileService: IFileService,
+        @IEditorModelService private readonly editorModelService: IEditorModelService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @ILifecycleService lifecycleService: IBrowserLifecycleService,
+        @ILogService private readonly logService: ILogService,
+        @IBrowserEnvironmentService environmentService: IBrowserEnvironmentService,
+    ) {
+        super();
+        this._backupRoot = URI.join(environmentService.userDataPath, 'backups');
+        this._timer = this.__register(new IntervalTimer());
+        this._backedUp = new ResourceMap();
+        this._backupURIs = new ResourceMap();
+        this._enabled = this.configurationService.get<boolean>(WorkbenchConfiguration.HotExit, true);
+        this._quitting = false;
+
+        // backups are dropped if hot exit is disabled
+        this._restored = this._enabled
+            ? this.__readBackups()
+            : this.fileService.delete(this._backupRoot, { recursive: true }).unwrapOr(undefined).then(() => new ResourceMap());
+
+        this.__setEnabled(this._enabled);
+        this.__register(this.configurationService.onDidConfigurationChange(e => {
+            if (e.affect(WorkbenchConfiguration.HotExit)) {
+                this.__setEnabled(this.configurationService.get<boolean>(WorkbenchConfiguration.HotExit, true));
+            }
+        }));
+
+        this.__register(this.editorModelService.onDidChangeDirty(uri => {
+            // the models are unregistered during quitting, their backups must be kept.
+            if (!this._quitting && !this.editorModelService.isDirty(uri)) {
+                this.__discardBackup(uri);
+            }
+        }));
+
+        this.__register(lifecycleService.onWillQuit(e => {
+            this._quitting = true;
+            if (this._enabled) {
+                e.join(this.backupAll());
+            }
+        }));
+    }
+
+    // [public methods]
+
+    public async getBackups(): Promise<URI[]> {
+        const restored = await this._restored;
+        return [...restored.keys()];
+    }
+
+    public async takeBackup(uri: URI): Promise<IRestoredBackup | undefined> {
+        const restored = await this._restored;
+        const backup = restored.get(uri);
+        restored.delete(uri);
+        return backup;
+    }
+
+    public async backupAll(): Promise<void> {
+        for (const model of this.editorModelService.getModels()) {
+            if (!model.dirty || !model.state) {
+                continue;
+            }
+
+            const uri = model.source;
+            const content = model.getRawContent();
+            if (this._backedUp.get(uri) === content) {
+                continue;
+            }
+
+            const backup: IBackup = { resource: URI.toString(uri), content: content, modifyTime: model.diskModifyTime };
+            const backupURI = await this.__getBackupURI(uri);
+            await Strings.stringifySafe2(backup).toAsync()
+                .andThen(raw => this.fileService.writeFile(backupURI, DataBuffer.fromString(raw), { create: true, overwrite: true, unlock: false, atomic: true }))
+                .match<void>(
+                    () => { this._backedUp.set(uri, content); },
+                    error => this.logService.warn('BackupService', 'Cannot back up the file.', { at: URI.toString(uri), error: error }),
+                );
+        }
+    }
+
+    // [private helper methods]
+
+    private __setEnabled(enabled: boolean): void {
+        this._enabled = enabled;
+        if (enabled) {
+            this._timer.set(BackupService.BACKUP_INTERVAL, () => this.backupAll());
+        } else {
+            this._timer.cancel();
+        }
+    }
+
+    /**
+     * @description Returns the backup file of the given resource. The backups
+     * of other resources of the same hash are skipped.
+     */
+    private async __getBackupURI(uri: URI): Promise<URI> {
+        const resolved = this._backupURIs.get(uri);
+        if (resolved) {
+            return resolved;
+        }
+
+        const resource = URI.toString(uri);
+        const name = (hash(resource) >>> 0).toString(16);
+        for (let i = 0; ; i++) {
+            const backupURI = URI.join(this._backupRoot, i === 0 ? `${name}.json` : `${name}-${i}.json`);
+            const backup = await this.__readBackupAt(backupURI);
+            const taken = backup ? backup.resource !== resource : this.__isResolvedByOthers(backupURI, uri);
+            if (!taken) {
+                this._backupURIs.set(uri, backupURI);
+                return backupURI;
+            }
+        }
+    }
+
+    /**
+     * @description Returns true if the backup file is resolved by another 
+     * resource whose backup is not written yet.
+     */
+    private __isResolvedByOthers(backupURI: URI, uri: URI): boolean {
+        for (const [resource, resolved] of this._backupURIs.entries()) {
+            if (URI.equals(resolved, backupURI) && !URI.equals(resource, uri)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private async __readBackupAt(backupURI: URI): Promise<IBackup | undefined> {
+        const raw = await this.fileService.readFile(backupURI).map(buffer => buffer.toString()).unwrapOr('');
+        return __parseBackup(raw);
+    }
+
+    private async __discardBackup(uri: URI): Promise<void> {
+        this._backedUp.delete(uri);
+        const backupURI = await this.__getBackupURI(uri);
+        if (await this.fileService.exist(backupURI).unwrapOr(false)) {
+            await this.fileService.delete(backupURI).unwrapOr(undefined);
+        }
+    }
+
+    /**
+     * @description Reads the backups written by the previous session. Invalid
+     * backups and the ones whose resource no longer exists are deleted.
+     */
+    private async __readBackups(): Promise<ResourceMap<IRestoredBackup>> {
+        const backups = new ResourceMap<IRestoredBackup>();
+
+        const children = await this.fileService.readDir(this._backupRoot).unwrapOr([]);
+        for (const [name, type] of children) {
+            if (type !== FileType.FILE) {
+                continue;
+            }
+
+            const backupURI = URI.join(this._backupRoot, name);
+            const backup = await this.__readBackupAt(backupURI);
+            const resource = backup && URI.parse(backup.resource);
+
+            if (!backup || !resource || !await this.fileService.exist(resource).unwrapOr(false)) {
+                await this.fileService.delete(backupURI).unwrapOr(undefined);
+                continue;
+            }
+            backups.set(resource, { content: backup.content, modifyTime: backup.modifyTime });
+        }
+
+        this.logService.debug('BackupService', `Found ${backups.size} backups from the previous session.`);
+        return backups;
+    }
+}
+
+function __parseBackup(raw: string): IBackup | undefined {
+    return Strings.jsonParseSafe<IBackup>(raw).match(
+        backup => isObject(backup) && isString(backup.resource) && isString(backup.content) && (backup.modifyTime === undefined || isNumber(backup.modifyTime)) ? backup : undefined,
+        () => undefined,
+    );
+}
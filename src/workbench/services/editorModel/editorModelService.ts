@@ -0,0 +1,253 @@
+import { Disposable, DisposableBucket, IDisposable, toDisposable } from "src/base/common/dispose";
+import { Emitter, Register } from "src/base/common/event";
+import { URI } from "src/base/common/files/uri";
+import { ResourceMap } from "src/base/common/structures/map";
+import { IEditorModel } from "src/editor/common/model";
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+
+export const IEditorModelService = createService<IEditorModelService>('editor-model-service');
+
+/**
+ * A reference to a model shared by editors. See {@link IEditorModelService.acquireModel}.
+ */
+export interface IEditorModelReference extends IDisposable {
+    readonly model: IEditorModel;
+}
+
+/**
+ * Fires when a registered model is moved to the new resource. See
+ * {@link IEditorModelService.moveModels}.
+ */
+export interface IEditorModelMoveEvent {
+    readonly model: IEditorModel;
+    readonly source: URI;
+    readonly target: URI;
+}
+
+/**
+ * An interface only for {@link EditorModelService}.
+ */
+export interface IEditorModelService extends IService {
+
+    /**
+     * Fires with the resource whenever its dirty state might be changed,
+     * including the model of the resource is registered or unregistered.
+     */
+    readonly onDidChangeDirty: Register<URI>;
+
+    /**
+     * Fires with the model whenever any of the registered models is saved.
+     */
+    readonly onDidSave: Register<IEditorModel>;
+
+    /**
+     * Fires for every model that is moved to the new resource.
+     */
+    readonly onDidMoveModel: Register<IEditorModelMoveEvent>;
+
+    /**
+     * @description Registers a model that is currently opened by an editor so
+     * that other parts of the workbench can modify the opened document through
+     * the model instead of the disk.
+     * @returns A disposable to unregister the model. Must be disposed before
+     *          the model is disposed.
+     */
+    registerModel(model: IEditorModel): IDisposable;
+
+    /**
+     * @description Returns a reference to the model of the given resource that
+     * is shared by every editor. The model is created by the given factory
+     * and registered when the resource is referenced for the first time.
+     * @returns A reference. Once every reference is disposed, the model is 
+     *          unregistered and disposed.
+     */
+    acquireModel(uri: URI, factory: () => IEditorModel): IEditorModelReference;
+
+    /**
+     * @description Returns the most recently registered model of the given
+     * resource, `undefined` if the resource is not opened by any editors.
+     * @note The model of a resource is shared by editors, see {@link acquireModel}.
+     */
+    getModel(uri: URI): IEditorModel | undefined;
+
+    /**
+     * @description Moves the models of the given resource (or any resources
+     * under it if it is a directory) to the renamed or moved resource. The
+     * models keep their content and unsaved changes.
+     * @note Should be called once the resource is renamed or moved on the disk.
+     */
+    moveModels(source: URI, target: URI): void;
+
+    /**
+     * @description Returns every registered model.
+     */
+    getModels(): IEditorModel[];
+
+    /**
+     * @description Returns true if any of the registered models of the given
+     * resource is dirty.
+     */
+    isDirty(uri: URI): boolean;
+}
+
+/**
+ * @class Keeps track of every {@link IEditorModel} that is opened by editors.
+ */
+export class EditorModelService extends Disposable implements IEditorModelService {
+
+    declare _serviceMarker: undefined;
+
+    // [events]
+
+    private readonly _onDidChangeDirty = this.__register(new Emitter<URI>());
+    public readonly onDidChangeDirty = this._onDidChangeDirty.registerListener;
+
+    private readonly _onDidSave = this.__register(new Emitter<IEditorModel>());
+    public readonly onDidSave = this._onDidSave.registerListener;
+
+    private readonly _onDidMoveModel = this.__register(new Emitter<IEditorModelMoveEvent>());
+    public readonly onDidMoveModel = this._onDidMoveModel.registerListener;
+
+    // [fields]
+
+    private readonly _models: ResourceMap<IEditorModel[]>;
+
+    /**
+     * The shared models along with their number of references.
+     */
+    private readonly _shared: ResourceMap<{ readonly model: IEditorModel, readonly registration: IDisposable, count: number }>;
+
+    // [constructor]
+
+    constructor() {
+        super();
+        this._models = new ResourceMap();
+        this._shared = new ResourceMap();
+    }
+
+    // [public methods]
+
+    public registerModel(model: IEditorModel): IDisposable {
+        this.__addModel(model);
+
+        // the source of the model is looked up every time since it might be moved.
+        const lifecycle = new DisposableBucket();
+        lifecycle.register(model.onDidDirtyChange(() => this._onDidChangeDirty.fire(model.source)));
+        lifecycle.register(model.onDidSave(() => this._onDidSave.fire(model)));
+        if (model.dirty) {
+            this._onDidChangeDirty.fire(model.source);
+        }
+
+        lifecycle.register(toDisposable(() => {
+            this.__removeModel(model);
+            if (model.dirty) {
+                this._onDidChangeDirty.fire(model.source);
+            }
+        }));
+        return lifecycle;
+    }
+
+    public acquireModel(uri: URI, factory: () => IEditorModel): IEditorModelReference {
+        let shared = this._shared.get(uri);
+        if (!shared) {
+            const model = factory();
+            shared = { model: model, registration: this.registerModel(model), count: 0 };
+            this._shared.set(uri, shared);
+        }
+        shared.count++;
+
+        const entry = shared;
+        let disposed = false;
+        return {
+            model: entry.model,
+            dispose: () => {
+                if (disposed) {
+                    return;
+                }
+                disposed = true;
+                if (--entry.count > 0) {
+                    return;
+                }
+                const source = entry.model.source;
+                if (this._shared.get(source) === entry) {
+                    this._shared.delete(source);
+                }
+                entry.registration.dispose();
+                entry.model.dispose();
+            },
+        };
+    }
+
+    public getModel(uri: URI): IEditorModel | undefined {
+        return this._models.get(uri)?.at(-1);
+    }
+
+    public moveModels(source: URI, target: URI): void {
+        const moved: IEditorModelMoveEvent[] = [];
+        for (const [resource, models] of [...this._models.entries()]) {
+            if (!URI.equals(resource, source) && !URI.isParentOf(resource, source)) {
+                continue;
+            }
+
+            const relative = URI.relative(source, resource) ?? '';
+            const renamed = relative ? URI.join(target, relative) : target;
+
+            this._models.delete(resource);
+            for (const model of models) {
+                model.rebind(renamed);
+                this.__addModel(model);
+            }
+            for (const model of new Set(models)) {
+                moved.push({ model: model, source: resource, target: renamed });
+            }
+
+            const shared = this._shared.get(resource);
+            if (shared) {
+                this._shared.delete(resource);
+                this._shared.set(renamed, shared);
+            }
+        }
+
+        for (const event of moved) {
+            this._onDidMoveModel.fire(event);
+            if (event.model.dirty) {
+                this._onDidChangeDirty.fire(event.source);
+                this._onDidChangeDirty.fire(event.target);
+            }
+        }
+    }
+
+    public getModels(): IEditorModel[] {
+        return [...this._models.values()].flat();
+    }
+
+    public isDirty(uri: URI): boolean {
+        return this._models.get(uri)?.some(model => model.dirty) ?? false;
+    }
+
+    // [private helper methods]
+
+    private __addModel(model: IEditorModel): void {
+        let models = this._models.get(model.source);
+        if (!models) {
+            models = [];
+            this._models.set(model.source, models);
+        }
+        models.push(model);
+    }
+
+    private __removeModel(model: IEditorModel): void {
+        const models = this._models.get(model.source);
+        if (!models) {
+            return;
+        }
+
+        const index = models.indexOf(model);
+        if (index !== -1) {
+            models.splice(index, 1);
+        }
+        if (models.length === 0) {
+            this._models.delete(model.source);
+        }
+    }
+}
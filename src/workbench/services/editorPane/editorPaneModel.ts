@@ -47,6 +47,16 @@ export abstract class EditorPaneModel {
         return this === other;
     }
 
+    /**
+     * @description Returns a new model of the same type which refers to the 
+     * given resource. Used when the resource of the model has been renamed or
+     * moved. Returns `undefined` if the model cannot be moved.
+     * @override Subclasses may overrides this method to customize behaviors.
+     */
+    public withResource(resource: URI): EditorPaneModel | undefined {
+        return undefined;
+    }
+
     public getInfoString(): string {
         return `EditorPaneModel "${this.type}" "${this.resource && URI.toString(this.resource)}"`;
     }
@@ -66,6 +76,10 @@ export class TextEditorPaneModel extends EditorPaneModel {
         this.resource = resource;
     }
 
+    public override withResource(resource: URI): TextEditorPaneModel {
+        return new TextEditorPaneModel(resource);
+    }
+
     public override equals(other: EditorPaneModel): boolean {
         if (!other.resource) {
             return false;
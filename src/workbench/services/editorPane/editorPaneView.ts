@@ -6,6 +6,24 @@ import { IInstantiationService } from "src/platform/instantiation/common/instant
 import { nullable } from "src/base/common/utilities/type";
 import { panic } from "src/base/common/utilities/panic";
 
+/**
+ * Describes a range of the raw file content that should be revealed once the 
+ * editor is opened.
+ */
+export interface IEditorRevealOptions {
+
+    /**
+     * Zero-based line number of the range.
+     */
+    readonly lineNumber: number;
+
+    /**
+     * Zero-based column range within the line (end exclusive).
+     */
+    readonly startColumn: number;
+    readonly endColumn: number;
+}
+
 /**
  * {@link IEditorPaneView}
  * 
@@ -124,6 +142,26 @@ export interface IEditorPaneView<T extends EditorPaneModel = EditorPaneModel> ex
      */
     onVisibility(visibility: boolean): Promise<void> | void;
 
+    /**
+     * @description Called after the editor is opened and requested to reveal
+     * certain content, for example, when opening a search result.
+     * 
+     * @override Subclasses may implement this to scroll to and select the 
+     *           given content. Does nothing by default.
+     * @param options Describes the content to be revealed.
+     */
+    onReveal(options: IEditorRevealOptions): Promise<void> | void;
+
+    /**
+     * @description Called whenever an editor of the group is closed. The 
+     * closed one might not be the model that is currently bound to this view.
+     * 
+     * @override Subclasses may implement this to release the resources that 
+     *           are kept for the closed editor. Does nothing by default.
+     * @param model The model of the closed editor.
+     */
+    onClose(model: T): void;
+
     // [client SHOULD NOT invoke these functions]
     
     /**
@@ -172,6 +210,14 @@ export abstract class EditorPaneView<T extends EditorPaneModel = EditorPaneModel
     public abstract shouldUpdate(model: T): boolean;
     public abstract onVisibility(visibility: boolean): Promise<void> | void;
 
+    public onReveal(options: IEditorRevealOptions): Promise<void> | void {
+        // noop
+    }
+
+    public onClose(model: T): void {
+        // noop
+    }
+
     // [public - client SHOULD NOT invoke these functions]
 
     public override getLayoutElement(): HTMLElement | nullable {
@@ -0,0 +1,529 @@
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { Emitter, Register } from "src/base/common/event";
+import { FileOperationError } from "src/base/common/files/file";
+import { extname } from "src/base/common/files/path";
+import { URI } from "src/base/common/files/uri";
+import { ILogService } from "src/base/common/logger";
+import { noop } from "src/base/common/performance";
+import { AsyncResult, Result } from "src/base/common/result";
+import { ResourceMap } from "src/base/common/structures/map";
+import { IChange } from "src/base/common/undoRedo";
+import { errorToMessage } from "src/base/common/utilities/panic";
+import { IBrowserEnvironmentService } from "src/platform/environment/common/environment";
+import { FileOperation, IFileOperationEvent, IFileService } from "src/platform/files/common/fileService";
+import { IHostService } from "src/platform/host/common/hostService";
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+import { IFileTreeService } from "src/workbench/services/fileTree/treeService";
+import { INotificationService } from "src/workbench/services/notification/notification";
+import { INotificationAction, NotificationTypes } from "src/workbench/services/notification/notificationService";
+
+export const IFileOperationService = createService<IFileOperationService>('file-operation-service');
+
+export const enum FileOperationType {
+    Create = 'create',
+    Copy   = 'copy',
+    Move   = 'move',
+    Delete = 'delete',
+}
+
+/**
+ * Describes a file operation that has been performed on disk.
+ */
+export interface IFileOperation {
+    readonly type: FileOperationType;
+
+    /**
+     * The resource before the operation.
+     *  - `Create`: not used.
+     *  - `Copy`: the copied resource.
+     *  - `Move`: the resource before moving (or renaming).
+     *  - `Delete`: the deleted resource.
+     */
+    readonly source?: URI;
+
+    /**
+     * The resource after the operation.
+     *  - `Create` / `Copy` / `Move`: the resulting resource.
+     *  - `Delete`: the location in the trash returned by
+     *    {@link IFileOperationService.moveToTrash}.
+     */
+    readonly target: URI;
+}
+
+/**
+ * An interface only for {@link FileOperationService}.
+ */
+export interface IFileOperationService extends IDisposable, IService {
+
+    /**
+     * Fires whenever the undo or redo stack changes.
+     */
+    readonly onDidChange: Register<void>;
+
+    canUndo(): boolean;
+    canRedo(): boolean;
+
+    /**
+     * @description Moves the given resource into the application-managed
+     * trash instead of deleting it permanently.
+     * @returns The location of the resource in the trash.
+     *
+     * @note The operation is not recorded, invoke {@link record} afterwards.
+     */
+    moveToTrash(uri: URI): AsyncResult<URI, FileOperationError>;
+
+    /**
+     * @description Returns true if the given resource is inside the trash.
+     */
+    isInTrash(uri: URI): boolean;
+
+    /**
+     * @description Records a list of performed operations as one single undo
+     * step. The redo stack is cleared.
+     * @param label The name of the step that is shown to the user (e.g.
+     *              'Delete').
+     */
+    record(label: string, operations: IFileOperation[]): void;
+
+    /**
+     * @description Runs the given callback without recording the file
+     * operations it performs through the {@link IFileService} one by one. The
+     * caller is expected to {@link record} them as one single step instead.
+     * 
+     * @note Operations performed through the {@link IFileService} within the
+     * opened file tree are otherwise recorded automatically.
+     */
+    batch<T>(callback: () => Promise<T>): Promise<T>;
+
+    /**
+     * @description Reverts the latest recorded step. If the step can no longer
+     * be reverted (e.g. the resources are changed outside), the user will be
+     * notified and the step will be dropped. The removed resources of a 
+     * dropped step are kept in the trash and can be restored as copies.
+     * @returns The performed moves in sequence, `undefined` if nothing is
+     *          reverted.
+     */
+    undo(): Promise<IChange<URI>[] | undefined>;
+
+    /**
+     * @description Re-applies the latest reverted step.
+     * @returns The performed moves in sequence, `undefined` if nothing is
+     *          re-applied.
+     */
+    redo(): Promise<IChange<URI>[] | undefined>;
+}
+
+/**
+ * An undo step. Every operation is represented as a move from `old` to `new`
+ * in the redo direction. Creating and copying is considered as moving out of
+ * the trash.
+ */
+interface IFileOperationStep {
+    readonly label: string;
+    readonly moves: IChange<URI>[];
+}
+
+/**
+ * The outcome of applying the moves of a step.
+ */
+interface IApplyResult {
+    readonly performed: IChange<URI>[];
+
+    /**
+     * Defined if not every move is performed.
+     */
+    readonly failure?: {
+        readonly type: NotificationTypes;
+        readonly message: string;
+    };
+}
+
+/**
+ * @class Records file operations performed by the workspace into an undo stack
+ * so that they can be reverted. Deleted resources are kept in a trash folder
+ * managed by the application (per window) until the corresponding step is
+ * evicted from the stack, or the window is closed.
+ */
+export class FileOperationService extends Disposable implements IFileOperationService {
+
+    declare _serviceMarker: undefined;
+
+    // [events]
+
+    private readonly _onDidChange = this.__register(new Emitter<void>());
+    public readonly onDidChange = this._onDidChange.registerListener;
+
+    // [fields]
+
+    public static readonly CAPACITY = 50;
+
+    private readonly _trashRoot: URI;
+
+    /**
+     * Resolves once the trash from the previous session is cleaned.
+     */
+    private readonly _trashReady: Promise<void>;
+    private readonly _undoStack: IFileOperationStep[];
+    private readonly _redoStack: IFileOperationStep[];
+    private _trashCount: number;
+    private _running: boolean;
+
+    /**
+     * The number of the running {@link batch}es.
+     */
+    private _batching: number;
+
+    // [constructor]
+
+    constructor(
+        @IFileService private readonly fileService: IFileService,
+        @INotificationService private readonly notificationService: INotificationService,
+        @ILogService private readonly logService: ILogService,
+        @IFileTreeService private readonly fileTreeService: IFileTreeService,
+        @IHostService private readonly hostService: IHostService,
+        @IBrowserEnvironmentService environmentService: IBrowserEnvironmentService,
+    ) {
+        super();
+        this._trashRoot = URI.join(environmentService.userDataPath, 'trash', `window-${environmentService.windowID}`);
+        this._undoStack = [];
+        this._redoStack = [];
+        this._trashCount = 0;
+        this._running = false;
+        this._batching = 0;
+
+        /**
+         * The trash from the previous session is no longer reachable, neither
+         * are the ones left by the windows that are closed unexpectedly.
+         */
+        this._trashReady = Promise.all([
+            this.__cleanTrash(this._trashRoot),
+            this.__cleanStaleTrash(),
+        ]).then(noop);
+
+        this.__register(this.fileService.onDidRunOperation(e => this.__onDidRunOperation(e)));
+    }
+
+    // [public methods]
+
+    public canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this._redoStack.length > 0;
+    }
+
+    public moveToTrash(uri: URI): AsyncResult<URI, FileOperationError> {
+        const trashed = this.__reserveTrash(URI.basename(uri));
+        return new AsyncResult(this._trashReady.then(() => this.fileService.moveTo(uri, trashed, false).map(() => trashed)));
+    }
+
+    public isInTrash(uri: URI): boolean {
+        return URI.isParentOf(uri, this._trashRoot);
+    }
+
+    public record(label: string, operations: IFileOperation[]): void {
+        if (operations.length === 0) {
+            return;
+        }
+
+        const moves = operations.map<IChange<URI>>(operation => {
+            switch (operation.type) {
+                case FileOperationType.Create:
+                case FileOperationType.Copy:
+                    return { old: this.__reserveTrash(URI.basename(operation.target)), new: operation.target };
+                case FileOperationType.Move:
+                case FileOperationType.Delete:
+                    return { old: operation.source!, new: operation.target };
+            }
+        });
+
+        this._undoStack.push({ label, moves });
+        for (const step of this._redoStack.splice(0)) {
+            this.__dropStep(step, false);
+        }
+
+        if (this._undoStack.length > FileOperationService.CAPACITY) {
+            this.__dropStep(this._undoStack.shift()!, true);
+        }
+
+        this._onDidChange.fire();
+    }
+
+    public async batch<T>(callback: () => Promise<T>): Promise<T> {
+        this._batching++;
+        try {
+            return await callback();
+        } finally {
+            this._batching--;
+        }
+    }
+
+    public async undo(): Promise<IChange<URI>[] | undefined> {
+        const step = this._undoStack.at(-1);
+        if (!step || this._running) {
+            return undefined;
+        }
+
+        const moves = step.moves.map(move => ({ old: move.new, new: move.old })).reverse();
+        const { performed, failure } = await this.__apply(step, moves, 'undo');
+
+        this._undoStack.pop();
+        if (!failure) {
+            this._redoStack.push(step);
+        } else {
+            await this.__onDidFailStep(step, failure);
+        }
+
+        this._onDidChange.fire();
+        return performed.length > 0 ? performed : undefined;
+    }
+
+    public async redo(): Promise<IChange<URI>[] | undefined> {
+        const step = this._redoStack.at(-1);
+        if (!step || this._running) {
+            return undefined;
+        }
+
+        const { performed, failure } = await this.__apply(step, step.moves, 'redo');
+
+        this._redoStack.pop();
+        if (!failure) {
+            this._undoStack.push(step);
+        } else {
+            await this.__onDidFailStep(step, failure);
+        }
+
+        this._onDidChange.fire();
+        return performed.length > 0 ? performed : undefined;
+    }
+
+    public override dispose(): void {
+        super.dispose();
+        this.__cleanTrash(this._trashRoot);
+    }
+
+    // [private helper methods]
+
+    private __reserveTrash(name: string): URI {
+        return URI.join(this._trashRoot, `${Date.now()}-${this._trashCount++}`, name);
+    }
+
+    /**
+     * @description Applies the moves in sequence after making sure every move
+     * is still applicable.
+     * @returns The performed moves, and the reason if not every move is
+     *          performed.
+     */
+    private async __apply(step: IFileOperationStep, moves: IChange<URI>[], type: 'undo' | 'redo'): Promise<IApplyResult> {
+        this._running = true;
+        try {
+            await this._trashReady;
+            const conflict = await this.__findConflict(moves);
+            if (conflict) {
+                return { 
+                    performed: [], 
+                    failure: {
+                        type: NotificationTypes.Warning,
+                        message: `Cannot ${type} '${step.label}' since '${URI.basename(conflict)}' has been changed. This step is no longer available.`,
+                    },
+                };
+            }
+
+            const performed: IChange<URI>[] = [];
+            for (const move of moves) {
+                const result = await this.fileService.moveTo(move.old, move.new, false);
+                if (result.isErr()) {
+                    return { 
+                        performed, 
+                        failure: {
+                            type: NotificationTypes.Error,
+                            message: `Failed to ${type} '${step.label}'. Reason: ${errorToMessage(result.error)}`,
+                        },
+                    };
+                }
+                performed.push(move);
+            }
+            return { performed };
+        } finally {
+            this._running = false;
+        }
+    }
+
+    /**
+     * @description The step is dropped since it cannot be applied. The removed
+     * resources that are still kept in the trash are not deleted, instead the
+     * user is offered to restore them as copies.
+     */
+    private async __onDidFailStep(step: IFileOperationStep, failure: NonNullable<IApplyResult['failure']>): Promise<void> {
+        const trashed = await this.__findTrashed(step);
+        const actions: INotificationAction[] = [{ label: 'Close', run: 'noop' }];
+        if (trashed.length > 0) {
+            actions.unshift({ label: 'Restore as Copy', run: () => this.__restoreAsCopy(trashed) });
+        }
+
+        this.notificationService.notify({
+            type: failure.type,
+            message: failure.message,
+            subMessage: trashed.length > 0 ? 'The removed files are kept in the trash until the window is closed.' : undefined,
+            actions: actions,
+        });
+    }
+
+    /**
+     * @description Returns the resources of the step that are still in the
+     * trash. Each change is from the location in the trash to the original
+     * location outside the trash.
+     */
+    private async __findTrashed(step: IFileOperationStep): Promise<IChange<URI>[]> {
+        const trashed: IChange<URI>[] = [];
+        for (const move of step.moves) {
+            const [inTrash, original] = this.isInTrash(move.old) ? [move.old, move.new] : [move.new, move.old];
+            if (this.isInTrash(inTrash) && await this.fileService.exist(inTrash).unwrapOr(false)) {
+                trashed.push({ old: inTrash, new: original });
+            }
+        }
+        return trashed;
+    }
+
+    private async __restoreAsCopy(trashed: IChange<URI>[]): Promise<void> {
+        for (const { old: inTrash, new: original } of trashed) {
+            const destination = await this.__findAvailableName(original);
+            await this.fileService.moveTo(inTrash, destination, false).match(
+                noop,
+                error => this.notificationService.error(error, { actions: [{ label: 'Close', run: 'noop' }] }),
+            );
+        }
+    }
+
+    /**
+     * @description Returns an unused sibling of the given resource, e.g.
+     * 'note (restored).md', 'note (restored 2).md'.
+     */
+    private async __findAvailableName(uri: URI): Promise<URI> {
+        const basename = URI.basename(uri);
+        const ext = extname(basename);
+        const name = basename.slice(0, basename.length - ext.length);
+
+        for (let count = 1; ; count++) {
+            const suffix = count === 1 ? 'restored' : `restored ${count}`;
+            const candidate = URI.join(URI.dirname(uri), `${name} (${suffix})${ext}`);
+            if (!await this.fileService.exist(candidate).unwrapOr(false)) {
+                return candidate;
+            }
+        }
+    }
+
+    /**
+     * @description Records the operations performed through the file service
+     * by others (e.g. extensions of the workbench) within the opened file 
+     * tree, each as one single step.
+     */
+    private __onDidRunOperation(event: IFileOperationEvent): void {
+        // the own operations and the batched ones are recorded by the callers.
+        if (this._running || this._batching > 0) {
+            return;
+        }
+
+        const root = this.fileTreeService.root;
+        if (!root) {
+            return;
+        }
+
+        const inTree = (uri: URI) => URI.isParentOf(uri, root) && !this.isInTrash(uri);
+        switch (event.operation) {
+            case FileOperation.Create:
+                if (inTree(event.resource)) {
+                    this.record('Create', [{ type: FileOperationType.Create, target: event.resource }]);
+                }
+                return;
+            case FileOperation.Move: {
+                const target = event.target!;
+                if (!this.isInTrash(event.resource) && !this.isInTrash(target) && (inTree(event.resource) || inTree(target))) {
+                    this.record('Move', [{ type: FileOperationType.Move, source: event.resource, target: target }]);
+                }
+                return;
+            }
+            case FileOperation.Copy: {
+                const target = event.target!;
+                if (!this.isInTrash(event.resource) && inTree(target)) {
+                    this.record('Copy', [{ type: FileOperationType.Copy, source: event.resource, target: target }]);
+                }
+                return;
+            }
+            case FileOperation.Delete:
+                // permanently deleted, cannot be undone.
+                return;
+        }
+    }
+
+    /**
+     * @description Returns the first resource that prevents the moves, such as
+     * the source no longer exists or the destination is occupied.
+     */
+    private async __findConflict(moves: IChange<URI>[]): Promise<URI | undefined> {
+        const simulated = new ResourceMap<boolean>();
+        const exist = async (uri: URI): Promise<boolean> => {
+            const known = simulated.get(uri);
+            if (known !== undefined) {
+                return known;
+            }
+            return this.fileService.exist(uri).unwrapOr(false);
+        };
+
+        for (const move of moves) {
+            if (!await exist(move.old)) {
+                return move.old;
+            }
+            if (await exist(move.new)) {
+                return move.new;
+            }
+            simulated.set(move.old, false);
+            simulated.set(move.new, true);
+        }
+        return undefined;
+    }
+
+    /**
+     * @description Permanently deletes the resources of the step that are
+     * still kept in the trash.
+     * @param applied If the step is currently applied (in the undo stack).
+     */
+    private __dropStep(step: IFileOperationStep, applied: boolean): void {
+        for (const move of step.moves) {
+            const current = applied ? move.new : move.old;
+            if (this.isInTrash(current)) {
+                this.__cleanTrash(URI.dirname(current));
+            }
+        }
+    }
+
+    /**
+     * @description Cleans the trash of the other windows that are no longer
+     * opened.
+     */
+    private async __cleanStaleTrash(): Promise<void> {
+        const trash = URI.dirname(this._trashRoot);
+        const windowIDs = await Result.fromPromise<number[] | undefined, unknown>(() => this.hostService.getAllWindowIDs()).unwrapOr(undefined);
+        if (!windowIDs) {
+            return;
+        }
+
+        const opened = new Set(windowIDs.map(id => `window-${id}`));
+        opened.add(URI.basename(this._trashRoot));
+
+        const entries = await this.fileService.readDir(trash).unwrapOr([]);
+        await Promise.all(entries
+            .filter(([name]) => !opened.has(name))
+            .map(([name]) => this.__cleanTrash(URI.join(trash, name)))
+        );
+    }
+
+    private async __cleanTrash(uri: URI): Promise<void> {
+        await this.fileService.delete(uri, { recursive: true })
+            .match(
+                noop,
+                error => this.logService.trace('FileOperationService', `Failed to clean the trash at: ${URI.toString(uri)}`, { error: errorToMessage(error) }),
+            );
+    }
+}
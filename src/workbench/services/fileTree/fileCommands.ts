@@ -23,13 +23,173 @@ import { isNonNullable } from "src/base/common/utilities/type";
 import { IConfigurationService } from "src/platform/configuration/common/configuration";
 import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
 import { INotificationService } from "src/workbench/services/notification/notification";
+import { IWorkspaceService } from "src/workbench/parts/workspace/workspaceService";
+import { FileOperationType, IFileOperation, IFileOperationService } from "src/workbench/services/fileOperation/fileOperationService";
+import { AsyncResult } from "src/base/common/result";
 
 /**
  * @namespace FileCommands Contains a list of useful {@link Command}s that will
  * be registered into the command service.
  */
 export namespace FileCommands {
-    
+
+    export class FileOpen extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeOpen,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override async run(provider: IServiceProvider, target: URI): Promise<boolean> {
+            const fileTreeService = provider.getOrCreateService(IFileTreeService);
+            const workspaceService = provider.getOrCreateService(IWorkspaceService);
+
+            const item = fileTreeService.findItem(target);
+            if (item?.isDirectory()) {
+                await fileTreeService.toggleCollapseOrExpand(item);
+                return true;
+            }
+
+            await workspaceService.openEditor({ uri: target }, { focused: true });
+            return true;
+        }
+    }
+
+    export class FileOpenInNewTab extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeOpenInNewTab,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override async run(provider: IServiceProvider, target: URI): Promise<boolean> {
+            const fileTreeService = provider.getOrCreateService(IFileTreeService);
+            const workspaceService = provider.getOrCreateService(IWorkspaceService);
+
+            const item = fileTreeService.findItem(target);
+            if (item?.isDirectory()) {
+                return false;
+            }
+
+            await workspaceService.openEditor({ uri: target }, { focused: false });
+            return true;
+        }
+    }
+
+    export class FileNewFile extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeNewFile,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override run(provider: IServiceProvider, target?: URI): Promise<boolean> {
+            return __handleNew(provider, target, false);
+        }
+    }
+
+    export class FileNewFolder extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeNewFolder,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override run(provider: IServiceProvider, target?: URI): Promise<boolean> {
+            return __handleNew(provider, target, true);
+        }
+    }
+
+    /**
+     * @description Creates an untitled file or folder next to the target (or
+     * inside the target if it is a folder) and lets the user name it inline.
+     * Cancelling the editing removes the created resource.
+     */
+    async function __handleNew(provider: IServiceProvider, target: URI | undefined, isFolder: boolean): Promise<boolean> {
+        const fileTreeService = provider.getOrCreateService(IFileTreeService);
+        const fileService = provider.getOrCreateService(IFileService);
+        const commandService = provider.getOrCreateService(ICommandService);
+        const workspaceService = provider.getOrCreateService(IWorkspaceService);
+        const metadataService = provider.getOrCreateService(IFileTreeMetadataService);
+        const configurationService = provider.getOrCreateService(IConfigurationService);
+        const fileOperationService = provider.getOrCreateService(IFileOperationService);
+        const reporter = isFolder ? 'FileNewFolder' : 'FileNewFile';
+
+        // resolve where to create
+        const targetItem = __resolveTargetItem(fileTreeService, target) ?? fileTreeService.rootItem;
+        if (!targetItem) {
+            return false;
+        }
+        const parent = targetItem.isDirectory() ? targetItem : assert(targetItem.parent);
+        const index = targetItem.isDirectory() ? parent.children.length : targetItem.getSelfIndexInParent() + 1;
+
+        // find an unused default name
+        const incrementType = configurationService.get(WorkbenchConfiguration.ExplorerIncrementFileNaming, IncrementFileType.Simple);
+        let name = isFolder ? 'New Folder' : 'Untitled.md';
+        while (parent.children.some(child => child.name === name) || await fileService.exist(URI.join(parent.uri, name)).unwrap()) {
+            name = incrementFileName(name, isFolder, incrementType);
+        }
+        const uri = URI.join(parent.uri, name);
+
+        // create the resource on disk first
+        fileTreeService.freeze();
+        try {
+            await fileOperationService.batch(async () => {
+                if (isFolder) {
+                    await fileService.createDir(uri).unwrap();
+                } else {
+                    await fileService.createFile(uri).unwrap();
+                }
+            });
+            if (fileTreeService.getFileSortingType() === FileSortType.Custom) {
+                await metadataService.updateCustomSortingMetadataLot(OrderChangeType.Add, parent.uri, [name], [index]).unwrap();
+            }
+        } catch (error) {
+            commandService.executeCommand(AllCommands.alertError, reporter, error);
+            return false;
+        } finally {
+            fileTreeService.unfreeze();
+        }
+
+        if (!parent.isRoot()) {
+            await fileTreeService.expand(parent);
+        }
+        await fileTreeService.refresh(parent);
+
+        const created = fileTreeService.findItem(uri);
+        if (!created) {
+            return false;
+        }
+
+        // let the user name it
+        const newName = await fileTreeService.editName(created, input => validateFileName(input, __siblingNames(created)));
+        if (newName === undefined) {
+            await __deleteResources(provider, [created], false);
+            return false;
+        }
+
+        const renamed = newName === name
+            ? uri
+            : await __renameResource(provider, created, newName, reporter);
+        if (!renamed) {
+            return false;
+        }
+        fileOperationService.record(isFolder ? 'New Folder' : 'New File', [{ type: FileOperationType.Create, target: renamed }]);
+
+        if (!isFolder) {
+            await workspaceService.openEditor({ uri: renamed }, { focused: true });
+        }
+        return true;
+    }
+
     export class FileCut extends Command {
 
         constructor() {
@@ -88,6 +248,8 @@ export namespace FileCommands {
         private notificationService!: INotificationService;
         private commandService!: ICommandService;
         private configurationService!: IConfigurationService;
+        private workspaceService!: IWorkspaceService;
+        private fileOperationService!: IFileOperationService;
 
         constructor() {
             super({
@@ -105,6 +267,8 @@ export namespace FileCommands {
             this.commandService          = provider.getOrCreateService(ICommandService);
             this.fileTreeMetadataService = provider.getOrCreateService(IFileTreeMetadataService);
             this.configurationService    = provider.getOrCreateService(IConfigurationService);
+            this.workspaceService        = provider.getOrCreateService(IWorkspaceService);
+            this.fileOperationService    = provider.getOrCreateService(IFileOperationService);
 
             const toPaste = await this.__getResourcesToPaste(resources);
             const isCut   = assert(contextService.getContextValue<boolean>(WorkbenchContextKey.fileTreeOnCutKey));
@@ -115,25 +279,37 @@ export namespace FileCommands {
                 return false;
             }
             
-            // paste (normal)
-            if (isNormalPaste) {
-                const toPasteURI = Arrays.isType<FileItem>(toPaste, element => URI.isURI(element)) 
-                        ? toPaste.map(item => item.uri)
-                        : toPaste;
-                return await this.__pasteNormal(toPasteURI, destination, isCut);
-            } 
-            
             /**
-             * // paste (custom sorting)
-             * 
-             * On detecting an insertion, the operation must be conducted from 
-             * the UI perspective. Therefore must make sure the `toPaste` is an
-             * array of `FileItem`.
+             * The file operations performed during this paste, recorded as one
+             * single undo step once the paste completes. Kept per invocation
+             * since pastes may run concurrently.
              */
-            const toPasteItems = assertArray<FileItem>(toPaste, arr => Arrays.isType(arr, element => !URI.isURI(element)));
-            await this.__pasteInsert(toPasteItems, destination, isCut, destinationIdx);
-            
-            return true;
+            const operations: IFileOperation[] = [];
+            try {
+                return await this.fileOperationService.batch(async () => {
+                    // paste (normal)
+                    if (isNormalPaste) {
+                        const toPasteURI = Arrays.isType<FileItem>(toPaste, element => URI.isURI(element)) 
+                                ? toPaste.map(item => item.uri)
+                                : toPaste;
+                        return await this.__pasteNormal(toPasteURI, destination, isCut, operations);
+                    } 
+                    
+                    /**
+                     * // paste (custom sorting)
+                     * 
+                     * On detecting an insertion, the operation must be conducted 
+                     * from the UI perspective. Therefore must make sure the 
+                     * `toPaste` is an array of `FileItem`.
+                     */
+                    const toPasteItems = assertArray<FileItem>(toPaste, arr => Arrays.isType(arr, element => !URI.isURI(element)));
+                    await this.__pasteInsert(toPasteItems, destination, isCut, operations, destinationIdx);
+                    
+                    return true;
+                });
+            } finally {
+                this.fileOperationService.record(isCut ? 'Move' : 'Paste', operations);
+            }
         }
 
         // [private helper methods]
@@ -159,18 +335,18 @@ export namespace FileCommands {
             }
         }
 
-        private async __pasteNormal(toPaste: URI[], destination: FileItem, isCut: boolean): Promise<boolean> {
+        private async __pasteNormal(toPaste: URI[], destination: FileItem, isCut: boolean, operations: IFileOperation[]): Promise<boolean> {
             if (destination.isFile()) {
                 return false;
             }
-            await this.__doPasteNormal(toPaste, destination, isCut);
+            await this.__doPasteNormal(toPaste, destination, isCut, operations);
             this.__clearFileTreeTraits();
             return true;
         }
 
-        private async __doPasteNormal(toPaste: URI[], destination: FileItem, isCut: boolean): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
+        private async __doPasteNormal(toPaste: URI[], destination: FileItem, isCut: boolean, operations: IFileOperation[]): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
             const operation = isCut ? this.__doMoveLot : this.__doCopyLot;
-            const batch = await operation.call(this, toPaste, destination);
+            const batch = await operation.call(this, toPaste, destination, operations);
             
             if (batch.failed.length) {
                 this.__onResourceBatchError(batch, isCut, destination.uri);
@@ -179,7 +355,7 @@ export namespace FileCommands {
             return batch;
         }
 
-        private async __pasteInsert(toInsert: FileItem[], destination: FileItem, isCut: boolean, destinationIdx?: number): Promise<void> {
+        private async __pasteInsert(toInsert: FileItem[], destination: FileItem, isCut: boolean, operations: IFileOperation[], destinationIdx?: number): Promise<void> {
             check(destination.isDirectory());
             check(!this.fileTreeService.isCollapsed(destination));
             
@@ -200,7 +376,7 @@ export namespace FileCommands {
              */
             const groups = Arrays.group(dragItems, item => item.parent);
             for (const group of groups.values()) {
-                const pasted = await this.__doPasteInsert(group, destination, isCut, destinationIdx);
+                const pasted = await this.__doPasteInsert(group, destination, isCut, operations, destinationIdx);
                 if (pasted) {
                     anyPasted = true;
                 }
@@ -222,14 +398,14 @@ export namespace FileCommands {
             }
         }
 
-        private async __doPasteInsert(toPaste: FileItem[], destination: FileItem, isCut: boolean, destinationIdx?: number): Promise<boolean> {
+        private async __doPasteInsert(toPaste: FileItem[], destination: FileItem, isCut: boolean, operations: IFileOperation[], destinationIdx?: number): Promise<boolean> {
             const toPasteParent = assert(toPaste[0]!.parent);
             const insertAtSameParent = URI.equals(toPasteParent.uri, destination.uri);
 
             // actual paste operation
             const batch = (insertAtSameParent && isCut)
                 ? createBatchResult({ passed: toPaste.map(item => ({ old: item.uri, new: item.uri })) })
-                : await this.__doPasteNormal(toPaste.map(item => item.uri), destination, isCut);
+                : await this.__doPasteNormal(toPaste.map(item => item.uri), destination, isCut, operations);
             
             // error handling to those who fails
             if (batch.failed.length) {
@@ -383,7 +559,7 @@ export namespace FileCommands {
             });
         }
 
-        private async __doMoveLot(toPaste: URI[], destination: FileItem): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
+        private async __doMoveLot(toPaste: URI[], destination: FileItem, operations: IFileOperation[]): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
             const result: IBatchResult<IChange<URI>, FileOperationError> = {
                 passed: [],
                 failed: [],
@@ -400,16 +576,23 @@ export namespace FileCommands {
                 const newDestination = URI.join(destination.uri, resourceName);
                 const change = { old: resource, new: newDestination };
 
-                const valid = await this.__validateBeforeMove(newDestination);
+                // moving to where it already is.
+                if (URI.equals(resource, newDestination)) {
+                    continue;
+                }
+
+                const valid = await this.__validateBeforeMove(newDestination, operations);
                 if (!valid) {
                     continue;
                 }
 
                 const success = await this.fileService.moveTo(resource, newDestination, false);
 
-                // complete
+                // complete, the opened editors follow the moved resource.
                 if (success.isOk()) {
                     result.passed.push(change);
+                    operations.push({ type: FileOperationType.Move, source: resource, target: newDestination });
+                    await this.workspaceService.renameEditors(resource, newDestination);
                     continue;
                 }
                 
@@ -430,7 +613,7 @@ export namespace FileCommands {
             return result;
         }
 
-        private async __validateBeforeMove(destination: URI): Promise<boolean> {
+        private async __validateBeforeMove(destination: URI, operations: IFileOperation[]): Promise<boolean> {
             const exist = await this.fileService.exist(destination);
             if (exist.isErr()) {
                 return false;
@@ -444,10 +627,26 @@ export namespace FileCommands {
                 `A file or folder with the name '${URI.basename(destination)}' already exists in the destination folder. Do you want to replace it?`,
                 `Overwrite Warning.`
             );
-            return confirmed;
+            if (!confirmed) {
+                return false;
+            }
+
+            /**
+             * The replaced resource is moved into the trash so that the paste 
+             * can be undone.
+             */
+            const trashed = await this.fileOperationService.moveToTrash(destination);
+            if (trashed.isErr()) {
+                this.commandService.executeCommand(AllCommands.alertError, 'FilePaste', trashed.unwrapErr());
+                return false;
+            }
+
+            operations.push({ type: FileOperationType.Delete, source: destination, target: trashed.unwrap() });
+            await this.workspaceService.closeEditors(destination);
+            return true;
         }
 
-        private async __doCopyLot(toPaste: URI[], destination: FileItem): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
+        private async __doCopyLot(toPaste: URI[], destination: FileItem, operations: IFileOperation[]): Promise<IBatchResult<IChange<URI>, FileOperationError>> {
             const result: IBatchResult<IChange<URI>, FileOperationError> = {
                 passed: [],
                 failed: [],
@@ -477,6 +676,7 @@ export namespace FileCommands {
                 // complete
                 if (copy.isOk()) {
                     result.passed.push(change);
+                    operations.push({ type: FileOperationType.Copy, source: resource, target: newDestination });
                     continue;
                 }
 
@@ -515,6 +715,395 @@ export namespace FileCommands {
             this.fileTreeService.setFocus(null);
         }
     }
+
+    export class FileMove extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeMove,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override async run(provider: IServiceProvider, destination: URI, resources: URI[]): Promise<boolean> {
+            const fileTreeService = provider.getOrCreateService(IFileTreeService);
+            const commandService = provider.getOrCreateService(ICommandService);
+            const contextService = provider.getOrCreateService(IContextService);
+
+            const destinationItem = fileTreeService.findItem(destination);
+            if (!destinationItem?.isDirectory()) {
+                return false;
+            }
+
+            /**
+             * Moving is a cut-and-paste in the perspective of the file tree.
+             * The resources are passed as tree items so that the custom
+             * sorting metadata can be updated as well.
+             */
+            const toMove = resources
+                .map(uri => fileTreeService.findItem(uri))
+                .filter(isNonNullable);
+            if (toMove.length === 0) {
+                return false;
+            }
+
+            if (fileTreeService.isCollapsed(destinationItem)) {
+                await fileTreeService.expand(destinationItem);
+            }
+
+            /**
+             * The simulated cut must not leak into the next paste from the 
+             * clipboard, which might be a copy.
+             */
+            const isCut = contextService.getContextValue<boolean>(WorkbenchContextKey.fileTreeOnCutKey) ?? false;
+            fileTreeService.simulateSelectionCutOrCopy(true);
+            try {
+                await commandService.executeCommand(AllCommands.fileTreePaste, destinationItem, undefined, toMove);
+            } finally {
+                fileTreeService.simulateSelectionCutOrCopy(isCut);
+            }
+            return true;
+        }
+    }
+
+    export class FileRename extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeRename,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override async run(provider: IServiceProvider, target?: URI): Promise<boolean> {
+            const fileTreeService = provider.getOrCreateService(IFileTreeService);
+
+            const item = __resolveTargetItem(fileTreeService, target);
+            if (!item || item.isRoot()) {
+                return false;
+            }
+
+            const newName = await fileTreeService.editName(item, input => validateFileName(input, __siblingNames(item)));
+            if (newName === undefined || newName === item.name) {
+                return false;
+            }
+
+            const oldUri = item.uri;
+            const renamed = await __renameResource(provider, item, newName, 'FileRename');
+            if (!renamed) {
+                return false;
+            }
+
+            provider.getOrCreateService(IFileOperationService).record('Rename', [{ type: FileOperationType.Move, source: oldUri, target: renamed }]);
+            return true;
+        }
+    }
+
+    export class FileDelete extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeDelete,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override async run(provider: IServiceProvider, target?: URI): Promise<boolean> {
+            const fileTreeService = provider.getOrCreateService(IFileTreeService);
+            const notificationService = provider.getOrCreateService(INotificationService);
+
+            /**
+             * Deleting the whole selections if the target is one of them,
+             * otherwise only the target itself.
+             */
+            const selections = fileTreeService.getSelections();
+            const targetItem = target && fileTreeService.findItem(target);
+            const toDelete = (!targetItem || selections.includes(targetItem))
+                ? selections
+                : [targetItem];
+
+            const items = URI.distinctParentsByUri(toDelete, item => item.uri).filter(item => !item.isRoot());
+            if (items.length === 0) {
+                return false;
+            }
+
+            const message = items.length === 1
+                ? `Are you sure you want to delete '${items[0]!.name}'?`
+                : `Are you sure you want to delete the following ${items.length} files or folders?`;
+            const subMessage = items.length === 1
+                ? 'You can restore it by undoing the deletion in the file tree.'
+                : items.map(item => item.name).join('\n');
+
+            const confirmed = await notificationService.confirm(message, subMessage);
+            if (!confirmed) {
+                return false;
+            }
+
+            return __deleteResources(provider, items, true);
+        }
+    }
+
+    export class FileUndo extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeUndo,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override run(provider: IServiceProvider): Promise<boolean> {
+            return __handleUndoOrRedo(provider, 'undo');
+        }
+    }
+
+    export class FileRedo extends Command {
+
+        constructor() {
+            super({
+                id: AllCommands.fileTreeRedo,
+                when: WorkbenchContextKey.focusedFileTree,
+            });
+        }
+
+        public override run(provider: IServiceProvider): Promise<boolean> {
+            return __handleUndoOrRedo(provider, 'redo');
+        }
+    }
+
+    async function __handleUndoOrRedo(provider: IServiceProvider, type: 'undo' | 'redo'): Promise<boolean> {
+        const fileOperationService = provider.getOrCreateService(IFileOperationService);
+        const fileTreeService = provider.getOrCreateService(IFileTreeService);
+        const workspaceService = provider.getOrCreateService(IWorkspaceService);
+        const commandService = provider.getOrCreateService(ICommandService);
+
+        const performed = type === 'undo'
+            ? await fileOperationService.undo()
+            : await fileOperationService.redo();
+        if (!performed) {
+            return false;
+        }
+
+        // the opened editors follow the resources, closed once trashed.
+        for (const change of performed) {
+            if (fileOperationService.isInTrash(change.new)) {
+                await workspaceService.closeEditors(change.old);
+            } else if (!fileOperationService.isInTrash(change.old)) {
+                await workspaceService.renameEditors(change.old, change.new);
+            }
+        }
+
+        if (fileTreeService.getFileSortingType() === FileSortType.Custom) {
+            const reporter = type === 'undo' ? 'FileUndo' : 'FileRedo';
+            for (const change of performed) {
+                await __updateMetadataOnMove(provider, fileOperationService, change)
+                    .match(noop, error => commandService.executeCommand(AllCommands.alertError, reporter, error));
+            }
+        }
+
+        await fileTreeService.refresh();
+        return true;
+    }
+
+    /**
+     * @description Keeps the custom sorting metadata up to date with a move
+     * that is performed by undoing or redoing. Resources moving out of the
+     * trash are appended to the end of the order.
+     * 
+     * @note The folders whose metadata are not cached are reconciled with the
+     * disk once they are loaded.
+     */
+    function __updateMetadataOnMove(provider: IServiceProvider, fileOperationService: IFileOperationService, change: IChange<URI>): AsyncResult<void, FileOperationError | Error> {
+        const metadataService = provider.getOrCreateService(IFileTreeMetadataService);
+        const oldName = URI.basename(change.old);
+        const newName = URI.basename(change.new);
+        const oldParent = URI.dirname(change.old);
+        const newParent = URI.dirname(change.new);
+        const fromTrash = fileOperationService.isInTrash(change.old);
+        const toTrash = fileOperationService.isInTrash(change.new);
+
+        // renaming within the same folder keeps the position.
+        const oldOrder = fromTrash ? undefined : metadataService.getMetadataFromCache(oldParent);
+        const oldIndex = oldOrder?.indexOf(oldName) ?? -1;
+        if (!fromTrash && !toTrash && URI.equals(oldParent, newParent)) {
+            return (oldIndex === -1 
+                ? AsyncResult.ok<void, FileOperationError | Error>()
+                : metadataService.updateCustomSortingMetadataLot(OrderChangeType.Update, oldParent, [newName], [oldIndex])
+            )
+            .andThen(() => metadataService.updateDirectoryMetadata(change.old, change.new, true));
+        }
+
+        const removal = oldIndex === -1
+            ? AsyncResult.ok<void, FileOperationError | Error>()
+            : metadataService.updateCustomSortingMetadataLot(OrderChangeType.Remove, oldParent, null, [oldIndex]);
+
+        return removal.andThen(() => {
+            const newOrder = toTrash ? undefined : metadataService.getMetadataFromCache(newParent);
+            if (!newOrder || newOrder.includes(newName)) {
+                return AsyncResult.ok<void, FileOperationError | Error>();
+            }
+            return metadataService.updateCustomSortingMetadataLot(OrderChangeType.Add, newParent, [newName], [newOrder.length]);
+        })
+        .andThen(() => (fromTrash || toTrash)
+            ? AsyncResult.ok<void, FileOperationError | Error>()
+            : metadataService.updateDirectoryMetadata(change.old, change.new, true)
+        );
+    }
+
+    function __resolveTargetItem(service: IFileTreeService, target?: URI): FileItem | undefined {
+        if (target) {
+            return service.findItem(target);
+        }
+        return service.getFocus() ?? service.getSelections()[0];
+    }
+
+    function __siblingNames(item: FileItem): string[] {
+        const parent = item.parent;
+        if (!parent) {
+            return [];
+        }
+        return parent.children
+            .filter(child => child !== item)
+            .map(child => child.name);
+    }
+
+    /**
+     * @description Renames the given item on disk and keeps the custom sorting
+     * metadata and the opened editors up to date.
+     * @returns The new URI of the item, or `undefined` if failed.
+     */
+    async function __renameResource(provider: IServiceProvider, item: FileItem, newName: string, reporter: string): Promise<URI | undefined> {
+        const fileTreeService = provider.getOrCreateService(IFileTreeService);
+        const metadataService = provider.getOrCreateService(IFileTreeMetadataService);
+        const fileService = provider.getOrCreateService(IFileService);
+        const commandService = provider.getOrCreateService(ICommandService);
+        const workspaceService = provider.getOrCreateService(IWorkspaceService);
+        const fileOperationService = provider.getOrCreateService(IFileOperationService);
+
+        const parent = assert(item.parent);
+        const oldUri = item.uri;
+        const newUri = URI.join(parent.uri, newName);
+
+        fileTreeService.freeze();
+        try {
+            await fileOperationService.batch(() => fileService.moveTo(oldUri, newUri, false).unwrap());
+
+            if (fileTreeService.getFileSortingType() === FileSortType.Custom) {
+                await metadataService.updateCustomSortingMetadataLot(OrderChangeType.Update, parent.uri, [newName], [item.getSelfIndexInParent()]).unwrap();
+                if (item.isDirectory()) {
+                    await metadataService.updateDirectoryMetadata(oldUri, newUri, true).unwrap();
+                }
+            }
+        } catch (error) {
+            commandService.executeCommand(AllCommands.alertError, reporter, error);
+            return undefined;
+        } finally {
+            fileTreeService.unfreeze();
+        }
+
+        await workspaceService.renameEditors(oldUri, newUri);
+        await fileTreeService.refresh(parent);
+        return newUri;
+    }
+
+    /**
+     * @description Deletes the given items from disk, removes them from the
+     * custom sorting metadata and closes their opened editors.
+     * @param useTrash If true, the items are moved into the trash and the 
+     *                 deletion is recorded so that it can be undone.
+     */
+    async function __deleteResources(provider: IServiceProvider, items: FileItem[], useTrash: boolean): Promise<boolean> {
+        const fileTreeService = provider.getOrCreateService(IFileTreeService);
+        const metadataService = provider.getOrCreateService(IFileTreeMetadataService);
+        const fileService = provider.getOrCreateService(IFileService);
+        const commandService = provider.getOrCreateService(ICommandService);
+        const workspaceService = provider.getOrCreateService(IWorkspaceService);
+        const fileOperationService = provider.getOrCreateService(IFileOperationService);
+        const isCustomSort = fileTreeService.getFileSortingType() === FileSortType.Custom;
+
+        const deleted: FileItem[] = [];
+        const operations: IFileOperation[] = [];
+        fileTreeService.freeze();
+
+        try {
+            for (const item of items) {
+                if (useTrash) {
+                    const result = await fileOperationService.moveToTrash(item.uri);
+                    if (result.isErr()) {
+                        commandService.executeCommand(AllCommands.alertError, 'FileDelete', result.unwrapErr());
+                        continue;
+                    }
+                    operations.push({ type: FileOperationType.Delete, source: item.uri, target: result.unwrap() });
+                } else {
+                    const result = await fileService.delete(item.uri, { recursive: true });
+                    if (result.isErr()) {
+                        commandService.executeCommand(AllCommands.alertError, 'FileDelete', result.unwrapErr());
+                        continue;
+                    }
+                }
+                deleted.push(item);
+                await workspaceService.closeEditors(item.uri);
+            }
+            fileOperationService.record('Delete', operations);
+
+            // update metadata grouped by the same parent.
+            if (isCustomSort) {
+                const groups = Arrays.group(deleted, item => item.parent);
+                for (const [parent, group] of groups) {
+                    if (!parent) {
+                        continue;
+                    }
+                    await metadataService.updateCustomSortingMetadataLot(OrderChangeType.Remove, parent.uri, null, group.map(item => item.getSelfIndexInParent()))
+                        .match(noop, error => commandService.executeCommand(AllCommands.alertError, 'FileDelete', error));
+                }
+            }
+        } finally {
+            fileTreeService.unfreeze();
+        }
+
+        await fileTreeService.refresh();
+        return deleted.length > 0;
+    }
+}
+
+/**
+ * @description Validates a file or folder name typed by the user.
+ * @param name The typed name.
+ * @param existingNames The names of the other items within the same folder.
+ * @returns An error message if the name is invalid, otherwise `undefined`.
+ */
+export function validateFileName(name: string, existingNames: readonly string[]): string | undefined {
+    if (name.trim().length === 0) {
+        return 'A file or folder name must be provided.';
+    }
+
+    if (name !== name.trim()) {
+        return 'Leading or trailing whitespace detected in file or folder name.';
+    }
+
+    if (name === '.' || name === '..') {
+        return `The name '${name}' is not valid as a file or folder name.`;
+    }
+
+    if (/[\\/]/.test(name)) {
+        return 'A file or folder name cannot contain slashes.';
+    }
+
+    // eslint-disable-next-line no-control-regex
+    if (/[<>:"|?*\x00-\x1F]/.test(name)) {
+        return `The name '${name}' contains characters that are not allowed.`;
+    }
+
+    if (name.endsWith('.')) {
+        return 'A file or folder name cannot end with a dot.';
+    }
+
+    const lowerName = name.toLowerCase();
+    if (existingNames.some(existing => existing.toLowerCase() === lowerName)) {
+        return `A file or folder '${name}' already exists at this location.`;
+    }
+
+    return undefined;
 }
 
 export const enum IncrementFileType {
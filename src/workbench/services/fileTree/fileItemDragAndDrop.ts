@@ -1,6 +1,5 @@
 import { DragOverEffect, IDragOverResult, IListDragAndDropProvider } from "src/base/browser/secondary/listWidget/listWidgetDragAndDrop";
 import { URI } from "src/base/common/files/uri";
-import { FuzzyScore } from "src/base/common/fuzzy";
 import { Scheduler, delayFor } from "src/base/common/utilities/async";
 import { Mutable } from "src/base/common/utilities/type";
 import { FileItem } from "src/workbench/services/fileTree/fileItem";
@@ -32,7 +31,7 @@ export class FileItemDragAndDropProvider extends Disposable implements IListDrag
     // [field]
 
     /** make sure {@link bindWithTree} is called before access. */
-    private readonly _tree!: IFileTree<FileItem, FuzzyScore>;
+    private readonly _tree!: IFileTree<FileItem, void>;
 
     private static readonly EXPAND_DELAY = Time.ms(500);
     private readonly _pendingExpand: Scheduler<{ item: FileItem, index: number; }>;
@@ -288,7 +287,7 @@ export class FileItemDragAndDropProvider extends Disposable implements IListDrag
 
     // [public helper methods]
 
-    public bindWithTree(tree: IFileTree<FileItem, FuzzyScore>): void {
+    public bindWithTree(tree: IFileTree<FileItem, void>): void {
         (<Mutable<typeof tree>>this._tree) = tree;
         this._insertionController?.bindWithTree(tree);
     }
@@ -537,7 +536,7 @@ class RowInsertionController extends Disposable {
     public readonly DETECT_THRESHOLD = 10;
     public readonly OVERPLAY_HEIGHT  = 4;
 
-    private readonly _tree!: IFileTree<FileItem, FuzzyScore>;
+    private readonly _tree!: IFileTree<FileItem, void>;
     
     /** The dom element for row insertion displaying */
     private _rowDisposable: IDisposable;
@@ -549,7 +548,7 @@ class RowInsertionController extends Disposable {
         this._rowDisposable = Disposable.NONE;
     }
 
-    public bindWithTree(tree: IFileTree<FileItem, FuzzyScore>): void {
+    public bindWithTree(tree: IFileTree<FileItem, void>): void {
         (<Mutable<typeof tree>>this._tree) = tree;
     }
 
@@ -1,11 +1,10 @@
 import { ITreeFilterProvider, ITreeFilterResult } from "src/base/browser/secondary/tree/treeFilter";
-import { FuzzyScore } from "src/base/common/fuzzy";
 import { FileItem } from "src/workbench/services/fileTree/fileItem";
 
 /**
  * @class // TODO
  */
-export class FileItemFilter implements ITreeFilterProvider<FileItem, FuzzyScore> {
+export class FileItemFilter implements ITreeFilterProvider<FileItem, void> {
 
     // [field]
 
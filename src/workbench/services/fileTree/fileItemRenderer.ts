@@ -1,11 +1,13 @@
 import { ITreeNode } from "src/base/browser/secondary/tree/tree";
 import { ITreeListRenderer } from "src/base/browser/secondary/tree/treeListRenderer";
 import { IListViewMetadata, RendererType } from "src/base/browser/secondary/listView/listRenderer";
-import { FuzzyScore } from "src/base/common/fuzzy";
 import { FileItem } from "src/workbench/services/fileTree/fileItem";
 import { Icons } from "src/base/browser/icon/icons";
 import { getIconClass } from "src/base/browser/icon/iconRegistry";
 import { IListItemProvider } from "src/base/browser/secondary/listView/listItemProvider";
+import { EventType, addDisposableListener } from "src/base/browser/basic/dom";
+import { DisposableBucket } from "src/base/common/dispose";
+import { URI } from "src/base/common/files/uri";
 
 export const FileItemRendererType = 'explorer';
 
@@ -16,13 +18,49 @@ export interface IFileItemMetadata extends IListViewMetadata {
     // nothing here for now
 }
 
+/**
+ * Options for editing the name of a {@link FileItem} inline.
+ */
+export interface IFileItemNameEditOptions {
+
+    /**
+     * @description Validates the typing name. Returns an error message if the
+     * name is invalid, otherwise `undefined`.
+     */
+    readonly validate: (name: string) => string | undefined;
+
+    /**
+     * @description Invoked once the editing is done. The name is `undefined`
+     * if the editing is cancelled or the name is invalid.
+     */
+    readonly onDidEdit: (name: string | undefined) => void;
+}
+
+interface IFileItemNameEditor {
+    readonly uri: URI;
+    readonly element: HTMLElement;
+    readonly input: HTMLInputElement;
+    readonly lifecycle: DisposableBucket;
+}
+
 /**
  * @class The type of renderer used for {@link FileTreeService}.
  */
-export class FileItemRenderer implements ITreeListRenderer<FileItem, FuzzyScore, IFileItemMetadata> {
+export class FileItemRenderer implements ITreeListRenderer<FileItem, void, IFileItemMetadata> {
 
     public readonly type: RendererType = FileItemRendererType;
 
+    /**
+     * Maps every rendered container to the item that it is displaying.
+     */
+    private readonly _rendered = new Map<HTMLElement, FileItem>();
+
+    /**
+     * The inline name editor. It will be moved to the container of the editing
+     * item whenever the item is rerendered.
+     */
+    private _editor?: IFileItemNameEditor;
+
     constructor() {}
 
     public render(element: HTMLElement): IFileItemMetadata {
@@ -39,10 +77,39 @@ export class FileItemRenderer implements ITreeListRenderer<FileItem, FuzzyScore,
 
     public update(item: ITreeNode<FileItem, void>, index: number, data: IFileItemMetadata, size?: number): void {
         const text = data.container;
+        this._rendered.set(text, item.data);
+
+        const editor = this._editor;
+        if (editor && URI.equals(editor.uri, item.data.uri)) {
+            this.__attachEditor(editor, text);
+            return;
+        }
+
         text.textContent = item.data.name;
     }
 
-    public updateIndent(item: ITreeNode<FileItem, FuzzyScore>, indentElement: HTMLElement): void {
+    /**
+     * @description Replaces the name of the given item with an input box. The
+     * file extension is not selected initially. Any previous editing will be 
+     * cancelled.
+     */
+    public editName(item: FileItem, options: IFileItemNameEditOptions): void {
+        this._editor?.lifecycle.dispose();
+        this._editor = this.__createEditor(item, options);
+
+        for (const [container, rendered] of this._rendered) {
+            if (URI.equals(rendered.uri, item.uri)) {
+                this.__attachEditor(this._editor, container);
+                break;
+            }
+        }
+
+        const input = this._editor.input;
+        input.focus();
+        input.setSelectionRange(0, item.isFile() && item.extname ? item.name.length - item.extname.length : item.name.length);
+    }
+
+    public updateIndent(item: ITreeNode<FileItem, void>, indentElement: HTMLElement): void {
         if (item.collapsible) {
             indentElement.classList.add(...getIconClass(Icons.ArrowRight));
         } else {
@@ -51,7 +118,100 @@ export class FileItemRenderer implements ITreeListRenderer<FileItem, FuzzyScore,
     }
 
     public dispose(data: IFileItemMetadata): void {
-        // TODO
+        this._rendered.delete(data.container);
+    }
+
+    // [private helper methods]
+
+    private __createEditor(item: FileItem, options: IFileItemNameEditOptions): IFileItemNameEditor {
+        const lifecycle = new DisposableBucket();
+
+        const element = document.createElement('div');
+        element.className = 'explorer-item-name-editor';
+
+        const input = document.createElement('input');
+        input.className = 'explorer-item-input';
+        input.value = item.name;
+        input.spellcheck = false;
+
+        const message = document.createElement('div');
+        message.className = 'explorer-item-input-message';
+
+        element.appendChild(input);
+        element.appendChild(message);
+
+        const editor: IFileItemNameEditor = { uri: item.uri, element, input, lifecycle };
+
+        let done = false;
+        const finish = (confirmed: boolean) => {
+            if (done) {
+                return;
+            }
+            done = true;
+
+            const name = input.value.trim();
+            const valid = confirmed && options.validate(name) === undefined;
+            
+            if (this._editor === editor) {
+                this._editor = undefined;
+            }
+            this.__detachEditor(editor);
+            lifecycle.dispose();
+            options.onDidEdit(valid ? name : undefined);
+        };
+
+        const validate = () => {
+            const error = options.validate(input.value.trim());
+            element.classList.toggle('invalid', error !== undefined);
+            message.textContent = error ?? '';
+        };
+
+        lifecycle.register(addDisposableListener(input, EventType.input, validate));
+        lifecycle.register(addDisposableListener(input, EventType.keydown, e => {
+            // the tree should not receive any keyboard events during editing
+            e.stopPropagation();
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                if (options.validate(input.value.trim()) === undefined) {
+                    finish(true);
+                }
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                finish(false);
+            }
+        }));
+        lifecycle.register(addDisposableListener(input, EventType.blur, () => {
+            // detaching (rerendering) the input also blurs it
+            if (input.isConnected) {
+                finish(true);
+            }
+        }));
+        for (const type of [EventType.mousedown, EventType.click, EventType.doubleClick] as const) {
+            lifecycle.register(addDisposableListener(input, type, e => e.stopPropagation()));
+        }
+
+        return editor;
+    }
+
+    private __attachEditor(editor: IFileItemNameEditor, container: HTMLElement): void {
+        if (editor.element.parentElement === container) {
+            return;
+        }
+
+        // moving the element loses the focus
+        container.textContent = '';
+        container.appendChild(editor.element);
+        editor.input.focus();
+    }
+
+    private __detachEditor(editor: IFileItemNameEditor): void {
+        const container = editor.element.parentElement;
+        editor.element.remove();
+
+        const item = container && this._rendered.get(container);
+        if (container && item) {
+            container.textContent = item.name;
+        }
     }
 }
 
@@ -325,7 +325,7 @@ export class FileTreeMetadataController extends Disposable implements IFileTreeM
         const metadata = assert(this.getMetadataFromCache(folder));
         
         return Strings.stringifySafe2(metadata, undefined, 4).toAsync()
-            .andThen(stringify => this.fileService.writeFile(metadataURI, DataBuffer.fromString(stringify), { create: true, overwrite: true, }));
+            .andThen(stringify => this.fileService.writeFile(metadataURI, DataBuffer.fromString(stringify), { create: true, overwrite: true, atomic: true }));
     }
 
     /**
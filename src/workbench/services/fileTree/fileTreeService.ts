@@ -8,7 +8,7 @@ import { Disposable, IDisposable, LooseDisposableBucket } from "src/base/common/
 import { FileItemProvider as FileItemProvider, FileItemRenderer as FileItemRenderer } from "src/workbench/services/fileTree/fileItemRenderer";
 import { FileItemDragAndDropProvider } from "src/workbench/services/fileTree/fileItemDragAndDrop";
 import { ILogService, defaultLog } from "src/base/common/logger";
-import { FuzzyScore, IFilterOpts } from "src/base/common/fuzzy";
+import { IFilterOpts } from "src/base/common/fuzzy";
 import { FileItemFilter as FileItemFilter } from "src/workbench/services/fileTree/fileItemFilter";
 import { ConfigurationModuleType, IConfigurationService } from "src/platform/configuration/common/configuration";
 import { AsyncResult } from "src/base/common/result";
@@ -39,6 +39,7 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
     // [field]
 
     private _tree?: IFileTree<FileItem, void>;
+    private _renderer?: FileItemRenderer;
     private _sorter?: FileTreeSorter<FileItem>;
     private _metadataController?: FileTreeMetadataController;
 
@@ -135,7 +136,23 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
     }
 
     public async refresh(data?: FileItem): Promise<void> {
-        this._tree?.refresh(data);
+        await this._tree?.refresh(data);
+    }
+
+    public editName(item: FileItem, validate: (name: string) => string | undefined): Promise<string | undefined> {
+        const tree = this.__assertTree();
+        const renderer = assert(this._renderer);
+
+        tree.reveal(item);
+        return new Promise(resolve => {
+            renderer.editName(item, { 
+                validate: validate, 
+                onDidEdit: name => {
+                    tree.setDomFocus();
+                    resolve(name);
+                },
+            });
+        });
     }
 
     public freeze(): void {
@@ -207,6 +224,7 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
 
         this._tree.dispose();
         this._tree = undefined;
+        this._renderer = undefined;
 
         this._sorter?.dispose();
         this._sorter = undefined;
@@ -309,6 +327,11 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
         return controller.isDirectoryMetadataExist(dirUri);
     }
 
+    public getMetadataFromCache(dirUri: URI): string[] | undefined {
+        const controller = this.__assertController();
+        return controller.getMetadataFromCache(dirUri);
+    }
+
     public updateDirectoryMetadata(oldDirUri: URI, destination: URI, cutOrCopy: boolean): AsyncResult<void, Error | FileOperationError> {
         const controller = this.__assertController();
         return controller.updateDirectoryMetadata(oldDirUri, destination, cutOrCopy);
@@ -401,12 +424,13 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
             const root = await FileItem.resolve(rootStat, null, fileItemResolveOpts);
 
             // init tree
+            const renderer = new FileItemRenderer();
             const dndProvider = this.instantiationService.createInstance(FileItemDragAndDropProvider, sorter);
-            const tree = this.instantiationService.createInstance(FileTree<FileItem, FuzzyScore> , container,
+            const tree = this.instantiationService.createInstance(FileTree<FileItem, void> , container,
                 root,
                 {
                     itemProvider: new FileItemProvider(),
-                    renderers: [new FileItemRenderer()],
+                    renderers: [renderer],
                     childrenProvider: new FileItemChildrenProvider(this.logService, this.fileService, fileItemResolveOpts),
                     identityProvider: { getID: (data: FileItem) => data.id },
 
@@ -436,6 +460,7 @@ export class FileTreeService extends Disposable implements IFileTreeService, IFi
             cleanup.register(registerSorterListener(tree));
 
             this._tree = cleanup.register(tree);
+            this._renderer = renderer;
             return tree;
         });
     }
@@ -19,7 +19,7 @@ export const menuFileTreeContextRegister = createRegister(
                 group: 'open',
                 title: 'Open',
                 command: {
-                    commandID: "",
+                    commandID: AllCommands.fileTreeOpen,
                     when: WorkbenchContextKey.inReleaseContext,
                 },
             },
@@ -27,7 +27,7 @@ export const menuFileTreeContextRegister = createRegister(
                 group: 'open',
                 title: 'Open in New Tab',
                 command: {
-                    commandID: "",
+                    commandID: AllCommands.fileTreeOpenInNewTab,
                 },
             },
             {
@@ -83,7 +83,7 @@ export const menuFileTreeContextRegister = createRegister(
                 group: 'edit',
                 title: 'Rename...',
                 command: {
-                    commandID: "",
+                    commandID: AllCommands.fileTreeRename,
                     keybinding: 'F2',
                 },
             },
@@ -93,6 +93,7 @@ export const menuFileTreeContextRegister = createRegister(
                 command: {
                     commandID: AllCommands.fileTreeDelete,
                     keybinding: 'Delete',
+                    mac: 'Meta+Backspace',
                 },
             },
             {
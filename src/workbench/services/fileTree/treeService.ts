@@ -77,6 +77,16 @@ export interface IFileTreeService extends IDisposable, IService {
      */
     refresh(data?: FileItem): Promise<void>;
 
+    /**
+     * @description Reveals the given item and replaces its name with an inline 
+     * input box for editing.
+     * @param item The item to be edited.
+     * @param validate Returns an error message if the typing name is invalid.
+     * @returns A promise that resolves to the new name once confirmed, or 
+     *          `undefined` if the editing is cancelled.
+     */
+    editName(item: FileItem, validate: (name: string) => string | undefined): Promise<string | undefined>;
+
     /**
      * @description Freezes the file tree state, preventing any refresh actions. 
      * Any attempts to refresh will be deferred until the next 'resume' action 
@@ -279,6 +289,13 @@ export interface IFileTreeMetadataService extends IDisposable, IService {
      */
     isDirectoryMetadataExist(dirUri: URI): AsyncResult<boolean, Error | FileOperationError>;
 
+    /**
+     * @description Returns the custom sorting order of the given directory if
+     * it is cached in the memory.
+     * @param dirUri The directory URI.
+     */
+    getMetadataFromCache(dirUri: URI): string[] | undefined;
+
     /**
      * @description When moving or copying a directory, its corresponding 
      * metadata file must also be updated.
@@ -0,0 +1,308 @@
+import { Time } from "src/base/common/date";
+import { Disposable, IDisposable } from "src/base/common/dispose";
+import { Emitter, Register } from "src/base/common/event";
+import { DataBuffer } from "src/base/common/files/buffer";
+import { URI } from "src/base/common/files/uri";
+import { ILogService } from "src/base/common/logger";
+import { ResourceMap } from "src/base/common/structures/map";
+import { hash } from "src/base/common/utilities/hash";
+import { Random } from "src/base/common/utilities/random";
+import { Strings } from "src/base/common/utilities/string";
+import { isNumber, isObject, isString } from "src/base/common/utilities/type";
+import { IConfigurationService } from "src/platform/configuration/common/configuration";
+import { IBrowserEnvironmentService } from "src/platform/environment/common/environment";
+import { IFileService } from "src/platform/files/common/fileService";
+import { createService, IService } from "src/platform/instantiation/common/decorator";
+import { IEditorModelService } from "src/workbench/services/editorModel/editorModelService";
+import { WorkbenchConfiguration } from "src/workbench/services/workbench/configuration.register";
+
+export const IFileHistoryService = createService<IFileHistoryService>('file-history-service');
+
+const INDEX_FILE_NAME = 'entries.json';
+
+/**
+ * A saved version of a file in the local history.
+ */
+export interface IFileHistoryEntry {
+    readonly id: string;
+
+    /** The time when the version is saved in milliseconds. */
+    readonly timestamp: number;
+}
+
+interface IStoredHistoryEntry extends IFileHistoryEntry {
+    readonly hash: number;
+
+    /** The time when the version is first saved, the later saves within the merge window replace it. */
+    readonly created?: number;
+}
+
+/**
+ * The persisted index of the local history of each file. The entries are
+ * ordered from the oldest to the newest.
+ */
+interface IFileHistoryIndex {
+    readonly resource: string;
+    readonly entries: IStoredHistoryEntry[];
+}
+
+/**
+ * An interface only for {@link FileHistoryService}.
+ */
+export interface IFileHistoryService extends IDisposable, IService {
+
+    /**
+     * Fires with the resource whenever its local history is changed.
+     */
+    readonly onDidChangeHistory: Register<URI>;
+
+    /**
+     * @description Returns the saved versions of the given resource, ordered
+     * from the newest to the oldest.
+     */
+    getEntries(uri: URI): Promise<IFileHistoryEntry[]>;
+
+    /**
+     * @description Returns the content of the given version.
+     * @returns `undefined` if the version no longer exists.
+     */
+    getContent(uri: URI, entry: IFileHistoryEntry): Promise<string | undefined>;
+
+    /**
+     * @description Adds the content as the newest version of the resource.
+     * Nothing happens if the content is the same as the newest version. The
+     * versions that exceed the retention are removed afterwards.
+     * @note The newest version is replaced instead if it is first saved within
+     *       the merge window ({@link WorkbenchConfiguration.HistoryMergeWindow}).
+     */
+    addEntry(uri: URI, content: string): Promise<void>;
+}
+
+/**
+ * @class Keeps the saved versions of every file in the user data directory so
+ * that the previous content of a file can be looked up and restored. A new
+ * version is added whenever an opened document is saved.
+ *
+ * @note The versions of each resource are retained by the count and the age
+ * configured in {@link WorkbenchConfiguration.HistoryMaxEntries} and
+ * {@link WorkbenchConfiguration.HistoryMaxAge}. The newest version is always
+ * kept.
+ * @note The history of each resource is kept in a directory named by the hash
+ * of the resource. Resources of the same hash are kept in the following 
+ * directories (`<hash>-1`, `<hash>-2`...).
+ */
+export class FileHistoryService extends Disposable implements IFileHistoryService {
+
+    declare _serviceMarker: undefined;
+
+    // [events]
+
+    private readonly _onDidChangeHistory = this.__register(new Emitter<URI>());
+    public readonly onDidChangeHistory = this._onDidChangeHistory.registerListener;
+
+    // [fields]
+
+    private readonly _historyRoot: URI;
+
+    /** Ensures the history of each resource is modified one at a time. */
+    private readonly _pending: ResourceMap<Promise<void>>;
+
+    /** The resolved history directory of each resource. */
+    private readonly _dirs: ResourceMap<URI>;
+
+    // [constructor]
+
+    constructor(
+        @IFileService private readonly fileService: IFileService,
+        @IEditorModelService editorModelService: IEditorModelService,
+        @IConfigurationService private readonly configurationService: IConfigurationService,
+        @ILogService private readonly logService: ILogService,
+        @IBrowserEnvironmentService environmentService: IBrowserEnvironmentService,
+    ) {
+        super();
+        this._historyRoot = URI.join(environmentService.userDataPath, 'history');
+        this._pending = new ResourceMap();
+        this._dirs = new ResourceMap();
+
+        this.__register(editorModelService.onDidSave(model => {
+            if (this.configurationService.get<boolean>(WorkbenchConfiguration.HistoryEnabled, true)) {
+                this.addEntry(model.source, model.getRawContent());
+            }
+        }));
+    }
+
+    // [public methods]
+
+    public async getEntries(uri: URI): Promise<IFileHistoryEntry[]> {
+        await this._pending.get(uri);
+        const entries = await this.__readIndex(uri);
+        return entries
+            .map(entry => ({ id: entry.id, timestamp: entry.timestamp }))
+            .reverse();
+    }
+
+    public async getContent(uri: URI, entry: IFileHistoryEntry): Promise<string | undefined> {
+        const dir = await this.__getHistoryDir(uri);
+        return this.fileService.readFile(URI.join(dir, entry.id))
+            .map<string | undefined>(buffer => buffer.toString())
+            .unwrapOr(undefined);
+    }
+
+    public addEntry(uri: URI, content: string): Promise<void> {
+        const previous = this._pending.get(uri) ?? Promise.resolve();
+        const current = previous.then(() => this.__addEntry(uri, content));
+        this._pending.set(uri, current);
+
+        return current.then(() => {
+            if (this._pending.get(uri) === current) {
+                this._pending.delete(uri);
+            }
+        });
+    }
+
+    // [private helper methods]
+
+    private async __addEntry(uri: URI, content: string): Promise<void> {
+        const dir = await this.__getHistoryDir(uri);
+        const entries = await this.__readIndex(uri);
+        const contentHash = hash(content);
+
+        // deduplicate
+        const newest = entries.at(-1);
+        if (newest && newest.hash === contentHash && await this.getContent(uri, newest) === content) {
+            return;
+        }
+
+        // the saves within the merge window replace the newest version
+        const now = Date.now();
+        const mergeWindow = Time.sec(this.configurationService.get<number>(WorkbenchConfiguration.HistoryMergeWindow, 300)).toMs().time;
+        const created = newest?.created ?? newest?.timestamp;
+        const merged = newest && created !== undefined && now - created < mergeWindow;
+        if (merged) {
+            entries.pop();
+        }
+
+        const entry: IStoredHistoryEntry = {
+            id: merged ? newest.id : `${now.toString(36)}${Random.int(1e6).toString(36)}`,
+            timestamp: now,
+            hash: contentHash,
+            created: merged ? created : now,
+        };
+
+        const written = await this.fileService.writeFile(URI.join(dir, entry.id), DataBuffer.fromString(content), { create: true, overwrite: true, unlock: false, atomic: true })
+            .match(
+                () => true,
+                error => {
+                    this.logService.warn('FileHistoryService', 'Cannot save the version into the local history.', { at: URI.toString(uri), error: error });
+                    return false;
+                },
+            );
+        if (!written) {
+            return;
+        }
+
+        const { kept, removed } = this.__applyRetention([...entries, entry], now);
+        const index: IFileHistoryIndex = { resource: URI.toString(uri), entries: kept };
+        await Strings.stringifySafe2(index).toAsync()
+            .andThen(raw => this.fileService.writeFile(URI.join(dir, INDEX_FILE_NAME), DataBuffer.fromString(raw), { create: true, overwrite: true, unlock: false, atomic: true }))
+            .match<void>(
+                () => {},
+                error => this.logService.warn('FileHistoryService', 'Cannot update the local history.', { at: URI.toString(uri), error: error }),
+            );
+
+        for (const stale of removed) {
+            await this.fileService.delete(URI.join(dir, stale.id)).unwrapOr(undefined);
+        }
+
+        this._onDidChangeHistory.fire(uri);
+    }
+
+    /**
+     * @description Splits the entries (from the oldest to the newest) into the
+     * ones to be kept and the ones exceeding the retention.
+     */
+    private __applyRetention(entries: IStoredHistoryEntry[], now: number): { kept: IStoredHistoryEntry[], removed: IStoredHistoryEntry[] } {
+        const maxEntries = Math.max(1, this.configurationService.get<number>(WorkbenchConfiguration.HistoryMaxEntries, 50));
+        const maxAgeInDays = this.configurationService.get<number>(WorkbenchConfiguration.HistoryMaxAge, 30);
+        const maxAge = Time.min(maxAgeInDays * 24 * 60).toMs().time;
+
+        const kept: IStoredHistoryEntry[] = [];
+        const removed: IStoredHistoryEntry[] = [];
+        entries.forEach((entry, index) => {
+            const isNewest = index === entries.length - 1;
+            const exceedCount = index < entries.length - maxEntries;
+            const exceedAge = maxAgeInDays > 0 && now - entry.timestamp > maxAge;
+            if (isNewest || (!exceedCount && !exceedAge)) {
+                kept.push(entry);
+            } else {
+                removed.push(entry);
+            }
+        });
+
+        return { kept, removed };
+    }
+
+    /**
+     * @description Returns the directory that keeps the history of the given
+     * resource. The directories of other resources of the same hash are 
+     * skipped.
+     */
+    private async __getHistoryDir(uri: URI): Promise<URI> {
+        const resolved = this._dirs.get(uri);
+        if (resolved) {
+            return resolved;
+        }
+
+        const resource = URI.toString(uri);
+        const name = (hash(resource) >>> 0).toString(16);
+        for (let i = 0; ; i++) {
+            const dir = URI.join(this._historyRoot, i === 0 ? name : `${name}-${i}`);
+            const index = await this.__readIndexAt(dir);
+            const taken = index ? index.resource !== resource : this.__isResolvedByOthers(dir, uri);
+            if (!taken) {
+                this._dirs.set(uri, dir);
+                return dir;
+            }
+        }
+    }
+
+    /**
+     * @description Returns true if the directory is resolved by another 
+     * resource whose history is not written yet.
+     */
+    private __isResolvedByOthers(dir: URI, uri: URI): boolean {
+        for (const [resource, resolved] of this._dirs.entries()) {
+            if (URI.equals(resolved, dir) && !URI.equals(resource, uri)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private async __readIndex(uri: URI): Promise<IStoredHistoryEntry[]> {
+        const index = await this.__readIndexAt(await this.__getHistoryDir(uri));
+        if (!index || index.resource !== URI.toString(uri)) {
+            return [];
+        }
+        return index.entries;
+    }
+
+    private async __readIndexAt(dir: URI): Promise<IFileHistoryIndex | undefined> {
+        const raw = await this.fileService.readFile(URI.join(dir, INDEX_FILE_NAME))
+            .map(buffer => buffer.toString())
+            .unwrapOr('');
+        return __parseIndex(raw);
+    }
+}
+
+function __parseIndex(raw: string): IFileHistoryIndex | undefined {
+    return Strings.jsonParseSafe<IFileHistoryIndex>(raw).match(
+        index => isObject(index)
+            && isString(index.resource)
+            && Array.isArray(index.entries)
+            && index.entries.every(entry => isObject(entry) && isString(entry.id) && isNumber(entry.timestamp) && isNumber(entry.hash) && (entry.created === undefined || isNumber(entry.created)))
+            ? index
+            : undefined,
+        () => undefined,
+    );
+}
@@ -165,7 +165,7 @@ export class ShortcutService extends Disposable implements IShortcutService {
             .andThen(raw => this.fileService.writeFile(
                 this._resource,
                 DataBuffer.fromString(raw),
-                { create: true, overwrite: true, unlock: true }
+                { create: true, overwrite: true, unlock: true, atomic: true }
             ))
             .match(
                 () => this.logService.info('ShortcutService', 'shortcut configuration saved.', { WindowID: this.environmentService.windowID, at: URI.toString(this._resource) }),
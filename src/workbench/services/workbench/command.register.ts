@@ -18,6 +18,12 @@ import { INavigationViewService } from "src/workbench/parts/navigationPanel/navi
 import { ExplorerView } from "src/workbench/contrib/explorer/explorer";
 import { IRecentOpenService } from "src/platform/app/browser/recentOpenService";
 import { INotificationService } from "src/workbench/services/notification/notification";
+import { IWorkspaceService } from "src/workbench/parts/workspace/workspaceService";
+import { GridDirection } from "src/workbench/parts/workspace/editorGroupGrid";
+import { IQuickOpenService } from "src/workbench/contrib/quickOpen/quickOpenService";
+import { IFileHistoryViewService } from "src/workbench/contrib/fileHistory/fileHistoryViewService";
+import { ICommandPaletteService } from "src/workbench/contrib/commandPalette/commandPaletteService";
+import { EditorPaneModel } from "src/workbench/services/editorPane/editorPaneModel";
 
 export const rendererWorkbenchCommandRegister = createRegister(
     RegistrantType.Command, 
@@ -91,9 +97,18 @@ export const rendererWorkbenchCommandRegister = createRegister(
         );
         
         registrant.registerCommand(new AlertError());
+        registrant.registerCommand(new FileCommands.FileOpen());
+        registrant.registerCommand(new FileCommands.FileOpenInNewTab());
+        registrant.registerCommand(new FileCommands.FileNewFile());
+        registrant.registerCommand(new FileCommands.FileNewFolder());
         registrant.registerCommand(new FileCommands.FileCut());
         registrant.registerCommand(new FileCommands.FileCopy());
         registrant.registerCommand(new FileCommands.FilePaste());
+        registrant.registerCommand(new FileCommands.FileMove());
+        registrant.registerCommand(new FileCommands.FileRename());
+        registrant.registerCommand(new FileCommands.FileDelete());
+        registrant.registerCommand(new FileCommands.FileUndo());
+        registrant.registerCommand(new FileCommands.FileRedo());
         registrant.registerCommandBasic(
             {
                 id: AllCommands.fileTreeRevealInOS,
@@ -160,6 +175,54 @@ export const rendererWorkbenchCommandRegister = createRegister(
                 }
             }
         );
+        registrant.registerCommandBasic({
+            id: AllCommands.editorTabClose,
+            command: (provider, target: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).closeEditor(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.editorTabCloseOthers,
+            command: (provider, target: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).closeOtherEditors(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.editorTabCloseToTheRight,
+            command: (provider, target: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).closeEditorsToTheRight(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.editorTabPin,
+            command: (provider, target: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).pinEditor(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.editorTabUnpin,
+            command: (provider, target: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).unpinEditor(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.workspaceSplitRight,
+            command: (provider, target?: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).splitGroup(GridDirection.Right, target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.workspaceSplitDown,
+            command: (provider, target?: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).splitGroup(GridDirection.Down, target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.workspaceMoveEditorToNextGroup,
+            command: (provider, target?: EditorPaneModel) => provider.getOrCreateService(IWorkspaceService).moveEditorToNextGroup(target),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.workspaceFocusNextGroup,
+            command: (provider) => provider.getOrCreateService(IWorkspaceService).focusNextGroup(),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.quickOpen,
+            command: (provider) => provider.getOrCreateService(IQuickOpenService).show(),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.commandPalette,
+            command: (provider) => provider.getOrCreateService(ICommandPaletteService).show(),
+        });
+        registrant.registerCommandBasic({
+            id: AllCommands.fileHistoryShow,
+            command: (provider, target?: EditorPaneModel) => provider.getOrCreateService(IFileHistoryViewService).show(target?.resource),
+        });
     },
 );
 
@@ -1,5 +1,6 @@
 import { URI } from "src/base/common/files/uri";
 import { FileItem } from "src/workbench/services/fileTree/fileItem";
+import { EditorPaneModel } from "src/workbench/services/editorPane/editorPaneModel";
 
 /**
  * {@link AllCommands}
@@ -50,20 +51,52 @@ export const enum AllCommands {
 
     // [FileTree]
 
-    fileTreeNewFile    = 'fileTreeNewFile', // TODO
-    fileTreeNewFolder  = 'fileTreeNewFolder', // TODO
-    fileTreeCut        = 'fileTreeCut',
-    fileTreeCopy       = 'fileTreeCopy',
-    fileTreePaste      = 'fileTreePaste',
-    fileTreeMove       = 'fileTreeMove', // TODO
-    fileTreeDelete     = 'fileTreeDelete', // TODO
+    fileTreeOpen         = 'fileTreeOpen',
+    fileTreeOpenInNewTab = 'fileTreeOpenInNewTab',
+    fileTreeNewFile      = 'fileTreeNewFile',
+    fileTreeNewFolder    = 'fileTreeNewFolder',
+    fileTreeCut          = 'fileTreeCut',
+    fileTreeCopy         = 'fileTreeCopy',
+    fileTreePaste        = 'fileTreePaste',
+    fileTreeMove         = 'fileTreeMove',
+    fileTreeRename       = 'fileTreeRename',
+    fileTreeDelete       = 'fileTreeDelete',
+    fileTreeUndo         = 'fileTreeUndo',
+    fileTreeRedo         = 'fileTreeRedo',
     
     fileTreeRevealInOS         = 'fileTreeRevealInOS',
     fileTreeCopyPath           = 'fileTreeCopyPath',
     fileTreeCopyRelativePath   = 'fileTreeCopyRelativePath',
     fileTreeCloseCurrentFolder = 'fileTreeCloseCurrentFolder',
     fileTreeOpenFolder         = 'fileTreeOpenFolder',
-    fileTreeClearRecentOpened  = 'fileTreeClearRecentOpened'
+    fileTreeClearRecentOpened  = 'fileTreeClearRecentOpened',
+
+    // [EditorTab]
+
+    editorTabClose             = 'editorTabClose',
+    editorTabCloseOthers       = 'editorTabCloseOthers',
+    editorTabCloseToTheRight   = 'editorTabCloseToTheRight',
+    editorTabPin               = 'editorTabPin',
+    editorTabUnpin             = 'editorTabUnpin',
+
+    // [Workspace]
+
+    workspaceSplitRight            = 'workspaceSplitRight',
+    workspaceSplitDown             = 'workspaceSplitDown',
+    workspaceMoveEditorToNextGroup = 'workspaceMoveEditorToNextGroup',
+    workspaceFocusNextGroup        = 'workspaceFocusNextGroup',
+
+    // [QuickOpen]
+
+    quickOpen = 'quickOpen',
+
+    // [CommandPalette]
+
+    commandPalette = 'commandPalette',
+
+    // [FileHistory]
+
+    fileHistoryShow = 'fileHistoryShow',
 
     // [Test Commands]
 }
@@ -87,13 +120,18 @@ export const AllCommandsDescriptions: { [key in AllCommands]: string } = {
     [AllCommands.zoomOut]:          'Zoom out the entire program to the next level.',
     [AllCommands.zoomSet]:          'Set the zoom level to the given number. In the range of -8 to 8. 0 means default.',
 
-    [AllCommands.fileTreeNewFile]:    'Create a new file in the file tree.',
-    [AllCommands.fileTreeNewFolder]:  'Create a new folder in the file tree.',
-    [AllCommands.fileTreeCut]:        'Sets selected files in the file tree as ready to be cut.',
-    [AllCommands.fileTreeCopy]:       'Sets selected files in the file tree as ready to be copied.',
-    [AllCommands.fileTreePaste]:      'Paste the targets from the clipboard to the file tree.',
-    [AllCommands.fileTreeMove]:       'Moves the targets from the clipboard to the file tree.',
-    [AllCommands.fileTreeDelete]:     'Delete the targets in the file tree.',
+    [AllCommands.fileTreeOpen]:         'Open the target in the editor, or toggle the target if it is a folder.',
+    [AllCommands.fileTreeOpenInNewTab]: 'Open the target in a new tab in the background.',
+    [AllCommands.fileTreeNewFile]:      'Create a new file in the file tree.',
+    [AllCommands.fileTreeNewFolder]:    'Create a new folder in the file tree.',
+    [AllCommands.fileTreeCut]:          'Sets selected files in the file tree as ready to be cut.',
+    [AllCommands.fileTreeCopy]:         'Sets selected files in the file tree as ready to be copied.',
+    [AllCommands.fileTreePaste]:        'Paste the targets from the clipboard to the file tree.',
+    [AllCommands.fileTreeMove]:         'Moves the targets into the destination folder in the file tree.',
+    [AllCommands.fileTreeRename]:       'Rename the target in the file tree.',
+    [AllCommands.fileTreeDelete]:       'Move the targets in the file tree into the trash.',
+    [AllCommands.fileTreeUndo]:         'Undo the latest file operation in the file tree.',
+    [AllCommands.fileTreeRedo]:         'Redo the latest undone file operation in the file tree.',
     
     [AllCommands.fileTreeRevealInOS]:         'Reveal the target in the native file explorer.',
     [AllCommands.fileTreeCopyPath]:           'Copy path of active file path.',
@@ -101,8 +139,47 @@ export const AllCommandsDescriptions: { [key in AllCommands]: string } = {
     [AllCommands.fileTreeCloseCurrentFolder]: 'Close current file tree folder.',
     [AllCommands.fileTreeOpenFolder]:         'Open a new directory for file tree.',
     [AllCommands.fileTreeClearRecentOpened]:  'Clear recent opened file and folder paths.',
+
+    [AllCommands.editorTabClose]:           'Close the target editor.',
+    [AllCommands.editorTabCloseOthers]:     'Close every editor except the target editor and the pinned editors.',
+    [AllCommands.editorTabCloseToTheRight]: 'Close every editor to the right of the target editor except the pinned editors.',
+    [AllCommands.editorTabPin]:             'Pin the target editor to the front of the editors.',
+    [AllCommands.editorTabUnpin]:           'Unpin the target editor.',
+
+    [AllCommands.workspaceSplitRight]:            'Split the target editor (or the focused editor) to a new editor group on the right.',
+    [AllCommands.workspaceSplitDown]:             'Split the target editor (or the focused editor) to a new editor group below.',
+    [AllCommands.workspaceMoveEditorToNextGroup]: 'Move the target editor (or the focused editor) to the next editor group.',
+    [AllCommands.workspaceFocusNextGroup]:        'Focus the next editor group.',
+
+    [AllCommands.quickOpen]: 'Open a file under the opened folder by searching its name.',
+
+    [AllCommands.commandPalette]: 'Search and run any available command by its name.',
+
+    [AllCommands.fileHistoryShow]: 'Show the saved versions of the target editor (or the focused editor) and restore one of them.',
 };
 
+/**
+ * @description The commands defined in {@link AllCommands} that cannot be
+ * executed without arguments (see {@link AllCommandsArgumentsTypes}). These
+ * commands are not listed in the command palette.
+ */
+export const AllCommandsRequiringArguments: ReadonlySet<string> = new Set<AllCommands>([
+    AllCommands.alertError,
+    AllCommands.fileTreeOpen,
+    AllCommands.fileTreeOpenInNewTab,
+    AllCommands.fileTreePaste,
+    AllCommands.fileTreeMove,
+    AllCommands.fileTreeRevealInOS,
+    AllCommands.fileTreeCopyPath,
+    AllCommands.fileTreeCopyRelativePath,
+    AllCommands.fileTreeOpenFolder,
+    AllCommands.editorTabClose,
+    AllCommands.editorTabCloseOthers,
+    AllCommands.editorTabCloseToTheRight,
+    AllCommands.editorTabPin,
+    AllCommands.editorTabUnpin,
+]);
+
 /**
  * @description Maps each command defined in {@link AllCommands} to its 
  * respective argument types. 
@@ -132,13 +209,18 @@ export type AllCommandsArgumentsTypes = {
     [AllCommands.zoomOut]: [];
     [AllCommands.zoomSet]: [level?: number];
     
-    [AllCommands.fileTreeNewFile]   : [];
-    [AllCommands.fileTreeNewFolder] : [];
-    [AllCommands.fileTreeCut]       : [];
-    [AllCommands.fileTreeCopy]      : [];
-    [AllCommands.fileTreePaste]     : [destination: FileItem, destinationIdx?: number, resources?: URI[] | FileItem[]];
-    [AllCommands.fileTreeMove]      : [];
-    [AllCommands.fileTreeDelete]    : [];
+    [AllCommands.fileTreeOpen]        : [target: URI];
+    [AllCommands.fileTreeOpenInNewTab]: [target: URI];
+    [AllCommands.fileTreeNewFile]     : [target?: URI];
+    [AllCommands.fileTreeNewFolder]   : [target?: URI];
+    [AllCommands.fileTreeCut]         : [];
+    [AllCommands.fileTreeCopy]        : [];
+    [AllCommands.fileTreePaste]       : [destination: FileItem, destinationIdx?: number, resources?: URI[] | FileItem[]];
+    [AllCommands.fileTreeMove]        : [destination: URI, resources: URI[]];
+    [AllCommands.fileTreeRename]      : [target?: URI];
+    [AllCommands.fileTreeDelete]      : [target?: URI];
+    [AllCommands.fileTreeUndo]        : [];
+    [AllCommands.fileTreeRedo]        : [];
 
     [AllCommands.fileTreeRevealInOS]        : [target: URI | string];
     [AllCommands.fileTreeCopyPath]          : [target: URI | string];
@@ -147,6 +229,23 @@ export type AllCommandsArgumentsTypes = {
     [AllCommands.fileTreeOpenFolder]        : [target: URI];
     [AllCommands.fileTreeClearRecentOpened] : [];
 
+    [AllCommands.editorTabClose]          : [target: EditorPaneModel];
+    [AllCommands.editorTabCloseOthers]    : [target: EditorPaneModel];
+    [AllCommands.editorTabCloseToTheRight]: [target: EditorPaneModel];
+    [AllCommands.editorTabPin]            : [target: EditorPaneModel];
+    [AllCommands.editorTabUnpin]          : [target: EditorPaneModel];
+
+    [AllCommands.workspaceSplitRight]           : [target?: EditorPaneModel];
+    [AllCommands.workspaceSplitDown]            : [target?: EditorPaneModel];
+    [AllCommands.workspaceMoveEditorToNextGroup]: [target?: EditorPaneModel];
+    [AllCommands.workspaceFocusNextGroup]       : [];
+
+    [AllCommands.quickOpen]: [];
+
+    [AllCommands.commandPalette]: [];
+
+    [AllCommands.fileHistoryShow]: [target?: EditorPaneModel];
+
     [key: string]: any[];
 };
 
@@ -176,13 +275,18 @@ export type AllCommandsReturnTypes = {
     [AllCommands.zoomOut]: void;
     [AllCommands.zoomSet]: void;
 
-    [AllCommands.fileTreeNewFile]   : void;
-    [AllCommands.fileTreeNewFolder] : void;
-    [AllCommands.fileTreeCut]       : void;
-    [AllCommands.fileTreeCopy]      : void;
-    [AllCommands.fileTreePaste]     : void;
-    [AllCommands.fileTreeMove]      : void;
-    [AllCommands.fileTreeDelete]    : void;
+    [AllCommands.fileTreeOpen]        : void;
+    [AllCommands.fileTreeOpenInNewTab]: void;
+    [AllCommands.fileTreeNewFile]     : void;
+    [AllCommands.fileTreeNewFolder]   : void;
+    [AllCommands.fileTreeCut]         : void;
+    [AllCommands.fileTreeCopy]        : void;
+    [AllCommands.fileTreePaste]       : void;
+    [AllCommands.fileTreeMove]        : void;
+    [AllCommands.fileTreeRename]      : void;
+    [AllCommands.fileTreeDelete]      : void;
+    [AllCommands.fileTreeUndo]        : void;
+    [AllCommands.fileTreeRedo]        : void;
 
     [AllCommands.fileTreeRevealInOS]        : void;
     [AllCommands.fileTreeCopyPath]          : void;
@@ -191,5 +295,22 @@ export type AllCommandsReturnTypes = {
     [AllCommands.fileTreeOpenFolder]        : void;
     [AllCommands.fileTreeClearRecentOpened] : void;
 
+    [AllCommands.editorTabClose]          : void;
+    [AllCommands.editorTabCloseOthers]    : void;
+    [AllCommands.editorTabCloseToTheRight]: void;
+    [AllCommands.editorTabPin]            : void;
+    [AllCommands.editorTabUnpin]          : void;
+
+    [AllCommands.workspaceSplitRight]           : void;
+    [AllCommands.workspaceSplitDown]            : void;
+    [AllCommands.workspaceMoveEditorToNextGroup]: void;
+    [AllCommands.workspaceFocusNextGroup]       : void;
+
+    [AllCommands.quickOpen]: void;
+
+    [AllCommands.commandPalette]: void;
+
+    [AllCommands.fileHistoryShow]: void;
+
     [key: string]: any | Promise<any>;
 };
\ No newline at end of file
@@ -11,7 +11,12 @@ export const enum WorkbenchConfiguration {
 
     // [application]
 
-    AiTextModel = 'application.ai.textModel',
+    AiTextModel     = 'application.ai.textModel',
+    AiChatGPTModel  = 'application.ai.chatgpt.model',
+    AiDeepSeekModel = 'application.ai.deepseek.model',
+    AiCustomBaseURL = 'application.ai.custom.baseURL',
+    AiCustomModel   = 'application.ai.custom.model',
+    AiDailyTokenBudget = 'application.ai.dailyTokenBudget',
 
     // [workbench]
 
@@ -33,6 +38,11 @@ export const enum WorkbenchConfiguration {
     // [workspace]
 
     RestorePrevious    = 'workspace.restorePrevious',
+    HotExit            = 'workspace.hotExit',
+    HistoryEnabled     = 'workspace.history.enabled',
+    HistoryMaxEntries  = 'workspace.history.maxEntries',
+    HistoryMaxAge      = 'workspace.history.maxAge',
+    HistoryMergeWindow = 'workspace.history.mergeWindow',
     OutlineToggleState = 'workspace.outline.toggleState',
     
     FocusRecentEditorAfterClose = 'workspace.group.focusRecentEditorAfterClose',
@@ -73,8 +83,51 @@ export const sharedApplicationConfigurationRegister = createRegister(
                                     enum: [
                                         AI.ModelName.DeepSeek,
                                         AI.ModelName.ChatGPT,
+                                        AI.ModelName.Custom,
                                     ]
-                                }
+                                },
+
+                                // the model ID sent with the requests of each model
+                                ['chatgpt']: {
+                                    type: 'object',
+                                    properties: {
+                                        ['model']: {
+                                            type: 'string',
+                                            default: 'gpt-4o-mini',
+                                        },
+                                    }
+                                },
+                                ['deepseek']: {
+                                    type: 'object',
+                                    properties: {
+                                        ['model']: {
+                                            type: 'string',
+                                            default: 'deepseek-chat',
+                                        },
+                                    }
+                                },
+
+                                // any OpenAI-compatible server (e.g. a local model)
+                                ['custom']: {
+                                    type: 'object',
+                                    properties: {
+                                        ['baseURL']: {
+                                            type: 'string',
+                                            default: 'http://localhost:11434/v1',
+                                        },
+                                        ['model']: {
+                                            type: 'string',
+                                            default: '',
+                                        },
+                                    }
+                                },
+
+                                // the maximum total tokens per day, 0 means unlimited.
+                                ['dailyTokenBudget']: {
+                                    type: 'number',
+                                    default: 0,
+                                    minimum: 0,
+                                },
                             }
                         }
                     }
@@ -196,7 +249,40 @@ export const sharedWorkspaceConfigurationRegister = createRegister(
                         ['restorePrevious']: {
                             type: 'boolean',
                             default: true,
-                            description: 'Whether application should restore to previous opened directory.'
+                            description: 'Whether application should restore to previous opened directory and the layout of the opened editors.'
+                        },
+                        ['hotExit']: {
+                            type: 'boolean',
+                            default: true,
+                            description: 'Whether the unsaved changes of the opened files are backed up and restored on the next launch, even after a crash or quitting without saving.'
+                        },
+                        ['history']: {
+                            type: 'object',
+                            properties: {
+                                ['enabled']: {
+                                    type: 'boolean',
+                                    default: true,
+                                    description: 'Whether every saved version of the files is kept in the local history.'
+                                },
+                                ['maxEntries']: {
+                                    type: 'number',
+                                    default: 50,
+                                    minimum: 1,
+                                    description: 'The maximum number of versions kept in the local history of each file.'
+                                },
+                                ['maxAge']: {
+                                    type: 'number',
+                                    default: 30,
+                                    minimum: 0,
+                                    description: 'The number of days the versions are kept in the local history. Set to 0 to keep them regardless of their age.'
+                                },
+                                ['mergeWindow']: {
+                                    type: 'number',
+                                    default: 300,
+                                    minimum: 0,
+                                    description: 'The number of seconds within which the saves of a file are merged into one version of the local history (e.g. auto-save). Set to 0 to keep every save as a version.'
+                                },
+                            }
                         },
                         ['outline']: {
                             type: 'object',
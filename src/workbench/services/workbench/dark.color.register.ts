@@ -56,10 +56,18 @@ export const rendererDarkThemeColorRegister = createRegister(
         registrant.registerColor(PresetColorTheme.DarkModern, 'explorer-item-hovered-background', THEME_COLORS.lighterTeal);
         registrant.registerColor(PresetColorTheme.DarkModern, 'explorer-item-drag-image-background', THEME_COLORS.stroke);
 
+        // Search (NavView)
+        registrant.registerColor(PresetColorTheme.DarkModern, 'search-secondary-text', THEME_COLORS.subtext);
+        registrant.registerColor(PresetColorTheme.DarkModern, 'search-option-activated-background', THEME_COLORS.lightTeal);
+        registrant.registerColor(PresetColorTheme.DarkModern, 'search-match-highlight-background', THEME_COLORS.lightTeal);
+        registrant.registerColor(PresetColorTheme.DarkModern, 'search-match-removed-background', THEME_COLORS.lightcrimson);
+        registrant.registerColor(PresetColorTheme.DarkModern, 'search-match-inserted-background', THEME_COLORS.mediumTeal);
+
         // Workspace
         registrant.registerColor(PresetColorTheme.DarkModern, 'outline-primary-text', THEME_COLORS.ternary);
         registrant.registerColor(PresetColorTheme.DarkModern, 'outline-select-text', THEME_COLORS.secondary);
         registrant.registerColor(PresetColorTheme.DarkModern, 'outline-overflow-hover-box-background', THEME_COLORS.white);
+        registrant.registerColor(PresetColorTheme.DarkModern, 'outline-insertion-background', THEME_COLORS.lightTeal);
 
         // Notification
         registrant.registerColor(PresetColorTheme.DarkModern, 'notification-background', THEME_COLORS.white);
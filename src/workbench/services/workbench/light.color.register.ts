@@ -56,10 +56,18 @@ export const rendererLightThemeColorRegister = createRegister(
         registrant.registerColor(PresetColorTheme.LightModern, 'explorer-item-hovered-background', THEME_COLORS.lighterTeal);
         registrant.registerColor(PresetColorTheme.LightModern, 'explorer-item-drag-image-background', THEME_COLORS.stroke);
 
+        // Search (NavView)
+        registrant.registerColor(PresetColorTheme.LightModern, 'search-secondary-text', THEME_COLORS.subtext);
+        registrant.registerColor(PresetColorTheme.LightModern, 'search-option-activated-background', THEME_COLORS.lightTeal);
+        registrant.registerColor(PresetColorTheme.LightModern, 'search-match-highlight-background', THEME_COLORS.lightTeal);
+        registrant.registerColor(PresetColorTheme.LightModern, 'search-match-removed-background', THEME_COLORS.lightcrimson);
+        registrant.registerColor(PresetColorTheme.LightModern, 'search-match-inserted-background', THEME_COLORS.mediumTeal);
+
         // Workspace
         registrant.registerColor(PresetColorTheme.LightModern, 'outline-primary-text', THEME_COLORS.ternary);
         registrant.registerColor(PresetColorTheme.LightModern, 'outline-select-text', THEME_COLORS.secondary);
         registrant.registerColor(PresetColorTheme.LightModern, 'outline-overflow-hover-box-background', THEME_COLORS.white);
+        registrant.registerColor(PresetColorTheme.LightModern, 'outline-insertion-background', THEME_COLORS.lightTeal);
 
         // Notification
         registrant.registerColor(PresetColorTheme.LightModern, 'notification-background', THEME_COLORS.white);
@@ -49,10 +49,18 @@ export const rendererThemeLocationRegister = createRegister(
         registrant.registerTemplate('explorer-item-hovered-background');
         registrant.registerTemplate('explorer-item-drag-image-background');
 
+        // Search (NavView)
+        registrant.registerTemplate('search-secondary-text');
+        registrant.registerTemplate('search-option-activated-background');
+        registrant.registerTemplate('search-match-highlight-background');
+        registrant.registerTemplate('search-match-removed-background');
+        registrant.registerTemplate('search-match-inserted-background');
+
         // Workspace
         registrant.registerTemplate('outline-primary-text');
         registrant.registerTemplate('outline-select-text');
         registrant.registerTemplate('outline-overflow-hover-box-background');
+        registrant.registerTemplate('outline-insertion-background');
 
         // Notification
         registrant.registerTemplate('notification-background');
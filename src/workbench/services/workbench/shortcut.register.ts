@@ -60,5 +60,67 @@ export const rendererWorkbenchShortcutRegister = createRegister(
             when: null,
             commandArgs: [],
         });
+
+        registrant.registerBasic(
+            AllCommands.workspaceSplitRight, {
+            key: 'Ctrl+\\',
+            mac: 'Meta+\\',
+            weight: ShortcutWeight.workbench,
+            when: null,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.quickOpen, {
+            key: 'Ctrl+P',
+            mac: 'Meta+P',
+            weight: ShortcutWeight.workbench,
+            when: null,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.commandPalette, {
+            key: 'Ctrl+Shift+P',
+            mac: 'Meta+Shift+P',
+            weight: ShortcutWeight.workbench,
+            when: null,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.fileTreeRename, {
+            key: 'F2',
+            weight: ShortcutWeight.workbench,
+            when: WorkbenchContextKey.focusedFileTree,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.fileTreeDelete, {
+            key: 'Delete',
+            mac: 'Meta+Backspace',
+            weight: ShortcutWeight.workbench,
+            when: WorkbenchContextKey.focusedFileTree,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.fileTreeUndo, {
+            key: 'Ctrl+Z',
+            mac: 'Meta+Z',
+            weight: ShortcutWeight.workbench,
+            when: WorkbenchContextKey.focusedFileTree,
+            commandArgs: [],
+        });
+
+        registrant.registerBasic(
+            AllCommands.fileTreeRedo, {
+            key: 'Ctrl+Y',
+            mac: 'Meta+Shift+Z',
+            weight: ShortcutWeight.workbench,
+            when: WorkbenchContextKey.focusedFileTree,
+            commandArgs: [],
+        });
     },
 );
\ No newline at end of file
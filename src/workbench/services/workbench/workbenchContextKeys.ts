@@ -36,5 +36,11 @@ export namespace WorkbenchContextKey {
     export const fileTreeOnCut = CreateContextKeyExpr.Equal(fileTreeOnCutKey, false);
     export const fileTreeOnInsertKey = 'fileTreeOnInsert';
     export const fileTreeOnInsert = CreateContextKeyExpr.Equal(fileTreeOnInsertKey, false);
+
+    // [Editor Tab]
+
+    export const editorTabPinnedKey = 'editorTabPinned';
+    export const editorTabPinned = CreateContextKeyExpr.Equal(editorTabPinnedKey, true);
+    export const editorTabNotPinned = CreateContextKeyExpr.Equal(editorTabPinnedKey, false);
 }
 
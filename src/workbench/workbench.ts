@@ -26,6 +26,8 @@ import { INavigationViewService } from 'src/workbench/parts/navigationPanel/navi
 import { IFunctionBarService } from 'src/workbench/parts/navigationPanel/functionBar/functionBar';
 import { IActionBarService } from 'src/workbench/parts/navigationPanel/navigationBar/toolBar/actionBar';
 import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { IFileHistoryService } from 'src/workbench/services/history/fileHistoryService';
+import { IFileOperationService } from 'src/workbench/services/fileOperation/fileOperationService';
 
 /**
  * @class Workbench represents all the Components in the web browser.
@@ -99,6 +101,12 @@ export class Workbench extends WorkbenchLayout implements IWorkbenchService {
 
         // workbench-service
         this.instantiationService.store(IWorkbenchService, this);
+
+        // file-history-service (collects the saved versions from the start)
+        this.instantiationService.getOrCreateService(IFileHistoryService);
+
+        // file-operation-service (records the file operations from the start)
+        this.instantiationService.getOrCreateService(IFileOperationService);
     }
 
     /**
@@ -179,6 +187,10 @@ export class WorkbenchContextHub extends Disposable {
     private readonly fileTreeOnCut: IContextKey<boolean>;
     private readonly fileTreeOnInsert: IContextKey<boolean>;
 
+    // [context - editor tab]
+
+    private readonly editorTabPinned: IContextKey<boolean>;
+
     // [constructor]
 
     constructor(
@@ -215,6 +227,9 @@ export class WorkbenchContextHub extends Disposable {
         this.fileTreeOnCut = contextService.createContextKey(WorkbenchContextKey.fileTreeOnCutKey, false, 'True when items in the file tree are ready for cut.');
         this.fileTreeOnInsert = contextService.createContextKey(WorkbenchContextKey.fileTreeOnInsertKey, false, 'True when items in the file tree are ready for insert.');
 
+        // editor tab
+        this.editorTabPinned = contextService.createContextKey(WorkbenchContextKey.editorTabPinnedKey, false, 'True when the editor tab of the context menu is pinned.');
+
         // auto updates the context keys
         this.__registerListeners();
     }
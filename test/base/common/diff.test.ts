@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { diffLines, ILineDiff, LineDiffType } from 'src/base/common/diff';
+
+suite('diff-test', () => {
+
+    function render(diffs: ILineDiff[]): string[] {
+        return diffs.map(diff => {
+            switch (diff.type) {
+                case LineDiffType.Equal: return ` ${diff.text}`;
+                case LineDiffType.Insert: return `+${diff.text}`;
+                case LineDiffType.Delete: return `-${diff.text}`;
+            }
+        });
+    }
+
+    test('identical texts', () => {
+        assert.deepStrictEqual(render(diffLines('a\nb', 'a\nb')), [' a', ' b']);
+        assert.deepStrictEqual(render(diffLines('', '')), [' ']);
+    });
+
+    test('insertions and deletions', () => {
+        assert.deepStrictEqual(render(diffLines('a\nc', 'a\nb\nc')), [' a', '+b', ' c']);
+        assert.deepStrictEqual(render(diffLines('a\nb\nc', 'a\nc')), [' a', '-b', ' c']);
+        assert.deepStrictEqual(render(diffLines('', 'a')), ['-', '+a']);
+    });
+
+    test('replacements', () => {
+        assert.deepStrictEqual(render(diffLines('a\nb\nc\nd', 'a\nx\nc\ny')), [' a', '-b', '+x', ' c', '-d', '+y']);
+    });
+
+    test('the edit script is minimal', () => {
+        const original = 'a\nb\nc\na\nb\nb\na';
+        const modified = 'c\nb\na\nb\na\nc';
+        const diffs = diffLines(original, modified);
+        const changes = diffs.filter(diff => diff.type !== LineDiffType.Equal).length;
+        assert.strictEqual(changes, 5);
+
+        // both texts can be rebuilt from the script
+        assert.strictEqual(diffs.filter(diff => diff.type !== LineDiffType.Insert).map(diff => diff.text).join('\n'), original);
+        assert.strictEqual(diffs.filter(diff => diff.type !== LineDiffType.Delete).map(diff => diff.text).join('\n'), modified);
+    });
+
+    test('the edit script is minimal - random texts', () => {
+        
+        // the length of the longest common subsequence by dynamic programming
+        function lcs(a: string[], b: string[]): number {
+            let prev = new Array<number>(b.length + 1).fill(0);
+            for (const line of a) {
+                const curr = [0];
+                for (let j = 0; j < b.length; j++) {
+                    curr.push(line === b[j] ? prev[j]! + 1 : Math.max(prev[j + 1]!, curr[j]!));
+                }
+                prev = curr;
+            }
+            return prev[b.length]!;
+        }
+
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) % 4;
+        const randomText = () => Array.from({ length: 1 + random() * 5 + random() }, () => 'abcd'[random()]!);
+
+        for (let i = 0; i < 200; i++) {
+            const a = randomText();
+            const b = randomText();
+            const diffs = diffLines(a.join('\n'), b.join('\n'));
+            const equals = diffs.filter(diff => diff.type === LineDiffType.Equal).length;
+            assert.strictEqual(equals, lcs(a, b));
+            assert.deepStrictEqual(diffs.filter(diff => diff.type !== LineDiffType.Insert).map(diff => diff.text), a);
+            assert.deepStrictEqual(diffs.filter(diff => diff.type !== LineDiffType.Delete).map(diff => diff.text), b);
+        }
+    });
+
+    test('a long text that is rewritten', () => {
+        const original = Array.from({ length: 2000 }, (_, i) => `original ${i}`).join('\n');
+        const modified = Array.from({ length: 2000 }, (_, i) => `modified ${i}`).join('\n');
+        const diffs = diffLines(original, modified);
+        assert.strictEqual(diffs.filter(diff => diff.type === LineDiffType.Delete).length, 2000);
+        assert.strictEqual(diffs.filter(diff => diff.type === LineDiffType.Insert).length, 2000);
+    });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { IFilterOpts, isFiltered } from 'src/base/common/fuzzy';
+import { fuzzyScore, IFilterOpts, isFiltered } from 'src/base/common/fuzzy';
 
 suite('fuzzy-test', () => {
 
@@ -37,4 +37,33 @@ suite('fuzzy-test', () => {
             assert.strictEqual(isFiltered('baz', filters), false);
         });
     });
+
+    suite('fuzzyScore', () => {
+
+        test('matches as a subsequence ignoring case', () => {
+            assert.deepStrictEqual(fuzzyScore('fb', 'fooBar')?.matches, [0, 3]);
+            assert.deepStrictEqual(fuzzyScore('FOO', 'foo')?.matches, [0, 1, 2]);
+            assert.strictEqual(fuzzyScore('xyz', 'fooBar'), undefined);
+            assert.strictEqual(fuzzyScore('ba', 'ab'), undefined);
+            assert.strictEqual(fuzzyScore('abc', 'ab'), undefined);
+        });
+
+        test('empty pattern always matches', () => {
+            assert.deepStrictEqual(fuzzyScore('', 'foo'), { score: 0, matches: [] });
+        });
+
+        test('prefers word starts and consecutive matches', () => {
+            // matches the start of the words instead of the first occurrences
+            assert.deepStrictEqual(fuzzyScore('rm', 'readme_main')?.matches, [0, 7]);
+            assert.deepStrictEqual(fuzzyScore('ab', 'xaxb_ab')?.matches, [5, 6]);
+
+            const prefix = fuzzyScore('read', 'readme.md')!;
+            const scattered = fuzzyScore('read', 'rolled_easy_add')!;
+            assert.ok(prefix.score > scattered.score);
+
+            const camel = fuzzyScore('gc', 'getConfig')!;
+            const inner = fuzzyScore('gc', 'magic')!;
+            assert.ok(camel.score > inner.score);
+        });
+    });
 });
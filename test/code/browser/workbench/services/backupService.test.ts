@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import { Time } from 'src/base/common/date';
+import { Disposable } from 'src/base/common/dispose';
+import { Emitter, Event } from 'src/base/common/event';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { delayFor } from 'src/base/common/utilities/async';
+import { hash } from 'src/base/common/utilities/hash';
+import { IEditorModel } from 'src/editor/common/model';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IBrowserEnvironmentService } from 'src/platform/environment/common/environment';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { BackupService } from 'src/workbench/services/backup/backupService';
+import { EditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { createIntegration } from 'test/utils/integration';
+import { NullLifecycleService, NullLogger, TestURI } from 'test/utils/testService';
+
+suite('BackupService-test', () => {
+
+    function createModel(source: URI, content: string): { model: IEditorModel, setDirty: (dirty: boolean) => void } {
+        const onDidDirtyChange = new Emitter<boolean>();
+        const model = <IEditorModel><unknown>{
+            source: source,
+            dirty: false,
+            state: {},
+            diskModifyTime: 42,
+            getRawContent: () => content,
+            onDidDirtyChange: onDidDirtyChange.registerListener,
+            onDidSave: Event.NONE,
+        };
+        return {
+            model: model,
+            setDirty: dirty => {
+                (<{ dirty: boolean }><unknown>model).dirty = dirty;
+                onDidDirtyChange.fire(dirty);
+            },
+        };
+    }
+
+    function createBackupService(fileService: IFileService, editorModelService: EditorModelService, root: URI): BackupService {
+        return new BackupService(
+            fileService,
+            editorModelService,
+            <IConfigurationService><unknown>{ get: () => true, onDidConfigurationChange: () => Disposable.NONE },
+            new NullLifecycleService(),
+            new NullLogger(),
+            <IBrowserEnvironmentService><unknown>{ userDataPath: URI.join(root, 'userData') },
+        );
+    }
+
+    test('backs up dirty models and restores them in the next session', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'backupServiceTest');
+        const note = URI.join(root, 'note.md');
+        const removed = URI.join(root, 'removed.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(note, DataBuffer.fromString('saved')).unwrap();
+        await fileService.createFile(removed, DataBuffer.fromString('saved')).unwrap();
+
+        // first session
+        const firstModels = new EditorModelService();
+        const first = createBackupService(fileService, firstModels, root);
+        assert.deepStrictEqual(await first.getBackups(), []);
+
+        const { model: noteModel, setDirty: setNoteDirty } = createModel(note, 'unsaved');
+        const { model: removedModel, setDirty: setRemovedDirty } = createModel(removed, 'unsaved');
+        firstModels.registerModel(noteModel);
+        firstModels.registerModel(removedModel);
+        setNoteDirty(true);
+        setRemovedDirty(true);
+        await first.backupAll();
+        first.dispose();
+
+        // the resource is deleted before the next session
+        await fileService.delete(removed).unwrap();
+
+        // second session
+        const secondModels = new EditorModelService();
+        const second = createBackupService(fileService, secondModels, root);
+        const backups = await second.getBackups();
+        assert.strictEqual(backups.length, 1);
+        assert.ok(URI.equals(backups[0]!, note));
+
+        assert.deepStrictEqual(await second.takeBackup(note), { content: 'unsaved', modifyTime: 42 });
+        assert.strictEqual(await second.takeBackup(note), undefined);
+        assert.deepStrictEqual(await second.getBackups(), []);
+        second.dispose();
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('discards the backup once the model is no longer dirty', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'backupServiceTest');
+        const note = URI.join(root, 'note.md');
+        const backupRoot = URI.join(root, 'userData', 'backups');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(note, DataBuffer.fromString('saved')).unwrap();
+
+        const editorModelService = new EditorModelService();
+        const service = createBackupService(fileService, editorModelService, root);
+        await service.getBackups();
+
+        const { model, setDirty } = createModel(note, 'unsaved');
+        editorModelService.registerModel(model);
+        setDirty(true);
+        await service.backupAll();
+        assert.strictEqual((await fileService.readDir(backupRoot).unwrap()).length, 1);
+
+        setDirty(false);
+        await delayFor(Time.ms(50));
+        assert.strictEqual((await fileService.readDir(backupRoot).unwrap()).length, 0);
+
+        service.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('resources of the same hash do not share the backup', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'backupServiceTest');
+        const first = URI.join(root, 'aA.md');
+        const second = URI.join(root, 'BB.md');
+        const backupRoot = URI.join(root, 'userData', 'backups');
+        assert.strictEqual(hash(URI.toString(first)), hash(URI.toString(second)));
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(first, DataBuffer.fromString('saved')).unwrap();
+        await fileService.createFile(second, DataBuffer.fromString('saved')).unwrap();
+
+        // first session
+        const firstModels = new EditorModelService();
+        const service = createBackupService(fileService, firstModels, root);
+        await service.getBackups();
+
+        const { model: firstModel, setDirty: setFirstDirty } = createModel(first, 'first unsaved');
+        const { model: secondModel, setDirty: setSecondDirty } = createModel(second, 'second unsaved');
+        firstModels.registerModel(firstModel);
+        firstModels.registerModel(secondModel);
+        setFirstDirty(true);
+        setSecondDirty(true);
+        await service.backupAll();
+        assert.strictEqual((await fileService.readDir(backupRoot).unwrap()).length, 2);
+
+        // discarding one keeps the other
+        setFirstDirty(false);
+        await delayFor(Time.ms(50));
+        assert.strictEqual((await fileService.readDir(backupRoot).unwrap()).length, 1);
+        service.dispose();
+
+        // second session
+        const another = createBackupService(fileService, new EditorModelService(), root);
+        assert.strictEqual(await another.takeBackup(first), undefined);
+        assert.deepStrictEqual(await another.takeBackup(second), { content: 'second unsaved', modifyTime: 42 });
+        another.dispose();
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+});
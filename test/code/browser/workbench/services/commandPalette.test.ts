@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { Blocker } from 'src/base/common/utilities/async';
+import { EditorContextKeys } from 'src/editor/common/editorContextKeys';
+import { ICommandService } from 'src/platform/command/common/commandService';
+import { ContextKeyExpr } from 'src/platform/context/common/contextKeyExpr';
+import { IContextService } from 'src/platform/context/common/contextService';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { RegistrantType } from 'src/platform/registrant/common/registrant';
+import { IRegistrantService } from 'src/platform/registrant/common/registrantService';
+import { CommandPaletteService } from 'src/workbench/contrib/commandPalette/commandPalette';
+import { getCommandLabel } from 'src/workbench/contrib/commandPalette/commandSearch';
+import { ILayoutService } from 'src/workbench/services/layout/layoutService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { NullLogger } from 'test/utils/testService';
+
+suite('CommandPaletteService-test', () => {
+
+    const editorCommand = 'editor-test-command';
+    const globalCommand = 'global-test-command';
+
+    test('lists and runs the commands of the focused editor', async () => {
+        const container = document.createElement('div');
+        const editor = document.createElement('div');
+        editor.tabIndex = 0;
+        container.appendChild(editor);
+        document.body.appendChild(container);
+
+        // the editor commands are only available while the editor is focused
+        const commands = new Map([
+            [editorCommand, { id: editorCommand, when: EditorContextKeys.editorFocusedContext }],
+            [globalCommand, { id: globalCommand, when: null }],
+        ]);
+        const contextService = <IContextService><unknown>{
+            contextMatchExpr: (expr: ContextKeyExpr | null) => expr === null || document.activeElement === editor,
+        };
+
+        const executed: { id: string, focused: boolean }[] = [];
+        const ran = new Blocker<void>();
+        const service = new CommandPaletteService(
+            <ILayoutService><unknown>{ parentContainer: container },
+            <IRegistrantService><unknown>{
+                getRegistrant: (type: RegistrantType) => type === RegistrantType.Command
+                    ? { getAllCommands: () => commands }
+                    : { getAllShortcutRegistrations: () => new Map() },
+            },
+            contextService,
+            <ICommandService><unknown>{
+                executeCommand: async (id: string) => {
+                    executed.push({ id: id, focused: document.activeElement === editor });
+                    ran.resolve();
+                },
+            },
+            <IHostService><unknown>{
+                getApplicationStatus: async () => undefined,
+                setApplicationStatus: async () => {},
+            },
+            <INotificationService><unknown>{ error: () => assert.fail('should not fail') },
+            new NullLogger(),
+        );
+
+        editor.focus();
+        await service.show();
+        assert.notStrictEqual(document.activeElement, editor);
+
+        const rows = Array.from(container.querySelectorAll<HTMLElement>('.quick-pick-item'));
+        const labels = rows.map(row => row.querySelector('.quick-pick-label')!.textContent);
+        assert.deepStrictEqual(labels.sort(), [getCommandLabel(editorCommand), getCommandLabel(globalCommand)].sort());
+
+        // the focus is returned to the editor before running
+        rows.find(row => row.querySelector('.quick-pick-label')!.textContent === getCommandLabel(editorCommand))!.click();
+        await ran.waiting();
+        assert.deepStrictEqual(executed, [{ id: editorCommand, focused: true }]);
+        assert.strictEqual(document.activeElement, editor);
+
+        // not listed without the focused editor
+        editor.blur();
+        await service.show();
+        const unfocused = Array.from(container.querySelectorAll('.quick-pick-label')).map(label => label.textContent);
+        assert.deepStrictEqual(unfocused, [getCommandLabel(globalCommand)]);
+
+        service.dispose();
+        container.remove();
+    });
+});
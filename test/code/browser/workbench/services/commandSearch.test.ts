@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { getCommandLabel, ICommandCandidate, rankCommands } from 'src/workbench/contrib/commandPalette/commandSearch';
+
+suite('commandSearch-test', () => {
+
+    const commands: ICommandCandidate[] = [
+        ['workspaceSplitRight', 'Split the focused editor to the right.'],
+        ['workspaceSplitDown', 'Split the focused editor below.'],
+        ['zoomIn', 'Zoom in the entire program.'],
+        ['reloadWindow', 'Reload the browser entirely.'],
+    ].map(([id, description]) => ({ id: id!, label: getCommandLabel(id!), description: description! }));
+
+    function rank(query: string, recent: string[] = []): string[] {
+        return rankCommands(query, commands, recent).map(command => command.id);
+    }
+
+    test('getCommandLabel', () => {
+        assert.strictEqual(getCommandLabel('workspaceSplitRight'), 'Workspace Split Right');
+        assert.strictEqual(getCommandLabel('editor-toggle-mark-em'), 'Editor Toggle Mark Em');
+        assert.strictEqual(getCommandLabel('file_tree.open'), 'File Tree Open');
+    });
+
+    test('rankCommands - label matches first', () => {
+        assert.deepStrictEqual(rank('split'), ['workspaceSplitDown', 'workspaceSplitRight']);
+        assert.strictEqual(rank('wsr')[0], 'workspaceSplitRight');
+        assert.deepStrictEqual(rank('browser'), ['reloadWindow']);
+        assert.deepStrictEqual(rank('xyz'), []);
+    });
+
+    test('rankCommands - recently used commands first', () => {
+        assert.deepStrictEqual(rank('split', ['workspaceSplitRight']), ['workspaceSplitRight', 'workspaceSplitDown']);
+        assert.deepStrictEqual(rank('', ['zoomIn', 'reloadWindow']).slice(0, 2), ['zoomIn', 'reloadWindow']);
+        assert.strictEqual(rankCommands('', commands, ['zoomIn'])[0]!.recent, true);
+    });
+
+    test('rankCommands - matches within the label', () => {
+        const [split] = rankCommands('split right', commands, []);
+        assert.strictEqual(split!.id, 'workspaceSplitRight');
+        assert.deepStrictEqual(split!.matches, [10, 11, 12, 13, 14, 16, 17, 18, 19, 20]);
+
+        // matched by the description
+        const [reload] = rankCommands('browser', commands, []);
+        assert.deepStrictEqual(reload!.matches, []);
+    });
+});
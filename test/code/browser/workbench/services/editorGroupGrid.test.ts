@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { Orientation } from 'src/base/browser/basic/dom';
+import { EditorGroupGrid, GridDirection, IGridView } from 'src/workbench/parts/workspace/editorGroupGrid';
+
+class TestView implements IGridView {
+
+    public readonly element = document.createElement('div');
+    public width = 0;
+    public height = 0;
+
+    constructor(public readonly id: string) {}
+
+    public layout(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+    }
+
+    public dispose(): void {}
+}
+
+suite('editorGroupGrid-test', () => {
+
+    function createGrid(): { grid: EditorGroupGrid<TestView>, first: TestView } {
+        const first = new TestView('1');
+        const grid = new EditorGroupGrid(document.createElement('div'), first);
+        grid.layout(800, 600);
+        return { grid, first };
+    }
+
+    test('addView - split right and down', () => {
+        const { grid, first } = createGrid();
+        assert.deepStrictEqual(first.width, 800);
+
+        const second = new TestView('2');
+        grid.addView(second, first, GridDirection.Right);
+        assert.deepStrictEqual(grid.views.map(view => view.id), ['1', '2']);
+        assert.deepStrictEqual([first.width, first.height], [400, 600]);
+        assert.deepStrictEqual([second.width, second.height], [400, 600]);
+
+        const third = new TestView('3');
+        grid.addView(third, second, GridDirection.Down);
+        assert.deepStrictEqual(grid.views.map(view => view.id), ['1', '2', '3']);
+        assert.deepStrictEqual([second.width, second.height], [400, 300]);
+        assert.deepStrictEqual([third.width, third.height], [400, 300]);
+        assert.deepStrictEqual(first.width, 400);
+    });
+
+    test('removeView - collapse branches', () => {
+        const { grid, first } = createGrid();
+        const second = new TestView('2');
+        const third = new TestView('3');
+        grid.addView(second, first, GridDirection.Right);
+        grid.addView(third, second, GridDirection.Down);
+
+        grid.removeView(third);
+        assert.deepStrictEqual(grid.views.map(view => view.id), ['1', '2']);
+        assert.deepStrictEqual([second.width, second.height], [400, 600]);
+        assert.strictEqual(grid.serialize(view => view.id).type, 'branch');
+
+        grid.removeView(first);
+        assert.deepStrictEqual(grid.views.map(view => view.id), ['2']);
+        assert.deepStrictEqual([second.width, second.height], [800, 600]);
+
+        assert.throws(() => grid.removeView(second));
+    });
+
+    test('removeView - promote the only branch to root', () => {
+        const { grid, first } = createGrid();
+        const second = new TestView('2');
+        const third = new TestView('3');
+        grid.addView(second, first, GridDirection.Down);
+        grid.addView(third, second, GridDirection.Right);
+
+        grid.removeView(first);
+        const serialized = grid.serialize(view => view.id);
+        assert.ok(serialized.type === 'branch');
+        assert.strictEqual(serialized.orientation, Orientation.Horizontal);
+        assert.deepStrictEqual(serialized.children.map(child => child.type), ['leaf', 'leaf']);
+        assert.deepStrictEqual([second.width, second.height], [400, 600]);
+    });
+
+    test('serialize and deserialize', () => {
+        const { grid, first } = createGrid();
+        grid.addView(new TestView('2'), first, GridDirection.Right);
+        grid.addView(new TestView('3'), first, GridDirection.Down);
+        const serialized = grid.serialize(view => view.id);
+
+        const { grid: restored, first: initial } = createGrid();
+        const prevViews = restored.deserialize(serialized, id => new TestView(id));
+        assert.deepStrictEqual(prevViews, [initial]);
+        assert.deepStrictEqual(restored.views.map(view => view.id), ['1', '3', '2']);
+        assert.deepStrictEqual(restored.serialize(view => view.id), serialized);
+
+        const [one, three, two] = restored.views;
+        assert.deepStrictEqual([one!.width, one!.height], [400, 300]);
+        assert.deepStrictEqual([three!.width, three!.height], [400, 300]);
+        assert.deepStrictEqual([two!.width, two!.height], [400, 600]);
+    });
+});
@@ -640,4 +640,99 @@ suite('EditorGroupModel Test', () => {
             assert.strictEqual(editors[2], editor2);
         }));
     });
+
+    suite('Preview and Pinned', () => {
+        let group!: EditorGroupModel;
+        let editor1!: TextEditorPaneModel;
+        let editor2!: TextEditorPaneModel;
+        let editor3!: TextEditorPaneModel;
+        let editor4!: TextEditorPaneModel;
+
+        setup(() => FakeAsync.run(async () => {
+            group = (await initEditorGroupModel())[0];
+            editor1 = new TextEditorPaneModel(URI.parse('file://test1'));
+            editor2 = new TextEditorPaneModel(URI.parse('file://test2'));
+            editor3 = new TextEditorPaneModel(URI.parse('file://test3'));
+            editor4 = new TextEditorPaneModel(URI.parse('file://test4'));
+        }));
+
+        test('should replace the previous preview editor at its place', () => {
+            group.openEditor(editor1, {});
+            group.openEditor(editor2, { focused: true, preview: true });
+            group.openEditor(editor3, {});
+            assert.ok(group.isPreview(editor2));
+
+            group.openEditor(editor4, { focused: true, preview: true });
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor1, editor4, editor3]);
+            assert.ok(group.isPreview(editor4));
+            assert.ok(group.isFocused(editor4));
+            assert.strictEqual(group.contains(editor2), false);
+        });
+
+        test('should keep the preview editor', () => {
+            const events: EditorGroupChangeType[] = [];
+            group.onDidChangeModel(e => events.push(e.type));
+
+            group.openEditor(editor1, { preview: true });
+            group.keepEditor(editor1);
+            assert.strictEqual(group.preview, undefined);
+            assert.ok(events.includes(EditorGroupChangeType.EDITOR_PREVIEW));
+
+            group.openEditor(editor2, { preview: true });
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor1, editor2]);
+
+            // opening the preview editor again as preview does not keep it
+            group.openEditor(editor2, { preview: true });
+            assert.ok(group.isPreview(editor2));
+
+            group.openEditor(editor2, { focused: true });
+            assert.ok(group.isPreview(editor2));
+
+            // opening explicitly not as preview keeps it
+            group.openEditor(editor2, { preview: false });
+            assert.strictEqual(group.isPreview(editor2), false);
+        });
+
+        test('should keep the pinned editors at the front', () => {
+            group.openEditor(editor1, {});
+            group.openEditor(editor2, {});
+            group.openEditor(editor3, { preview: true });
+
+            group.pinEditor(editor3);
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor3, editor1, editor2]);
+            assert.ok(group.isPinned(editor3));
+            assert.strictEqual(group.isPreview(editor3), false);
+
+            group.pinEditor(editor2);
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor3, editor2, editor1]);
+            assert.strictEqual(group.pinnedCount, 2);
+
+            // new editors are never opened within the pinned editors
+            group.openEditor(editor4, { index: 0 });
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor3, editor2, editor4, editor1]);
+
+            group.unpinEditor(editor3);
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor2, editor3, editor4, editor1]);
+            assert.strictEqual(group.pinnedCount, 1);
+
+            group.closeEditor(editor2, {});
+            assert.strictEqual(group.pinnedCount, 0);
+        });
+
+        test('should not move editors across the pinned boundary', () => {
+            group.openEditor(editor1, { pinned: true });
+            group.openEditor(editor2, { pinned: true });
+            group.openEditor(editor3, {});
+            group.openEditor(editor4, {});
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor1, editor2, editor3, editor4]);
+
+            assert.strictEqual(group.moveEditor(editor1, 3)?.to, 1);
+            assert.strictEqual(group.moveEditor(editor4, 0)?.to, 2);
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor2, editor1, editor4, editor3]);
+
+            group.openEditor(editor3, { pinned: true });
+            assert.deepStrictEqual(group.getEditors('sequential'), [editor2, editor1, editor3, editor4]);
+            assert.strictEqual(group.pinnedCount, 3);
+        });
+    });
 });
\ No newline at end of file
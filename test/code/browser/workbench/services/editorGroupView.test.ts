@@ -0,0 +1,222 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { Event } from 'src/base/common/event';
+import { URI } from 'src/base/common/files/uri';
+import { Time } from 'src/base/common/date';
+import { AsyncResult } from 'src/base/common/result';
+import { Blocker, delayFor } from 'src/base/common/utilities/async';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { RegistrantType } from 'src/platform/registrant/common/registrant';
+import { IRegistrantService } from 'src/platform/registrant/common/registrantService';
+import { EditorGroupView } from 'src/workbench/parts/workspace/editorGroupView';
+import { IContextMenuService } from 'src/workbench/services/contextMenu/contextMenuService';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { EditorPaneDescriptor } from 'src/workbench/services/editorPane/editorPaneDescriptor';
+import { TextEditorPaneModel } from 'src/workbench/services/editorPane/editorPaneModel';
+import { EditorPaneRegistrant } from 'src/workbench/services/editorPane/editorPaneRegistrant';
+import { EditorPaneView } from 'src/workbench/services/editorPane/editorPaneView';
+import { IWorkbenchService } from 'src/workbench/services/workbench/workbenchService';
+import { nullObject } from 'test/utils/helpers';
+import { createIntegration } from 'test/utils/integration';
+
+/**
+ * An editor that only records the resources it renders.
+ */
+class TestEditorPaneView extends EditorPaneView<TextEditorPaneModel> {
+
+    public static rendered: URI[] = [];
+    public static closed: URI[] = [];
+    private readonly _container = document.createElement('div');
+
+    get type(): string { return 'test-editor'; }
+    get container(): HTMLElement { return this._container; }
+
+    public onModel(candidate: TextEditorPaneModel): boolean { return true; }
+    public shouldUpdate(model: TextEditorPaneModel): boolean { return true; }
+    public onVisibility(visibility: boolean): void {}
+    public override onClose(model: TextEditorPaneModel): void { TestEditorPaneView.closed.push(model.resource); }
+    protected override __updateStyles(): void {}
+
+    public onRender(parent: HTMLElement): void {
+        parent.appendChild(this._container);
+        TestEditorPaneView.rendered.push(this.model.resource);
+    }
+
+    public onUpdate(parent: HTMLElement): void {
+        TestEditorPaneView.rendered.push(this.model.resource);
+    }
+}
+
+suite('EditorGroupView-test', () => {
+
+    const root = URI.parse('file:///root');
+    const folder = URI.join(root, 'folder');
+    const fileA = URI.join(root, 'a.md');
+    const fileB = URI.join(folder, 'b.md');
+    const fileC = URI.join(folder, 'c.md');
+
+    interface IDirtyContext {
+        dirty: URI[];
+        readonly asked: string[];
+        readonly saved: URI[];
+        response: Blocker<number>;
+    }
+
+    /**
+     * @param dirty The context of the resources with unsaved changes.
+     */
+    async function createGroup(toOpen: URI[], focused: URI, dirty?: IDirtyContext): Promise<EditorGroupView> {
+        const di = await createIntegration({
+            fileService: 'inMemory',
+            registrantService: [RegistrantType.Configuration],
+            configurationService: true,
+        });
+
+        const registrant = new EditorPaneRegistrant();
+        registrant.registerEditor(new EditorPaneDescriptor(TestEditorPaneView), [TextEditorPaneModel]);
+        di.store(IRegistrantService, <IRegistrantService><unknown>{ getRegistrant: () => registrant });
+        di.store(IEditorModelService, <IEditorModelService><unknown>{ 
+            onDidChangeDirty: Event.NONE, 
+            isDirty: (uri: URI) => !!dirty?.dirty.some(each => URI.equals(each, uri)),
+            getModel: (uri: URI) => ({ 
+                save: () => {
+                    dirty!.saved.push(uri);
+                    dirty!.dirty = dirty!.dirty.filter(each => !URI.equals(each, uri));
+                    return AsyncResult.ok(undefined);
+                },
+            }),
+        });
+        di.store(IHostService, <IHostService><unknown>{ 
+            showMessageBox: async (opts: { message: string }) => {
+                dirty!.asked.push(opts.message);
+                const response = await dirty!.response.waiting();
+                dirty!.response = new Blocker();
+                return { response: response };
+            },
+        });
+        di.store(IContextMenuService, nullObject());
+        di.store(IWorkbenchService, nullObject());
+
+        const group = di.createInstance(EditorGroupView, { editorToOpen: [], mostRecentUsed: -1 });
+        for (const uri of toOpen) {
+            await group.openEditor(new TextEditorPaneModel(uri), { focused: URI.equals(uri, focused), preview: false });
+        }
+        TestEditorPaneView.rendered = [];
+        TestEditorPaneView.closed = [];
+        return group;
+    }
+
+    function resources(group: EditorGroupView): string[] {
+        return group.model.getEditors('sequential').map(model => URI.toString(model.resource!));
+    }
+
+    test('renameEditors - keeps the positions and renders the renamed focused editor', async () => {
+        const group = await createGroup([fileA, fileB, fileC], fileB);
+        group.pinEditor(group.model.getEditorByIndex(2)!);
+        const before = resources(group);
+        const pinned = group.model.getEditors('sequential').map(model => group.model.isPinned(model));
+
+        const renamed = URI.join(root, 'renamed');
+        await group.renameEditors(folder, renamed);
+
+        assert.deepStrictEqual(resources(group), before.map(uri => uri.replace(URI.toString(folder), URI.toString(renamed))));
+        assert.deepStrictEqual(group.model.getEditors('sequential').map(model => group.model.isPinned(model)), pinned);
+
+        // the focused editor follows the rename
+        assert.ok(URI.equals(group.model.focused!.resource!, URI.join(renamed, 'b.md')));
+        assert.deepStrictEqual(TestEditorPaneView.rendered.map(uri => URI.toString(uri)), [URI.toString(URI.join(renamed, 'b.md'))]);
+
+        // unrelated resources
+        const after = resources(group);
+        await group.renameEditors(URI.join(root, 'other'), URI.join(root, 'another'));
+        assert.deepStrictEqual(resources(group), after);
+
+        group.dispose();
+    });
+
+    test('closeEditor - asks before closing the dirty editor', async () => {
+        const dirty: IDirtyContext = { dirty: [fileA, fileB], asked: [], saved: [], response: new Blocker() };
+        const group = await createGroup([fileA, fileB, fileC], fileA, dirty);
+        const editorA = group.model.getEditors('sequential').find(model => URI.equals(model.resource!, fileA));
+        const editorB = group.model.getEditors('sequential').find(model => URI.equals(model.resource!, fileB));
+
+        // the editor is not closed (its model not released) before the user decides
+        const cancelled = group.closeEditor(editorA!);
+        await delayFor(Time.ms(0));
+        assert.strictEqual(dirty.asked.length, 1);
+        assert.deepStrictEqual(TestEditorPaneView.closed, []);
+        assert.strictEqual(group.model.size, 3);
+
+        // cancel
+        dirty.response.resolve(2);
+        await cancelled;
+        assert.deepStrictEqual(TestEditorPaneView.closed, []);
+        assert.strictEqual(group.model.size, 3);
+
+        // save
+        const saving = group.closeEditor(editorA!);
+        dirty.response.resolve(0);
+        await saving;
+        assert.deepStrictEqual(dirty.saved.map(uri => URI.toString(uri)), [URI.toString(fileA)]);
+        assert.deepStrictEqual(resources(group).sort(), [URI.toString(fileB), URI.toString(fileC)]);
+
+        // don't save
+        const discarding = group.closeEditor(editorB!);
+        dirty.response.resolve(1);
+        await discarding;
+        assert.strictEqual(dirty.saved.length, 1);
+        assert.deepStrictEqual(resources(group), [URI.toString(fileC)]);
+
+        // not dirty, not asked
+        assert.strictEqual(dirty.asked.length, 3);
+        group.dispose();
+    });
+
+    test('closeOtherEditors - cancelling stops closing every editor', async () => {
+        const dirty: IDirtyContext = { dirty: [fileB], asked: [], saved: [], response: new Blocker() };
+        const group = await createGroup([fileA, fileB, fileC], fileA, dirty);
+        const before = resources(group);
+
+        const closing = group.closeOtherEditors(group.model.getEditorByIndex(0)!);
+        dirty.response.resolve(2);
+        await closing;
+        assert.deepStrictEqual(resources(group), before);
+        assert.deepStrictEqual(TestEditorPaneView.closed, []);
+
+        group.dispose();
+    });
+
+    test('openEditor - the dirty preview editor is not replaced', async () => {
+        const dirty: IDirtyContext = { dirty: [], asked: [], saved: [], response: new Blocker() };
+        const group = await createGroup([], fileA, dirty);
+
+        await group.openEditor(new TextEditorPaneModel(fileA), { focused: true, preview: true });
+        dirty.dirty.push(fileA);
+        await group.openEditor(new TextEditorPaneModel(fileB), { focused: true, preview: true });
+
+        assert.deepStrictEqual(resources(group), [URI.toString(fileA), URI.toString(fileB)]);
+        assert.ok(URI.equals(group.model.preview!.resource!, fileB));
+        assert.deepStrictEqual(TestEditorPaneView.closed, []);
+
+        group.dispose();
+    });
+
+    test('closeEditors - closes the resource and everything inside', async () => {
+        const group = await createGroup([fileA, fileB, fileC], fileC);
+        let empty = false;
+        group.onDidBecomeEmpty(() => empty = true);
+
+        await group.closeEditors(folder);
+        assert.deepStrictEqual(resources(group), [URI.toString(fileA)]);
+        assert.deepStrictEqual(TestEditorPaneView.closed.map(uri => URI.toString(uri)).sort(), [URI.toString(fileB), URI.toString(fileC)]);
+        assert.ok(URI.equals(group.model.focused!.resource!, fileA));
+        assert.deepStrictEqual(TestEditorPaneView.rendered.map(uri => URI.toString(uri)), [URI.toString(fileA)]);
+        assert.ok(!empty);
+
+        await group.closeEditors(fileA);
+        assert.strictEqual(group.model.size, 0);
+        assert.ok(empty);
+
+        group.dispose();
+    });
+});
@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import { Emitter } from 'src/base/common/event';
+import { URI } from 'src/base/common/files/uri';
+import { IEditorModel } from 'src/editor/common/model';
+import { EditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+
+suite('EditorModelService-test', () => {
+
+    function createModel(source: URI): { model: IEditorModel, setDirty: (dirty: boolean) => void, save: () => void } {
+        const onDidDirtyChange = new Emitter<boolean>();
+        const onDidSave = new Emitter<void>();
+        const model = <IEditorModel><unknown>{
+            source: source,
+            dirty: false,
+            onDidDirtyChange: onDidDirtyChange.registerListener,
+            onDidSave: onDidSave.registerListener,
+            rebind: (target: URI) => (<{ source: URI }><unknown>model).source = target,
+            dispose: () => {},
+        };
+        return {
+            model: model,
+            setDirty: dirty => {
+                (<{ dirty: boolean }><unknown>model).dirty = dirty;
+                onDidDirtyChange.fire(dirty);
+            },
+            save: () => onDidSave.fire(),
+        };
+    }
+
+    test('dirty state of the registered models', () => {
+        const service = new EditorModelService();
+        const uri = URI.parse('file://test1');
+        const fired: URI[] = [];
+        service.onDidChangeDirty(e => fired.push(e));
+
+        const { model, setDirty } = createModel(uri);
+        const registration = service.registerModel(model);
+        assert.strictEqual(service.isDirty(uri), false);
+        assert.strictEqual(fired.length, 0);
+
+        setDirty(true);
+        assert.strictEqual(service.isDirty(uri), true);
+        assert.strictEqual(fired.length, 1);
+        assert.ok(URI.equals(fired[0]!, uri));
+
+        // unregistering a dirty model changes the dirty state
+        registration.dispose();
+        assert.strictEqual(service.isDirty(uri), false);
+        assert.strictEqual(fired.length, 2);
+
+        // no longer listened
+        setDirty(false);
+        assert.strictEqual(fired.length, 2);
+        service.dispose();
+    });
+
+    test('saves of the registered models', () => {
+        const service = new EditorModelService();
+        const saved: IEditorModel[] = [];
+        service.onDidSave(model => saved.push(model));
+
+        const { model, save } = createModel(URI.parse('file://test1'));
+        const registration = service.registerModel(model);
+        save();
+        assert.deepStrictEqual(saved, [model]);
+
+        registration.dispose();
+        save();
+        assert.strictEqual(saved.length, 1);
+        service.dispose();
+    });
+
+    test('acquireModel - shares one model per resource until every reference is disposed', () => {
+        const service = new EditorModelService();
+        const uri = URI.parse('file://test1');
+        let created = 0;
+        let disposed = 0;
+        const factory = () => {
+            created++;
+            const { model } = createModel(uri);
+            (<{ dispose: () => void }><unknown>model).dispose = () => disposed++;
+            return model;
+        };
+
+        const first = service.acquireModel(uri, factory);
+        const second = service.acquireModel(uri, factory);
+        assert.strictEqual(created, 1);
+        assert.strictEqual(first.model, second.model);
+        assert.strictEqual(service.getModel(uri), first.model);
+        assert.strictEqual(service.getModels().length, 1);
+
+        // disposing twice releases only once
+        first.dispose();
+        first.dispose();
+        assert.strictEqual(disposed, 0);
+        assert.strictEqual(service.getModel(uri), second.model);
+
+        second.dispose();
+        assert.strictEqual(disposed, 1);
+        assert.strictEqual(service.getModel(uri), undefined);
+
+        // created again
+        service.acquireModel(uri, factory).dispose();
+        assert.strictEqual(created, 2);
+        service.dispose();
+    });
+
+    test('moveModels - the dirty models follow the renamed resources', () => {
+        const service = new EditorModelService();
+        const dir = URI.parse('file:///root/dir');
+        const note = URI.join(dir, 'note.md');
+        const other = URI.parse('file:///root/other.md');
+        const fired: URI[] = [];
+        const moved: URI[] = [];
+        service.onDidChangeDirty(e => fired.push(e));
+        service.onDidMoveModel(e => moved.push(e.target));
+
+        const { model, setDirty } = createModel(note);
+        const reference = service.acquireModel(note, () => model);
+        const untouched = service.acquireModel(other, () => createModel(other).model);
+        setDirty(true);
+        fired.length = 0;
+
+        // the directory is renamed
+        const renamedDir = URI.parse('file:///root/renamed');
+        const renamed = URI.join(renamedDir, 'note.md');
+        service.moveModels(dir, renamedDir);
+        assert.ok(URI.equals(model.source, renamed));
+        assert.deepStrictEqual(moved.map(uri => URI.toString(uri)), [URI.toString(renamed)]);
+        assert.deepStrictEqual(fired.map(uri => URI.toString(uri)), [URI.toString(note), URI.toString(renamed)]);
+
+        assert.strictEqual(service.getModel(note), undefined);
+        assert.strictEqual(service.isDirty(note), false);
+        assert.strictEqual(service.getModel(renamed), model);
+        assert.strictEqual(service.isDirty(renamed), true);
+        assert.strictEqual(service.getModel(other), untouched.model);
+
+        // still shared under the new resource
+        const shared = service.acquireModel(renamed, () => assert.fail('the model should be shared'));
+        assert.strictEqual(shared.model, model);
+        shared.dispose();
+
+        // released under the new resource
+        fired.length = 0;
+        reference.dispose();
+        assert.strictEqual(service.getModel(renamed), undefined);
+        assert.deepStrictEqual(fired.map(uri => URI.toString(uri)), [URI.toString(renamed)]);
+
+        untouched.dispose();
+        service.dispose();
+    });
+});
@@ -1,5 +1,20 @@
 import * as assert from 'assert';
-import { IncrementFileType, incrementFileName } from 'src/workbench/services/fileTree/fileCommands';
+import { beforeEach } from 'mocha';
+import { URI } from 'src/base/common/files/uri';
+import { ICommandService } from 'src/platform/command/common/commandService';
+import { IBrowserEnvironmentService } from 'src/platform/environment/common/environment';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { FileOperationService, IFileOperationService } from 'src/workbench/services/fileOperation/fileOperationService';
+import { FileCommands, IncrementFileType, incrementFileName, validateFileName } from 'src/workbench/services/fileTree/fileCommands';
+import { FileItem } from 'src/workbench/services/fileTree/fileItem';
+import { FileSortType } from 'src/workbench/services/fileTree/fileTreeSorter';
+import { IFileTreeService } from 'src/workbench/services/fileTree/treeService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { AllCommands } from 'src/workbench/services/workbench/commandList';
+import { SAMPLE_TREE_LIKE3, buildFileItem, buildFileTree } from 'test/utils/helpers';
+import { createIntegration } from 'test/utils/integration';
+import { NullBrowserEnvironmentService, TestURI } from 'test/utils/testService';
 
 suite('incrementFileName-test', () => {
 
@@ -318,3 +333,173 @@ suite('Files - Increment file name smart', () => {
 		assert.strictEqual(result, '2-test');
 	});
 });
+
+suite('validateFileName-test', () => {
+
+	test('valid names', function () {
+		assert.strictEqual(validateFileName('note.md', []), undefined);
+		assert.strictEqual(validateFileName('.gitignore', ['note.md']), undefined);
+		assert.strictEqual(validateFileName('my folder', ['note.md']), undefined);
+	});
+
+	test('empty or whitespace', function () {
+		assert.ok(validateFileName('', []));
+		assert.ok(validateFileName('   ', []));
+		assert.ok(validateFileName(' note.md', []));
+		assert.ok(validateFileName('note.md ', []));
+	});
+
+	test('invalid characters', function () {
+		assert.ok(validateFileName('a/b.md', []));
+		assert.ok(validateFileName('a\\b.md', []));
+		assert.ok(validateFileName('a:b.md', []));
+		assert.ok(validateFileName('a?.md', []));
+		assert.ok(validateFileName('a\u0001.md', []));
+		assert.ok(validateFileName('.', []));
+		assert.ok(validateFileName('..', []));
+		assert.ok(validateFileName('note.', []));
+	});
+
+	test('duplicate names (case-insensitive)', function () {
+		assert.ok(validateFileName('note.md', ['note.md']));
+		assert.ok(validateFileName('Note.MD', ['note.md']));
+		assert.strictEqual(validateFileName('note2.md', ['note.md']), undefined);
+	});
+});
+
+suite('FileCommands-test', async () => {
+
+	class TestEnvironmentService extends NullBrowserEnvironmentService {
+		override get userDataPath(): URI { return URI.join(TestURI, 'fileCommandsTest_userData'); }
+		override get windowID(): number { return 1; }
+	}
+
+	const rootURI = URI.join(TestURI, 'fileCommandsTest');
+	const di = await createIntegration({
+		fileService: 'diskFile',
+	});
+	di.store(IBrowserEnvironmentService, new TestEnvironmentService());
+	const fileService = di.getService(IFileService);
+
+	let root!: FileItem;
+	let newName: string | undefined;
+	let fileOperationService!: FileOperationService;
+	
+	/** The requests to the editors and the reported errors. */
+	let renamed: [URI, URI][];
+	let closed: URI[];
+	let errors: string[];
+
+	function findItem(item: FileItem, uri: URI): FileItem | undefined {
+		if (URI.equals(item.uri, uri)) {
+			return item;
+		}
+		for (const child of item.children) {
+			const found = findItem(child, uri);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	}
+
+	async function exist(...path: string[]): Promise<boolean> {
+		return fileService.exist(URI.join(root.uri, ...path)).unwrap();
+	}
+
+	di.store(IFileTreeService, <IFileTreeService><unknown>{
+		findItem: (uri: URI) => findItem(root, uri),
+		getFocus: () => null,
+		getSelections: () => [],
+		editName: async () => newName,
+		getFileSortingType: () => FileSortType.Default,
+		freeze: () => {},
+		unfreeze: () => {},
+		refresh: async () => {},
+	});
+	di.store(INotificationService, <INotificationService><unknown>{ confirm: async () => true });
+	di.store(ICommandService, <ICommandService><unknown>{ 
+		executeCommand: async (id: string, reporter: string) => { 
+			assert.strictEqual(id, AllCommands.alertError);
+			errors.push(reporter);
+		},
+	});
+	di.store(IWorkspaceService, <IWorkspaceService><unknown>{
+		renameEditors: async (source: URI, target: URI) => { renamed.push([source, target]); },
+		closeEditors: async (resource: URI) => { closed.push(resource); },
+	});
+
+	beforeEach(async () => {
+		await fileService.delete(rootURI, { recursive: true }).unwrapOr(undefined);
+		await buildFileTree(fileService, rootURI, { cleanRoot: false, overwrite: true }, SAMPLE_TREE_LIKE3);
+		root = await buildFileItem(fileService, rootURI);
+		
+		fileOperationService?.dispose();
+		fileOperationService = di.createInstance(FileOperationService);
+		di.store(IFileOperationService, fileOperationService);
+
+		renamed = [];
+		closed = [];
+		errors = [];
+	});
+
+	test('rename - moves the resource and its editors', async () => {
+		const file = URI.join(root.uri, 'FILE1.js');
+		newName = 'renamed.js';
+
+		assert.ok(await new FileCommands.FileRename().run(di, file));
+		assert.ok(!await exist('FILE1.js'));
+		assert.strictEqual((await fileService.readFile(URI.join(root.uri, 'renamed.js')).unwrap()).toString(), 'Data for FILE1.js');
+		assert.deepStrictEqual(renamed, [[file, URI.join(root.uri, 'renamed.js')]]);
+		assert.deepStrictEqual(errors, []);
+
+		// recorded as an undo step
+		assert.ok(await fileOperationService.undo());
+		assert.ok(await exist('FILE1.js'));
+		assert.ok(!await exist('renamed.js'));
+	});
+
+	test('rename - fails on an existing name', async () => {
+		newName = 'file2.JS';
+
+		assert.ok(!await new FileCommands.FileRename().run(di, URI.join(root.uri, 'FILE1.js')));
+		assert.ok(await exist('FILE1.js'));
+		assert.strictEqual((await fileService.readFile(URI.join(root.uri, 'file2.JS')).unwrap()).toString(), 'Data for file2.JS');
+		assert.deepStrictEqual(renamed, []);
+		assert.deepStrictEqual(errors, ['FileRename']);
+		assert.ok(!fileOperationService.canUndo());
+	});
+
+	test('rename - cancelled or unchanged', async () => {
+		const file = URI.join(root.uri, 'FILE1.js');
+		
+		newName = undefined;
+		assert.ok(!await new FileCommands.FileRename().run(di, file));
+		newName = 'FILE1.js';
+		assert.ok(!await new FileCommands.FileRename().run(di, file));
+
+		assert.ok(await exist('FILE1.js'));
+		assert.ok(!fileOperationService.canUndo());
+	});
+
+	test('delete - moves into the trash and closes the editors', async () => {
+		const folder = URI.join(root.uri, 'folder1');
+
+		assert.ok(await new FileCommands.FileDelete().run(di, folder));
+		assert.ok(!await exist('folder1'));
+		assert.deepStrictEqual(closed, [folder]);
+		assert.deepStrictEqual(errors, []);
+
+		// restored with its content
+		assert.ok(await fileOperationService.undo());
+		assert.ok(await exist('folder1', 'folder1_file1.ts'));
+		assert.strictEqual((await fileService.readFile(URI.join(folder, 'FOLDER1_file3.TXT')).unwrap()).toString(), 'Data for FOLDER1_file3.TXT');
+	});
+
+	test('delete - nothing to delete', async () => {
+		assert.ok(!await new FileCommands.FileDelete().run(di, root.uri));
+		assert.ok(!await new FileCommands.FileDelete().run(di));
+		assert.deepStrictEqual(closed, []);
+		assert.ok(!fileOperationService.canUndo());
+	});
+});
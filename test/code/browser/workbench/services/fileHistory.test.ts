@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { AsyncResult } from 'src/base/common/result';
+import { Blocker } from 'src/base/common/utilities/async';
+import { IEditorModel } from 'src/editor/common/model';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { FileHistoryViewService } from 'src/workbench/contrib/fileHistory/fileHistory';
+import { IUnknownModel, IWorkspaceService } from 'src/workbench/parts/workspace/workspaceService';
+import { IEditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { IFileHistoryEntry, IFileHistoryService } from 'src/workbench/services/history/fileHistoryService';
+import { ILayoutService } from 'src/workbench/services/layout/layoutService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { INotificationOptions } from 'src/workbench/services/notification/notificationService';
+
+suite('FileHistoryViewService-test', () => {
+
+    const note = URI.parse('file:///root/note.md');
+    const entry: IFileHistoryEntry = { id: 'version', timestamp: Date.now() };
+
+    interface ITestContext {
+        readonly service: FileHistoryViewService;
+        readonly container: HTMLElement;
+        readonly opened: URI[];
+        readonly notified: INotificationOptions[];
+        readonly restored: Blocker<string | undefined>;
+    }
+
+    /**
+     * @param versions The content of each saved version.
+     * @param openedByEditor If the resource is opened by an editor already.
+     * @param applied If the document applies the restored content.
+     */
+    function createService(versions: Record<string, string>, openedByEditor: boolean, applied: boolean = true): ITestContext {
+        const container = document.createElement('div');
+        const opened: URI[] = [];
+        const notified: INotificationOptions[] = [];
+        const restored = new Blocker<string | undefined>();
+
+        let content = 'current';
+        const model = <IEditorModel><unknown>{
+            source: note,
+            getRawContent: () => content,
+            setRawContent: (text: string) => {
+                if (applied) {
+                    content = text;
+                }
+                restored.resolve(text);
+            },
+            parse: (text: string) => text,
+            serialize: (doc: string) => doc,
+        };
+
+        const service = new FileHistoryViewService(
+            <ILayoutService><unknown>{ parentContainer: container },
+            <IFileService><unknown>{ readFile: () => AsyncResult.ok(DataBuffer.fromString(content)) },
+            <IFileHistoryService><unknown>{
+                getEntries: async () => [entry],
+                getContent: async (uri: URI, version: IFileHistoryEntry) => versions[version.id],
+            },
+            <IEditorModelService><unknown>{ getModel: () => openedByEditor ? model : undefined },
+            <IWorkspaceService><unknown>{
+                openEditor: async (unknown: IUnknownModel) => {
+                    opened.push(unknown.uri);
+                    openedByEditor = true;
+                },
+            },
+            <INotificationService><unknown>{
+                notify: (options: INotificationOptions) => {
+                    notified.push(options);
+                    restored.resolve(undefined);
+                },
+            },
+        );
+        return { service, container, opened, notified, restored };
+    }
+
+    function clickRestore(container: HTMLElement): void {
+        container.querySelector<HTMLButtonElement>('.file-history-restore')!.click();
+    }
+
+    test('restores the version into the opened document', async () => {
+        const { service, container, opened, restored } = createService({ version: 'previous' }, true);
+        await service.show(note);
+        assert.ok(container.querySelector('.file-history.visible'));
+
+        clickRestore(container);
+        assert.strictEqual(await restored.waiting(), 'previous');
+        assert.deepStrictEqual(opened, []);
+        assert.ok(!container.querySelector('.file-history.visible'));
+
+        service.dispose();
+    });
+
+    test('opens the document before restoring', async () => {
+        const { service, container, opened, restored } = createService({ version: 'previous' }, false);
+        await service.show(note);
+
+        clickRestore(container);
+        assert.strictEqual(await restored.waiting(), 'previous');
+        assert.deepStrictEqual(opened.map(uri => URI.toString(uri)), [URI.toString(note)]);
+
+        service.dispose();
+    });
+
+    test('the version no longer exists', async () => {
+        const { service, container, notified, restored } = createService({}, true);
+        await service.show(note);
+
+        clickRestore(container);
+        assert.strictEqual(await restored.waiting(), undefined);
+        assert.strictEqual(notified.length, 1);
+        assert.strictEqual(notified[0]!.message, 'The version cannot be restored.');
+        assert.ok(container.querySelector('.file-history.visible'));
+
+        service.dispose();
+    });
+
+    test('the document does not apply the version', async () => {
+        const { service, container, notified, restored } = createService({ version: 'previous' }, true, false);
+        await service.show(note);
+
+        clickRestore(container);
+        assert.strictEqual(await restored.waiting(), 'previous');
+        assert.strictEqual(notified.length, 1);
+        assert.strictEqual(notified[0]!.subMessage, 'The document is not changed.');
+        assert.ok(container.querySelector('.file-history.visible'));
+
+        service.dispose();
+    });
+});
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import { Time } from 'src/base/common/date';
+import { Disposable } from 'src/base/common/dispose';
+import { Emitter, Event } from 'src/base/common/event';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { delayFor } from 'src/base/common/utilities/async';
+import { hash } from 'src/base/common/utilities/hash';
+import { IEditorModel } from 'src/editor/common/model';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IBrowserEnvironmentService } from 'src/platform/environment/common/environment';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { EditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { FileHistoryService } from 'src/workbench/services/history/fileHistoryService';
+import { WorkbenchConfiguration } from 'src/workbench/services/workbench/configuration.register';
+import { createIntegration } from 'test/utils/integration';
+import { NullLogger, TestURI } from 'test/utils/testService';
+
+suite('FileHistoryService-test', () => {
+
+    function createFileHistoryService(fileService: IFileService, editorModelService: EditorModelService, root: URI, configurations: Record<string, unknown>): FileHistoryService {
+        return new FileHistoryService(
+            fileService,
+            editorModelService,
+            <IConfigurationService><unknown>{ get: (section: string, defaultValue: unknown) => configurations[section] ?? defaultValue, onDidConfigurationChange: () => Disposable.NONE },
+            new NullLogger(),
+            <IBrowserEnvironmentService><unknown>{ userDataPath: URI.join(root, 'userData') },
+        );
+    }
+
+    async function getContents(service: FileHistoryService, uri: URI): Promise<(string | undefined)[]> {
+        const entries = await service.getEntries(uri);
+        return Promise.all(entries.map(entry => service.getContent(uri, entry)));
+    }
+
+    test('keeps the saved versions without duplicates', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'fileHistoryServiceTest');
+        const note = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+
+        const editorModelService = new EditorModelService();
+        const service = createFileHistoryService(fileService, editorModelService, root, { [WorkbenchConfiguration.HistoryMergeWindow]: 0 });
+
+        let content = 'first';
+        const onDidSave = new Emitter<void>();
+        const model = <IEditorModel><unknown>{
+            source: note,
+            dirty: false,
+            getRawContent: () => content,
+            onDidDirtyChange: Event.NONE,
+            onDidSave: onDidSave.registerListener,
+        };
+        editorModelService.registerModel(model);
+
+        const changed: URI[] = [];
+        service.onDidChangeHistory(uri => changed.push(uri));
+
+        onDidSave.fire();
+        onDidSave.fire();
+        content = 'second';
+        onDidSave.fire();
+
+        assert.deepStrictEqual(await getContents(service, note), ['second', 'first']);
+        assert.strictEqual(changed.length, 2);
+        assert.deepStrictEqual(await service.getEntries(URI.join(root, 'other.md')), []);
+
+        service.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('removes the versions exceeding the retention', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'fileHistoryServiceTest');
+        const note = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+
+        const configurations: Record<string, unknown> = {
+            [WorkbenchConfiguration.HistoryMaxEntries]: 2,
+            [WorkbenchConfiguration.HistoryMaxAge]: 0,
+            [WorkbenchConfiguration.HistoryMergeWindow]: 0,
+        };
+        const service = createFileHistoryService(fileService, new EditorModelService(), root, configurations);
+
+        // by count
+        await service.addEntry(note, 'a');
+        await service.addEntry(note, 'b');
+        await service.addEntry(note, 'c');
+        assert.deepStrictEqual(await getContents(service, note), ['c', 'b']);
+
+        // by age (in days), the newest version is always kept.
+        configurations[WorkbenchConfiguration.HistoryMaxAge] = Time.ms(50).time / Time.min(24 * 60).toMs().time;
+        await delayFor(Time.ms(100));
+        await service.addEntry(note, 'd');
+        assert.deepStrictEqual(await getContents(service, note), ['d']);
+
+        // the content of the removed versions are deleted as well.
+        const historyDir = (await fileService.readDir(URI.join(root, 'userData', 'history')).unwrap())[0]![0];
+        const files = await fileService.readDir(URI.join(root, 'userData', 'history', historyDir)).unwrap();
+        assert.strictEqual(files.length, 2);
+
+        service.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('merges the saves within the merge window', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'fileHistoryServiceTest');
+        const note = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+
+        // in seconds
+        const configurations: Record<string, unknown> = { [WorkbenchConfiguration.HistoryMergeWindow]: Time.ms(100).time / 1000 };
+        const service = createFileHistoryService(fileService, new EditorModelService(), root, configurations);
+
+        await service.addEntry(note, 'a');
+        await service.addEntry(note, 'b');
+        await service.addEntry(note, 'c');
+        assert.deepStrictEqual(await getContents(service, note), ['c']);
+
+        // the window starts from the first save of the version
+        await delayFor(Time.ms(150));
+        await service.addEntry(note, 'd');
+        await service.addEntry(note, 'e');
+        assert.deepStrictEqual(await getContents(service, note), ['e', 'c']);
+
+        service.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('resources of the same hash do not share the history', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'fileHistoryServiceTest');
+        const first = URI.join(root, 'aA.md');
+        const second = URI.join(root, 'BB.md');
+        assert.strictEqual(hash(URI.toString(first)), hash(URI.toString(second)));
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        const configurations = { [WorkbenchConfiguration.HistoryMergeWindow]: 0 };
+        const service = createFileHistoryService(fileService, new EditorModelService(), root, configurations);
+
+        await service.addEntry(first, 'first a');
+        await service.addEntry(second, 'second a');
+        await service.addEntry(first, 'first b');
+        assert.deepStrictEqual(await getContents(service, first), ['first b', 'first a']);
+        assert.deepStrictEqual(await getContents(service, second), ['second a']);
+        service.dispose();
+
+        // resolved again in another session
+        const another = createFileHistoryService(fileService, new EditorModelService(), root, configurations);
+        assert.deepStrictEqual(await getContents(another, second), ['second a']);
+        assert.deepStrictEqual(await getContents(another, first), ['first b', 'first a']);
+        another.dispose();
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+});
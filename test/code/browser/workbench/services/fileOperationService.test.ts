@@ -0,0 +1,200 @@
+import * as assert from 'assert';
+import { beforeEach } from 'mocha';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { IBrowserEnvironmentService } from 'src/platform/environment/common/environment';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { IHostService } from 'src/platform/host/common/hostService';
+import { FileOperationService, FileOperationType } from 'src/workbench/services/fileOperation/fileOperationService';
+import { IFileTreeService } from 'src/workbench/services/fileTree/treeService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { INotificationOptions } from 'src/workbench/services/notification/notificationService';
+import { createIntegration } from 'test/utils/integration';
+import { NullBrowserEnvironmentService, TestURI } from 'test/utils/testService';
+
+class TestEnvironmentService extends NullBrowserEnvironmentService {
+    override get userDataPath(): URI { return URI.join(TestURI, 'fileOperationServiceTest_userData'); }
+    override get windowID(): number { return 1; }
+}
+
+suite('fileOperationService-test', async () => {
+
+    const di = await createIntegration({
+        fileService: 'diskFile',
+    });
+    di.store(IBrowserEnvironmentService, new TestEnvironmentService());
+    const fileService = di.getService(IFileService);
+    const root = URI.join(TestURI, 'fileOperationServiceTest');
+    const fileA = URI.join(root, 'a.md');
+    const fileB = URI.join(root, 'b.md');
+
+    /** The opened file tree, nothing is opened by default. */
+    const fileTree: { root: URI | undefined } = { root: undefined };
+    di.store(IFileTreeService, <IFileTreeService><unknown>fileTree);
+    di.store(IHostService, <IHostService><unknown>{ getAllWindowIDs: async () => [1, 2] });
+
+    let notifications: INotificationOptions[] = [];
+    di.store(INotificationService, <INotificationService><unknown>{ notify: (options: INotificationOptions) => notifications.push(options) });
+
+    let service!: FileOperationService;
+
+    beforeEach(async () => {
+        service?.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(fileA, DataBuffer.fromString('a')).unwrap();
+        fileTree.root = undefined;
+        notifications = [];
+        service = di.createInstance(FileOperationService);
+    });
+
+    async function exist(uri: URI): Promise<boolean> {
+        return fileService.exist(uri).unwrap();
+    }
+
+    test('delete into the trash - undo and redo', async () => {
+        const trashed = await service.moveToTrash(fileA).unwrap();
+        assert.ok(service.isInTrash(trashed));
+        assert.ok(!await exist(fileA));
+        assert.ok(await exist(trashed));
+
+        service.record('Delete', [{ type: FileOperationType.Delete, source: fileA, target: trashed }]);
+        assert.ok(service.canUndo());
+
+        const undone = await service.undo();
+        assert.deepStrictEqual(undone, [{ old: trashed, new: fileA }]);
+        assert.ok(await exist(fileA));
+        assert.strictEqual((await fileService.readFile(fileA).unwrap()).toString(), 'a');
+        assert.ok(!service.canUndo());
+        assert.ok(service.canRedo());
+
+        await service.redo();
+        assert.ok(!await exist(fileA));
+        assert.ok(await exist(trashed));
+        assert.ok(service.canUndo());
+        assert.ok(!service.canRedo());
+    });
+
+    test('rename - undo and redo', async () => {
+        await fileService.moveTo(fileA, fileB).unwrap();
+        service.record('Rename', [{ type: FileOperationType.Move, source: fileA, target: fileB }]);
+
+        await service.undo();
+        assert.ok(await exist(fileA));
+        assert.ok(!await exist(fileB));
+
+        await service.redo();
+        assert.ok(!await exist(fileA));
+        assert.ok(await exist(fileB));
+    });
+
+    test('create - undo moves into the trash', async () => {
+        await fileService.createFile(fileB).unwrap();
+        service.record('New File', [{ type: FileOperationType.Create, target: fileB }]);
+
+        const undone = (await service.undo())!;
+        assert.strictEqual(undone.length, 1);
+        assert.ok(service.isInTrash(undone[0]!.new));
+        assert.ok(!await exist(fileB));
+
+        await service.redo();
+        assert.ok(await exist(fileB));
+    });
+
+    test('paste over an existing file - undo in reverse order', async () => {
+        const copied = URI.join(root, 'copied.md');
+        await fileService.createFile(copied, DataBuffer.fromString('b')).unwrap();
+        await fileService.createFile(fileB, DataBuffer.fromString('old')).unwrap();
+
+        // replace 'b.md' with 'copied.md'
+        const trashed = await service.moveToTrash(fileB).unwrap();
+        await fileService.moveTo(copied, fileB).unwrap();
+        service.record('Move', [
+            { type: FileOperationType.Delete, source: fileB, target: trashed },
+            { type: FileOperationType.Move, source: copied, target: fileB },
+        ]);
+
+        await service.undo();
+        assert.strictEqual((await fileService.readFile(fileB).unwrap()).toString(), 'old');
+        assert.strictEqual((await fileService.readFile(copied).unwrap()).toString(), 'b');
+    });
+
+    test('undo is no longer possible', async () => {
+        await fileService.moveTo(fileA, fileB).unwrap();
+        service.record('Rename', [{ type: FileOperationType.Move, source: fileA, target: fileB }]);
+
+        // changed outside
+        await fileService.delete(fileB).unwrap();
+
+        assert.strictEqual(await service.undo(), undefined);
+        assert.ok(!service.canUndo());
+        assert.ok(!service.canRedo());
+    });
+
+    test('undo conflicts - keeps the trashed resource and restores it as a copy', async () => {
+        const trashed = await service.moveToTrash(fileA).unwrap();
+        service.record('Delete', [{ type: FileOperationType.Delete, source: fileA, target: trashed }]);
+
+        // a new file takes the place
+        await fileService.createFile(fileA, DataBuffer.fromString('new')).unwrap();
+
+        assert.strictEqual(await service.undo(), undefined);
+        assert.ok(!service.canUndo());
+        assert.ok(!service.canRedo());
+        assert.strictEqual((await fileService.readFile(fileA).unwrap()).toString(), 'new');
+        assert.ok(await exist(trashed));
+
+        const notification = notifications.pop()!;
+        const restore = notification.actions!.find(action => action.label === 'Restore as Copy')!;
+        assert.ok(restore.run !== 'noop');
+        await restore.run();
+
+        assert.ok(!await exist(trashed));
+        assert.strictEqual((await fileService.readFile(URI.join(root, 'a (restored).md')).unwrap()).toString(), 'a');
+        assert.strictEqual((await fileService.readFile(fileA).unwrap()).toString(), 'new');
+    });
+
+    test('records the operations performed through the file service within the file tree', async () => {
+        fileTree.root = root;
+
+        await fileService.moveTo(fileA, fileB).unwrap();
+        assert.ok(service.canUndo());
+        await service.undo();
+        assert.ok(await exist(fileA));
+        assert.ok(!await exist(fileB));
+
+        // batched operations are recorded by the caller
+        await service.batch(() => fileService.copyTo(fileA, fileB).unwrap());
+        assert.ok(!service.canUndo());
+
+        // outside the file tree
+        const outside = URI.join(TestURI, 'fileOperationServiceTest_outside.md');
+        await fileService.createFile(outside, DataBuffer.fromString('outside'), { overwrite: true }).unwrap();
+        await fileService.delete(outside).unwrap();
+        assert.ok(!service.canUndo());
+    });
+
+    test('cleans the trash of the closed windows', async () => {
+        const trash = URI.join(new TestEnvironmentService().userDataPath, 'trash');
+        await fileService.createFile(URI.join(trash, 'window-2', 'opened.md')).unwrap();
+        await fileService.createFile(URI.join(trash, 'window-3', 'closed.md')).unwrap();
+
+        service.dispose();
+        service = di.createInstance(FileOperationService);
+        await service.moveToTrash(fileA).unwrap();
+
+        assert.ok(await exist(URI.join(trash, 'window-2', 'opened.md')));
+        assert.ok(!await exist(URI.join(trash, 'window-3')));
+        await fileService.delete(URI.join(trash, 'window-2'), { recursive: true }).unwrap();
+    });
+
+    test('recording clears the redo stack', async () => {
+        await fileService.moveTo(fileA, fileB).unwrap();
+        service.record('Rename', [{ type: FileOperationType.Move, source: fileA, target: fileB }]);
+        await service.undo();
+        assert.ok(service.canRedo());
+
+        service.record('New File', [{ type: FileOperationType.Create, target: fileB }]);
+        assert.ok(!service.canRedo());
+        assert.ok(service.canUndo());
+    });
+});
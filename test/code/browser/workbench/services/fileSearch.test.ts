@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { collectFiles, rankFiles } from 'src/workbench/contrib/quickOpen/fileSearch';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('fileSearch-test', () => {
+
+    const root = URI.fromFile('/root');
+    const files = ['readme.md', 'docs/guide.md', 'docs/readme.md', 'src/reader/parse.ts', 'notes/daily.md'].map(path => URI.join(root, path));
+
+    function rank(query: string, recent: string[] = []): string[] {
+        return rankFiles(query, root, files, recent.map(path => URI.join(root, path))).map(file => file.relativePath);
+    }
+
+    test('rankFiles - file name matches first', () => {
+        assert.deepStrictEqual(rank('read'), ['readme.md', 'docs/readme.md', 'src/reader/parse.ts']);
+        assert.deepStrictEqual(rank('dg'), ['docs/guide.md']);
+        assert.deepStrictEqual(rank('xyz'), []);
+    });
+
+    test('rankFiles - recently opened files first', () => {
+        assert.deepStrictEqual(rank('read', ['src/reader/parse.ts', 'notes/daily.md']), ['src/reader/parse.ts', 'readme.md', 'docs/readme.md']);
+        assert.deepStrictEqual(rank('', ['notes/daily.md']).slice(0, 2), ['notes/daily.md', 'readme.md']);
+    });
+
+    test('rankFiles - matches within the relative path', () => {
+        const [guide] = rankFiles('guide', root, files, []);
+        assert.deepStrictEqual(guide!.matches, [5, 6, 7, 8, 9]);
+        assert.strictEqual(guide!.recent, false);
+
+        const [parse] = rankFiles('s r p', root, files, []);
+        assert.strictEqual(parse!.relativePath, 'src/reader/parse.ts');
+        assert.deepStrictEqual(parse!.matches, [0, 1, 11]);
+    });
+
+    test('collectFiles', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const dir = URI.join(TestURI, 'fileSearchTest');
+
+        await fileService.delete(dir, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(URI.join(dir, 'a.md'), DataBuffer.fromString('')).unwrap();
+        await fileService.createFile(URI.join(dir, 'sub', 'b.txt'), DataBuffer.fromString('')).unwrap();
+        await fileService.createFile(URI.join(dir, '.hidden', 'c.md'), DataBuffer.fromString('')).unwrap();
+
+        const collected = await collectFiles(fileService, dir, { exclude: [/^\./], include: [] });
+        assert.deepStrictEqual(collected.map(uri => URI.relative(dir, uri)).sort(), ['a.md', 'sub/b.txt']);
+
+        const limited = await collectFiles(fileService, dir, undefined, undefined, 1);
+        assert.strictEqual(limited.length, 1);
+
+        await fileService.delete(dir, { recursive: true }).unwrap();
+    });
+});
@@ -1,19 +1,37 @@
 import { suite, test } from 'mocha';
 import * as assert from 'assert';
-import { buildOutlineTree } from "src/workbench/contrib/outline/outlineTree";
+import { buildOutlineTree, collectOutlineHeadings } from "src/workbench/contrib/outline/outlineTree";
 import { HeadingItem } from "src/workbench/contrib/outline/headingItem";
 import { TreeLike } from 'src/base/common/utilities/type';
 import { isEqualTreeLike } from 'test/utils/helpers';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { ProseNode } from 'src/editor/common/proseMirror';
+import { createIntegration } from 'test/utils/integration';
 
-suite('buildOutlineTree', () => {
+suite('buildOutlineTree', async () => {
+
+    const di = await createIntegration({ 
+        i18nService: true 
+    });
+    const nodeProvider = DocumentNodeProvider.create(di).register();
+    const schema = buildSchema(nodeProvider);
+    const lexer = new MarkdownLexer({});
+    const docParser = new DocumentParser(schema, nodeProvider, /* options */);
 
     // [test helper functions]
 
+    function parse(content: string[]): ProseNode {
+        return docParser.parse(lexer.lex(content.join('\n')));
+    }
+
     function assertOutlineTree(
         content: string[],
         expect: TreeLike<string>[],
     ): void {
-        const resultTree = buildOutlineTree(content);
+        const resultTree = buildOutlineTree(collectOutlineHeadings(parse(content)));
         const expectTree = { value: HeadingItem.ROOT_ID, children: expect } as TreeLike<string>;
 
         const isEqual = isEqualTreeLike(
@@ -157,4 +175,56 @@ suite('buildOutlineTree', () => {
             ]
         );
     });
+
+    test('should ignore "#" lines inside of code blocks', () => {
+        assertOutlineTree(
+            [
+                '# Heading 1',
+                '```',
+                '# not a heading',
+                '```',
+                '## Subheading 1.1',
+            ],
+            [
+                { value: 'Heading 1', children: [
+                    { value: 'Subheading 1.1' }
+                ] }
+            ]
+        );
+    });
+
+    test('should recognize setext headings', () => {
+        assertOutlineTree(
+            [
+                'Heading 1',
+                '=========',
+                '',
+                'Subheading 1.1',
+                '--------------',
+            ],
+            [
+                { value: 'Heading 1', children: [
+                    { value: 'Subheading 1.1' }
+                ] }
+            ]
+        );
+    });
+
+    test('collectOutlineHeadings - positions', () => {
+        const doc = parse(['# A', '', 'text', '', '## B']);
+        const headings = collectOutlineHeadings(doc);
+        assert.deepStrictEqual(headings.map(heading => [heading.name, heading.level]), [['A', 1], ['B', 2]]);
+
+        for (const heading of headings) {
+            const node = doc.nodeAt(heading.position)!;
+            assert.strictEqual(node.type.name, 'heading');
+            assert.strictEqual(node.textContent, heading.name);
+        }
+    });
+
+    test('buildOutlineTree - ids are unique', () => {
+        const root = buildOutlineTree(collectOutlineHeadings(parse(['# A', '# B'])));
+        const ids = [root.data.id, ...root.children!.map(child => child.data.id)];
+        assert.strictEqual(new Set(ids).size, 3);
+    });
 });
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { ProseNode } from 'src/editor/common/proseMirror';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { MarkdownSerializer } from 'src/editor/model/serializer';
+import { mapRawRangeToDocument } from 'src/workbench/contrib/richTextEditor/richTextEditor';
+import { createIntegration } from 'test/utils/integration';
+
+suite('RichTextEditor-test', async () => {
+
+    const di = await createIntegration({
+        i18nService: true
+    });
+    const nodeProvider = DocumentNodeProvider.create(di).register();
+    const schema = buildSchema(nodeProvider);
+    const lexer = new MarkdownLexer({});
+    const docParser = new DocumentParser(schema, nodeProvider);
+    const serializer = new MarkdownSerializer(nodeProvider, { strict: true, escapeExtraCharacters: undefined });
+
+    /**
+     * Returns the rendered text of the mapped range and of the block where the
+     * range is located.
+     */
+    function reveal(raw: string, lineNumber: number, startColumn: number, endColumn: number): { text: string, block: string } | undefined {
+        const doc = docParser.parse(lexer.lex(raw));
+        const blockOffsets: number[] = [];
+        const content = serializer.serialize(doc, blockOffsets);
+
+        const range = mapRawRangeToDocument(doc, { content, blockOffsets }, { lineNumber, startColumn, endColumn });
+        if (!range) {
+            return undefined;
+        }
+        return { text: doc.textBetween(range.from, range.to), block: blockAt(doc, range.from).textContent };
+    }
+
+    function blockAt(doc: ProseNode, position: number): ProseNode {
+        return doc.child(doc.resolve(position).index(0));
+    }
+
+    test('reveals the match within its own block', () => {
+        const raw = 'note\n\nsecond note';
+        assert.deepStrictEqual(reveal(raw, 2, 7, 11), { text: 'note', block: 'second note' });
+        assert.deepStrictEqual(reveal(raw, 0, 0, 4), { text: 'note', block: 'note' });
+    });
+
+    test('matches inside the markdown syntax do not shift the others', () => {
+        const raw = '[x](http://note.md) note\n\nnote';
+
+        // the second raw match in the first block is the only rendered one
+        assert.deepStrictEqual(reveal(raw, 0, 20, 24), { text: 'note', block: 'x note' });
+        assert.deepStrictEqual(reveal(raw, 2, 0, 4), { text: 'note', block: 'note' });
+    });
+
+    test('reveals the start of the block if the match includes syntax', () => {
+        const raw = 'first\n\nsome **bold** text';
+        assert.deepStrictEqual(reveal(raw, 2, 5, 11), { text: '', block: 'some bold text' });
+    });
+
+    test('the line does not exist', () => {
+        assert.strictEqual(reveal('note', 3, 0, 4), undefined);
+    });
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import { Disposable } from 'src/base/common/dispose';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { createSearchRegExp, expandReplacement, ITextSearchQuery } from 'src/base/common/search';
+import { IEditorModel } from 'src/editor/common/model';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { replaceInContent, replaceInFile } from 'src/workbench/contrib/search/textReplace';
+import { TextSearchMatcher } from 'src/workbench/contrib/search/textSearch';
+import { EditorModelService } from 'src/workbench/services/editorModel/editorModelService';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('textReplace-test', () => {
+
+    function search(query: ITextSearchQuery, content: string) {
+        const regexp = createSearchRegExp(query).unwrap();
+        const matcher = new TextSearchMatcher(regexp);
+        matcher.push(content);
+        return { regexp, matches: matcher.end() };
+    }
+
+    test('expandReplacement', () => {
+        const { matches } = search({ pattern: '(?<first>\\w+)-(\\w+)', isRegExp: true }, 'foo-bar');
+        const match = matches[0]!;
+        assert.strictEqual(expandReplacement('$2-$1', match, true), 'bar-foo');
+        assert.strictEqual(expandReplacement('[$&] $$1 $<first> $3', match, true), '[foo-bar] $1 foo $3');
+        assert.strictEqual(expandReplacement('$10', match, true), 'foo0');
+        assert.strictEqual(expandReplacement('$2-$1', match, false), '$2-$1');
+    });
+
+    test('replaceInContent', () => {
+        const content = 'note A\r\nnote B\nno note';
+        const { regexp, matches } = search({ pattern: 'note', isWholeWord: true }, content);
+        assert.strictEqual(matches.length, 3);
+
+        const result = replaceInContent(content, regexp, 'memo', false, matches, new Set([1])).unwrap();
+        assert.deepStrictEqual(result, { content: 'memo A\r\nnote B\nno memo', replaced: 2 });
+    });
+
+    test('replaceInContent - content changed', () => {
+        const { regexp, matches } = search({ pattern: 'note' }, 'note note');
+        assert.ok(replaceInContent('note', regexp, 'memo', false, matches, new Set()).isErr());
+    });
+
+    test('replaceInFile - closed file and opened document', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const editorModelService = new EditorModelService();
+        const root = URI.join(TestURI, 'textReplaceTest');
+        const closed = URI.join(root, 'closed.md');
+        const opened = URI.join(root, 'opened.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(closed, DataBuffer.fromString('a note')).unwrap();
+        await fileService.createFile(opened, DataBuffer.fromString('a note')).unwrap();
+
+        // the content of the opened document is searched and replaced
+        let openedContent = 'a note';
+        const model = <IEditorModel><unknown>{
+            source: opened,
+            state: {},
+            getRawContent: () => openedContent,
+            setRawContent: (text: string) => openedContent = text,
+            parse: (text: string) => text,
+            serialize: (doc: string) => doc,
+            dirty: false,
+            onDidDirtyChange: () => Disposable.NONE,
+            onDidSave: () => Disposable.NONE,
+        };
+        const registration = editorModelService.registerModel(model);
+
+        const { regexp, matches } = search({ pattern: 'note' }, 'a note');
+        for (const uri of [closed, opened]) {
+            const result = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri, matches, excluded: new Set() });
+            assert.deepStrictEqual(result, { uri, replaced: 1 });
+        }
+
+        assert.strictEqual((await fileService.readFile(closed).unwrap()).toString(), 'a memo');
+        assert.strictEqual(openedContent, 'a memo');
+        assert.strictEqual((await fileService.readFile(opened).unwrap()).toString(), 'a note');
+
+        // failure is reported
+        const failed = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri: closed, matches, excluded: new Set() });
+        assert.strictEqual(failed.replaced, 0);
+        assert.ok(failed.error);
+
+        // the unsaved changes are replaced as well
+        (<{ dirty: boolean }><unknown>model).dirty = true;
+        openedContent = 'unsaved note';
+        const dirtyMatches = search({ pattern: 'note' }, openedContent).matches;
+        const dirty = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri: opened, matches: dirtyMatches, excluded: new Set() });
+        assert.deepStrictEqual(dirty, { uri: opened, replaced: 1 });
+        assert.strictEqual(openedContent, 'unsaved memo');
+        assert.strictEqual((await fileService.readFile(opened).unwrap()).toString(), 'a note');
+
+        // the document has been changed since the last search
+        const changed = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri: opened, matches: dirtyMatches, excluded: new Set() });
+        assert.strictEqual(changed.replaced, 0);
+        assert.ok(changed.error);
+
+        registration.dispose();
+        assert.strictEqual(editorModelService.getModel(opened), undefined);
+        await fileService.delete(root, { recursive: true }).unwrap();
+    });
+
+    test('replaceInFile - the opened document does not apply the edit', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const editorModelService = new EditorModelService();
+        const root = URI.join(TestURI, 'textReplaceTest');
+        const opened = URI.join(root, 'opened.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(opened, DataBuffer.fromString('a note')).unwrap();
+
+        let dirty = false;
+        const model = <IEditorModel><unknown>{
+            source: opened,
+            state: {},
+            getRawContent: () => 'a note',
+            setRawContent: () => {},
+            parse: (text: string) => text,
+            serialize: (doc: string) => doc,
+            get dirty() { return dirty; },
+            onDidDirtyChange: () => Disposable.NONE,
+            onDidSave: () => Disposable.NONE,
+        };
+        const registration = editorModelService.registerModel(model);
+
+        // the unsaved changes would conflict with the file, nothing is written
+        dirty = true;
+        const { regexp, matches } = search({ pattern: 'note' }, 'a note');
+        const refused = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri: opened, matches, excluded: new Set() });
+        assert.strictEqual(refused.replaced, 0);
+        assert.ok(refused.error);
+        assert.strictEqual((await fileService.readFile(opened).unwrap()).toString(), 'a note');
+
+        // the file is written instead
+        dirty = false;
+        const result = await replaceInFile(fileService, editorModelService, regexp, 'memo', false, { uri: opened, matches, excluded: new Set() });
+        assert.deepStrictEqual(result, { uri: opened, replaced: 1 });
+        assert.strictEqual((await fileService.readFile(opened).unwrap()).toString(), 'a memo');
+
+        registration.dispose();
+        await fileService.delete(root, { recursive: true }).unwrap();
+    });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { createSearchRegExp, ITextSearchQuery } from 'src/base/common/search';
+import { createSearchPreview, ITextSearchFileMatch, searchFiles, TextSearchMatcher } from 'src/workbench/contrib/search/textSearch';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('textSearch-test', () => {
+
+    function matchAll(query: ITextSearchQuery, ...chunks: string[]) {
+        const matcher = new TextSearchMatcher(createSearchRegExp(query).unwrap());
+        for (const chunk of chunks) {
+            matcher.push(chunk);
+        }
+        return matcher.end();
+    }
+
+    test('createSearchRegExp - options', () => {
+        assert.strictEqual(matchAll({ pattern: 'foo' }, 'Foo foo FOO').length, 3);
+        assert.strictEqual(matchAll({ pattern: 'foo', isCaseSensitive: true }, 'Foo foo FOO').length, 1);
+        assert.strictEqual(matchAll({ pattern: 'foo', isWholeWord: true }, 'foo food _foo foo.').length, 2);
+        assert.strictEqual(matchAll({ pattern: 'a.c' }, 'abc a.c').length, 1);
+        assert.strictEqual(matchAll({ pattern: 'a.c', isRegExp: true }, 'abc a.c').length, 2);
+        assert.strictEqual(matchAll({ pattern: '^\\s*$', isRegExp: true }, 'a\n\nb').length, 0);
+        assert.ok(createSearchRegExp({ pattern: '(', isRegExp: true }).isErr());
+    });
+
+    test('TextSearchMatcher - lines across chunks', () => {
+        const matches = matchAll({ pattern: 'note' }, 'a no', 'te\r', '\nsecond note note', '\nno\nte');
+        assert.deepStrictEqual(
+            matches.map(match => [match.lineNumber, match.startColumn, match.endColumn]),
+            [[0, 2, 6], [1, 7, 11], [1, 12, 16]],
+        );
+    });
+
+    test('TextSearchMatcher - the actual matched text', () => {
+        const matches = matchAll({ pattern: 'ab', }, 'ab AB ab');
+        assert.deepStrictEqual(matches.map(match => match.text), ['ab', 'AB', 'ab']);
+    });
+
+    test('TextSearchMatcher - max results', () => {
+        const matcher = new TextSearchMatcher(/a/g, 2);
+        matcher.push('aaa\n');
+        assert.ok(matcher.limitHit);
+        assert.strictEqual(matcher.end().length, 2);
+    });
+
+    test('createSearchPreview', () => {
+        assert.deepStrictEqual(createSearchPreview('    hello world  ', 10, 15), { text: 'hello world', matchStart: 6, matchEnd: 11 });
+
+        const line = 'x'.repeat(100) + 'match' + 'y'.repeat(500);
+        const preview = createSearchPreview(line, 100, 105);
+        assert.ok(preview.text.startsWith('…'));
+        assert.strictEqual(preview.text.slice(preview.matchStart, preview.matchEnd), 'match');
+        assert.strictEqual(preview.text.length, 1 + TextSearchMatcher.PREVIEW_LENGTH);
+    });
+
+    test('searchFiles', async () => {
+        const di = await createIntegration({ fileService: 'diskFile' });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'textSearchTest');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(URI.join(root, 'a.md'), DataBuffer.fromString('hello\nworld hello')).unwrap();
+        await fileService.createFile(URI.join(root, 'sub', 'b.md'), DataBuffer.fromString('hello')).unwrap();
+        await fileService.createFile(URI.join(root, 'c.txt'), DataBuffer.fromString('hello')).unwrap();
+        await fileService.createFile(URI.join(root, '.hidden', 'd.md'), DataBuffer.fromString('hello')).unwrap();
+
+        const results: ITextSearchFileMatch[] = [];
+        const complete = await searchFiles(fileService, root, /hello/gi, { filters: { exclude: [/^\./], include: [] } }, result => results.push(result));
+
+        assert.deepStrictEqual(complete, { fileCount: 2, matchCount: 3, limitHit: false });
+        assert.deepStrictEqual(
+            results.map(result => [URI.basename(result.uri), result.matches.map(match => match.lineNumber)]).sort(),
+            [['a.md', [0, 1]], ['b.md', [0]]],
+        );
+
+        const limited = await searchFiles(fileService, root, /hello/gi, { maxResults: 1 }, () => {});
+        assert.deepStrictEqual(limited, { fileCount: 1, matchCount: 1, limitHit: true });
+
+        // the opened document is searched with its unsaved changes
+        const opened: ITextSearchFileMatch[] = [];
+        const getOpenedContent = (uri: URI) => URI.basename(uri) === 'b.md' ? 'unsaved\nhello hello' : undefined;
+        await searchFiles(fileService, root, /hello/gi, { filters: { exclude: [/^\./], include: [] }, getOpenedContent }, result => opened.push(result));
+        assert.deepStrictEqual(
+            opened.map(result => [URI.basename(result.uri), result.matches.map(match => match.lineNumber)]).sort(),
+            [['a.md', [0, 1]], ['b.md', [1, 1]]],
+        );
+
+        await fileService.delete(root, { recursive: true }).unwrap();
+    });
+});
@@ -0,0 +1,183 @@
+import * as assert from 'assert';
+import { after, before } from 'mocha';
+import { join } from 'src/base/common/files/path';
+import { Schemas, URI } from 'src/base/common/files/uri';
+import { FileService, IFileService } from 'src/platform/files/common/fileService';
+import { InMemoryFileSystemProvider } from 'src/platform/files/common/inMemoryFileSystemProvider';
+import { applyPromptTemplate, DEFAULT_PROMPT_TEMPLATES, getPromptTemplateVariables, renderPromptTemplate } from 'src/platform/ai/common/aiPromptTemplate';
+import { AITextSessionStore } from 'src/platform/ai/electron/aiTextSessionStore';
+import { AIPromptTemplateStore } from 'src/platform/ai/electron/aiPromptTemplateStore';
+import { NullLogger } from 'test/utils/testService';
+import { FakeAsync } from 'test/utils/fakeAsync';
+
+suite('aiPromptTemplate-test', () => {
+
+    test('renderPromptTemplate', () => {
+        assert.strictEqual(renderPromptTemplate('Fix: {{selection}}', { selection: 'teh' }), 'Fix: teh');
+        assert.strictEqual(renderPromptTemplate('{{ a }}-{{a}}', { a: '1' }), '1-1');
+        assert.strictEqual(renderPromptTemplate('no variables', { a: '1' }), 'no variables');
+    });
+
+    test('renderPromptTemplate - unknown variables are kept', () => {
+        assert.strictEqual(renderPromptTemplate('{{selection}} {{unknown}}', { selection: 'x' }), 'x {{unknown}}');
+    });
+
+    test('renderPromptTemplate - values are not rendered again', () => {
+        assert.strictEqual(renderPromptTemplate('{{selection}}', { selection: '{{document}}', document: 'doc' }), '{{document}}');
+    });
+
+    test('getPromptTemplateVariables', () => {
+        assert.deepStrictEqual(getPromptTemplateVariables('{{document}} and {{ selection }} and {{document}}'), ['document', 'selection']);
+        assert.deepStrictEqual(getPromptTemplateVariables('nothing'), []);
+    });
+
+    test('applyPromptTemplate', () => {
+        const messages = applyPromptTemplate(
+            { id: 'id', name: 'name', system: 'Translate into {{language}}.', template: '{{selection}}' },
+            { language: 'French', selection: 'hello' },
+        );
+        assert.deepStrictEqual(messages, [
+            { role: 'system', content: 'Translate into French.' },
+            { role: 'user', content: 'hello' },
+        ]);
+
+        assert.deepStrictEqual(applyPromptTemplate({ id: 'id', name: 'name', template: 'hi' }, {}), [{ role: 'user', content: 'hi' }]);
+    });
+});
+
+suite('AITextSessionStore-test', () => {
+
+    let dir: URI;
+    let fileService: IFileService;
+
+    before(() => FakeAsync.run(async () => {
+        dir = URI.fromFile(join('temp', 'ai'));
+        fileService = new FileService(new NullLogger());
+        fileService.registerProvider(Schemas.FILE, new InMemoryFileSystemProvider());
+        (await fileService.createDir(dir).unwrap());
+    }));
+
+    after(() => FakeAsync.run(async () => {
+        (await fileService.delete(dir, { recursive: true }).unwrap());
+        fileService.dispose();
+    }));
+
+    test('create / append / get', () => FakeAsync.run(async () => {
+        const store = new AITextSessionStore(dir, fileService);
+        const session = await store.create({ systemPrompt: 'be nice' });
+        assert.deepStrictEqual(session.messages, [{ role: 'system', content: 'be nice' }]);
+
+        const appended = await store.append(session.id, [{ role: 'user', content: 'hi' }]);
+        assert.strictEqual(appended.messages.length, 2);
+        assert.deepStrictEqual((await store.get(session.id))?.messages, appended.messages);
+
+        await assert.rejects(() => store.append('unknown', []));
+        await store.close();
+        store.dispose();
+    }));
+
+    test('fork', () => FakeAsync.run(async () => {
+        const store = new AITextSessionStore(dir, fileService);
+        const session = await store.create();
+        await store.append(session.id, [{ role: 'user', content: '1' }, { role: 'assistant', content: '2' }]);
+
+        const fullFork = await store.fork(session.id);
+        assert.notStrictEqual(fullFork.id, session.id);
+        assert.strictEqual(fullFork.parentID, session.id);
+        assert.strictEqual(fullFork.messages.length, 2);
+
+        const partialFork = await store.fork(session.id, 1);
+        assert.deepStrictEqual(partialFork.messages, [{ role: 'user', content: '1' }]);
+
+        // the forked session does not affect the original one
+        await store.append(partialFork.id, [{ role: 'user', content: '3' }]);
+        assert.strictEqual((await store.get(session.id))?.messages.length, 2);
+
+        await store.close();
+        store.dispose();
+    }));
+
+    test('concurrent appends', () => FakeAsync.run(async () => {
+        const store = new AITextSessionStore(dir, fileService);
+        const session = await store.create();
+
+        // e.g. the user message and the assistant reply
+        await Promise.all([
+            store.append(session.id, [{ role: 'user', content: 'question' }]),
+            store.append(session.id, [{ role: 'assistant', content: 'answer' }]),
+        ]);
+        assert.deepStrictEqual((await store.get(session.id))?.messages, [
+            { role: 'user', content: 'question' },
+            { role: 'assistant', content: 'answer' },
+        ]);
+
+        await store.close();
+        store.dispose();
+    }));
+
+    test('persist to disk', () => FakeAsync.run(async () => {
+        const store = new AITextSessionStore(dir, fileService);
+        const session = await store.create();
+        await store.append(session.id, [{ role: 'user', content: 'persisted' }]);
+        await store.close();
+        store.dispose();
+
+        const reopened = new AITextSessionStore(dir, fileService);
+        const restored = await reopened.get(session.id);
+        assert.deepStrictEqual(restored?.messages, [{ role: 'user', content: 'persisted' }]);
+
+        assert.ok(await reopened.delete(session.id));
+        assert.strictEqual(await reopened.get(session.id), undefined);
+        await reopened.close();
+        reopened.dispose();
+    }));
+});
+
+suite('AIPromptTemplateStore-test', () => {
+
+    let dir: URI;
+    let fileService: IFileService;
+
+    before(() => FakeAsync.run(async () => {
+        dir = URI.fromFile(join('temp', 'ai-template'));
+        fileService = new FileService(new NullLogger());
+        fileService.registerProvider(Schemas.FILE, new InMemoryFileSystemProvider());
+        (await fileService.createDir(dir).unwrap());
+    }));
+
+    after(() => FakeAsync.run(async () => {
+        (await fileService.delete(dir, { recursive: true }).unwrap());
+        fileService.dispose();
+    }));
+
+    test('built-in templates', () => FakeAsync.run(async () => {
+        const store = new AIPromptTemplateStore(dir, fileService);
+        const templates = await store.getAll();
+        assert.deepStrictEqual(templates.map(each => each.id), DEFAULT_PROMPT_TEMPLATES.map(each => each.id));
+
+        const messages = await store.apply('rewrite-selection', { selection: 'text' });
+        assert.deepStrictEqual(messages[messages.length - 1], { role: 'user', content: 'text' });
+
+        await assert.rejects(() => store.apply('unknown', {}));
+        await store.close();
+        store.dispose();
+    }));
+
+    test('user-defined templates', () => FakeAsync.run(async () => {
+        const store = new AIPromptTemplateStore(dir, fileService);
+        await store.set({ id: 'mine', name: 'Mine', template: 'Explain {{selection}}' });
+        await store.set({ id: 'translate', name: 'Translate', template: 'To {{language}}: {{selection}}' });
+
+        const templates = await store.getAll();
+        assert.strictEqual(templates.length, DEFAULT_PROMPT_TEMPLATES.length + 1);
+        assert.strictEqual(templates.find(each => each.id === 'translate')?.template, 'To {{language}}: {{selection}}');
+        assert.deepStrictEqual(await store.apply('mine', { selection: 'x' }), [{ role: 'user', content: 'Explain x' }]);
+
+        // deleting restores the built-in one
+        assert.ok(await store.delete('translate'));
+        assert.strictEqual((await store.get('translate'))?.template, DEFAULT_PROMPT_TEMPLATES.find(each => each.id === 'translate')?.template);
+
+        await store.close();
+        store.dispose();
+    }));
+});
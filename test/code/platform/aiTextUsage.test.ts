@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { after, before } from 'mocha';
+import { getDateStamp } from 'src/base/common/date';
+import { join } from 'src/base/common/files/path';
+import { Schemas, URI } from 'src/base/common/files/uri';
+import { FileService, IFileService } from 'src/platform/files/common/fileService';
+import { InMemoryFileSystemProvider } from 'src/platform/files/common/inMemoryFileSystemProvider';
+import { AITextUsageStore } from 'src/platform/ai/electron/aiTextUsageStore';
+import { NullLogger } from 'test/utils/testService';
+import { FakeAsync } from 'test/utils/fakeAsync';
+
+suite('AITextUsageStore-test', () => {
+
+    let dir: URI;
+    let fileService: IFileService;
+
+    const usage = (prompt: number, completion: number) => ({ prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion });
+    const yesterday = Date.now() - 24 * 60 * 60 * 1000;
+
+    before(() => FakeAsync.run(async () => {
+        dir = URI.fromFile(join('temp', 'ai-usage'));
+        fileService = new FileService(new NullLogger());
+        fileService.registerProvider(Schemas.FILE, new InMemoryFileSystemProvider());
+        (await fileService.createDir(dir).unwrap());
+    }));
+
+    after(() => FakeAsync.run(async () => {
+        (await fileService.delete(dir, { recursive: true }).unwrap());
+        fileService.dispose();
+    }));
+
+    test('accumulate per model per day', () => FakeAsync.run(async () => {
+        const store = new AITextUsageStore(dir, fileService);
+        await store.record('deepseek-chat', usage(10, 5));
+        await store.record('deepseek-chat', usage(1, 2));
+        await store.record('gpt-4o-mini', usage(100, 0));
+        await store.record('deepseek-chat', usage(1000, 1000), yesterday);
+
+        const today = await store.getUsage();
+        assert.deepStrictEqual(today.find(each => each.model === 'deepseek-chat'), {
+            date: getDateStamp(),
+            model: 'deepseek-chat',
+            requests: 2,
+            promptTokens: 11,
+            completionTokens: 7,
+            totalTokens: 18,
+        });
+        assert.strictEqual(today.length, 2);
+        assert.strictEqual(await store.getTotalTokens(), 118);
+        assert.strictEqual(await store.getTotalTokens(getDateStamp(yesterday)), 2000);
+        assert.deepStrictEqual(await store.getUsage('1999-01-01'), []);
+
+        await store.close();
+        store.dispose();
+    }));
+
+    test('concurrent records are all counted', () => FakeAsync.run(async () => {
+        const store = new AITextUsageStore(dir, fileService);
+        const before = await store.getTotalTokens();
+        await Promise.all([
+            store.record('concurrent', usage(1, 1)),
+            store.record('concurrent', usage(2, 2)),
+            store.record('concurrent', usage(3, 3)),
+        ]);
+
+        const record = (await store.getUsage()).find(each => each.model === 'concurrent');
+        assert.strictEqual(record?.requests, 3);
+        assert.strictEqual(record?.totalTokens, 12);
+        assert.strictEqual(await store.getTotalTokens(), before + 12);
+
+        await store.close();
+        store.dispose();
+    }));
+
+    test('persist to disk', () => FakeAsync.run(async () => {
+        const store = new AITextUsageStore(dir, fileService);
+        const before = await store.getTotalTokens();
+        await store.record('model', usage(3, 4));
+        await store.close();
+        store.dispose();
+
+        const reopened = new AITextUsageStore(dir, fileService);
+        assert.strictEqual(await reopened.getTotalTokens(), before + 7);
+        await reopened.close();
+        reopened.dispose();
+    }));
+});
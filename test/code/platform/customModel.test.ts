@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { after, before } from 'mocha';
+import { Strings } from 'src/base/common/utilities/string';
+import { AI } from 'src/platform/ai/common/ai';
+import { TextCustomModel } from 'src/platform/ai/electron/customModel';
+
+suite('TextCustomModel-test', () => {
+
+    /**
+     * A stub of an OpenAI-compatible server that echoes back the requested
+     * model id and the content of the last message.
+     */
+    let server: http.Server;
+    let baseURL: string;
+    let lastAuthorization: string | undefined;
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                lastAuthorization = req.headers['authorization'];
+                const request = Strings.jsonParseSafe<any>(body).unwrap();
+                const content = `${request.model}:${request.messages[request.messages.length - 1].content}`;
+
+                if (!request.stream) {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(Strings.stringifySafe({
+                        id: 'stub-id',
+                        object: 'chat.completion',
+                        created: 0,
+                        model: request.model,
+                        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: content } }],
+                    }));
+                    return;
+                }
+
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                const chunks = [...content].map((char, index) => ({
+                    id: 'stub-id',
+                    object: 'chat.completion.chunk',
+                    created: 0,
+                    model: request.model,
+                    choices: [{ index: 0, finish_reason: index === content.length - 1 ? 'stop' : null, delta: { content: char } }],
+                }));
+                for (const chunk of chunks) {
+                    res.write(`data: ${Strings.stringifySafe(chunk)}\n\n`);
+                }
+                if (request.stream_options?.include_usage) {
+                    const usage = { prompt_tokens: 1, completion_tokens: content.length, total_tokens: content.length + 1 };
+                    res.write(`data: ${Strings.stringifySafe({ id: 'stub-id', object: 'chat.completion.chunk', created: 0, model: request.model, choices: [], usage: usage })}\n\n`);
+                }
+                res.end('data: [DONE]\n\n');
+            });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const port = (<AddressInfo>server.address()).port;
+        baseURL = `http://127.0.0.1:${port}/v1`;
+    });
+
+    after(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    function createModel(apiKey: string = ''): TextCustomModel {
+        return new TextCustomModel({
+            name: AI.ModelName.Custom,
+            baseURL: baseURL,
+            model: 'local-llama',
+            apiKey: apiKey,
+            maxRetries: 0,
+            // the testing environment has jsdom globals which looks like a browser.
+            dangerouslyAllowBrowser: true,
+        });
+    }
+
+    test('name', () => {
+        const model = createModel();
+        assert.strictEqual(model.name, AI.ModelName.Custom);
+        model.dispose();
+    });
+
+    test('base URL is required', () => {
+        assert.throws(() => new TextCustomModel({ name: AI.ModelName.Custom, apiKey: '' }));
+    });
+
+    test('sendRequest uses the configured model', async () => {
+        const model = createModel();
+        const response = await model.sendRequest({
+            model: 'gpt-4o',
+            messages: [{ role: 'user', content: 'hello' }],
+        }).unwrap();
+
+        assert.strictEqual(response.model, 'local-llama');
+        assert.strictEqual(response.primaryMessage.content, 'local-llama:hello');
+        assert.strictEqual(response.primaryMessage.finishReason, 'stop');
+        model.dispose();
+    });
+
+    test('sendRequestStream', async () => {
+        const model = createModel();
+        let content = '';
+        let finishReason: AI.Text.SingleMessageFinishReason = null;
+
+        await model.sendRequestStream({
+            model: 'gpt-4o',
+            stream: true,
+            messages: [{ role: 'user', content: 'hi' }],
+        }, chunk => {
+            content += chunk.primaryMessage.content ?? '';
+            finishReason = chunk.primaryMessage.finishReason;
+        }).unwrap();
+
+        assert.strictEqual(content, 'local-llama:hi');
+        assert.strictEqual(finishReason, 'stop');
+        model.dispose();
+    });
+
+    test('sendRequestStream - usage comes with the finishing chunk', async () => {
+        const model = createModel();
+        const chunks: AI.Text.Response[] = [];
+
+        await model.sendRequestStream({
+            model: '',
+            stream: true,
+            stream_options: { include_usage: true },
+            messages: [{ role: 'user', content: 'hi' }],
+        }, chunk => chunks.push(chunk)).unwrap();
+
+        const last = chunks[chunks.length - 1]!;
+        assert.strictEqual(chunks.map(chunk => chunk.primaryMessage.content).join(''), 'local-llama:hi');
+        assert.strictEqual(last.primaryMessage.finishReason, 'stop');
+        assert.deepStrictEqual(last.usage, { prompt_tokens: 1, completion_tokens: 14, total_tokens: 15 });
+        model.dispose();
+    });
+
+    test('optional API key', async () => {
+        const model = createModel();
+        await model.sendRequest({ model: '', messages: [{ role: 'user', content: 'a' }] }).unwrap();
+        assert.strictEqual(lastAuthorization, 'Bearer EMPTY');
+        model.dispose();
+
+        const keyed = createModel('secret');
+        await keyed.sendRequest({ model: '', messages: [{ role: 'user', content: 'a' }] }).unwrap();
+        assert.strictEqual(lastAuthorization, 'Bearer secret');
+        keyed.dispose();
+    });
+});
@@ -99,4 +99,72 @@ suite('DiskFileSystemProvider-test', () => {
             assert.strictEqual(err.code, FileOperationErrorType.FILE_NOT_FOUND);
         }
     });
+
+    test('Should write atomically without leaving temporary files', async () => {
+        const newContent = new Uint8Array(Buffer.from('New content'));
+        await provider.writeFile(testFileURI, newContent, { create: false, overwrite: true, atomic: true });
+        assert.deepStrictEqual(fs.readFileSync(URI.toFsPath(testFileURI)), Buffer.from(newContent));
+
+        // creates the file if not exist
+        await provider.writeFile(testNonFileURI, newContent, { create: true, overwrite: true, atomic: true });
+        assert.deepStrictEqual(fs.readFileSync(URI.toFsPath(testNonFileURI)), Buffer.from(newContent));
+
+        assert.deepStrictEqual(fs.readdirSync(URI.toFsPath(baseTestURI)).sort(), ['non-exist-test.txt', 'test.txt']);
+    });
+
+    test('Should preserve the permissions and the symbolic link when writing atomically', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const path = URI.toFsPath(testFileURI);
+        const linkURI = URI.join(baseTestURI, 'link.txt');
+        fs.chmodSync(path, 0o640);
+        fs.symlinkSync(path, URI.toFsPath(linkURI));
+
+        const newContent = new Uint8Array(Buffer.from('New content'));
+        await provider.writeFile(linkURI, newContent, { create: false, overwrite: true, atomic: true });
+
+        assert.ok(fs.lstatSync(URI.toFsPath(linkURI)).isSymbolicLink());
+        assert.deepStrictEqual(fs.readFileSync(path), Buffer.from(newContent));
+        assert.strictEqual(fs.statSync(path).mode & 0o777, 0o640);
+    });
+
+    test('Should not write atomically to a read-only file unless unlocked', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const path = URI.toFsPath(testFileURI);
+        fs.chmodSync(path, 0o444);
+
+        const newContent = new Uint8Array(Buffer.from('New content'));
+        try {
+            await provider.writeFile(testFileURI, newContent, { create: false, overwrite: true, unlock: false, atomic: true });
+            assert.fail('Should have thrown');
+        } catch (err) {
+            assert.ok(err instanceof FileSystemProviderError, 'not a FileSystemProviderError');
+            assert.strictEqual(err.code, FileOperationErrorType.NO_PERMISSIONS);
+        }
+        assert.deepStrictEqual(fs.readFileSync(path), Buffer.from(testFileContent));
+
+        await provider.writeFile(testFileURI, newContent, { create: false, overwrite: true, unlock: true, atomic: true });
+        assert.deepStrictEqual(fs.readFileSync(path), Buffer.from(newContent));
+        assert.strictEqual(fs.statSync(path).mode & 0o777, 0o644);
+    });
+
+    test('Should keep the target and clean up when the atomic write fails', async () => {
+        const dirURI = URI.join(baseTestURI, 'dir');
+        fs.mkdirSync(URI.toFsPath(dirURI));
+
+        try {
+            await provider.writeFile(dirURI, testFileContent, { create: true, overwrite: true, atomic: true });
+            assert.fail('Should have thrown');
+        } catch (err) {
+            assert.ok(err instanceof FileSystemProviderError);
+        }
+
+        assert.ok(fs.statSync(URI.toFsPath(dirURI)).isDirectory());
+        assert.deepStrictEqual(fs.readdirSync(URI.toFsPath(baseTestURI)).sort(), ['dir', 'test.txt']);
+    });
 });
@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import { after, before } from 'mocha';
+import { AIError } from 'src/base/common/error';
+import { Event } from 'src/base/common/event';
+import { join } from 'src/base/common/files/path';
+import { Schemas, URI } from 'src/base/common/files/uri';
+import { AsyncResult } from 'src/base/common/result';
+import { AI } from 'src/platform/ai/common/ai';
+import { AITextUsageStore } from 'src/platform/ai/electron/aiTextUsageStore';
+import { MainAITextService } from 'src/platform/ai/electron/mainAITextService';
+import { APP_DIR_NAME, IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IEncryptionService } from 'src/platform/encryption/common/encryptionService';
+import { IMainEnvironmentService } from 'src/platform/environment/common/environment';
+import { FileService, IFileService } from 'src/platform/files/common/fileService';
+import { InMemoryFileSystemProvider } from 'src/platform/files/common/inMemoryFileSystemProvider';
+import { IInstantiationService } from 'src/platform/instantiation/common/instantiation';
+import { IMainLifecycleService } from 'src/platform/lifecycle/electron/mainLifecycleService';
+import { IRegistrantService } from 'src/platform/registrant/common/registrantService';
+import { IMainStatusService } from 'src/platform/status/electron/mainStatusService';
+import { IMainWindowService } from 'src/platform/window/electron/mainWindowService';
+import { WorkbenchConfiguration } from 'src/workbench/services/workbench/configuration.register';
+import { FakeAsync } from 'test/utils/fakeAsync';
+import { NullLogger } from 'test/utils/testService';
+
+suite('MainAITextService-test', () => {
+
+    let dir: URI;
+    let fileService: IFileService;
+
+    const usage = (prompt: number, completion: number) => ({ prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion });
+
+    before(() => FakeAsync.run(async () => {
+        dir = URI.fromFile(join('temp', 'main-ai-text'));
+        fileService = new FileService(new NullLogger());
+        fileService.registerProvider(Schemas.FILE, new InMemoryFileSystemProvider());
+        (await fileService.createDir(URI.join(dir, APP_DIR_NAME)).unwrap());
+    }));
+
+    after(() => FakeAsync.run(async () => {
+        (await fileService.delete(dir, { recursive: true }).unwrap());
+        fileService.dispose();
+    }));
+
+    /**
+     * Creates the service with a model that records every request it receives.
+     */
+    async function createService(budget: number, requests: unknown[]): Promise<MainAITextService> {
+        const model = {
+            name: AI.ModelName.DeepSeek,
+            sendRequest: (options: unknown) => {
+                requests.push(options);
+                return AsyncResult.ok({ model: 'deepseek-chat', primaryMessage: { content: 'reply', finishReason: 'stop' } });
+            },
+            sendRequestStream: (options: unknown, onChunkReceived: (chunk: unknown) => void) => {
+                requests.push(options);
+                onChunkReceived({ model: 'deepseek-chat', primaryMessage: { content: 'reply', finishReason: 'stop' } });
+                return AsyncResult.ok(undefined);
+            },
+            dispose: () => {},
+        };
+        const configuration: Record<string, unknown> = {
+            [WorkbenchConfiguration.AiTextModel]: AI.ModelName.DeepSeek,
+            [WorkbenchConfiguration.AiDailyTokenBudget]: budget,
+        };
+
+        const service = new MainAITextService(
+            new NullLogger(),
+            <IInstantiationService><unknown>{ createInstance: () => model },
+            <IConfigurationService><unknown>{ get: (section: string, defaultValue: unknown) => configuration[section] ?? defaultValue },
+            <IMainStatusService><unknown>{ get: () => 'encrypted' },
+            <IMainWindowService><unknown>{ onDidOpenWindow: Event.NONE },
+            <IMainLifecycleService><unknown>{},
+            <IEncryptionService><unknown>{ decrypt: async () => 'key' },
+            <IRegistrantService><unknown>{ getRegistrant: () => ({ getRegisteredModel: () => model }) },
+            fileService,
+            <IMainEnvironmentService><unknown>{ userDataPath: dir },
+        );
+        await service.init();
+        return service;
+    }
+
+    test('refuses the requests once the daily token budget is used up', () => FakeAsync.run(async () => {
+        const usageStore = new AITextUsageStore(URI.join(dir, APP_DIR_NAME), fileService);
+        await usageStore.record('deepseek-chat', usage(6, 4));
+        await usageStore.close();
+        usageStore.dispose();
+
+        // within the budget
+        const requests: unknown[] = [];
+        const generous = await createService(11, requests);
+        (await generous.sendRequest({ model: 'deepseek-chat', messages: [] }).unwrap());
+        assert.strictEqual(requests.length, 1);
+        generous.dispose();
+
+        // the budget is used up
+        const strict = await createService(10, requests);
+        const result = await strict.sendRequest({ model: 'deepseek-chat', messages: [] });
+        assert.ok(result.isErr());
+        assert.strictEqual((<AIError>result.error).code, AIError.BUDGET_EXCEEDED);
+        assert.strictEqual((<AIError>result.error).errorCategory, 'Budget');
+
+        const streamed = await strict.sendRequestStream({ model: 'deepseek-chat', messages: [], stream: true }, () => assert.fail('should not stream'));
+        assert.ok(streamed.isErr());
+        assert.strictEqual(requests.length, 1);
+        strict.dispose();
+    }));
+
+    test('no budget by default', () => FakeAsync.run(async () => {
+        const requests: unknown[] = [];
+        const service = await createService(0, requests);
+        (await service.sendRequest({ model: 'deepseek-chat', messages: [] }).unwrap());
+        assert.strictEqual(requests.length, 1);
+        service.dispose();
+    }));
+
+    test('the session message is only saved along with the reply', () => FakeAsync.run(async () => {
+        const usageStore = new AITextUsageStore(URI.join(dir, APP_DIR_NAME), fileService);
+        await usageStore.record('deepseek-chat', usage(1, 0));
+        await usageStore.close();
+        usageStore.dispose();
+
+        const message: AI.Text.ISessionMessage = { role: 'user', content: 'hello' };
+        const options = { model: 'deepseek-chat', stream: true } as const;
+
+        // the budget is used up, the request fails
+        const requests: unknown[] = [];
+        const strict = await createService(1, requests);
+        const session = await strict.createSession({ systemPrompt: 'system' });
+        const result = await strict.sendSessionRequest(session.id, message, { model: 'deepseek-chat' });
+        assert.ok(result.isErr());
+        const streamed = await strict.sendSessionRequestStream(session.id, message, options, () => {});
+        assert.ok(streamed.isErr());
+        assert.deepStrictEqual((await strict.getSession(session.id))!.messages, [{ role: 'system', content: 'system' }]);
+        strict.dispose();
+
+        // succeeds without a budget
+        const service = await createService(0, requests);
+        (await service.sendSessionRequestStream(session.id, message, options, () => {}).unwrap());
+        assert.deepStrictEqual(requests, [{
+            ...options,
+            stream_options: { include_usage: true },
+            messages: [{ role: 'system', content: 'system' }, message],
+        }]);
+        assert.deepStrictEqual((await service.getSession(session.id))!.messages, [
+            { role: 'system', content: 'system' },
+            message,
+            { role: 'assistant', content: 'reply' },
+        ]);
+        service.dispose();
+    }));
+});
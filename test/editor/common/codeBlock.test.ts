@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { language } from '@codemirror/language';
+import { createCodeBlockView, resolveCodeBlockLanguage, setCodeBlockLanguage } from 'src/editor/common/codeBlock';
+import { CodeEditorView } from 'src/editor/common/codeMirror';
+
+suite('codeBlock-test', () => {
+
+    function getLanguageName(view: CodeEditorView): string | undefined {
+        return view.state.facet(language)?.name;
+    }
+
+    test('resolveCodeBlockLanguage', () => {
+        assert.strictEqual(resolveCodeBlockLanguage('typescript')?.id, 'typescript');
+        assert.strictEqual(resolveCodeBlockLanguage('TS')?.id, 'typescript');
+        assert.strictEqual(resolveCodeBlockLanguage(' js ')?.id, 'javascript');
+        assert.strictEqual(resolveCodeBlockLanguage('bash')?.id, 'shell');
+        assert.strictEqual(resolveCodeBlockLanguage('c++')?.id, 'cpp');
+        assert.strictEqual(resolveCodeBlockLanguage(''), undefined);
+        assert.strictEqual(resolveCodeBlockLanguage('unknown-lang'), undefined);
+    });
+
+    test('createCodeBlockView', () => {
+        const plain = createCodeBlockView('const a = 1;', '');
+        assert.strictEqual(getLanguageName(plain), undefined);
+        plain.destroy();
+
+        const unknown = createCodeBlockView('const a = 1;', 'unknown-lang');
+        assert.strictEqual(getLanguageName(unknown), undefined);
+        unknown.destroy();
+
+        const js = createCodeBlockView('const a = 1;', 'js');
+        assert.strictEqual(getLanguageName(js), 'javascript');
+        js.destroy();
+    });
+
+    test('setCodeBlockLanguage', () => {
+        const view = createCodeBlockView('{ "a": 1 }', '');
+        assert.strictEqual(getLanguageName(view), undefined);
+
+        setCodeBlockLanguage(view, 'json');
+        assert.strictEqual(getLanguageName(view), 'json');
+        assert.strictEqual(view.state.doc.toString(), '{ "a": 1 }');
+
+        setCodeBlockLanguage(view, '');
+        assert.strictEqual(getLanguageName(view), undefined);
+        view.destroy();
+    });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { history, undo } from 'prosemirror-history';
+import { TokenEnum } from 'src/editor/common/markdown';
+import { findHeadingSectionAt, getHeadingSection, moveHeadingSection, shiftHeadingSection } from 'src/editor/common/headingSection';
+import { ProseEditorState, ProseNode, ProseTransaction } from 'src/editor/common/proseMirror';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { createIntegration } from 'test/utils/integration';
+
+suite('headingSection-test', async () => {
+
+    const di = await createIntegration({
+        i18nService: true
+    });
+    const nodeProvider = DocumentNodeProvider.create(di).register();
+    const schema = buildSchema(nodeProvider);
+    const lexer = new MarkdownLexer({});
+    const docParser = new DocumentParser(schema, nodeProvider);
+
+    const content = [
+        '# A',
+        'a',
+        '## A1',
+        'a1',
+        '## A2',
+        '# B',
+        'b',
+    ];
+
+    // [test helper functions]
+
+    function createState(lines: string[]): ProseEditorState {
+        const doc = docParser.parse(lexer.lex(lines.join('\n')));
+        return ProseEditorState.create({ doc: doc, plugins: [history()] });
+    }
+
+    /**
+     * Returns the position right before the n-th top-level block.
+     */
+    function positionOf(state: ProseEditorState, index: number): number {
+        let position = 0;
+        for (let i = 0; i < index; i++) {
+            position += state.doc.child(i).nodeSize;
+        }
+        return position;
+    }
+
+    function blocks(doc: ProseNode): string[] {
+        const result: string[] = [];
+        doc.forEach(node => {
+            const prefix = node.type.name === TokenEnum.Heading ? '#'.repeat(node.attrs['level']) + ' ' : '';
+            result.push(prefix + node.textContent);
+        });
+        return result;
+    }
+
+    function apply(state: ProseEditorState, command: (dispatch: (tr: ProseTransaction) => void) => boolean): ProseEditorState {
+        let newState = state;
+        assert.ok(command(tr => newState = state.apply(tr)));
+        return newState;
+    }
+
+    // [end]
+
+    test('getHeadingSection', () => {
+        const state = createState(content);
+
+        const sectionA = getHeadingSection(state.doc, positionOf(state, 0))!;
+        assert.strictEqual(sectionA.from, 0);
+        assert.strictEqual(sectionA.to, positionOf(state, 5));
+        assert.strictEqual(sectionA.level, 1);
+
+        const sectionA1 = getHeadingSection(state.doc, positionOf(state, 2))!;
+        assert.strictEqual(sectionA1.to, positionOf(state, 4));
+
+        const sectionB = getHeadingSection(state.doc, positionOf(state, 5))!;
+        assert.strictEqual(sectionB.to, state.doc.content.size);
+
+        // not a heading
+        assert.strictEqual(getHeadingSection(state.doc, positionOf(state, 1)), undefined);
+    });
+
+    test('findHeadingSectionAt', () => {
+        const state = createState(['intro', ...content]);
+        assert.strictEqual(findHeadingSectionAt(state.doc, 1), undefined);
+        assert.strictEqual(findHeadingSectionAt(state.doc, positionOf(state, 2) + 1), positionOf(state, 1));
+        assert.strictEqual(findHeadingSectionAt(state.doc, positionOf(state, 4) + 1), positionOf(state, 3));
+        assert.strictEqual(findHeadingSectionAt(state.doc, state.doc.content.size - 1), positionOf(state, 6));
+    });
+
+    test('moveHeadingSection - move a section with its subordinate content', () => {
+        const state = createState(content);
+
+        const moved = apply(state, dispatch => moveHeadingSection(state, positionOf(state, 0), state.doc.content.size, dispatch));
+        assert.deepStrictEqual(blocks(moved.doc), ['# B', 'b', '# A', 'a', '## A1', 'a1', '## A2']);
+
+        const movedUp = apply(state, dispatch => moveHeadingSection(state, positionOf(state, 4), positionOf(state, 2), dispatch));
+        assert.deepStrictEqual(blocks(movedUp.doc), ['# A', 'a', '## A2', '## A1', 'a1', '# B', 'b']);
+    });
+
+    test('moveHeadingSection - not applicable', () => {
+        const state = createState(content);
+
+        // into its own section
+        assert.ok(!moveHeadingSection(state, 0, positionOf(state, 3)));
+        assert.ok(!moveHeadingSection(state, 0, 0));
+        assert.ok(!moveHeadingSection(state, 0, positionOf(state, 5)));
+
+        // not a block boundary
+        assert.ok(!moveHeadingSection(state, 0, positionOf(state, 5) + 1));
+
+        // not a heading
+        assert.ok(!moveHeadingSection(state, positionOf(state, 1), state.doc.content.size));
+    });
+
+    test('moveHeadingSection - one undoable transaction', () => {
+        const state = createState(content);
+        const moved = apply(state, dispatch => moveHeadingSection(state, 0, state.doc.content.size, dispatch));
+
+        let undone = moved;
+        assert.ok(undo(moved, tr => undone = moved.apply(tr)));
+        assert.deepStrictEqual(blocks(undone.doc), content);
+    });
+
+    test('shiftHeadingSection - promote and demote', () => {
+        const state = createState(content);
+
+        const demoted = apply(state, dispatch => shiftHeadingSection(state, 0, 1, dispatch));
+        assert.deepStrictEqual(blocks(demoted.doc), ['## A', 'a', '### A1', 'a1', '### A2', '# B', 'b']);
+
+        const promoted = apply(state, dispatch => shiftHeadingSection(state, positionOf(state, 2), -1, dispatch));
+        assert.deepStrictEqual(blocks(promoted.doc), ['# A', 'a', '# A1', 'a1', '## A2', '# B', 'b']);
+
+        let undone = demoted;
+        assert.ok(undo(demoted, tr => undone = demoted.apply(tr)));
+        assert.deepStrictEqual(blocks(undone.doc), content);
+    });
+
+    test('shiftHeadingSection - out of range', () => {
+        const state = createState(content);
+        assert.ok(!shiftHeadingSection(state, 0, -1));
+
+        const deep = createState(['##### A', '###### A1']);
+        assert.ok(!shiftHeadingSection(deep, 0, 1));
+        assert.ok(shiftHeadingSection(deep, 0, -1));
+    });
+});
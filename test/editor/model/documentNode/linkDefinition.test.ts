@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { before, suite, test } from 'mocha';
+import { MarkEnum, TokenEnum } from 'src/editor/common/markdown';
+import { ProseEditorState, ProseNode } from 'src/editor/common/proseMirror';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { MarkdownSerializer } from 'src/editor/model/serializer';
+import { createIntegration } from 'test/utils/integration';
+
+suite('LinkDefinition-test', () => {
+
+    let lexer: MarkdownLexer;
+    let docParser: DocumentParser;
+    let serializer: MarkdownSerializer;
+
+    before(async () => {
+        const di = await createIntegration({
+            i18nService: true
+        });
+        const nodeProvider = DocumentNodeProvider.create(di).register();
+        const schema = buildSchema(nodeProvider);
+        lexer = new MarkdownLexer({});
+        docParser = new DocumentParser(schema, nodeProvider);
+        serializer = new MarkdownSerializer(nodeProvider, { strict: true, escapeExtraCharacters: undefined });
+    });
+
+    function parse(content: string): ProseNode {
+        return docParser.parse(lexer.lex(content));
+    }
+
+    /**
+     * Returns the `href` of the first link in the document.
+     */
+    function firstLinkHref(doc: ProseNode): string | undefined {
+        let href: string | undefined;
+        doc.descendants(node => {
+            const link = node.marks.find(mark => mark.type.name === MarkEnum.Link);
+            if (link && href === undefined) {
+                href = link.attrs['href'];
+            }
+            return href === undefined;
+        });
+        return href;
+    }
+
+    test('kept as its markdown text', () => {
+        for (const content of [
+            '[foo]: https://example.com',
+            '[foo]: /url\n  "Title"\n\n[foo]',
+            '> [foo]: /url\n>\n> [foo]',
+            'See [foo] and [bar][].\n\n[foo]: /foo\n[bar]: /bar\n',
+        ]) {
+            assert.strictEqual(serializer.serialize(parse(content)), content);
+        }
+
+        const definition = parse('[foo]: /url "Title"').child(0);
+        assert.strictEqual(definition.type.name, TokenEnum.Def);
+        assert.strictEqual(definition.textContent, '[foo]: /url "Title"');
+    });
+
+    test('the definition text is editable', () => {
+        const doc = parse('[foo]: /url "Title"\n\nSee [foo].');
+        const state = ProseEditorState.create({ doc: doc });
+        const definition = doc.child(0);
+
+        // replace `/url` with `/new-url`
+        const from = 1 + definition.textContent.indexOf('/url');
+        const edited = state.apply(state.tr.insertText('/new-url', from, from + '/url'.length)).doc;
+        assert.strictEqual(edited.child(0).type.name, TokenEnum.Def);
+
+        const serialized = serializer.serialize(edited);
+        assert.strictEqual(serialized, '[foo]: /new-url "Title"\n\nSee [foo].');
+
+        // the reference link resolves to the edited definition
+        assert.strictEqual(firstLinkHref(parse(serialized)), '/new-url');
+    });
+});
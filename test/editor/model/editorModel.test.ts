@@ -0,0 +1,238 @@
+import * as assert from 'assert';
+import { undoDepth } from 'prosemirror-history';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { delayFor } from 'src/base/common/utilities/async';
+import { Time } from 'src/base/common/date';
+import { EDITOR_OPTIONS_DEFAULT } from 'src/editor/common/editorConfiguration';
+import { FileConflictError } from 'src/editor/common/model';
+import { ProseTransaction } from 'src/editor/common/proseMirror';
+import { EditorModel } from 'src/editor/model/editorModel';
+import { IOnDidContentChangeEvent } from 'src/editor/view/proseEventBroadcaster';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('EditorModel-test', () => {
+
+    test('save - refuses to overwrite the file modified on the disk', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('mine')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        await model.build([]).unwrap();
+
+        let conflicts = 0;
+        model.onDidConflict(() => conflicts++);
+
+        // only touched, the content remains the same
+        await delayFor(Time.ms(20));
+        await fileService.writeFile(source, DataBuffer.fromString('mine'), { create: false, overwrite: true, unlock: false }).unwrap();
+        model.insertAt(0, 'unsaved');
+        assert.ok(model.dirty);
+        await model.save().unwrap();
+        assert.strictEqual(conflicts, 0);
+
+        // modified by others
+        await delayFor(Time.ms(20));
+        await fileService.writeFile(source, DataBuffer.fromString('theirs'), { create: false, overwrite: true, unlock: false }).unwrap();
+        model.insertAt(0, 'unsaved');
+        const error = await model.save().unwrapErr();
+        assert.ok(error instanceof FileConflictError);
+        assert.strictEqual(conflicts, 1);
+        assert.ok(model.dirty);
+        assert.strictEqual((await fileService.readFile(source).unwrap()).toString(), 'theirs');
+
+        // the unresolved conflict is reported once
+        assert.ok(await model.save().unwrapErr() instanceof FileConflictError);
+        assert.strictEqual(conflicts, 1);
+
+        // keep mine
+        await model.save({ force: true }).unwrap();
+        assert.ok(!model.dirty);
+        assert.strictEqual((await fileService.readFile(source).unwrap()).toString(), 'mine');
+
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('setRawContent - replaces only the changed blocks', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('first\n\nsecond\n\nthird')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        let state = await model.build([]).unwrap();
+
+        // the view applies the transaction back to the model
+        const transactions: ProseTransaction[] = [];
+        model.onTransaction(tr => {
+            transactions.push(tr);
+            state = state.apply(tr);
+            model.__onDidStateChange(<IOnDidContentChangeEvent><unknown>{ view: { state: state }, transaction: tr });
+        });
+
+        const first = state.doc.child(0);
+        model.setRawContent('first\n\nsecond changed\n\nthird');
+        assert.strictEqual(transactions.length, 1);
+        assert.strictEqual(transactions[0]!.steps.length, 1);
+        assert.strictEqual(model.getRawContent(), 'first\n\nsecond changed\n\nthird');
+
+        // the unchanged block is kept as it is
+        assert.strictEqual(state.doc.child(0), first);
+
+        // nothing to replace
+        model.setRawContent('first\n\nsecond changed\n\nthird');
+        assert.strictEqual(transactions.length, 1);
+
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('build - reopens the built model without reading the file again', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('first')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        let state = await model.build([]).unwrap();
+        model.onTransaction(tr => {
+            state = state.apply(tr);
+            model.__onDidStateChange(<IOnDidContentChangeEvent><unknown>{ view: { state: state }, transaction: tr });
+        });
+        model.insertAt(0, 'unsaved');
+        assert.ok(model.dirty);
+
+        // the unsaved changes and the undo history are kept
+        let builds = 0;
+        model.onDidBuild(() => builds++);
+        await fileService.writeFile(source, DataBuffer.fromString('theirs'), { create: false, overwrite: true, unlock: false }).unwrap();
+        const reopened = await model.build([]).unwrap();
+        assert.strictEqual(reopened.doc, state.doc);
+        assert.ok(undoDepth(reopened) > 0);
+        assert.strictEqual(builds, 0);
+        assert.ok(model.dirty);
+
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('restoreBackup - the file modified since the backup is in conflict', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('saved')).unwrap();
+
+        // the file is not modified since the backup
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        await model.build([]).unwrap();
+        const modifyTime = model.diskModifyTime;
+        model.restoreBackup('unsaved', modifyTime);
+        assert.ok(model.dirty);
+        assert.ok(!model.conflicted);
+        assert.strictEqual(model.getRawContent(), 'unsaved');
+        await model.save().unwrap();
+        model.dispose();
+
+        // modified by others since the backup
+        await delayFor(Time.ms(20));
+        await fileService.writeFile(source, DataBuffer.fromString('theirs'), { create: false, overwrite: true, unlock: false }).unwrap();
+        const restored = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        await restored.build([]).unwrap();
+        let conflicts = 0;
+        restored.onDidConflict(() => conflicts++);
+
+        restored.restoreBackup('mine', modifyTime);
+        assert.ok(restored.dirty);
+        assert.ok(restored.conflicted);
+        assert.strictEqual(conflicts, 1);
+        assert.ok(await restored.save().unwrapErr() instanceof FileConflictError);
+        assert.strictEqual((await fileService.readFile(source).unwrap()).toString(), 'theirs');
+
+        restored.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('reload - replaces the content of a model without views', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('saved')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        await model.build([]).unwrap();
+
+        // edited while no views are attached
+        model.setRawContent('mine');
+        assert.ok(model.dirty);
+        assert.strictEqual(model.getRawContent(), 'mine');
+
+        // take the disk version
+        await delayFor(Time.ms(20));
+        await fileService.writeFile(source, DataBuffer.fromString('theirs'), { create: false, overwrite: true, unlock: false }).unwrap();
+        await model.reload().unwrap();
+        assert.ok(!model.dirty);
+        assert.strictEqual(model.getRawContent(), 'theirs');
+
+        // the next save is based on the disk version
+        model.setRawContent('theirs changed');
+        await model.save().unwrap();
+        assert.strictEqual((await fileService.readFile(source).unwrap()).toString(), 'theirs changed');
+
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('rebind - the dirty model is saved into the renamed file', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+        const root = URI.join(TestURI, 'editorModelTest');
+        const source = URI.join(root, 'note.md');
+        const renamed = URI.join(root, 'renamed.md');
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('saved')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        await model.build([]).unwrap();
+        let conflicts = 0;
+        model.onDidConflict(() => conflicts++);
+
+        model.setRawContent('unsaved');
+        assert.ok(model.dirty);
+
+        await fileService.moveTo(source, renamed).unwrap();
+        model.rebind(renamed);
+        assert.ok(URI.equals(model.source, renamed));
+        assert.ok(model.dirty);
+        assert.strictEqual(model.getRawContent(), 'unsaved');
+
+        await model.save().unwrap();
+        assert.ok(!model.dirty);
+        assert.strictEqual(conflicts, 0);
+        assert.strictEqual((await fileService.readFile(renamed).unwrap()).toString(), 'unsaved');
+        assert.ok(!await fileService.exist(source).unwrap());
+
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+});
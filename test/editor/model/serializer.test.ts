@@ -5,6 +5,7 @@ import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNode
 import { DocumentParser } from 'src/editor/model/parser';
 import { buildSchema } from 'src/editor/model/schema';
 import { IncrementalDelimiter, MarkdownSerializer } from 'src/editor/model/serializer';
+import { ProseFragment, ProseSlice } from 'src/editor/common/proseMirror';
 import { ConsoleLogger } from 'src/platform/logger/common/consoleLoggerService';
 import { createIntegration } from 'test/utils/integration';
 
@@ -114,6 +115,35 @@ suite('MarkdownSerializer', async () => {
         });
     });
 
+    suite('block offsets', () => {
+
+        function serializeWithOffsets(content: string): { content: string, blockOffsets: number[], childCount: number } {
+            const doc = docParser.parse(lexer.lex(content));
+            const blockOffsets: number[] = [];
+            const serialized = serializer.serialize(doc, blockOffsets);
+            return { content: serialized, blockOffsets, childCount: doc.childCount };
+        }
+
+        test('one offset per top-level block', () => {
+            const { content, blockOffsets, childCount } = serializeWithOffsets('# Title\n\nparagraph\n\n> quote');
+            assert.strictEqual(blockOffsets.length, childCount);
+            assert.strictEqual(blockOffsets[blockOffsets.length - 1], content.length);
+        });
+
+        test('offsets point to the end of each block', () => {
+            const { content, blockOffsets } = serializeWithOffsets('first\n\nsecond\n\nthird');
+            const blocks = blockOffsets
+                .map((end, i) => content.slice(i === 0 ? 0 : blockOffsets[i - 1]!, end).trim())
+                .filter(text => text.length > 0);
+            assert.deepStrictEqual(blocks, ['first', 'second', 'third']);
+        });
+
+        test('offsets are optional', () => {
+            const { content } = serializeWithOffsets('first\n\nsecond');
+            assert.strictEqual(content, parseAndSerialize('first\n\nsecond'));
+        });
+    });
+
     suite('corner case: preserveLastEndOfLine', () => {
         test('Paragraph - With new line at the end', () => {
             expectSame('paragraph1\n');
@@ -1185,6 +1215,157 @@ suite('MarkdownSerializer', async () => {
                 expectSame('1. Item 1\n   - Nested Item\n      * Deep Nested Item\n2. Item 2\n   1. Nested Ordered Item\n      - Mixed Nested Item');
             });
         });
+
+        suite('task list', () => {
+            test('Basic task list', () => {
+                expectSame('- [ ] todo\n- [x] done');
+            });
+
+            test('Uppercase marker', () => {
+                expectSame('- [X] done\n- [ ] todo');
+            });
+
+            test('Extra spacing after the marker', () => {
+                expectSame('- [x]  done\n- [ ]   todo');
+            });
+
+            test('Mixed with normal items', () => {
+                expectSame('- [ ] todo\n- normal item\n- [x] done');
+            });
+
+            test('Ordered task list', () => {
+                expectSame('1. [ ] first\n2. [x] second');
+            });
+
+            test('Nested task list', () => {
+                expectSame('- [ ] parent\n  - [x] child 1\n  - [ ] child 2\n- [x] other');
+            });
+
+            test('Inline formatting', () => {
+                expectSame('- [ ] **bold** and `code`\n- [x] ~~done~~');
+            });
+
+            test('Empty task', () => {
+                expectSame('- [x]\n- [ ] todo');
+            });
+
+            test('Not a task', () => {
+                expectSame('- [ ]\n- [y] not a task');
+            });
+        });
+
+        suite('table', () => {
+            test('Basic table', () => {
+                expectSame('| a | b |\n| --- | --- |\n| 1 | 2 |');
+            });
+
+            test('Header only', () => {
+                expectSame('| a | b |\n| --- | --- |');
+            });
+
+            test('Column alignment', () => {
+                expectSame('| left | center | right | none |\n|:--|:-:|--:|---|\n| 1 | 2 | 3 | 4 |');
+            });
+
+            test('Without leading and trailing pipes', () => {
+                expectSame('a | b\n--|--\n1 | 2');
+            });
+
+            test('Uneven cell padding', () => {
+                expectSame('|a|   b   |\n|-|---------|\n|  1|2  |');
+            });
+
+            test('Empty cells', () => {
+                expectSame('| a | b |\n| --- | --- |\n|  | 2 |\n| 1 |  |');
+            });
+
+            test('Row with less cells than the header', () => {
+                expectSame('| a | b | c |\n| --- | --- | --- |\n| 1 |');
+            });
+
+            test('Row with more cells than the header', () => {
+                expectSame('| a | b |\n| --- | --- |\n| 1 | 2 | 3 | 4 |');
+            });
+
+            test('Inline formatting inside cells', () => {
+                expectSame('| **bold** | *em* | `code` |\n| --- | --- | --- |\n| [link](https://example.com) | a **b** c | ![img](a.png) |');
+            });
+
+            test('Escaped pipes', () => {
+                expectSame('| a \\| b | `c \\| d` |\n| --- | --- |\n| 1 \\|\\| 2 | 3 |');
+            });
+
+            test('With new line at the end', () => {
+                expectSame('| a |\n| --- |\n| 1 |\n');
+            });
+
+            test('Surrounded by paragraphs', () => {
+                expectSame('paragraph1\n| a |\n| --- |\n| 1 |\n\nparagraph2');
+            });
+
+            test('Followed by multiple blank lines', () => {
+                expectSame('| a |\n| --- |\n| 1 |\n\n\n# heading');
+            });
+
+            test('Inside blockquote', () => {
+                expectSame('> | a | b |\n> | --- | --- |\n> | 1 | 2 |');
+            });
+
+            test('Inside blockquote - with new line at the end', () => {
+                expectSame('> | a | b |\n> | --- | --- |\n> | 1 | 2 |\n');
+            });
+        });
+
+        suite('link definition', () => {
+            test('Basic definition', () => {
+                expectSame('[foo]: https://example.com');
+            });
+
+            test('Definition with title', () => {
+                expectSame('[foo]: https://example.com "Title"\n\n[foo]');
+            });
+
+            test('Definition with other title styles', () => {
+                expectSame("[a]: /a 'single'\n[b]: /b (paren)\n\n[a] and [b]");
+            });
+
+            test('Definition with angle brackets', () => {
+                expectSame('[foo]: <https://example.com/a b>\n\n[foo]');
+            });
+
+            test('Definition with title on the next line', () => {
+                expectSame('[foo]: /url\n  "Title"\n\n[foo]');
+            });
+
+            test('Multiple definitions', () => {
+                expectSame('[a]: /a\n[b]: /b\n[c]: /c');
+            });
+
+            test('Definitions in the middle of the document', () => {
+                expectSame('Intro\n\n[foo]: /url\n\nSee [foo].');
+            });
+
+            test('Definitions at the end of the document', () => {
+                expectSame('See [foo] and [bar][].\n\n[foo]: /foo\n[bar]: /bar\n');
+            });
+
+            test('Definition in blockquote', () => {
+                expectSame('> [foo]: /url\n>\n> [foo]');
+            });
+
+            test('Definition cannot interrupt a paragraph', () => {
+                expectSame('paragraph\n[foo]: /url');
+            });
+
+            test('Edited definition is written as it is', () => {
+                const doc = docParser.parse(lexer.lex('[foo]: /url "Title"\n\nSee [foo].'));
+                const definition = doc.child(0);
+                const edited = doc.replace(1, definition.nodeSize - 1, new ProseSlice(ProseFragment.from(
+                    schema.text('[foo]: </new url> "New Title"')
+                ), 0, 0));
+                assert.strictEqual(serializer.serialize(edited), '[foo]: </new url> "New Title"\n\nSee [foo].');
+            });
+        });
     });
     
     suite('inline-level', () => {
@@ -1542,6 +1723,44 @@ suite('MarkdownSerializer', async () => {
             });
         });
         
+        suite('del', () => {
+            test('Basic strikethrough', () => {
+                expectSame('~~This is deleted~~');
+            });
+
+            test('Single tilde strikethrough', () => {
+                expectSame('~This is deleted~');
+            });
+
+            test('Strikethrough in the middle of text', () => {
+                expectSame('This is ~~deleted~~ text');
+            });
+
+            test('Strikethrough with bold and italic', () => {
+                expectSame('~~**bold** and *italic*~~');
+            });
+
+            test('Bold containing strikethrough', () => {
+                expectSame('**bold ~~deleted~~**');
+            });
+
+            test('Strikethrough with inline code', () => {
+                expectSame('~~deleted `code`~~');
+            });
+
+            test('Strikethrough inside a link', () => {
+                expectSame('[~~deleted~~](https://example.com)');
+            });
+
+            test('Unclosed strikethrough', () => {
+                expectSame('~~not deleted');
+            });
+
+            test('Escaped tildes', () => {
+                expectSame('\\~~not deleted\\~~');
+            });
+        });
+
         suite('link', () => {
             test('Basic link', () => {
                 expectSame('[example](https://example.com)');
@@ -1663,6 +1882,38 @@ suite('MarkdownSerializer', async () => {
             test('Link surrounded by parentheses', () => {
                 expectSame('(Here is a [link](https://example.com))');
             });
+
+            test('Bare URL', () => {
+                expectSame('Visit https://example.com now');
+            });
+
+            test('Bare www URL', () => {
+                expectSame('Visit www.example.com now');
+            });
+
+            test('Bare email', () => {
+                expectSame('Mail to foo@example.com now');
+            });
+
+            test('Full reference link', () => {
+                expectSame('See [example][ref].\n\n[ref]: https://example.com');
+            });
+
+            test('Collapsed reference link', () => {
+                expectSame('See [Example][].\n\n[example]: https://example.com');
+            });
+
+            test('Shortcut reference link', () => {
+                expectSame('See [example].\n\n[example]: https://example.com');
+            });
+
+            test('Reference link with formatting', () => {
+                expectSame('See [**bold** text][ref].\n\n[ref]: https://example.com');
+            });
+
+            test('Reference link defined before use', () => {
+                expectSame('[ref]: https://example.com "Title"\n\nSee [example][ref] and [ref].');
+            });
         });
     });
 });
\ No newline at end of file
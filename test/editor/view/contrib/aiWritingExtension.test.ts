@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { Result } from 'src/base/common/result';
+import { Blocker } from 'src/base/common/utilities/async';
+import { ICancellationToken } from 'src/base/common/utilities/cancellation';
+import { EDITOR_OPTIONS_DEFAULT } from 'src/editor/common/editorConfiguration';
+import { ProseEditorState, ProseEditorView, ProseTextSelection } from 'src/editor/common/proseMirror';
+import { AIWritingAction, EditorAIWritingExtension } from 'src/editor/contrib/aiWritingExtension/aiWritingExtension';
+import { EditorCommands } from 'src/editor/contrib/commandExtension/editorCommands';
+import { IEditorWidget } from 'src/editor/editorWidget';
+import { EditorModel } from 'src/editor/model/editorModel';
+import { AI } from 'src/platform/ai/common/ai';
+import { applyPromptTemplate, DEFAULT_PROMPT_TEMPLATES } from 'src/platform/ai/common/aiPromptTemplate';
+import { IAITextService } from 'src/platform/ai/common/aiText';
+import { IConfigurationService } from 'src/platform/configuration/common/configuration';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { INotificationService } from 'src/workbench/services/notification/notification';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('EditorAIWritingExtension-test', () => {
+
+    const root = URI.join(TestURI, 'aiWritingExtensionTest');
+    const source = URI.join(root, 'note.md');
+
+    function chunk(content: string, finishReason: AI.Text.SingleMessageFinishReason): AI.Text.Response {
+        return <AI.Text.Response><unknown>{ primaryMessage: { content: content, finishReason: finishReason } };
+    }
+
+    test('sends markdown and applies the parsed result once finished', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('first\n\nsome **bold** text')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        const state = await model.build([]).unwrap();
+
+        // the request is streamed manually
+        const requests: AI.Text.ISessionMessage[][] = [];
+        const requested = new Blocker<void>();
+        const finished = new Blocker<void>();
+        let onChunk: (chunk: AI.Text.Response) => void = () => {};
+        const aiTextService = <IAITextService><unknown>{
+            applyPromptTemplate: async (id: string, variables: AI.Text.PromptVariables) => applyPromptTemplate(DEFAULT_PROMPT_TEMPLATES.find(each => each.id === id)!, variables),
+            sendRequestStream: (options: { messages: AI.Text.ISessionMessage[] }, onChunkReceived: (chunk: AI.Text.Response) => void) => {
+                requests.push(options.messages);
+                onChunk = onChunkReceived;
+                requested.resolve();
+                return Result.fromPromise(() => finished.waiting());
+            },
+        };
+
+        const editor = <IEditorWidget><unknown>{ model: model, getExtension: () => extension };
+        const extension: EditorAIWritingExtension = new EditorAIWritingExtension(
+            editor,
+            aiTextService,
+            <IConfigurationService><unknown>{ get: (section: string, defaultValue: unknown) => defaultValue },
+            <INotificationService><unknown>{ error: () => assert.fail('should not fail') },
+        );
+        const view = new ProseEditorView(document.createElement('div'), {
+            state: ProseEditorState.create({ doc: state.doc, plugins: [extension.getViewExtension()] }),
+        });
+
+        // rewrite the second paragraph
+        const paragraph = view.state.doc.lastChild!;
+        const from = view.state.doc.content.size - paragraph.nodeSize + 1;
+        view.dispatch(view.state.tr.setSelection(ProseTextSelection.create(view.state.doc, from, from + paragraph.content.size)));
+        assert.ok(extension.start(AIWritingAction.Rewrite));
+
+        await requested.waiting();
+        const template = DEFAULT_PROMPT_TEMPLATES.find(each => each.id === 'rewrite-selection')!;
+        assert.deepStrictEqual(requests, [[
+            { role: 'system', content: template.system },
+            { role: 'user', content: 'some **bold** text' },
+        ]]);
+
+        // cannot accept while generating
+        const accept = new EditorCommands.AcceptAIWriting({ id: 'editor-ai-accept', when: null });
+        onChunk(chunk('new **strong**', null));
+        assert.ok(extension.isGenerating);
+        assert.ok(!extension.accept());
+        assert.ok(accept.run(undefined!, editor, view.state, view.dispatch));
+        assert.ok(extension.hasPreview);
+        assert.strictEqual(model.serialize(view.state.doc), 'first\n\nsome **bold** text');
+
+        onChunk(chunk(' words', 'stop'));
+        finished.resolve();
+        assert.ok(!extension.isGenerating);
+
+        assert.ok(accept.run(undefined!, editor, view.state, view.dispatch));
+        assert.ok(!extension.hasPreview);
+        assert.strictEqual(model.serialize(view.state.doc), 'first\n\nnew **strong** words');
+
+        view.destroy();
+        extension.dispose();
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+
+    test('editing the document cancels the stream and its error is not shown', async () => {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString('some text')).unwrap();
+
+        const model = di.createInstance(EditorModel, source, EDITOR_OPTIONS_DEFAULT);
+        const state = await model.build([]).unwrap();
+
+        const requested = new Blocker<void>();
+        const failed = new Blocker<void>();
+        let onChunk: (chunk: AI.Text.Response) => void = () => {};
+        let token: ICancellationToken | undefined;
+        let errors = 0;
+        const aiTextService = <IAITextService><unknown>{
+            applyPromptTemplate: async (id: string, variables: AI.Text.PromptVariables) => applyPromptTemplate(DEFAULT_PROMPT_TEMPLATES.find(each => each.id === id)!, variables),
+            sendRequestStream: (options: unknown, onChunkReceived: (chunk: AI.Text.Response) => void, cancellation: ICancellationToken) => {
+                onChunk = onChunkReceived;
+                token = cancellation;
+                requested.resolve();
+                return Result.fromPromise(() => failed.waiting());
+            },
+        };
+
+        const extension = new EditorAIWritingExtension(
+            <IEditorWidget><unknown>{ model: model },
+            aiTextService,
+            <IConfigurationService><unknown>{ get: (section: string, defaultValue: unknown) => defaultValue },
+            <INotificationService><unknown>{ error: () => errors++ },
+        );
+        const view = new ProseEditorView(document.createElement('div'), {
+            state: ProseEditorState.create({ doc: state.doc, plugins: [extension.getViewExtension()] }),
+        });
+
+        assert.ok(extension.start(AIWritingAction.Continue));
+        await requested.waiting();
+        onChunk(chunk('more', null));
+        assert.ok(extension.hasPreview);
+        assert.ok(!token!.isCancelled());
+
+        // an outside edit drops the session and cancels its stream
+        view.dispatch(view.state.tr.insertText('!', 1));
+        assert.ok(!extension.hasPreview);
+        assert.ok(token!.isCancelled());
+
+        // the rest of the stream is ignored
+        onChunk(chunk(' words', 'stop'));
+        assert.ok(!extension.hasPreview);
+        failed.reject(new Error('aborted'));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        assert.strictEqual(errors, 0);
+
+        view.destroy();
+        extension.dispose();
+        model.dispose();
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+    });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { history, undo } from 'prosemirror-history';
+import { CodeEditorView } from 'src/editor/common/codeMirror';
+import { TokenEnum } from 'src/editor/common/markdown';
+import { ProseEditorState, ProseNode, ProseTransaction } from 'src/editor/common/proseMirror';
+import { FindMatchType, findMatches, replaceMatches } from 'src/editor/contrib/findExtension/editorFind';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { createSearchRegExp } from 'src/base/common/search';
+import { createIntegration } from 'test/utils/integration';
+
+suite('editorFind-test', async () => {
+
+    const di = await createIntegration({
+        i18nService: true
+    });
+    const nodeProvider = DocumentNodeProvider.create(di).register();
+    const schema = buildSchema(nodeProvider);
+    const lexer = new MarkdownLexer({});
+    const docParser = new DocumentParser(schema, nodeProvider);
+
+    // [test helper functions]
+
+    function createState(lines: string[]): ProseEditorState {
+        const doc = docParser.parse(lexer.lex(lines.join('\n')));
+        return ProseEditorState.create({ doc: doc, plugins: [history()] });
+    }
+
+    function regexp(pattern: string, isRegExp?: boolean, isCaseSensitive?: boolean): RegExp {
+        return createSearchRegExp({ pattern, isRegExp, isCaseSensitive }).unwrap();
+    }
+
+    /**
+     * Returns the text of every block (excludes the spaces), code blocks and
+     * math are represented by their content.
+     */
+    function blocks(doc: ProseNode): string[] {
+        const result: string[] = [];
+        doc.forEach(node => {
+            if (node.type.name === TokenEnum.Space) {
+                return;
+            }
+            if (node.type.name === TokenEnum.CodeBlock) {
+                result.push((<CodeEditorView>node.attrs['view']).state.doc.toString());
+            } else if (node.type.name === TokenEnum.MathBlock) {
+                result.push(node.attrs['text']);
+            } else {
+                let text = '';
+                node.forEach(child => {
+                    text += child.type.name === TokenEnum.MathInline ? `$${child.attrs['text']}$` : child.textContent;
+                });
+                result.push(text);
+            }
+        });
+        return result;
+    }
+
+    function apply(state: ProseEditorState, command: (state: ProseEditorState, dispatch: (tr: ProseTransaction) => void) => boolean): ProseEditorState {
+        let newState = state;
+        assert.ok(command(state, tr => newState = state.apply(tr)));
+        return newState;
+    }
+
+    // [end]
+
+    test('findMatches - text across marks', () => {
+        const state = createState(['foo **fo**o bar', '', 'Foo']);
+
+        const matches = findMatches(state.doc, regexp('foo'));
+        assert.strictEqual(matches.length, 3);
+        assert.ok(matches.every(match => match.type === FindMatchType.Text));
+        assert.deepStrictEqual(matches.map(match => state.doc.textBetween(match.from, match.to)), ['foo', 'foo', 'Foo']);
+
+        const caseSensitive = findMatches(state.doc, regexp('foo', false, true));
+        assert.strictEqual(caseSensitive.length, 2);
+    });
+
+    test('findMatches - code blocks and math', () => {
+        const state = createState(['a x', '', '```js', 'let x = 1;', 'x++;', '```', '', '$$', 'x^2', '$$', '', 'b $x$ x']);
+
+        const matches = findMatches(state.doc, regexp('x'));
+        assert.deepStrictEqual(matches.map(match => match.type), [
+            FindMatchType.Text,
+            FindMatchType.CodeBlock,
+            FindMatchType.CodeBlock,
+            FindMatchType.Math,
+            FindMatchType.Math,
+            FindMatchType.Text,
+        ]);
+
+        // matches within the same code block share the node range
+        const [, first, second] = matches;
+        assert.strictEqual(first!.from, second!.from);
+        assert.deepStrictEqual(first!.inner, { start: 4, end: 5 });
+        assert.deepStrictEqual(second!.inner, { start: 11, end: 12 });
+        assert.strictEqual(state.doc.nodeAt(first!.from)!.type.name, TokenEnum.CodeBlock);
+
+        // math inline
+        assert.strictEqual(state.doc.nodeAt(matches[4]!.from)!.type.name, TokenEnum.MathInline);
+    });
+
+    test('replaceMatches - single undoable transaction', () => {
+        const state = createState(['a x', '', '```', 'x = x', '```', '', '$$', 'x^2', '$$', '', 'b $x$ x']);
+        const matches = findMatches(state.doc, regexp('x'));
+
+        const tr = state.tr;
+        assert.strictEqual(replaceMatches(tr, matches, 'yy'), 6);
+        const newState = state.apply(tr);
+        assert.deepStrictEqual(blocks(newState.doc), ['a yy', 'yy = yy', 'yy^2', 'b $yy$ yy']);
+        assert.strictEqual(findMatches(newState.doc, regexp('x')).length, 0);
+
+        const undone = apply(newState, undo);
+        assert.deepStrictEqual(blocks(undone.doc), ['a x', 'x = x', 'x^2', 'b $x$ x']);
+    });
+
+    test('replaceMatches - regular expression and empty replacement', () => {
+        const state = createState(['key: value', '', 'gone']);
+
+        const tr = state.tr;
+        replaceMatches(tr, findMatches(state.doc, regexp('(\\w+): (\\w+)', true)), '$2: $1', true);
+        replaceMatches(tr, findMatches(tr.doc, regexp('gone')), '');
+        assert.deepStrictEqual(blocks(tr.doc), ['value: key', '']);
+        assert.strictEqual(tr.doc.childCount, state.doc.childCount);
+    });
+});
@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import { before, suite, test } from 'mocha';
+import { MarkEnum, TokenEnum } from 'src/editor/common/markdown';
+import { ProseEditorState, ProseMarkType, ProseTextSelection } from 'src/editor/common/proseMirror';
+import { EditorCommands } from 'src/editor/contrib/commandExtension/editorCommands';
+import { InputRule, registerDefaultInputRules } from 'src/editor/contrib/inputRuleExtension/editorInputRules';
+import { IEditorInputRuleExtension, InputRuleReplacement } from 'src/editor/contrib/inputRuleExtension/inputRuleExtension';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { buildSchema, EditorSchema } from 'src/editor/model/schema';
+import { MarkdownSerializer } from 'src/editor/model/serializer';
+import { createIntegration } from 'test/utils/integration';
+
+suite('Strikethrough-test', () => {
+
+    let schema: EditorSchema;
+    let serializer: MarkdownSerializer;
+    let delType: ProseMarkType;
+    let delRule: InputRule;
+
+    before(async () => {
+        const di = await createIntegration({
+            i18nService: true
+        });
+        const nodeProvider = DocumentNodeProvider.create(di).register();
+        schema = buildSchema(nodeProvider);
+        serializer = new MarkdownSerializer(nodeProvider, { strict: true, escapeExtraCharacters: undefined });
+        delType = schema.marks[MarkEnum.Del]!;
+
+        const rules = new Map<string, InputRule>();
+        registerDefaultInputRules(<IEditorInputRuleExtension><unknown>{
+            registerRule: (id: string, pattern: RegExp, replacement: InputRuleReplacement) => rules.set(id, new InputRule(id, pattern, replacement)),
+        });
+        delRule = rules.get('delRule')!;
+    });
+
+    // [test helper functions]
+
+    /**
+     * Creates a paragraph of the given text with the cursor at the end.
+     */
+    function createState(text: string): ProseEditorState {
+        const paragraph = schema.node(TokenEnum.Paragraph, null, text ? [schema.text(text)] : []);
+        const doc = schema.node('doc', null, [paragraph]);
+        return ProseEditorState.create({ doc: doc, selection: ProseTextSelection.atEnd(doc) });
+    }
+
+    /**
+     * Types the given character at the cursor the way the input rule extension
+     * does. Returns `undefined` if the rule does not match.
+     */
+    function type(state: ProseEditorState, char: string): ProseEditorState | undefined {
+        const $cursor = (<ProseTextSelection>state.selection).$cursor!;
+        const textBefore = $cursor.parent.textBetween(0, $cursor.parentOffset, null, '\ufffc') + char;
+
+        const match = delRule.pattern.exec(textBefore);
+        if (!match) {
+            return undefined;
+        }
+
+        const start = $cursor.pos - (match[0].length - char.length);
+        const tr = delRule.onMatch(state, match, start, $cursor.pos);
+        return tr ? state.apply(tr) : undefined;
+    }
+
+    function toggleDel(state: ProseEditorState): ProseEditorState {
+        const command = EditorCommands.createToggleMarkCommand({ id: 'editor-toggle-mark-del', when: null }, delType, null, { removeWhenPresent: true, enterInlineAtoms: true });
+        let newState = state;
+        assert.ok(command.run(undefined!, undefined!, state, tr => newState = state.apply(tr)));
+        return newState;
+    }
+
+    // [end]
+
+    suite('input rule', () => {
+
+        test('marks the text between the double tildes', () => {
+            const state = type(createState('~~del~'), '~')!;
+            const paragraph = state.doc.child(0);
+            assert.strictEqual(paragraph.textContent, 'del');
+            assert.ok(delType.isInSet(paragraph.child(0).marks));
+            assert.strictEqual(serializer.serialize(state.doc), '~~del~~');
+        });
+
+        test('keeps the text before the syntax', () => {
+            const state = type(createState('a ~~b c~'), '~')!;
+            const paragraph = state.doc.child(0);
+            assert.strictEqual(paragraph.textContent, 'a b c');
+            assert.ok(!delType.isInSet(paragraph.child(0).marks));
+            assert.strictEqual(paragraph.child(1).text, 'b c');
+            assert.ok(delType.isInSet(paragraph.child(1).marks));
+            assert.strictEqual(serializer.serialize(state.doc), 'a ~~b c~~');
+        });
+
+        test('a single character', () => {
+            const state = type(createState('~~x~'), '~')!;
+            assert.strictEqual(state.doc.child(0).textContent, 'x');
+            assert.ok(delType.isInSet(state.doc.child(0).child(0).marks));
+        });
+
+        test('the mark does not continue after the syntax', () => {
+            const state = type(createState('~~del~'), '~')!;
+            assert.ok(!delType.isInSet(state.storedMarks ?? []));
+        });
+
+        test('the code fence is not matched', () => {
+            assert.strictEqual(type(createState('~~'), '~'), undefined);
+            assert.strictEqual(type(createState('~~~'), '~'), undefined);
+            assert.strictEqual(type(createState('~~~del~'), '~'), undefined);
+        });
+
+        test('the content cannot start or end with whitespace', () => {
+            assert.strictEqual(type(createState('~~ del~'), '~'), undefined);
+            assert.strictEqual(type(createState('~~del ~'), '~'), undefined);
+            assert.strictEqual(type(createState('~~ ~'), '~'), undefined);
+        });
+
+        test('the content cannot include tildes', () => {
+            assert.strictEqual(type(createState('~~a~b~'), '~'), undefined);
+        });
+
+        test('only the closing tildes trigger the rule', () => {
+            assert.strictEqual(type(createState('~~del~'), 'x'), undefined);
+        });
+    });
+
+    suite('toggle command', () => {
+
+        test('adds and removes the mark on the selection', () => {
+            let state = createState('a b c');
+            state = state.apply(state.tr.setSelection(ProseTextSelection.create(state.doc, 3, 4)));
+
+            state = toggleDel(state);
+            assert.strictEqual(serializer.serialize(state.doc), 'a ~~b~~ c');
+
+            state = toggleDel(state);
+            assert.strictEqual(serializer.serialize(state.doc), 'a b c');
+        });
+
+        test('toggles the word at the cursor', () => {
+            let state = createState('a bc');
+
+            state = toggleDel(state);
+            assert.strictEqual(serializer.serialize(state.doc), 'a ~~bc~~');
+
+            state = toggleDel(state);
+            assert.strictEqual(serializer.serialize(state.doc), 'a bc');
+        });
+    });
+});
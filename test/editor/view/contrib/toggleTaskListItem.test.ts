@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { ProseEditorState, ProseTextSelection } from 'src/editor/common/proseMirror';
+import { EditorCommands } from 'src/editor/contrib/commandExtension/editorCommands';
+import { DocumentNodeProvider } from 'src/editor/model/documentNode/documentNodeProvider';
+import { MarkdownLexer } from 'src/editor/model/markdownLexer';
+import { DocumentParser } from 'src/editor/model/parser';
+import { buildSchema } from 'src/editor/model/schema';
+import { MarkdownSerializer } from 'src/editor/model/serializer';
+import { createIntegration } from 'test/utils/integration';
+
+suite('ToggleTaskListItem-test', async () => {
+
+    const di = await createIntegration({
+        i18nService: true
+    });
+    const nodeProvider = DocumentNodeProvider.create(di).register();
+    const schema = buildSchema(nodeProvider);
+    const lexer = new MarkdownLexer({});
+    const docParser = new DocumentParser(schema, nodeProvider);
+    const serializer = new MarkdownSerializer(nodeProvider, { strict: true, escapeExtraCharacters: undefined });
+    const command = new EditorCommands.ToggleTaskListItem({ id: 'editor-toggle-task-list-item', when: null });
+
+    const content = '- [ ] a\n- [x] b\n- c';
+
+    // [test helper functions]
+
+    function createState(raw: string): ProseEditorState {
+        const doc = docParser.parse(lexer.lex(raw));
+        return ProseEditorState.create({ doc: doc });
+    }
+
+    /**
+     * Returns the position right before the n-th item of the first list.
+     */
+    function positionOf(state: ProseEditorState, index: number): number {
+        let position = 1;
+        for (let i = 0; i < index; i++) {
+            position += state.doc.child(0).child(i).nodeSize;
+        }
+        return position;
+    }
+
+    function toggle(state: ProseEditorState, position?: number): ProseEditorState {
+        let newState = state;
+        assert.ok(command.run(undefined!, undefined!, state, tr => newState = state.apply(tr), undefined, position));
+        return newState;
+    }
+
+    // [end]
+
+    test('toggles the item at the given position', () => {
+        let state = createState(content);
+
+        state = toggle(state, positionOf(state, 0));
+        assert.strictEqual(serializer.serialize(state.doc), '- [x] a\n- [x] b\n- c');
+
+        state = toggle(state, positionOf(state, 1));
+        assert.strictEqual(serializer.serialize(state.doc), '- [x] a\n- [ ] b\n- c');
+    });
+
+    test('toggles the item under the cursor', () => {
+        let state = createState(content);
+
+        // the cursor within the text of the second item
+        const cursor = positionOf(state, 1) + 2;
+        state = state.apply(state.tr.setSelection(ProseTextSelection.create(state.doc, cursor)));
+        state = toggle(state);
+        assert.strictEqual(serializer.serialize(state.doc), '- [ ] a\n- [ ] b\n- c');
+    });
+
+    test('converts a plain item into an unchecked task', () => {
+        let state = createState(content);
+        state = toggle(state, positionOf(state, 2));
+        assert.strictEqual(serializer.serialize(state.doc), '- [ ] a\n- [x] b\n- [ ] c');
+    });
+
+    test('nothing to toggle outside a list item', () => {
+        const state = createState('paragraph');
+        assert.ok(!command.run(undefined!, undefined!, state, undefined, undefined, 0));
+        assert.ok(!command.run(undefined!, undefined!, state));
+    });
+});
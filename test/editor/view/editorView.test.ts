@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import { undoDepth } from 'prosemirror-history';
+import { DataBuffer } from 'src/base/common/files/buffer';
+import { URI } from 'src/base/common/files/uri';
+import { IS_MAC } from 'src/base/common/platform';
+import { BooleanEditorOption, EDITOR_OPTIONS_DEFAULT, EditorModeOption, EditorOptionEnum, EditorOptionsType } from 'src/editor/common/editorConfiguration';
+import { EditorType } from 'src/editor/common/view';
+import { EditorModel } from 'src/editor/model/editorModel';
+import { EditorView } from 'src/editor/view/editorView';
+import { EditorViewModel } from 'src/editor/viewModel/editorViewModel';
+import { IFileService } from 'src/platform/files/common/fileService';
+import { createIntegration } from 'test/utils/integration';
+import { TestURI } from 'test/utils/testService';
+
+suite('EditorView-test', () => {
+
+    const root = URI.join(TestURI, 'editorViewTest');
+    const source = URI.join(root, 'note.md');
+
+    async function createView(content: string) {
+        const di = await createIntegration({ fileService: 'diskFile', i18nService: true });
+        const fileService = di.getService(IFileService);
+
+        await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+        await fileService.createFile(source, DataBuffer.fromString(content)).unwrap();
+
+        const options: EditorOptionsType = {
+            ...EDITOR_OPTIONS_DEFAULT,
+            writable: new BooleanEditorOption(EditorOptionEnum.writable, 'writable', true, {}),
+            mode: new EditorModeOption(EditorOptionEnum.mode, 'mode', EditorType.Rich, {}),
+        };
+
+        const model = di.createInstance(EditorModel, source, options);
+        const state = await model.build([]).unwrap();
+        const viewModel = di.createInstance(EditorViewModel, model);
+        const container = document.createElement('div');
+        const view = di.createInstance(EditorView, container, viewModel, state, [], options);
+
+        return {
+            di, model, view, options,
+            dispose: async () => {
+                view.dispose();
+                viewModel.dispose();
+                model.dispose();
+                await fileService.delete(root, { recursive: true }).unwrapOr(undefined);
+            },
+        };
+    }
+
+    function keydown(target: HTMLElement, key: string, keyCode: number, init: KeyboardEventInit = {}): void {
+        target.dispatchEvent(new window.KeyboardEvent('keydown', { key: key, keyCode: keyCode, bubbles: true, cancelable: true, ...init }));
+    }
+
+    test('switches the render mode with the same content', async () => {
+        const { model, view, dispose } = await createView('first\n\ncontent');
+        assert.strictEqual(view.renderMode, EditorType.Rich);
+        assert.strictEqual(view.plaintext, null);
+
+        view.setRenderMode(EditorType.Plain);
+        assert.strictEqual(view.renderMode, EditorType.Plain);
+        const plaintext = view.plaintext!;
+        assert.strictEqual(plaintext.getContent(), 'first\n\ncontent');
+
+        // the raw markdown is edited by the user
+        const cm = plaintext.internalView;
+        cm.dispatch({ changes: { from: cm.state.doc.length, insert: ' changed' } });
+        assert.strictEqual(model.getRawContent(), 'first\n\ncontent changed');
+
+        // the rich-text editor is edited by others
+        view.setRenderMode(EditorType.Split);
+        model.setRawContent('first\n\nreplaced');
+        assert.strictEqual(plaintext.getContent(), 'first\n\nreplaced');
+
+        view.setRenderMode(EditorType.Rich);
+        assert.strictEqual(view.renderMode, EditorType.Rich);
+        assert.strictEqual(view.editor.internalView.state.doc.lastChild!.textContent, 'replaced');
+
+        await dispose();
+    });
+
+    test('only forwards the undo, redo and save shortcuts of the raw markdown', async () => {
+        const { view, dispose } = await createView('content');
+        view.setRenderMode(EditorType.Plain);
+        const target = view.plaintext!.internalView.contentDOM;
+
+        const forwarded: string[] = [];
+        view.onKeydown(e => forwarded.push(e.event.browserEvent.key));
+
+        const modifier = IS_MAC ? { metaKey: true } : { ctrlKey: true };
+        keydown(target, 'b', 66, modifier);
+        keydown(target, '1', 49, modifier);
+        keydown(target, 'z', 90, modifier);
+        keydown(target, 'z', 90, { ...modifier, shiftKey: true });
+        keydown(target, 's', 83, modifier);
+        assert.deepStrictEqual(forwarded.map(key => key.toLowerCase()), ['z', 'z', 's']);
+
+        await dispose();
+    });
+
+    test('updates the editable state of the raw markdown', async () => {
+        const { view, options, dispose } = await createView('content');
+        view.setRenderMode(EditorType.Plain);
+        const plaintext = view.plaintext!;
+        assert.ok(plaintext.isEditable());
+
+        options.writable.updateWith(false);
+        view.setWritable(false);
+        assert.ok(!plaintext.isEditable());
+        assert.ok(plaintext.internalView.state.readOnly);
+
+        options.writable.updateWith(true);
+        view.setWritable(true);
+        assert.ok(plaintext.isEditable());
+
+        await dispose();
+    });
+
+    test('the views of the same model follow each other', async () => {
+        const { di, model, view, options, dispose } = await createView('first\n\nsecond');
+
+        // another view opens the same model
+        const state = await model.build([]).unwrap();
+        const viewModel = di.createInstance(EditorViewModel, model);
+        const other = di.createInstance(EditorView, document.createElement('div'), viewModel, state, [], options);
+        const otherView = other.editor.internalView;
+        const firstView = view.editor.internalView;
+
+        // edited by the user in one view
+        firstView.dispatch(firstView.state.tr.insertText('changed ', 1));
+        assert.strictEqual(otherView.state.doc.firstChild!.textContent, 'changed first');
+        assert.ok(otherView.state.doc.eq(firstView.state.doc));
+
+        // the following view does not record the change in its undo history
+        assert.strictEqual(undoDepth(otherView.state), 0);
+        assert.strictEqual(undoDepth(firstView.state), 1);
+
+        // edited by the model, applied once in each view
+        model.setRawContent('first\n\nreplaced');
+        assert.strictEqual(firstView.state.doc.lastChild!.textContent, 'replaced');
+        assert.ok(otherView.state.doc.eq(firstView.state.doc));
+        assert.strictEqual(model.getRawContent(), 'first\n\nreplaced');
+
+        other.dispose();
+        viewModel.dispose();
+        await dispose();
+    });
+});
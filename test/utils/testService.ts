@@ -324,6 +324,7 @@ export class NullHostService implements IHostService {
     public async toggleFullScreenWindow(id?: number): Promise<void> { panic("Method not implemented."); }
     public async closeWindow(id?: number): Promise<void> { panic("Method not implemented."); }
     public async reloadWindow(optionalConfiguration: Partial<IWindowCreationOptions>, id?: number): Promise<void> { panic("Method not implemented."); }
+    public async getAllWindowIDs(): Promise<number[]> { return []; }
     public async showOpenDialog(opts: Electron.OpenDialogOptions, id?: number): Promise<Electron.OpenDialogReturnValue> { panic("Method not implemented."); }
     public async showSaveDialog(opts: Electron.SaveDialogOptions, id?: number): Promise<Electron.SaveDialogReturnValue> { panic("Method not implemented."); }
     public async showMessageBox(opts: Electron.MessageBoxOptions, id?: number): Promise<Electron.MessageBoxReturnValue> { panic("Method not implemented."); }